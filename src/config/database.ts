@@ -1,6 +1,8 @@
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 
+import { runMigrations } from '../migrations/index.js';
+
 dotenv.config();
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/c3m_centralia';
@@ -22,6 +24,13 @@ export const connectDatabase = async (): Promise<void> => {
     console.error('❌ MongoDB connection error:', error);
     process.exit(1);
   }
+
+  try {
+    await runMigrations();
+  } catch (error) {
+    console.error('❌ Database migration error:', error);
+    // Keep serving; the migrations run again on the next start
+  }
 };
 
 export const disconnectDatabase = async (): Promise<void> => {
@@ -44,4 +44,21 @@ export const config = {
   cron: {
     secret: process.env.CRON_SECRET,
   },
+  booking: {
+    holdMinutes: parseInt(process.env.SLOT_HOLD_MINUTES || '10', 10),
+    waitlistOfferMinutes: parseInt(process.env.WAITLIST_OFFER_MINUTES || '30', 10),
+  },
+  meeting: {
+    provider: (process.env.MEETING_PROVIDER || 'local') as 'local' | 'jitsi',
+    jitsiBaseUrl: process.env.JITSI_BASE_URL || 'https://meet.jit.si',
+  },
+  payment: {
+    provider: (process.env.PAYMENT_PROVIDER || 'fake') as 'fake',
+    currency: process.env.PAYMENT_CURRENCY || 'USD',
+    timeoutMinutes: parseInt(process.env.PAYMENT_TIMEOUT_MINUTES || '30', 10),
+    webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET,
+  },
+  pricing: {
+    taxRate: parseFloat(process.env.DEFAULT_TAX_RATE || '15'), // for businesses without their own
+  },
 };
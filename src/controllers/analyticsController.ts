@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { analyticsService, AnalyticsGranularity, AnalyticsQuery } from '../services/index.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const getAnalyticsQuery = (req: Request): AnalyticsQuery => ({
+  fromDate: req.query.from as string | undefined,
+  toDate: req.query.to as string | undefined,
+  granularity: req.query.granularity as AnalyticsGranularity | undefined,
+});
+
+const getCaller = (req: Request) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('Unauthorized', 401);
+  }
+  return { userId: userId.toString(), userRole: req.user?.role || 'owner' };
+};
+
+const handleAnalyticsError = (error: unknown, next: NextFunction) => {
+  if (error instanceof Error && !(error instanceof AppError)) {
+    if (error.message.includes('Invalid business ID')) {
+      next(new AppError('Invalid business ID', 400));
+    } else if (error.message.includes('not found')) {
+      next(new AppError('Business not found', 404));
+    } else if (error.message.includes('Unauthorized')) {
+      next(new AppError('Not authorized to view this business', 403));
+    } else if (error.message.toLowerCase().includes('date')) {
+      next(new AppError(error.message, 400));
+    } else {
+      next(error);
+    }
+  } else {
+    next(error);
+  }
+};
+
+export const getReservationStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const stats = await analyticsService.getReservationsByStatus(
+      req.params.businessId,
+      userId,
+      userRole,
+      getAnalyticsQuery(req)
+    );
+
+    res.status(200).json({ status: 'success', data: stats });
+  } catch (error) {
+    handleAnalyticsError(error, next);
+  }
+};
+
+export const getRevenueStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const stats = await analyticsService.getRevenue(
+      req.params.businessId,
+      userId,
+      userRole,
+      getAnalyticsQuery(req)
+    );
+
+    res.status(200).json({ status: 'success', data: stats });
+  } catch (error) {
+    handleAnalyticsError(error, next);
+  }
+};
+
+export const getNoShowStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const stats = await analyticsService.getNoShowRates(
+      req.params.businessId,
+      userId,
+      userRole,
+      getAnalyticsQuery(req)
+    );
+
+    res.status(200).json({ status: 'success', data: stats });
+  } catch (error) {
+    handleAnalyticsError(error, next);
+  }
+};
+
+export const getUtilizationStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const stats = await analyticsService.getUtilization(
+      req.params.businessId,
+      userId,
+      userRole,
+      getAnalyticsQuery(req)
+    );
+
+    res.status(200).json({ status: 'success', data: stats });
+  } catch (error) {
+    handleAnalyticsError(error, next);
+  }
+};
+
+export const getTopServiceStats = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const { limit } = req.query;
+    const stats = await analyticsService.getTopServices(req.params.businessId, userId, userRole, {
+      ...getAnalyticsQuery(req),
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    res.status(200).json({ status: 'success', data: stats });
+  } catch (error) {
+    handleAnalyticsError(error, next);
+  }
+};
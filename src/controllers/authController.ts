@@ -55,6 +55,51 @@ export const login = async (req: Request, res: Response, next: NextFunction): Pr
   }
 };
 
+export const refresh = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    const result = await authService.refreshTokens(refreshToken);
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('reuse detected')) {
+        next(new AppError('Refresh token has already been used. Please log in again', 401));
+      } else if (
+        error.message.includes('Invalid refresh token') ||
+        error.message.includes('not found')
+      ) {
+        next(new AppError('Invalid refresh token', 401));
+      } else if (error.message.includes('inactive')) {
+        next(new AppError('Account is deactivated', 401));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    const result = await authService.logout(refreshToken);
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const getProfile = async (
   req: Request,
   res: Response,
@@ -92,9 +137,14 @@ export const updateProfile = async (
       throw new AppError('Unauthorized', 401);
     }
 
-    const { name, phone, avatar } = req.body;
+    const { name, phone, taxId, avatar } = req.body;
 
-    const user = await authService.updateProfile(userId.toString(), { name, phone, avatar });
+    const user = await authService.updateProfile(userId.toString(), {
+      name,
+      phone,
+      taxId,
+      avatar,
+    });
 
     res.status(200).json({
       status: 'success',
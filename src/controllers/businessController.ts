@@ -194,6 +194,50 @@ export const getMyBusiness = async (
   }
 };
 
+export const getClientAttendance = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const { minIncidents } = req.query;
+
+    const clients = await businessService.getClientAttendance(
+      req.params.id,
+      userId.toString(),
+      userRole || 'owner',
+      { minIncidents: minIncidents ? parseInt(minIncidents as string, 10) : undefined }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: clients.length,
+      data: { clients },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid business ID')) {
+        next(new AppError('Invalid business ID', 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError('Business not found', 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError('Not authorized to view this business', 403));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
 export const deleteBusiness = async (
   req: Request,
   res: Response,
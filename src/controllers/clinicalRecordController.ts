@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 
 import { ClinicalRecordService } from '../services/clinicalRecordService.js';
+import { healthProfileService } from '../services/healthProfileService.js';
 import { Specialist } from '../models/Specialist.js';
 import { AppError } from '../middleware/errorHandler.js';
 
@@ -37,6 +38,9 @@ export const createClinicalRecord = async (
         treatment: req.body.treatment,
         notes: req.body.notes,
         vitalSigns: req.body.vitalSigns,
+        healthProfile: req.body.healthProfile,
+        templateId: req.body.template,
+        answers: req.body.answers,
       }
     );
 
@@ -46,9 +50,11 @@ export const createClinicalRecord = async (
       req.user.role
     );
 
+    const healthProfile = await healthProfileService.findProfile(req.body.user, req.body.business);
+
     res.status(201).json({
       status: 'success',
-      data: { clinicalRecord: populatedRecord },
+      data: { clinicalRecord: populatedRecord, healthProfile },
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -56,9 +62,12 @@ export const createClinicalRecord = async (
         next(new AppError(error.message, 404));
       } else if (
         error.message.includes('unauthorized') ||
+        error.message.includes('Unauthorized') ||
         error.message.includes('does not belong')
       ) {
         next(new AppError(error.message, 403));
+      } else if (error.message.includes('Invalid')) {
+        next(new AppError(error.message, 400));
       } else if (error.message.includes('already exists')) {
         next(new AppError(error.message, 409));
       } else {
@@ -130,9 +139,15 @@ export const getClinicalRecordById = async (
       userRole || 'client'
     );
 
+    // Current allergies, conditions and medications next to the visit
+    const healthProfile = await healthProfileService.findProfile(
+      clinicalRecord.user._id.toString(),
+      clinicalRecord.business._id.toString()
+    );
+
     res.status(200).json({
       status: 'success',
-      data: { clinicalRecord },
+      data: { clinicalRecord, healthProfile },
     });
   } catch (error) {
     if (error instanceof Error) {
@@ -218,7 +233,7 @@ export const updateClinicalRecord = async (
   } catch (error) {
     if (error instanceof Error) {
       if (error.message.includes('Invalid')) {
-        next(new AppError('Invalid clinical record ID', 400));
+        next(new AppError(error.message, 400));
       } else if (error.message.includes('not found')) {
         next(new AppError('Clinical record not found', 404));
       } else if (error.message.includes('Unauthorized')) {
@@ -231,3 +246,212 @@ export const updateClinicalRecord = async (
     }
   }
 };
+
+const handleClinicalRecordError = (error: unknown, next: NextFunction) => {
+  if (error instanceof Error && !(error instanceof AppError)) {
+    if (error.message.includes('Invalid')) {
+      next(new AppError(error.message, 400));
+    } else if (error.message.includes('not found')) {
+      next(new AppError(error.message, 404));
+    } else if (error.message.includes('Unauthorized')) {
+      next(new AppError(error.message, 403));
+    } else {
+      next(error);
+    }
+  } else {
+    next(error);
+  }
+};
+
+export const deleteClinicalRecord = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const result = await clinicalRecordService.deleteClinicalRecord(
+      req.params.id,
+      userId.toString(),
+      userRole || 'client',
+      req.body.reason
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: result.message,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid')) {
+        next(new AppError('Invalid clinical record ID', 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError('Clinical record not found', 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError('Not authorized to delete this record', 403));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const getClinicalRecordRevisions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const revisions = await clinicalRecordService.getRevisions(
+      req.params.id,
+      userId.toString(),
+      userRole || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: revisions.length,
+      data: { revisions },
+    });
+  } catch (error) {
+    handleClinicalRecordError(error, next);
+  }
+};
+
+export const getClinicalRecordVersion = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const clinicalRecord = await clinicalRecordService.getClinicalRecordVersion(
+      req.params.id,
+      parseInt(req.params.version, 10),
+      userId.toString(),
+      userRole || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { clinicalRecord },
+    });
+  } catch (error) {
+    handleClinicalRecordError(error, next);
+  }
+};
+
+export const uploadClinicalRecordAttachment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    if (!req.file) {
+      throw new AppError('No file provided', 400);
+    }
+
+    const attachment = await clinicalRecordService.createAttachment(
+      userId.toString(),
+      userRole || 'client',
+      {
+        clinicalRecordId: req.params.id,
+        file: req.file,
+        description: req.body.description,
+      }
+    );
+
+    res.status(201).json({
+      status: 'success',
+      data: { attachment },
+    });
+  } catch (error) {
+    handleClinicalRecordError(error, next);
+  }
+};
+
+export const getClinicalRecordAttachments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const attachments = await clinicalRecordService.getAttachmentsByClinicalRecord(
+      req.params.id,
+      userId.toString(),
+      userRole || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: attachments.length,
+      data: { attachments },
+    });
+  } catch (error) {
+    handleClinicalRecordError(error, next);
+  }
+};
+
+export const deleteClinicalRecordAttachment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const result = await clinicalRecordService.deleteAttachment(
+      req.params.id,
+      req.params.attachmentId,
+      userId.toString(),
+      userRole || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: result.message,
+    });
+  } catch (error) {
+    handleClinicalRecordError(error, next);
+  }
+};
@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+
+import { businessService, clinicalRecordTemplateService } from '../services/index.js';
+
+// Verify user owns the business
+const isBusinessOwner = async (businessId: string, userId: string) => {
+  const business = await businessService.getBusinessById(businessId);
+  const businessOwnerId = business.user._id
+    ? business.user._id.toString()
+    : business.user.toString();
+  return businessOwnerId === userId;
+};
+
+const notAuthorized = (res: Response) =>
+  res.status(403).json({
+    status: 'error',
+    message: 'You are not authorized to manage clinical record templates for this business',
+  });
+
+const errorStatus = (message: string) => {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Unauthorized')) return 403;
+  return 400;
+};
+
+export const createClinicalRecordTemplate = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const template = await clinicalRecordTemplateService.createTemplate({
+      businessId,
+      name: req.body.name,
+      description: req.body.description,
+      specialty: req.body.specialty,
+      fields: req.body.fields,
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      data: { template },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to create clinical record template';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const getClinicalRecordTemplates = async (req: Request, res: Response) => {
+  try {
+    const templates = await clinicalRecordTemplateService.getTemplates(
+      req.params.businessId,
+      req.query.specialty as string | undefined
+    );
+
+    return res.status(200).json({
+      status: 'success',
+      results: templates.length,
+      data: { templates },
+    });
+  } catch (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to get clinical record templates',
+    });
+  }
+};
+
+export const getClinicalRecordTemplate = async (req: Request, res: Response) => {
+  try {
+    const { businessId, templateId } = req.params;
+    const template = await clinicalRecordTemplateService.getTemplate(templateId, businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      data: { template },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to get clinical record template';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const updateClinicalRecordTemplate = async (req: Request, res: Response) => {
+  try {
+    const { businessId, templateId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const template = await clinicalRecordTemplateService.updateTemplate(templateId, businessId, {
+      name: req.body.name,
+      description: req.body.description,
+      specialty: req.body.specialty,
+      fields: req.body.fields,
+      isActive: req.body.isActive,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: { template },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Failed to update clinical record template';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
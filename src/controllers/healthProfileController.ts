@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { healthProfileService } from '../services/healthProfileService.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const getCaller = (req: Request) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('Unauthorized', 401);
+  }
+  return { userId: userId.toString(), userRole: req.user?.role || 'client' };
+};
+
+const handleHealthProfileError = (error: unknown, next: NextFunction) => {
+  if (error instanceof Error && !(error instanceof AppError)) {
+    if (error.message.includes('Invalid')) {
+      next(new AppError(error.message, 400));
+    } else if (error.message.includes('not found')) {
+      next(new AppError(error.message, 404));
+    } else if (error.message.includes('Unauthorized')) {
+      next(new AppError(error.message, 403));
+    } else {
+      next(error);
+    }
+  } else {
+    next(error);
+  }
+};
+
+export const getHealthProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const healthProfile = await healthProfileService.getProfile(
+      req.params.patientId,
+      req.params.businessId,
+      userId,
+      userRole
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { healthProfile },
+    });
+  } catch (error) {
+    handleHealthProfileError(error, next);
+  }
+};
+
+export const getSharedHealthProfiles = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const healthProfiles = await healthProfileService.getSharedProfiles(
+      req.params.patientId,
+      req.params.businessId,
+      userId,
+      userRole
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: healthProfiles.length,
+      data: { healthProfiles },
+    });
+  } catch (error) {
+    handleHealthProfileError(error, next);
+  }
+};
+
+export const updateHealthProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const healthProfile = await healthProfileService.updateProfile(
+      req.params.patientId,
+      req.params.businessId,
+      userId,
+      userRole,
+      {
+        allergies: req.body.allergies,
+        conditions: req.body.conditions,
+        medications: req.body.medications,
+        disability: req.body.disability,
+      }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { healthProfile },
+    });
+  } catch (error) {
+    handleHealthProfileError(error, next);
+  }
+};
+
+export const updateHealthProfileSharing = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = getCaller(req);
+    const healthProfile = await healthProfileService.updateSharing(
+      req.params.patientId,
+      req.params.businessId,
+      userId,
+      req.body.businesses
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { healthProfile },
+    });
+  } catch (error) {
+    handleHealthProfileError(error, next);
+  }
+};
@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { invoiceService, InvoiceFilterData } from '../services/invoiceService.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+const getInvoiceFilter = (req: Request): InvoiceFilterData => {
+  const { from, to, page, limit } = req.query;
+
+  return {
+    fromDate: from ? new Date(from as string) : undefined,
+    toDate: to ? new Date(to as string) : undefined,
+    page: page ? parseInt(page as string, 10) : undefined,
+    limit: limit ? parseInt(limit as string, 10) : undefined,
+  };
+};
+
+const getCaller = (req: Request) => {
+  const userId = req.user?.userId;
+  if (!userId) {
+    throw new AppError('Unauthorized', 401);
+  }
+  return { userId: userId.toString(), userRole: req.user?.role || 'client' };
+};
+
+const handleInvoiceError = (error: unknown, next: NextFunction) => {
+  if (error instanceof Error && !(error instanceof AppError)) {
+    if (error.message.includes('Invalid')) {
+      next(new AppError(error.message, 400));
+    } else if (error.message.includes('not found')) {
+      next(new AppError(error.message, 404));
+    } else if (error.message.includes('Unauthorized')) {
+      next(new AppError(error.message, 403));
+    } else {
+      next(error);
+    }
+  } else {
+    next(error);
+  }
+};
+
+export const getBusinessInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const { invoices, pagination } = await invoiceService.getBusinessInvoices(
+      req.params.id,
+      userId,
+      userRole,
+      getInvoiceFilter(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: invoices.length,
+      data: { invoices, pagination },
+    });
+  } catch (error) {
+    handleInvoiceError(error, next);
+  }
+};
+
+export const getMyInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId } = getCaller(req);
+    const { invoices, pagination } = await invoiceService.getClientInvoices(
+      userId,
+      getInvoiceFilter(req)
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: invoices.length,
+      data: { invoices, pagination },
+    });
+  } catch (error) {
+    handleInvoiceError(error, next);
+  }
+};
+
+export const getInvoiceById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const invoice = await invoiceService.getInvoiceById(req.params.id, userId, userRole);
+
+    res.status(200).json({
+      status: 'success',
+      data: { invoice },
+    });
+  } catch (error) {
+    handleInvoiceError(error, next);
+  }
+};
+
+export const downloadInvoicePdf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { userId, userRole } = getCaller(req);
+    const invoice = await invoiceService.getInvoiceById(req.params.id, userId, userRole);
+    const pdf = await invoiceService.renderInvoicePdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${invoice.type}-${invoice.code}.pdf"`
+    );
+    res.status(200).send(pdf);
+  } catch (error) {
+    handleInvoiceError(error, next);
+  }
+};
@@ -0,0 +1,124 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { paymentService } from '../services/paymentService.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+export const handlePaymentWebhook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const signature = req.headers['x-payment-signature'];
+    const payment = await paymentService.handleWebhook(
+      req.body,
+      typeof signature === 'string' ? signature : undefined
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { payment: { _id: payment._id, status: payment.status } },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('signature')) {
+        next(new AppError(error.message, 401));
+      } else if (error.message.includes('Payments are unavailable')) {
+        next(new AppError(error.message, 503));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Invalid')) {
+        next(new AppError(error.message, 400));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const getReservationPayments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const payments = await paymentService.getReservationPayments(
+      req.params.id,
+      userId.toString(),
+      req.user?.role || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: payments.length,
+      data: { payments },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid')) {
+        next(new AppError(error.message, 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const retryReservationPayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const { payment, reservation } = await paymentService.retryCheckout(
+      req.params.id,
+      userId.toString()
+    );
+
+    res.status(201).json({
+      status: 'success',
+      data: { payment, reservation },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid')) {
+        next(new AppError(error.message, 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else if (
+        error.message.includes('does not require') ||
+        error.message.includes('not awaiting')
+      ) {
+        next(new AppError(error.message, 409));
+      } else if (error.message.includes('Payments are unavailable')) {
+        next(new AppError(error.message, 503));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
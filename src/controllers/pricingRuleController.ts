@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+
+import { businessService, pricingService } from '../services/index.js';
+
+// Verify user owns the business
+const isBusinessOwner = async (businessId: string, userId: string) => {
+  const business = await businessService.getBusinessById(businessId);
+  const businessOwnerId = business.user._id
+    ? business.user._id.toString()
+    : business.user.toString();
+  return businessOwnerId === userId;
+};
+
+const notAuthorized = (res: Response) =>
+  res.status(403).json({
+    status: 'error',
+    message: 'You are not authorized to manage pricing rules for this business',
+  });
+
+const errorStatus = (message: string) => {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Unauthorized')) return 403;
+  return 400;
+};
+
+export const createPricingRule = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const rule = await pricingService.createRule({
+      businessId,
+      name: req.body.name,
+      type: req.body.type,
+      percent: req.body.percent,
+      amount: req.body.amount,
+      services: req.body.services,
+      days: req.body.days,
+      startTime: req.body.startTime,
+      endTime: req.body.endTime,
+      validFrom: req.body.validFrom,
+      validTo: req.body.validTo,
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      data: { rule },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create pricing rule';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const getPricingRules = async (req: Request, res: Response) => {
+  try {
+    const rules = await pricingService.getRules(req.params.businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      results: rules.length,
+      data: { rules },
+    });
+  } catch (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to get pricing rules',
+    });
+  }
+};
+
+export const updatePricingRule = async (req: Request, res: Response) => {
+  try {
+    const { businessId, ruleId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const rule = await pricingService.updateRule(ruleId, businessId, {
+      name: req.body.name,
+      type: req.body.type,
+      percent: req.body.percent,
+      amount: req.body.amount,
+      services: req.body.services,
+      days: req.body.days,
+      startTime: req.body.startTime,
+      endTime: req.body.endTime,
+      validFrom: req.body.validFrom,
+      validTo: req.body.validTo,
+      isActive: req.body.isActive,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: { rule },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update pricing rule';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const deletePricingRule = async (req: Request, res: Response) => {
+  try {
+    const { businessId, ruleId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const result = await pricingService.deleteRule(ruleId, businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: result.message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete pricing rule';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 
 import { reservationService } from '../services/reservationService.js';
+import { slotHoldService } from '../services/slotHoldService.js';
 import { Specialist } from '../models/Specialist.js';
 import { AppError } from '../middleware/errorHandler.js';
 
@@ -10,7 +11,7 @@ export const createReservation = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { business, specialist, service, startDate, notes } = req.body;
+    const { business, specialist, service, startDate, notes, attendanceMode, hold } = req.body;
     const userId = req.user?.userId;
 
     if (!userId) {
@@ -24,6 +25,8 @@ export const createReservation = async (
       serviceId: service,
       startDate: new Date(startDate),
       notes,
+      attendanceMode,
+      holdId: hold,
     });
 
     res.status(201).json({
@@ -34,13 +37,215 @@ export const createReservation = async (
     if (error instanceof Error) {
       if (error.message.includes('not found') || error.message.includes('inactive')) {
         next(new AppError(error.message, 404));
-      } else if (error.message.includes('already booked')) {
+      } else if (
+        error.message.includes('already booked') ||
+        error.message.includes('held') ||
+        error.message.includes('Session is full') ||
+        error.message.includes('already have a seat') ||
+        error.message.includes('Hold has expired') ||
+        error.message.includes('busy')
+      ) {
         next(new AppError(error.message, 409));
       } else if (
         error.message.includes('does not belong') ||
-        error.message.includes('cannot provide')
+        error.message.includes('cannot provide') ||
+        error.message.includes('not available') ||
+        error.message.includes('remote')
       ) {
         next(new AppError(error.message, 400));
+      } else if (error.message.includes('Payments are unavailable')) {
+        next(new AppError(error.message, 503));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const createReservationSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const {
+      business,
+      specialist,
+      service,
+      startDate,
+      notes,
+      attendanceMode,
+      frequency,
+      count,
+      until,
+    } = req.body;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const result = await reservationService.createReservationSeries({
+      userId: userId.toString(),
+      businessId: business,
+      specialistId: specialist,
+      serviceId: service,
+      startDate: new Date(startDate),
+      notes,
+      attendanceMode,
+      frequency,
+      count,
+      until,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('inactive')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('None of the occurrences')) {
+        next(new AppError(error.message, 409));
+      } else if (
+        error.message.includes('does not belong') ||
+        error.message.includes('cannot provide') ||
+        error.message.includes('remote') ||
+        error.message.includes('series')
+      ) {
+        next(new AppError(error.message, 400));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const getReservationSeries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const result = await reservationService.getReservationSeries(
+      req.params.seriesId,
+      userId.toString(),
+      req.user?.role || 'client'
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid series ID')) {
+        next(new AppError('Invalid series ID', 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError('Reservation series not found', 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const createSlotHold = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { business, specialist, service, startDate } = req.body;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const hold = await reservationService.holdSlot({
+      userId: userId.toString(),
+      businessId: business,
+      specialistId: specialist,
+      serviceId: service,
+      startDate: new Date(startDate),
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: { hold },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('inactive')) {
+        next(new AppError(error.message, 404));
+      } else if (
+        error.message.includes('already booked') ||
+        error.message.includes('held') ||
+        error.message.includes('Session is full') ||
+        error.message.includes('already have a seat') ||
+        error.message.includes('busy')
+      ) {
+        next(new AppError(error.message, 409));
+      } else if (
+        error.message.includes('does not belong') ||
+        error.message.includes('cannot provide') ||
+        error.message.includes('not available')
+      ) {
+        next(new AppError(error.message, 400));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const releaseSlotHold = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    await slotHoldService.releaseUserHold(req.params.id, userId.toString());
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Hold released',
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.message.includes('Invalid hold ID') ||
+        error.message.includes('leaving the waitlist')
+      ) {
+        next(new AppError(error.message, 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
       } else {
         next(error);
       }
@@ -193,7 +398,7 @@ export const updateReservationStatus = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { status, cancellationReason } = req.body;
+    const { status, cancellationReason, scope } = req.body;
     const userId = req.user?.userId;
     const userRole = req.user?.role;
 
@@ -205,7 +410,7 @@ export const updateReservationStatus = async (
       req.params.id,
       userId.toString(),
       userRole || 'client',
-      { status, cancellationReason }
+      { status, cancellationReason, scope }
     );
 
     res.status(200).json({
@@ -223,6 +428,75 @@ export const updateReservationStatus = async (
         error.message.includes('Clients can only')
       ) {
         next(new AppError(error.message, 403));
+      } else if (error.message.includes('Only cancellations')) {
+        next(new AppError(error.message, 400));
+      } else if (
+        error.message.includes('Cannot change') ||
+        error.message.includes('already') ||
+        error.message.includes('cannot be marked') ||
+        error.message.includes('notice')
+      ) {
+        next(new AppError(error.message, 409));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const rescheduleReservation = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { startDate, reason, scope } = req.body;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const reservation = await reservationService.rescheduleReservation(
+      req.params.id,
+      userId.toString(),
+      userRole || 'client',
+      { startDate: new Date(startDate), reason, scope }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: { reservation },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid reservation ID')) {
+        next(new AppError('Invalid reservation ID', 400));
+      } else if (error.message.includes('Some occurrences')) {
+        next(new AppError(error.message, 409));
+      } else if (error.message.includes('not found') || error.message.includes('inactive')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else if (
+        error.message.includes('already booked') ||
+        error.message.includes('held') ||
+        error.message.includes('Session is full') ||
+        error.message.includes('already have a seat') ||
+        error.message.includes('busy') ||
+        error.message.includes('Only pending or confirmed') ||
+        error.message.includes('different price')
+      ) {
+        next(new AppError(error.message, 409));
+      } else if (
+        error.message.includes('does not belong') ||
+        error.message.includes('cannot provide') ||
+        error.message.includes('not available')
+      ) {
+        next(new AppError(error.message, 400));
       } else {
         next(error);
       }
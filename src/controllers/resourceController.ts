@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+
+import { businessService, resourceService } from '../services/index.js';
+
+// Verify user owns the business
+const isBusinessOwner = async (businessId: string, userId: string) => {
+  const business = await businessService.getBusinessById(businessId);
+  const businessOwnerId = business.user._id
+    ? business.user._id.toString()
+    : business.user.toString();
+  return businessOwnerId === userId;
+};
+
+const notAuthorized = (res: Response) =>
+  res.status(403).json({
+    status: 'error',
+    message: 'You are not authorized to manage resources for this business',
+  });
+
+const errorStatus = (message: string) => {
+  if (message.includes('not found')) return 404;
+  if (message.includes('Unauthorized')) return 403;
+  return 400;
+};
+
+export const createResource = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const resource = await resourceService.createResource({
+      businessId,
+      name: req.body.name,
+      type: req.body.type,
+      description: req.body.description,
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      data: { resource },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to create resource';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const getResources = async (req: Request, res: Response) => {
+  try {
+    const resources = await resourceService.getResources(req.params.businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      results: resources.length,
+      data: { resources },
+    });
+  } catch (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to get resources',
+    });
+  }
+};
+
+export const updateResource = async (req: Request, res: Response) => {
+  try {
+    const { businessId, resourceId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const resource = await resourceService.updateResource(resourceId, businessId, {
+      name: req.body.name,
+      type: req.body.type,
+      description: req.body.description,
+      isActive: req.body.isActive,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: { resource },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to update resource';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const deleteResource = async (req: Request, res: Response) => {
+  try {
+    const { businessId, resourceId } = req.params;
+    if (!(await isBusinessOwner(businessId, req.user!.userId))) {
+      return notAuthorized(res);
+    }
+
+    const result = await resourceService.deleteResource(resourceId, businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: result.message,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete resource';
+    return res.status(errorStatus(message)).json({
+      status: 'error',
+      message,
+    });
+  }
+};
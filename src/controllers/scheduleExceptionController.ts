@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+
+import { businessService, scheduleExceptionService } from '../services/index.js';
+
+export const createScheduleException = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    const userId = req.user!.userId;
+
+    // Verify user owns the business
+    const business = await businessService.getBusinessById(businessId);
+    const businessOwnerId = business.user._id
+      ? business.user._id.toString()
+      : business.user.toString();
+    if (businessOwnerId !== userId) {
+      return res.status(403).json({
+        status: 'error',
+        message: 'You are not authorized to manage schedule exceptions for this business',
+      });
+    }
+
+    const exception = await scheduleExceptionService.createException({
+      businessId,
+      specialistId: req.body.specialist,
+      type: req.body.type,
+      startDate: req.body.startDate,
+      endDate: req.body.endDate,
+      startTime: req.body.startTime,
+      endTime: req.body.endTime,
+      recurringYearly: req.body.recurringYearly,
+      reason: req.body.reason,
+    });
+
+    return res.status(201).json({
+      status: 'success',
+      data: { exception },
+    });
+  } catch (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to create schedule exception',
+    });
+  }
+};
+
+export const getScheduleExceptions = async (req: Request, res: Response) => {
+  try {
+    const { businessId } = req.params;
+    const exceptions = await scheduleExceptionService.getExceptions(businessId, {
+      specialistId: req.query.specialist as string | undefined,
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: { exceptions },
+    });
+  } catch (error) {
+    return res.status(400).json({
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Failed to get schedule exceptions',
+    });
+  }
+};
+
+export const deleteScheduleException = async (req: Request, res: Response) => {
+  try {
+    const { businessId, exceptionId } = req.params;
+    const userId = req.user!.userId;
+
+    // Verify user owns the business
+    const business = await businessService.getBusinessById(businessId);
+    const businessOwnerId = business.user._id
+      ? business.user._id.toString()
+      : business.user.toString();
+    if (businessOwnerId !== userId) {
+      return res.status(403).json({
+        status: 'error',
+        message: 'You are not authorized to manage schedule exceptions for this business',
+      });
+    }
+
+    await scheduleExceptionService.deleteException(exceptionId, businessId);
+
+    return res.status(200).json({
+      status: 'success',
+      message: 'Schedule exception deleted successfully',
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to delete schedule exception';
+    return res.status(message.includes('not found') ? 404 : 400).json({
+      status: 'error',
+      message,
+    });
+  }
+};
@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 
-import { businessService } from '../services/index.js';
+import { businessService, availabilityService, pricingService } from '../services/index.js';
 
 export const createService = async (req: Request, res: Response) => {
   try {
@@ -139,3 +139,54 @@ export const deleteService = async (req: Request, res: Response) => {
     });
   }
 };
+
+export const searchAvailableSlots = async (req: Request, res: Response) => {
+  try {
+    const { businessId, serviceId } = req.params;
+    const { from, to, timeFrom, timeTo, specialistId, limit } = req.query;
+
+    const result = await availabilityService.searchAvailableSlots({
+      businessId,
+      serviceId,
+      specialistId: specialistId as string | undefined,
+      fromDate: from as string | undefined,
+      toDate: to as string | undefined,
+      timeFrom: timeFrom as string | undefined,
+      timeTo: timeTo as string | undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    return res.status(200).json({
+      status: 'success',
+      data: result,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to search available slots';
+    return res.status(message.includes('not found') ? 404 : 400).json({
+      status: 'error',
+      message,
+    });
+  }
+};
+
+export const getServicePrice = async (req: Request, res: Response) => {
+  try {
+    const { businessId, serviceId } = req.params;
+    const price = await pricingService.getServicePrice(
+      businessId,
+      serviceId,
+      new Date(req.query.startDate as string)
+    );
+
+    return res.status(200).json({
+      status: 'success',
+      data: { price },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get service price';
+    return res.status(message.includes('not found') ? 404 : 400).json({
+      status: 'error',
+      message,
+    });
+  }
+};
@@ -28,6 +28,7 @@ export const createSpecialist = async (req: Request, res: Response) => {
       phone: req.body.phone,
       specialty: req.body.specialty,
       bio: req.body.bio,
+      timezone: req.body.timezone,
       schedule: req.body.schedule,
       services: req.body.services,
     });
@@ -109,6 +110,7 @@ export const updateSpecialist = async (req: Request, res: Response) => {
     const specialist = await businessService.updateSpecialist(specialistId, businessId, {
       specialty: req.body.specialty,
       bio: req.body.bio,
+      timezone: req.body.timezone,
       schedule: req.body.schedule,
       services: req.body.services,
     });
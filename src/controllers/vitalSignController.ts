@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { vitalSignService } from '../services/vitalSignService.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+export const getVitalSigns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const { from, to } = req.query;
+    const vitalSigns = await vitalSignService.getVitalSigns(
+      req.params.patientId,
+      req.params.businessId,
+      userId.toString(),
+      req.user?.role || 'client',
+      {
+        fromDate: from ? new Date(from as string) : undefined,
+        toDate: to ? new Date(to as string) : undefined,
+      }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: vitalSigns,
+    });
+  } catch (error) {
+    if (error instanceof Error && !(error instanceof AppError)) {
+      if (error.message.includes('Invalid')) {
+        next(new AppError(error.message, 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
@@ -0,0 +1,112 @@
+import { Request, Response, NextFunction } from 'express';
+
+import { waitlistService } from '../services/waitlistService.js';
+import { AppError } from '../middleware/errorHandler.js';
+
+export const joinWaitlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { business, specialist, service, fromDate, toDate, notes } = req.body;
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const entry = await waitlistService.joinWaitlist({
+      userId: userId.toString(),
+      businessId: business,
+      specialistId: specialist,
+      serviceId: service,
+      fromDate,
+      toDate,
+      notes,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: { entry },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('not found') || error.message.includes('inactive')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('already on the waitlist')) {
+        next(new AppError(error.message, 409));
+      } else if (
+        error.message.includes('does not belong') ||
+        error.message.includes('cannot provide')
+      ) {
+        next(new AppError(error.message, 400));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
+
+export const getMyWaitlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const entries = await waitlistService.getUserEntries(userId.toString());
+
+    res.status(200).json({
+      status: 'success',
+      results: entries.length,
+      data: { entries },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const leaveWaitlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new AppError('Unauthorized', 401);
+    }
+
+    const entry = await waitlistService.leaveWaitlist(req.params.id, userId.toString());
+
+    res.status(200).json({
+      status: 'success',
+      data: { entry },
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes('Invalid waitlist entry ID')) {
+        next(new AppError(error.message, 400));
+      } else if (error.message.includes('not found')) {
+        next(new AppError(error.message, 404));
+      } else if (error.message.includes('Unauthorized')) {
+        next(new AppError(error.message, 403));
+      } else if (error.message.includes('Only waiting or offered')) {
+        next(new AppError(error.message, 409));
+      } else {
+        next(error);
+      }
+    } else {
+      next(error);
+    }
+  }
+};
@@ -0,0 +1,30 @@
+import { Reservation } from '../models/Reservation.js';
+import { Migration } from './index.js';
+import { listIndexes } from './helpers.js';
+
+/**
+ * Reservations used to be unique per specialist and start time, which rejects
+ * the second seat of a group session. Conflicts are checked under the booking
+ * locks instead, so the unique index goes and the plain one is built in its place
+ */
+export const dropReservationSlotUniqueIndex: Migration = {
+  name: 'drop-reservation-slot-unique-index',
+
+  async up() {
+    const indexes = await listIndexes(Reservation.collection);
+    const slotIndexes = indexes.filter(
+      (index) =>
+        index.unique &&
+        JSON.stringify(index.key) === JSON.stringify({ specialist: 1, startDate: 1 })
+    );
+
+    for (const index of slotIndexes) {
+      await Reservation.collection.dropIndex(index.name!);
+      console.log(`Dropped reservation index ${index.name}`);
+    }
+
+    if (slotIndexes.length > 0) {
+      await Reservation.createIndexes();
+    }
+  },
+};
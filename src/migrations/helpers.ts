@@ -0,0 +1,16 @@
+import { Collection } from 'mongoose';
+
+/**
+ * Indexes of a collection, none when the collection does not exist yet
+ */
+export const listIndexes = async (collection: Collection) => {
+  try {
+    return await collection.indexes();
+  } catch (error) {
+    // NamespaceNotFound on a fresh database
+    if ((error as { code?: number }).code === 26) {
+      return [];
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,23 @@
+import { dropReservationSlotUniqueIndex } from './dropReservationSlotUniqueIndex.js';
+import { replaceClinicalRecordReservationIndex } from './replaceClinicalRecordReservationIndex.js';
+
+export interface Migration {
+  name: string;
+  up(): Promise<void>;
+}
+
+// In the order they were added
+const migrations: Migration[] = [
+  dropReservationSlotUniqueIndex,
+  replaceClinicalRecordReservationIndex,
+];
+
+/**
+ * Bring an existing database in line with the current models. Every migration
+ * looks at the database before changing it, so running them again is harmless
+ */
+export const runMigrations = async (): Promise<void> => {
+  for (const migration of migrations) {
+    await migration.up();
+  }
+};
@@ -0,0 +1,33 @@
+import { ClinicalRecord } from '../models/ClinicalRecord.js';
+import { Migration } from './index.js';
+import { listIndexes } from './helpers.js';
+
+/**
+ * The one record per reservation index used to count deleted records too, so a
+ * deleted record could not be replaced. Its replacement only covers records with
+ * isDeleted false, which older records get here before the new index is built
+ */
+export const replaceClinicalRecordReservationIndex: Migration = {
+  name: 'replace-clinical-record-reservation-index',
+
+  async up() {
+    await ClinicalRecord.collection.updateMany(
+      { isDeleted: { $exists: false }, deletedAt: null },
+      { $set: { isDeleted: false } }
+    );
+    await ClinicalRecord.collection.updateMany(
+      { isDeleted: { $exists: false }, deletedAt: { $ne: null } },
+      { $set: { isDeleted: true } }
+    );
+
+    const indexes = await listIndexes(ClinicalRecord.collection);
+    if (indexes.some((index) => index.name === 'reservation_1')) {
+      await ClinicalRecord.collection.dropIndex('reservation_1');
+      console.log('Dropped clinical record index reservation_1');
+    }
+
+    if (!indexes.some((index) => index.name === 'reservation_1_not_deleted')) {
+      await ClinicalRecord.createIndexes();
+    }
+  },
+};
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IBookingLock extends Document<Types.ObjectId> {
+  _id: Types.ObjectId; // the specialist ID, so at most one lock can exist per specialist
+  token: string; // identifies the holder, only the holder can release the lock
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const bookingLockSchema = new Schema<IBookingLock>(
+  {
+    _id: {
+      type: Schema.Types.ObjectId,
+      ref: 'Specialist',
+    },
+    token: {
+      type: String,
+      required: [true, 'Lock token is required'],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Locks left behind by crashed requests are taken over once expired and purged by MongoDB
+bookingLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const BookingLock =
+  mongoose.models.BookingLock || mongoose.model<IBookingLock>('BookingLock', bookingLockSchema);
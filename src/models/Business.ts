@@ -1,5 +1,8 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/timezone.js';
+import { VitalSignThresholds } from '../utils/vitalSigns.js';
+
 export interface IBusiness extends Document {
   user: Types.ObjectId;
   name: string;
@@ -12,12 +15,33 @@ export interface IBusiness extends Document {
   hasRemoteSessions: boolean;
   phone?: string;
   email?: string;
+  timezone: string; // IANA zone used for schedules, slots and notifications
+  // Opening hours capping every specialist's working blocks. A day may have several entries
   schedule?: {
     day: string;
     openTime: string;
     closeTime: string;
     isOpen: boolean;
   }[];
+  // When set, these take precedence over the values of each service
+  bookingSettings?: {
+    bufferBefore?: number;
+    bufferAfter?: number;
+    slotInterval?: number;
+  };
+  // Client cancellations with less notice than this are blocked or flagged as late.
+  // Paid amounts are refunded in full except on late cancellations
+  cancellationPolicy?: {
+    minNoticeHours: number;
+    lateCancellation: 'block' | 'flag';
+    lateRefundPercent: number;
+  };
+  // Tax applied to service prices; services may override both values
+  pricing?: {
+    taxRate?: number; // percent, defaults to DEFAULT_TAX_RATE
+    taxIncluded: boolean; // service prices already include the tax
+  };
+  vitalSignThresholds?: VitalSignThresholds; // overrides DEFAULT_VITAL_SIGN_THRESHOLDS
   theme?: {
     primary: string;
     secondary: string;
@@ -29,6 +53,14 @@ export interface IBusiness extends Document {
   updatedAt: Date;
 }
 
+const vitalSignRangeDefinition = {
+  type: {
+    min: Number,
+    max: Number,
+  },
+  _id: false,
+};
+
 const businessSchema = new Schema<IBusiness>(
   {
     user: {
@@ -87,20 +119,110 @@ const businessSchema = new Schema<IBusiness>(
       lowercase: true,
       match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
     },
+    timezone: {
+      type: String,
+      trim: true,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimeZone,
+        message: 'Timezone must be a valid IANA timezone (e.g., America/Guayaquil)',
+      },
+    },
     schedule: [
       {
         day: {
           type: String,
           enum: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'],
         },
-        openTime: String,
-        closeTime: String,
+        openTime: {
+          type: String,
+          match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Open time must be in HH:MM format'],
+        },
+        closeTime: {
+          type: String,
+          match: [/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Close time must be in HH:MM format'],
+        },
         isOpen: {
           type: Boolean,
           default: true,
         },
       },
     ],
+    bookingSettings: {
+      type: {
+        bufferBefore: {
+          type: Number,
+          min: [0, 'Buffer before cannot be negative'],
+          max: [120, 'Buffer before cannot exceed 120 minutes'],
+        },
+        bufferAfter: {
+          type: Number,
+          min: [0, 'Buffer after cannot be negative'],
+          max: [120, 'Buffer after cannot exceed 120 minutes'],
+        },
+        slotInterval: {
+          type: Number,
+          min: [5, 'Slot interval must be at least 5 minutes'],
+          max: [480, 'Slot interval cannot exceed 480 minutes'],
+        },
+      },
+      required: false,
+      _id: false,
+    },
+    cancellationPolicy: {
+      type: {
+        minNoticeHours: {
+          type: Number,
+          default: 0,
+          min: [0, 'Minimum notice cannot be negative'],
+          max: [720, 'Minimum notice cannot exceed 720 hours'],
+        },
+        lateCancellation: {
+          type: String,
+          enum: {
+            values: ['block', 'flag'],
+            message: 'Late cancellation must be block or flag',
+          },
+          default: 'flag',
+        },
+        lateRefundPercent: {
+          type: Number,
+          default: 0,
+          min: [0, 'Late refund percent cannot be negative'],
+          max: [100, 'Late refund percent cannot exceed 100'],
+        },
+      },
+      required: false,
+      _id: false,
+    },
+    pricing: {
+      type: {
+        taxRate: {
+          type: Number,
+          min: [0, 'Tax rate cannot be negative'],
+          max: [100, 'Tax rate cannot exceed 100'],
+        },
+        taxIncluded: {
+          type: Boolean,
+          default: false,
+        },
+      },
+      required: false,
+      _id: false,
+    },
+    vitalSignThresholds: {
+      type: {
+        weight: vitalSignRangeDefinition,
+        height: vitalSignRangeDefinition,
+        bmi: vitalSignRangeDefinition,
+        systolic: vitalSignRangeDefinition,
+        diastolic: vitalSignRangeDefinition,
+        heartRate: vitalSignRangeDefinition,
+        temperature: vitalSignRangeDefinition,
+      },
+      required: false,
+      _id: false,
+    },
     theme: {
       type: {
         primary: {
@@ -19,6 +19,16 @@ export interface IClinicalRecord extends Document {
   treatment: string;
   notes?: string;
   attachments?: Types.ObjectId[];
+  // Structured answers, validated against the template version the record was created with
+  template?: Types.ObjectId;
+  templateVersion?: number;
+  answers?: Record<string, unknown>;
+  version: number; // increased by every edit, see ClinicalRecordRevision
+  // Records are never removed, only marked as deleted
+  deletedAt?: Date;
+  isDeleted: boolean; // set from deletedAt, for the partial reservation index
+  deletedBy?: Types.ObjectId;
+  deletionReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -122,17 +132,63 @@ const clinicalRecordSchema = new Schema<IClinicalRecord>(
         ref: 'Attachment',
       },
     ],
+    template: {
+      type: Schema.Types.ObjectId,
+      ref: 'ClinicalRecordTemplate',
+    },
+    templateVersion: {
+      type: Number,
+      min: [1, 'Template version must be at least 1'],
+    },
+    answers: {
+      type: Schema.Types.Mixed,
+    },
+    version: {
+      type: Number,
+      default: 1,
+      min: [1, 'Version must be at least 1'],
+    },
+    deletedAt: {
+      type: Date,
+    },
+    isDeleted: {
+      type: Boolean,
+      default: false,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    deletionReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Deletion reason cannot exceed 500 characters'],
+    },
   },
   {
     timestamps: true,
   }
 );
 
+clinicalRecordSchema.pre('validate', function (next) {
+  this.isDeleted = Boolean(this.deletedAt);
+  next();
+});
+
 // Indexes
 clinicalRecordSchema.index({ user: 1, createdAt: -1 });
 clinicalRecordSchema.index({ specialist: 1 });
 clinicalRecordSchema.index({ business: 1 });
-clinicalRecordSchema.index({ reservation: 1 }, { unique: true, sparse: true });
+// One record per reservation, not counting deleted ones. Partial indexes cannot
+// filter on a missing deletedAt, hence the flag
+clinicalRecordSchema.index(
+  { reservation: 1 },
+  {
+    name: 'reservation_1_not_deleted',
+    unique: true,
+    partialFilterExpression: { reservation: { $exists: true }, isDeleted: false },
+  }
+);
 
 export const ClinicalRecord =
   mongoose.models.ClinicalRecord ||
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Immutable entry of the audit trail, written for every edit of a clinical record
+export interface IClinicalRecordRevision extends Document {
+  clinicalRecord: Types.ObjectId;
+  version: number; // version of the record the edit produced
+  author: Types.ObjectId;
+  changes: {
+    field: string;
+    from?: unknown; // value in the previous version
+    to?: unknown;
+  }[];
+  createdAt: Date;
+}
+
+const revisionChangeSchema = new Schema(
+  {
+    field: {
+      type: String,
+      required: [true, 'Changed field is required'],
+    },
+    from: Schema.Types.Mixed,
+    to: Schema.Types.Mixed,
+  },
+  { _id: false }
+);
+
+const clinicalRecordRevisionSchema = new Schema<IClinicalRecordRevision>(
+  {
+    clinicalRecord: {
+      type: Schema.Types.ObjectId,
+      ref: 'ClinicalRecord',
+      required: [true, 'Clinical record reference is required'],
+      immutable: true,
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+      min: [2, 'Revisions start at version 2'],
+      immutable: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Author is required'],
+      immutable: true,
+    },
+    changes: {
+      type: [revisionChangeSchema],
+      immutable: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+clinicalRecordRevisionSchema.index({ clinicalRecord: 1, version: 1 }, { unique: true });
+
+export const ClinicalRecordRevision =
+  mongoose.models.ClinicalRecordRevision ||
+  mongoose.model<IClinicalRecordRevision>('ClinicalRecordRevision', clinicalRecordRevisionSchema);
@@ -0,0 +1,155 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export const TEMPLATE_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'number',
+  'boolean',
+  'date',
+  'select',
+  'multiselect',
+] as const;
+
+export type TemplateFieldType = (typeof TEMPLATE_FIELD_TYPES)[number];
+
+export interface IClinicalRecordTemplateField {
+  key: string; // name of the answer in ClinicalRecord.answers
+  label: string;
+  type: TemplateFieldType;
+  required: boolean;
+  options: string[]; // select and multiselect fields only
+  // Number fields only
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface IClinicalRecordTemplateVersion {
+  version: number;
+  fields: IClinicalRecordTemplateField[];
+  replacedAt: Date;
+}
+
+// Structured form a business uses for the clinical records of its specialists
+export interface IClinicalRecordTemplate extends Document {
+  business: Types.ObjectId;
+  name: string;
+  description?: string;
+  specialty?: string; // only specialists of this specialty use it, every one when empty
+  // Current version. Records keep the version they were created with, so
+  // changing the fields starts a new one and keeps the previous in the history
+  version: number;
+  fields: Types.DocumentArray<IClinicalRecordTemplateField & Types.Subdocument>;
+  previousVersions: IClinicalRecordTemplateVersion[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const templateFieldSchema = new Schema<IClinicalRecordTemplateField>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Field key is required'],
+      trim: true,
+      match: [
+        /^[a-zA-Z][a-zA-Z0-9_]*$/,
+        'Field keys must start with a letter and contain only letters, numbers and underscores',
+      ],
+      maxlength: [50, 'Field key cannot exceed 50 characters'],
+    },
+    label: {
+      type: String,
+      required: [true, 'Field label is required'],
+      trim: true,
+      maxlength: [200, 'Field label cannot exceed 200 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: TEMPLATE_FIELD_TYPES,
+        message: `Field type must be one of ${TEMPLATE_FIELD_TYPES.join(', ')}`,
+      },
+      required: [true, 'Field type is required'],
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    options: [
+      {
+        type: String,
+        trim: true,
+      },
+    ],
+    unit: {
+      type: String,
+      trim: true,
+      maxlength: [20, 'Unit cannot exceed 20 characters'],
+    },
+    min: Number,
+    max: Number,
+  },
+  { _id: false }
+);
+
+const templateVersionSchema = new Schema<IClinicalRecordTemplateVersion>(
+  {
+    version: {
+      type: Number,
+      required: [true, 'Version is required'],
+    },
+    fields: [templateFieldSchema],
+    replacedAt: {
+      type: Date,
+      required: [true, 'Replacement date is required'],
+    },
+  },
+  { _id: false }
+);
+
+const clinicalRecordTemplateSchema = new Schema<IClinicalRecordTemplate>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Template name is required'],
+      trim: true,
+      minlength: [2, 'Template name must be at least 2 characters'],
+      maxlength: [100, 'Template name cannot exceed 100 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    specialty: {
+      type: String,
+      trim: true,
+    },
+    version: {
+      type: Number,
+      default: 1,
+      min: [1, 'Version must be at least 1'],
+    },
+    fields: [templateFieldSchema],
+    previousVersions: [templateVersionSchema],
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+clinicalRecordTemplateSchema.index({ business: 1, isActive: 1 });
+
+export const ClinicalRecordTemplate =
+  mongoose.models.ClinicalRecordTemplate ||
+  mongoose.model<IClinicalRecordTemplate>('ClinicalRecordTemplate', clinicalRecordTemplateSchema);
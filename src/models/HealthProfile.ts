@@ -0,0 +1,140 @@
+import mongoose, { Schema, SchemaDefinition, Document, Types } from 'mongoose';
+
+// Persistent item of a patient's history, current while it has no end date
+export interface IHealthProfileEntry {
+  _id: Types.ObjectId;
+  name: string;
+  startDate?: Date;
+  endDate?: Date;
+  notes?: string;
+  clinicalRecord?: Types.ObjectId; // visit where it was recorded or last updated
+  recordedBy: Types.ObjectId;
+}
+
+export interface IHealthProfileAllergy extends IHealthProfileEntry {
+  severity?: 'mild' | 'moderate' | 'severe';
+  reaction?: string;
+}
+
+export interface IHealthProfileMedication extends IHealthProfileEntry {
+  dosage?: string;
+  frequency?: string;
+}
+
+// Health history a business keeps for a patient across visits
+export interface IHealthProfile extends Document {
+  patient: Types.ObjectId;
+  business: Types.ObjectId;
+  allergies: Types.DocumentArray<IHealthProfileAllergy & Types.Subdocument>;
+  conditions: Types.DocumentArray<IHealthProfileEntry & Types.Subdocument>; // chronic conditions
+  medications: Types.DocumentArray<IHealthProfileMedication & Types.Subdocument>;
+  disability?: string;
+  sharedWith: Types.ObjectId[]; // businesses the patient consented to share it with
+  updatedBy?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const entryFields: SchemaDefinition<IHealthProfileEntry> = {
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [200, 'Name cannot exceed 200 characters'],
+  },
+  startDate: {
+    type: Date,
+  },
+  endDate: {
+    type: Date,
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters'],
+  },
+  clinicalRecord: {
+    type: Schema.Types.ObjectId,
+    ref: 'ClinicalRecord',
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recorded by is required'],
+  },
+};
+
+const conditionSchema = new Schema<IHealthProfileEntry>(entryFields);
+
+const allergySchema = new Schema<IHealthProfileAllergy>({
+  ...entryFields,
+  severity: {
+    type: String,
+    enum: {
+      values: ['mild', 'moderate', 'severe'],
+      message: 'Severity must be mild, moderate or severe',
+    },
+  },
+  reaction: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reaction cannot exceed 200 characters'],
+  },
+});
+
+const medicationSchema = new Schema<IHealthProfileMedication>({
+  ...entryFields,
+  dosage: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Dosage cannot exceed 100 characters'],
+  },
+  frequency: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Frequency cannot exceed 100 characters'],
+  },
+});
+
+const healthProfileSchema = new Schema<IHealthProfile>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Patient reference is required'],
+    },
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+    },
+    allergies: [allergySchema],
+    conditions: [conditionSchema],
+    medications: [medicationSchema],
+    disability: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Disability description cannot exceed 500 characters'],
+    },
+    sharedWith: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Business',
+      },
+    ],
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+healthProfileSchema.index({ patient: 1, business: 1 }, { unique: true });
+healthProfileSchema.index({ patient: 1, sharedWith: 1 });
+
+export const HealthProfile =
+  mongoose.models.HealthProfile ||
+  mongoose.model<IHealthProfile>('HealthProfile', healthProfileSchema);
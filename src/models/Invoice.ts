@@ -0,0 +1,175 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IInvoice extends Document {
+  business: Types.ObjectId;
+  reservation: Types.ObjectId;
+  user: Types.ObjectId; // the client billed
+  // Invoices are issued by businesses with a RUC, receipts by the rest
+  type: 'invoice' | 'receipt';
+  number: number; // sequential for each business, starting at 1
+  code: string; // printed number, e.g. 001-001-000000042
+  issuedAt: Date;
+  // Business and client data at the time of issue
+  seller: {
+    name: string;
+    ruc?: string;
+    address?: string;
+    phone?: string;
+    email?: string;
+  };
+  customer: {
+    name: string;
+    email?: string;
+    phone?: string;
+    taxId?: string; // missing for final consumers
+  };
+  items: {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    subtotal: number;
+  }[];
+  serviceDate: Date; // start of the reservation
+  subtotal: number;
+  taxRate: number; // percent
+  tax: number;
+  total: number;
+  currency: string;
+  amountPaid: number; // deposits and prepayments received online
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+    },
+    reservation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Reservation',
+      required: [true, 'Reservation reference is required'],
+      unique: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['invoice', 'receipt'],
+        message: 'Type must be invoice or receipt',
+      },
+      required: [true, 'Type is required'],
+    },
+    number: {
+      type: Number,
+      required: [true, 'Invoice number is required'],
+      min: 1,
+    },
+    code: {
+      type: String,
+      required: [true, 'Invoice code is required'],
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    seller: {
+      name: {
+        type: String,
+        required: [true, 'Seller name is required'],
+      },
+      ruc: String,
+      address: String,
+      phone: String,
+      email: String,
+    },
+    customer: {
+      name: {
+        type: String,
+        required: [true, 'Customer name is required'],
+      },
+      email: String,
+      phone: String,
+      taxId: String,
+    },
+    items: [
+      {
+        _id: false,
+        description: {
+          type: String,
+          required: true,
+        },
+        quantity: {
+          type: Number,
+          default: 1,
+          min: 1,
+        },
+        unitPrice: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+        subtotal: {
+          type: Number,
+          required: true,
+          min: 0,
+        },
+      },
+    ],
+    serviceDate: {
+      type: Date,
+      required: [true, 'Service date is required'],
+    },
+    subtotal: {
+      type: Number,
+      required: [true, 'Subtotal is required'],
+      min: 0,
+    },
+    taxRate: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 100,
+    },
+    tax: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    total: {
+      type: Number,
+      required: [true, 'Total is required'],
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Numbers never repeat within a business. Invoices are stored just before they
+// take their number, so the ones without it yet are left out
+invoiceSchema.index(
+  { business: 1, number: 1 },
+  { unique: true, partialFilterExpression: { number: { $type: 'number' } } }
+);
+invoiceSchema.index({ business: 1, issuedAt: -1 });
+
+export const Invoice =
+  mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', invoiceSchema);
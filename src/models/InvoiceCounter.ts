@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+// Last invoice number issued by each business, incremented atomically
+export interface IInvoiceCounter extends Document {
+  business: Types.ObjectId;
+  lastNumber: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const invoiceCounterSchema = new Schema<IInvoiceCounter>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      unique: true,
+    },
+    lastNumber: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const InvoiceCounter =
+  mongoose.models.InvoiceCounter ||
+  mongoose.model<IInvoiceCounter>('InvoiceCounter', invoiceCounterSchema);
@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IPayment extends Document {
+  reservation: Types.ObjectId;
+  user: Types.ObjectId;
+  business: Types.ObjectId;
+  type: 'deposit' | 'full';
+  amount: number;
+  currency: string;
+  provider: string; // payment provider that took the payment
+  providerPaymentId: string;
+  checkoutUrl?: string;
+  // Set by webhook calls; pending checkouts expire with the reservation
+  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+  failureReason?: string;
+  paidAt?: Date;
+  refundedAmount: number;
+  refunds: {
+    amount: number;
+    providerRefundId: string;
+    reason?: string;
+    createdAt: Date;
+  }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentSchema = new Schema<IPayment>(
+  {
+    reservation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Reservation',
+      required: [true, 'Reservation reference is required'],
+      index: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+    },
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['deposit', 'full'],
+        message: 'Payment type must be deposit or full',
+      },
+      required: [true, 'Payment type is required'],
+    },
+    amount: {
+      type: Number,
+      required: [true, 'Amount is required'],
+      min: [0.01, 'Amount must be positive'],
+    },
+    currency: {
+      type: String,
+      required: [true, 'Currency is required'],
+      uppercase: true,
+      trim: true,
+    },
+    provider: {
+      type: String,
+      required: [true, 'Payment provider is required'],
+    },
+    providerPaymentId: {
+      type: String,
+      required: [true, 'Provider payment ID is required'],
+    },
+    checkoutUrl: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'succeeded', 'failed', 'expired'],
+        message: 'Status must be one of: pending, succeeded, failed, expired',
+      },
+      default: 'pending',
+    },
+    failureReason: {
+      type: String,
+      trim: true,
+    },
+    paidAt: {
+      type: Date,
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    refunds: [
+      {
+        _id: false,
+        amount: {
+          type: Number,
+          required: true,
+        },
+        providerRefundId: {
+          type: String,
+          required: true,
+        },
+        reason: {
+          type: String,
+          trim: true,
+        },
+        createdAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Webhook calls identify payments by their provider ID
+paymentSchema.index({ provider: 1, providerPaymentId: 1 }, { unique: true });
+
+export const Payment =
+  mongoose.models.Payment || mongoose.model<IPayment>('Payment', paymentSchema);
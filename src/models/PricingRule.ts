@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+import { DAY_NAMES, DayName } from '../utils/timezone.js';
+
+export interface IPricingRule extends Document {
+  business: Types.ObjectId;
+  name: string;
+  type: 'surcharge' | 'discount'; // discounts are promotions
+  // Exactly one of them, applied to the service price
+  percent?: number;
+  amount?: number;
+  services: Types.ObjectId[]; // empty for every service of the business
+  // Matched against the start of the reservation in the business timezone
+  days: DayName[]; // empty for every day
+  startTime?: string; // HH:MM, reservations starting from this time
+  endTime?: string; // HH:MM, exclusive; before startTime the window wraps past midnight
+  validFrom?: string; // YYYY-MM-DD
+  validTo?: string; // YYYY-MM-DD, inclusive
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const pricingRuleSchema = new Schema<IPricingRule>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Rule name is required'],
+      trim: true,
+      minlength: [2, 'Rule name must be at least 2 characters'],
+      maxlength: [100, 'Rule name cannot exceed 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['surcharge', 'discount'],
+        message: 'Type must be surcharge or discount',
+      },
+      required: [true, 'Rule type is required'],
+    },
+    percent: {
+      type: Number,
+      min: [0.01, 'Percent must be positive'],
+      max: [100, 'Percent cannot exceed 100'],
+    },
+    amount: {
+      type: Number,
+      min: [0.01, 'Amount must be positive'],
+    },
+    services: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Service',
+      },
+    ],
+    days: [
+      {
+        type: String,
+        enum: DAY_NAMES,
+      },
+    ],
+    startTime: {
+      type: String,
+      match: [timeRegex, 'Start time must be in HH:MM format'],
+    },
+    endTime: {
+      type: String,
+      match: [timeRegex, 'End time must be in HH:MM format'],
+    },
+    validFrom: {
+      type: String,
+      match: [dateKeyRegex, 'Valid from must be in YYYY-MM-DD format'],
+    },
+    validTo: {
+      type: String,
+      match: [dateKeyRegex, 'Valid to must be in YYYY-MM-DD format'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+pricingRuleSchema.index({ business: 1, isActive: 1 });
+
+export const PricingRule =
+  mongoose.models.PricingRule || mongoose.model<IPricingRule>('PricingRule', pricingRuleSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  user: Types.ObjectId;
+  tokenHash: string; // sha256 of the issued token, the raw token is never stored
+  family: string; // shared by every token rotated from the same login
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+    },
+    family: {
+      type: String,
+      required: [true, 'Token family is required'],
+      index: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+    usedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let MongoDB purge expired tokens automatically
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken =
+  mongoose.models.RefreshToken || mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
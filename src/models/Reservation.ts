@@ -5,16 +5,155 @@ export interface IReservation extends Document {
   business: Types.ObjectId;
   specialist: Types.ObjectId;
   service: Types.ObjectId;
+  series?: Types.ObjectId; // recurring series this reservation is an occurrence of
+  seriesIndex?: number; // position in the series, starting at 0
+  resources: Types.ObjectId[]; // resources required by the service at booking time
   startDate: Date;
   endDate: Date;
+  bufferBefore: number; // service buffers at booking time, in minutes
+  bufferAfter: number;
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no-show';
+  attendanceMode: 'in_person' | 'remote';
+  meeting?: {
+    url: string;
+    provider: string; // meeting link provider that created it
+    meetingId?: string;
+  };
+  // Deposit or prepayment required by the service at booking time
+  payment?: {
+    type: 'deposit' | 'full';
+    status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+    amountDue: number;
+    amountPaid: number;
+    amountRefunded: number;
+    currency: string;
+    dueAt?: Date; // released when still unpaid at this time
+    checkoutUrl?: string; // latest checkout started for the client
+  };
+  // Price computed at booking time, kept when the service or pricing rules change
+  price?: {
+    basePrice: number; // service price
+    adjustments: {
+      rule: Types.ObjectId;
+      name: string;
+      type: 'surcharge' | 'discount';
+      amount: number;
+    }[];
+    subtotal: number; // before tax
+    taxRate: number;
+    taxIncluded: boolean; // whether the service price already included the tax
+    tax: number;
+    total: number;
+    currency: string;
+  };
   notes?: string;
   cancellationReason?: string;
+  cancelledBy?: Types.ObjectId;
+  cancelledAt?: Date;
+  isLateCancellation: boolean; // cancelled by the client inside the business notice window
+  // Previous times, oldest first
+  rescheduleHistory: {
+    startDate: Date;
+    endDate: Date;
+    rescheduledAt: Date;
+    rescheduledBy: Types.ObjectId;
+    reason?: string;
+  }[];
   reminderSent: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A schema of its own so reservations paid on site have no payment at all
+const reservationPaymentSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: ['deposit', 'full'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded'],
+        message:
+          'Payment status must be one of: pending, paid, failed, refunded, partially_refunded',
+      },
+      default: 'pending',
+    },
+    amountDue: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    amountPaid: {
+      type: Number,
+      default: 0,
+    },
+    amountRefunded: {
+      type: Number,
+      default: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+    dueAt: Date,
+    checkoutUrl: String,
+  },
+  { _id: false }
+);
+
+// Reservations booked before pricing rules existed have no price
+const reservationPriceSchema = new Schema(
+  {
+    basePrice: {
+      type: Number,
+      required: true,
+    },
+    adjustments: [
+      {
+        _id: false,
+        rule: {
+          type: Schema.Types.ObjectId,
+          ref: 'PricingRule',
+        },
+        name: String,
+        type: {
+          type: String,
+          enum: ['surcharge', 'discount'],
+        },
+        amount: Number,
+      },
+    ],
+    subtotal: {
+      type: Number,
+      required: true,
+    },
+    taxRate: {
+      type: Number,
+      required: true,
+    },
+    taxIncluded: {
+      type: Boolean,
+      default: false,
+    },
+    tax: {
+      type: Number,
+      required: true,
+    },
+    total: {
+      type: Number,
+      required: true,
+    },
+    currency: {
+      type: String,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 const reservationSchema = new Schema<IReservation>(
   {
     user: {
@@ -40,6 +179,21 @@ const reservationSchema = new Schema<IReservation>(
       ref: 'Service',
       required: [true, 'Service reference is required'],
     },
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReservationSeries',
+      index: true,
+    },
+    seriesIndex: {
+      type: Number,
+      min: 0,
+    },
+    resources: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Resource',
+      },
+    ],
     startDate: {
       type: Date,
       required: [true, 'Start date is required'],
@@ -49,6 +203,16 @@ const reservationSchema = new Schema<IReservation>(
       type: Date,
       required: [true, 'End date is required'],
     },
+    bufferBefore: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    bufferAfter: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     status: {
       type: String,
       enum: {
@@ -58,6 +222,27 @@ const reservationSchema = new Schema<IReservation>(
       default: 'pending',
       index: true,
     },
+    attendanceMode: {
+      type: String,
+      enum: {
+        values: ['in_person', 'remote'],
+        message: 'Attendance mode must be one of: in_person, remote',
+      },
+      default: 'in_person',
+    },
+    meeting: {
+      url: String,
+      provider: String,
+      meetingId: String,
+    },
+    payment: {
+      type: reservationPaymentSchema,
+      required: false,
+    },
+    price: {
+      type: reservationPriceSchema,
+      required: false,
+    },
     notes: {
       type: String,
       trim: true,
@@ -68,6 +253,43 @@ const reservationSchema = new Schema<IReservation>(
       trim: true,
       maxlength: [500, 'Cancellation reason cannot exceed 500 characters'],
     },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    isLateCancellation: {
+      type: Boolean,
+      default: false,
+    },
+    rescheduleHistory: [
+      {
+        _id: false,
+        startDate: {
+          type: Date,
+          required: true,
+        },
+        endDate: {
+          type: Date,
+          required: true,
+        },
+        rescheduledAt: {
+          type: Date,
+          default: Date.now,
+        },
+        rescheduledBy: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+        },
+        reason: {
+          type: String,
+          trim: true,
+          maxlength: [500, 'Reschedule reason cannot exceed 500 characters'],
+        },
+      },
+    ],
     reminderSent: {
       type: Boolean,
       default: false,
@@ -82,17 +304,12 @@ const reservationSchema = new Schema<IReservation>(
 reservationSchema.index({ startDate: 1, status: 1 });
 reservationSchema.index({ specialist: 1, startDate: 1 });
 reservationSchema.index({ user: 1, status: 1 });
+reservationSchema.index({ business: 1, user: 1 });
+reservationSchema.index({ resources: 1, startDate: 1 });
+reservationSchema.index({ status: 1, 'payment.status': 1, 'payment.dueAt': 1 });
 
-// Prevent double booking - compound unique index
-reservationSchema.index(
-  { specialist: 1, startDate: 1 },
-  {
-    unique: true,
-    partialFilterExpression: {
-      status: { $in: ['pending', 'confirmed'] },
-    },
-  }
-);
+// Double booking is prevented under the booking locks, not with a unique index:
+// group sessions share the specialist and start time
 
 export const Reservation =
   mongoose.models.Reservation || mongoose.model<IReservation>('Reservation', reservationSchema);
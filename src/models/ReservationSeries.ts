@@ -0,0 +1,75 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IReservationSeries extends Document {
+  user: Types.ObjectId;
+  business: Types.ObjectId;
+  specialist: Types.ObjectId;
+  service: Types.ObjectId;
+  frequency: 'weekly' | 'biweekly';
+  startDate: Date; // first occurrence, later ones keep its local time in the specialist timezone
+  count?: number;
+  until?: string; // last possible date (YYYY-MM-DD, inclusive) in the specialist timezone
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reservationSeriesSchema = new Schema<IReservationSeries>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+      index: true,
+    },
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      index: true,
+    },
+    specialist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Specialist',
+      required: [true, 'Specialist reference is required'],
+    },
+    service: {
+      type: Schema.Types.ObjectId,
+      ref: 'Service',
+      required: [true, 'Service reference is required'],
+    },
+    frequency: {
+      type: String,
+      enum: {
+        values: ['weekly', 'biweekly'],
+        message: 'Frequency must be weekly or biweekly',
+      },
+      required: [true, 'Frequency is required'],
+    },
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    count: {
+      type: Number,
+      min: [2, 'A series needs at least 2 occurrences'],
+      max: [52, 'A series cannot exceed 52 occurrences'],
+    },
+    until: {
+      type: String,
+      match: [/^\d{4}-\d{2}-\d{2}$/, 'Until must be in YYYY-MM-DD format'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const ReservationSeries =
+  mongoose.models.ReservationSeries ||
+  mongoose.model<IReservationSeries>('ReservationSeries', reservationSeriesSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IResource extends Document {
+  business: Types.ObjectId;
+  name: string;
+  type: 'room' | 'equipment';
+  description?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const resourceSchema = new Schema<IResource>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Resource name is required'],
+      trim: true,
+      minlength: [2, 'Resource name must be at least 2 characters'],
+      maxlength: [100, 'Resource name cannot exceed 100 characters'],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['room', 'equipment'],
+        message: 'Type must be room or equipment',
+      },
+      required: [true, 'Resource type is required'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Resource =
+  mongoose.models.Resource || mongoose.model<IResource>('Resource', resourceSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IScheduleException extends Document {
+  business: Types.ObjectId;
+  specialist?: Types.ObjectId; // When missing the exception applies to the whole business
+  type: 'closed' | 'custom_hours';
+  startDate: string; // YYYY-MM-DD in the timezone of each specialist it applies to
+  endDate: string; // YYYY-MM-DD, inclusive
+  startTime?: string; // HH:MM, only for custom_hours
+  endTime?: string;
+  recurringYearly: boolean; // Repeats on the same month/day every year (public holidays)
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const scheduleExceptionSchema = new Schema<IScheduleException>(
+  {
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+      index: true,
+    },
+    specialist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Specialist',
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: ['closed', 'custom_hours'],
+        message: 'Type must be closed or custom_hours',
+      },
+      required: [true, 'Exception type is required'],
+    },
+    startDate: {
+      type: String,
+      required: [true, 'Start date is required'],
+      match: [dateKeyRegex, 'Start date must be in YYYY-MM-DD format'],
+    },
+    endDate: {
+      type: String,
+      required: [true, 'End date is required'],
+      match: [dateKeyRegex, 'End date must be in YYYY-MM-DD format'],
+    },
+    startTime: {
+      type: String,
+      match: [timeRegex, 'Start time must be in HH:MM format'],
+    },
+    endTime: {
+      type: String,
+      match: [timeRegex, 'End time must be in HH:MM format'],
+    },
+    recurringYearly: {
+      type: Boolean,
+      default: false,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [300, 'Reason cannot exceed 300 characters'],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Single-day exceptions only need a start date
+scheduleExceptionSchema.pre('validate', function (next) {
+  if (!this.endDate) {
+    this.endDate = this.startDate;
+  }
+
+  if (this.startDate && this.endDate < this.startDate && !this.recurringYearly) {
+    this.invalidate('endDate', 'End date must be on or after start date');
+  }
+
+  if (this.type === 'custom_hours') {
+    if (!this.startTime || !this.endTime) {
+      this.invalidate('startTime', 'Custom hours require start and end time');
+    } else if (this.startTime.padStart(5, '0') >= this.endTime.padStart(5, '0')) {
+      this.invalidate('endTime', 'End time must be after start time');
+    }
+  }
+
+  next();
+});
+
+scheduleExceptionSchema.index({ business: 1, startDate: 1, endDate: 1 });
+
+export const ScheduleException =
+  mongoose.models.ScheduleException ||
+  mongoose.model<IScheduleException>('ScheduleException', scheduleExceptionSchema);
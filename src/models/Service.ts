@@ -5,7 +5,18 @@ export interface IService extends Document {
   name: string;
   description?: string;
   duration: number; // in minutes
+  bufferBefore: number; // minutes blocked before each appointment (preparation)
+  bufferAfter: number; // minutes blocked after each appointment (cleanup)
+  slotInterval?: number; // minutes between slot start times, defaults to the duration
+  capacity: number; // clients sharing each session, 1 for individual appointments
+  requiredResources: Types.ObjectId[]; // rooms and equipment every appointment needs
+  attendanceMode: 'in_person' | 'remote' | 'hybrid'; // hybrid lets the client choose
   price: number;
+  prepayment: 'none' | 'deposit' | 'full'; // paid by the client when booking
+  depositAmount?: number; // required for deposits, up to the price
+  // Override the business pricing, e.g. services exempt from tax
+  taxRate?: number;
+  taxIncluded?: boolean;
   category?: string;
   isActive: boolean;
   createdAt: Date;
@@ -38,11 +49,68 @@ const serviceSchema = new Schema<IService>(
       min: [5, 'Duration must be at least 5 minutes'],
       max: [480, 'Duration cannot exceed 480 minutes (8 hours)'],
     },
+    bufferBefore: {
+      type: Number,
+      default: 0,
+      min: [0, 'Buffer before cannot be negative'],
+      max: [120, 'Buffer before cannot exceed 120 minutes'],
+    },
+    bufferAfter: {
+      type: Number,
+      default: 0,
+      min: [0, 'Buffer after cannot be negative'],
+      max: [120, 'Buffer after cannot exceed 120 minutes'],
+    },
+    slotInterval: {
+      type: Number,
+      min: [5, 'Slot interval must be at least 5 minutes'],
+      max: [480, 'Slot interval cannot exceed 480 minutes'],
+    },
+    capacity: {
+      type: Number,
+      default: 1,
+      min: [1, 'Capacity must be at least 1'],
+      max: [100, 'Capacity cannot exceed 100'],
+    },
+    requiredResources: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Resource',
+      },
+    ],
+    attendanceMode: {
+      type: String,
+      enum: {
+        values: ['in_person', 'remote', 'hybrid'],
+        message: 'Attendance mode must be one of: in_person, remote, hybrid',
+      },
+      default: 'in_person',
+    },
     price: {
       type: Number,
       required: [true, 'Price is required'],
       min: [0, 'Price must be a positive number'],
     },
+    prepayment: {
+      type: String,
+      enum: {
+        values: ['none', 'deposit', 'full'],
+        message: 'Prepayment must be one of: none, deposit, full',
+      },
+      default: 'none',
+    },
+    depositAmount: {
+      type: Number,
+      min: [0.01, 'Deposit amount must be positive'],
+    },
+    taxRate: {
+      type: Number,
+      min: [0, 'Tax rate cannot be negative'],
+      max: [100, 'Tax rate cannot exceed 100'],
+    },
+    taxIncluded: {
+      type: Boolean,
+    },
     category: {
       type: String,
       trim: true,
@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface ISlotHold extends Document {
+  user: Types.ObjectId; // the only client allowed to book the held time
+  business: Types.ObjectId;
+  specialist: Types.ObjectId;
+  service: Types.ObjectId;
+  resources: Types.ObjectId[];
+  startDate: Date;
+  endDate: Date;
+  bufferBefore: number;
+  bufferAfter: number;
+  expiresAt: Date;
+  waitlistEntry?: Types.ObjectId; // set when the hold is a waitlist offer
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const slotHoldSchema = new Schema<ISlotHold>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+    },
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+    },
+    specialist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Specialist',
+      required: [true, 'Specialist reference is required'],
+    },
+    service: {
+      type: Schema.Types.ObjectId,
+      ref: 'Service',
+      required: [true, 'Service reference is required'],
+    },
+    resources: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Resource',
+      },
+    ],
+    startDate: {
+      type: Date,
+      required: [true, 'Start date is required'],
+    },
+    endDate: {
+      type: Date,
+      required: [true, 'End date is required'],
+    },
+    bufferBefore: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    bufferAfter: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration date is required'],
+    },
+    waitlistEntry: {
+      type: Schema.Types.ObjectId,
+      ref: 'WaitlistEntry',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+slotHoldSchema.index({ specialist: 1, startDate: 1 });
+slotHoldSchema.index({ resources: 1, startDate: 1 });
+
+// Expired holds stop blocking right away (queries filter on expiresAt) and are purged by MongoDB
+slotHoldSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SlotHold =
+  mongoose.models.SlotHold || mongoose.model<ISlotHold>('SlotHold', slotHoldSchema);
@@ -1,16 +1,24 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
 
+import { isValidTimeZone, timeToMinutes } from '../utils/timezone.js';
+
 export interface ISpecialist extends Document {
   user: Types.ObjectId;
   business: Types.ObjectId;
   specialty: string;
   licenseNumber?: string;
   bio?: string;
+  timezone?: string; // Overrides the business timezone when set
+  // A day may have several entries (split shifts), each with optional breaks
   availability: {
     day: string;
     startTime: string;
     endTime: string;
     isAvailable: boolean;
+    breaks?: {
+      startTime: string;
+      endTime: string;
+    }[];
   }[];
   services: Types.ObjectId[];
   isActive: boolean;
@@ -48,6 +56,14 @@ const specialistSchema = new Schema<ISpecialist>(
       trim: true,
       maxlength: [1000, 'Bio cannot exceed 1000 characters'],
     },
+    timezone: {
+      type: String,
+      trim: true,
+      validate: {
+        validator: isValidTimeZone,
+        message: 'Timezone must be a valid IANA timezone (e.g., America/Guayaquil)',
+      },
+    },
     availability: [
       {
         day: {
@@ -69,6 +85,27 @@ const specialistSchema = new Schema<ISpecialist>(
           type: Boolean,
           default: true,
         },
+        breaks: [
+          {
+            _id: false,
+            startTime: {
+              type: String,
+              required: true,
+              match: [
+                /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/,
+                'Break start time must be in HH:MM format',
+              ],
+            },
+            endTime: {
+              type: String,
+              required: true,
+              match: [
+                /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/,
+                'Break end time must be in HH:MM format',
+              ],
+            },
+          },
+        ],
       },
     ],
     services: [
@@ -87,6 +124,53 @@ const specialistSchema = new Schema<ISpecialist>(
   }
 );
 
+// Working blocks must be well formed and must not overlap on the same day
+specialistSchema.pre('validate', function (next) {
+  const blocks = this.availability || [];
+
+  blocks.forEach((block, index) => {
+    if (!block.startTime || !block.endTime) return;
+
+    const start = timeToMinutes(block.startTime);
+    const end = timeToMinutes(block.endTime);
+
+    if (start >= end) {
+      this.invalidate(`availability.${index}.endTime`, 'End time must be after start time');
+      return;
+    }
+
+    const outsideBlock = (block.breaks || []).some(
+      (item) =>
+        timeToMinutes(item.startTime) < start ||
+        timeToMinutes(item.endTime) > end ||
+        timeToMinutes(item.startTime) >= timeToMinutes(item.endTime)
+    );
+    if (outsideBlock) {
+      this.invalidate(`availability.${index}.breaks`, 'Breaks must fall inside the working block');
+    }
+
+    const overlaps = blocks.some(
+      (other, otherIndex) =>
+        otherIndex < index &&
+        other.day === block.day &&
+        !!other.startTime &&
+        !!other.endTime &&
+        other.isAvailable !== false &&
+        block.isAvailable !== false &&
+        timeToMinutes(other.startTime) < end &&
+        timeToMinutes(other.endTime) > start
+    );
+    if (overlaps) {
+      this.invalidate(
+        `availability.${index}.startTime`,
+        'Working blocks on the same day cannot overlap'
+      );
+    }
+  });
+
+  next();
+});
+
 // Indexes
 specialistSchema.index({ user: 1 });
 specialistSchema.index({ business: 1, isActive: 1 });
@@ -6,6 +6,7 @@ export interface IUser extends Document {
   password: string;
   role: 'admin' | 'owner' | 'specialist' | 'client';
   phone?: string;
+  taxId?: string; // cédula or RUC printed on invoices
   avatar?: string;
   isActive: boolean;
   canManagePassword: boolean; // Si false, solo el admin puede cambiar/resetear su contraseña
@@ -50,6 +51,11 @@ const userSchema = new Schema<IUser>(
       type: String,
       trim: true,
     },
+    taxId: {
+      type: String,
+      trim: true,
+      match: [/^\d{8,13}$/, 'Tax ID must be 8 to 13 digits'],
+    },
     avatar: {
       type: String,
     },
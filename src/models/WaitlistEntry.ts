@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export interface IWaitlistEntry extends Document {
+  user: Types.ObjectId;
+  business: Types.ObjectId;
+  specialist: Types.ObjectId;
+  service: Types.ObjectId;
+  fromDate: string; // YYYY-MM-DD in the specialist timezone
+  toDate: string; // YYYY-MM-DD, inclusive
+  notes?: string;
+  status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+  // Freed slot currently offered to the client
+  offer?: {
+    startDate: Date;
+    endDate: Date;
+    expiresAt: Date;
+  };
+  hold?: Types.ObjectId;
+  reservation?: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+const waitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User reference is required'],
+      index: true,
+    },
+    business: {
+      type: Schema.Types.ObjectId,
+      ref: 'Business',
+      required: [true, 'Business reference is required'],
+    },
+    specialist: {
+      type: Schema.Types.ObjectId,
+      ref: 'Specialist',
+      required: [true, 'Specialist reference is required'],
+    },
+    service: {
+      type: Schema.Types.ObjectId,
+      ref: 'Service',
+      required: [true, 'Service reference is required'],
+    },
+    fromDate: {
+      type: String,
+      required: [true, 'From date is required'],
+      match: [dateKeyRegex, 'From date must be in YYYY-MM-DD format'],
+    },
+    toDate: {
+      type: String,
+      required: [true, 'To date is required'],
+      match: [dateKeyRegex, 'To date must be in YYYY-MM-DD format'],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Notes cannot exceed 500 characters'],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: ['waiting', 'offered', 'booked', 'expired', 'cancelled'],
+        message: 'Status must be one of: waiting, offered, booked, expired, cancelled',
+      },
+      default: 'waiting',
+    },
+    offer: {
+      type: {
+        startDate: Date,
+        endDate: Date,
+        expiresAt: Date,
+      },
+      required: false,
+      _id: false,
+    },
+    hold: {
+      type: Schema.Types.ObjectId,
+      ref: 'SlotHold',
+    },
+    reservation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Reservation',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+waitlistEntrySchema.pre('validate', function (next) {
+  if (this.fromDate && this.toDate && this.toDate < this.fromDate) {
+    this.invalidate('toDate', 'To date must be on or after from date');
+  }
+  next();
+});
+
+// First come, first served among clients waiting for the same specialist and service
+waitlistEntrySchema.index({ specialist: 1, service: 1, status: 1, createdAt: 1 });
+waitlistEntrySchema.index({ status: 1, 'offer.expiresAt': 1 });
+
+export const WaitlistEntry =
+  mongoose.models.WaitlistEntry ||
+  mongoose.model<IWaitlistEntry>('WaitlistEntry', waitlistEntrySchema);
@@ -8,7 +8,35 @@ export { Specialist } from './Specialist.js';
 export type { ISpecialist } from './Specialist.js';
 export { Reservation } from './Reservation.js';
 export type { IReservation } from './Reservation.js';
+export { ReservationSeries } from './ReservationSeries.js';
+export type { IReservationSeries } from './ReservationSeries.js';
 export { ClinicalRecord } from './ClinicalRecord.js';
 export type { IClinicalRecord } from './ClinicalRecord.js';
+export { ClinicalRecordRevision } from './ClinicalRecordRevision.js';
+export type { IClinicalRecordRevision } from './ClinicalRecordRevision.js';
+export { ClinicalRecordTemplate } from './ClinicalRecordTemplate.js';
+export type { IClinicalRecordTemplate } from './ClinicalRecordTemplate.js';
 export { Attachment } from './Attachment.js';
 export type { IAttachment } from './Attachment.js';
+export { RefreshToken } from './RefreshToken.js';
+export type { IRefreshToken } from './RefreshToken.js';
+export { Resource } from './Resource.js';
+export type { IResource } from './Resource.js';
+export { ScheduleException } from './ScheduleException.js';
+export type { IScheduleException } from './ScheduleException.js';
+export { BookingLock } from './BookingLock.js';
+export type { IBookingLock } from './BookingLock.js';
+export { SlotHold } from './SlotHold.js';
+export type { ISlotHold } from './SlotHold.js';
+export { WaitlistEntry } from './WaitlistEntry.js';
+export type { IWaitlistEntry } from './WaitlistEntry.js';
+export { Payment } from './Payment.js';
+export type { IPayment } from './Payment.js';
+export { Invoice } from './Invoice.js';
+export type { IInvoice } from './Invoice.js';
+export { InvoiceCounter } from './InvoiceCounter.js';
+export type { IInvoiceCounter } from './InvoiceCounter.js';
+export { PricingRule } from './PricingRule.js';
+export type { IPricingRule } from './PricingRule.js';
+export { HealthProfile } from './HealthProfile.js';
+export type { IHealthProfile } from './HealthProfile.js';
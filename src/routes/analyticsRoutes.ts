@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+
+import {
+  getReservationStats,
+  getRevenueStats,
+  getNoShowStats,
+  getUtilizationStats,
+  getTopServiceStats,
+} from '../controllers/analyticsController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// Validation rules
+const analyticsQueryValidation = [
+  query('from').optional().matches(dateKeyRegex).withMessage('From must be in YYYY-MM-DD format'),
+  query('to').optional().matches(dateKeyRegex).withMessage('To must be in YYYY-MM-DD format'),
+  query('granularity')
+    .optional()
+    .isIn(['day', 'week', 'month'])
+    .withMessage('Granularity must be day, week or month'),
+];
+
+const topServicesQueryValidation = [
+  ...analyticsQueryValidation,
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+];
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     AnalyticsFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         example: '2025-11-01'
+ *       description: First day (YYYY-MM-DD). Defaults to 29 days before `to`
+ *     AnalyticsTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         example: '2025-11-30'
+ *       description: Last day (YYYY-MM-DD, inclusive). Defaults to today, or 29 days after `from`
+ *     AnalyticsGranularity:
+ *       in: query
+ *       name: granularity
+ *       schema:
+ *         type: string
+ *         enum: [day, week, month]
+ *         default: day
+ *       description: Length of each period. Weeks start on Monday
+ */
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/analytics/reservations:
+ *   get:
+ *     summary: Reservations by status over time (Owner or Admin)
+ *     description: |
+ *       Counts reservations starting in each period by status. Every analytics
+ *       endpoint covers at most 366 days, uses the business timezone and returns
+ *       one entry per period (identified by its first day), including empty ones.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsGranularity'
+ *     responses:
+ *       200:
+ *         description: Totals and periods with counts per status
+ *       400:
+ *         description: Invalid parameters or range longer than 366 days
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Business not found
+ */
+router.get(
+  '/reservations',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(analyticsQueryValidation),
+  getReservationStats
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/analytics/revenue:
+ *   get:
+ *     summary: Revenue from completed reservations (Owner or Admin)
+ *     description: Price before tax of the completed reservations, as booked
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsGranularity'
+ *     responses:
+ *       200:
+ *         description: Total revenue and revenue per period
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/revenue',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(analyticsQueryValidation),
+  getRevenueStats
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/analytics/no-shows:
+ *   get:
+ *     summary: No-show rate per specialist (Owner or Admin)
+ *     description: |
+ *       No-shows divided by completed plus no-show reservations, highest rate first.
+ *       Rates are null when a specialist has neither.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsGranularity'
+ *     responses:
+ *       200:
+ *         description: Rates per specialist and period
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/no-shows',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(analyticsQueryValidation),
+  getNoShowStats
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/analytics/utilization:
+ *   get:
+ *     summary: Booked versus available minutes per specialist (Owner or Admin)
+ *     description: |
+ *       Available minutes come from each specialist's weekly availability, breaks
+ *       excluded. Booked minutes count reservations that were not cancelled, each
+ *       group session once.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsGranularity'
+ *     responses:
+ *       200:
+ *         description: Utilization of the business, per specialist and per period
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/utilization',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(analyticsQueryValidation),
+  getUtilizationStats
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/analytics/top-services:
+ *   get:
+ *     summary: Services with the most reservations (Owner or Admin)
+ *     description: Ranks services by reservations that were not cancelled, with the revenue of completed ones
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/AnalyticsFrom'
+ *       - $ref: '#/components/parameters/AnalyticsTo'
+ *       - $ref: '#/components/parameters/AnalyticsGranularity'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 50
+ *     responses:
+ *       200:
+ *         description: Top services with reservations per period
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/top-services',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(topServicesQueryValidation),
+  getTopServiceStats
+);
+
+export default router;
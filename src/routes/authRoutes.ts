@@ -4,6 +4,8 @@ import { body } from 'express-validator';
 import {
   register,
   login,
+  refresh,
+  logout,
   getProfile,
   updateProfile,
   changePassword,
@@ -51,9 +53,18 @@ const loginValidation = [
   body('password').notEmpty().withMessage('Password is required'),
 ];
 
+const refreshTokenValidation = [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required'),
+];
+
 const updateProfileValidation = [
   body('name').optional().trim().notEmpty().withMessage('Name cannot be empty'),
   body('phone').optional().trim(),
+  body('taxId')
+    .optional()
+    .trim()
+    .matches(/^(\d{8,13})?$/)
+    .withMessage('Tax ID must be 8 to 13 digits'),
   body('avatar').optional().trim().isURL().withMessage('Avatar must be a valid URL'),
 ];
 
@@ -200,6 +211,83 @@ router.post('/register', validate(registerValidation), register);
  */
 router.post('/login', validate(loginValidation), login);
 
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: |
+ *       Refresh tokens are single-use and rotated on every call. Presenting a token that
+ *       was already used revokes every token issued from the same login, forcing the
+ *       user to log in again.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     accessToken:
+ *                       type: string
+ *                     refreshToken:
+ *                       type: string
+ *       401:
+ *         description: Invalid, expired, revoked or reused refresh token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/refresh', validate(refreshTokenValidation), refresh);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Logout and revoke the session of a refresh token
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logged out successfully
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/logout', validate(refreshTokenValidation), logout);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -254,6 +342,10 @@ router.get('/profile', authenticate, getProfile);
  *               phone:
  *                 type: string
  *                 example: +1234567890
+ *               taxId:
+ *                 type: string
+ *                 description: Cédula or RUC printed on invoices. Empty to bill as final consumer
+ *                 example: '0912345678'
  *               avatar:
  *                 type: string
  *                 format: uri
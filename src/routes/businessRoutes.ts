@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 
 import {
   createBusiness,
@@ -9,9 +9,13 @@ import {
   updateBusiness,
   deleteBusiness,
   getMyBusiness,
+  getClientAttendance,
 } from '../controllers/businessController.js';
+import { getBusinessInvoices } from '../controllers/invoiceController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { validate } from '../middleware/validate.js';
+import { isValidTimeZone } from '../utils/timezone.js';
+import { VITAL_SIGN_METRICS } from '../utils/vitalSigns.js';
 
 const router = Router();
 
@@ -36,6 +40,68 @@ const businessValidation = [
   body('hasRemoteSessions').optional().isBoolean(),
   body('phone').optional().trim(),
   body('email').optional().isEmail().withMessage('Valid email required'),
+  body('timezone')
+    .optional()
+    .custom(isValidTimeZone)
+    .withMessage('Timezone must be a valid IANA timezone (e.g., America/Guayaquil)'),
+  body('schedule').optional().isArray().withMessage('Schedule must be an array'),
+  body('schedule.*.day')
+    .isIn(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])
+    .withMessage('Invalid day'),
+  body('schedule.*.openTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Open time must be in HH:MM format'),
+  body('schedule.*.closeTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Close time must be in HH:MM format'),
+  body('schedule.*.isOpen').optional().isBoolean(),
+  body('bookingSettings').optional().isObject().withMessage('Booking settings must be an object'),
+  body('bookingSettings.bufferBefore')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer before must be between 0 and 120 minutes'),
+  body('bookingSettings.bufferAfter')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer after must be between 0 and 120 minutes'),
+  body('bookingSettings.slotInterval')
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage('Slot interval must be between 5 and 480 minutes'),
+  body('cancellationPolicy')
+    .optional()
+    .isObject()
+    .withMessage('Cancellation policy must be an object'),
+  body('cancellationPolicy.minNoticeHours')
+    .optional()
+    .isInt({ min: 0, max: 720 })
+    .withMessage('Minimum notice must be between 0 and 720 hours'),
+  body('cancellationPolicy.lateCancellation')
+    .optional()
+    .isIn(['block', 'flag'])
+    .withMessage('Late cancellation must be block or flag'),
+  body('cancellationPolicy.lateRefundPercent')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Late refund percent must be between 0 and 100'),
+  body('pricing').optional().isObject().withMessage('Pricing must be an object'),
+  body('pricing.taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Tax rate must be between 0 and 100'),
+  body('pricing.taxIncluded').optional().isBoolean().withMessage('taxIncluded must be a boolean'),
+  body('vitalSignThresholds')
+    .optional()
+    .isObject()
+    .withMessage('Vital sign thresholds must be an object')
+    .custom((value: object) =>
+      Object.keys(value).every((metric) =>
+        (VITAL_SIGN_METRICS as readonly string[]).includes(metric)
+      )
+    )
+    .withMessage(`Vital sign thresholds can only set ${VITAL_SIGN_METRICS.join(', ')}`),
+  body('vitalSignThresholds.*.min').optional().isFloat().withMessage('Minimum must be a number'),
+  body('vitalSignThresholds.*.max').optional().isFloat().withMessage('Maximum must be a number'),
   body('theme').optional().isObject().withMessage('Theme must be an object'),
   body('theme.primary')
     .optional()
@@ -55,6 +121,23 @@ const businessValidation = [
     .withMessage('Accent color must be a valid hex color (e.g., #5733FF)'),
 ];
 
+const clientAttendanceQueryValidation = [
+  query('minIncidents')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('minIncidents must be a positive integer'),
+];
+
+const businessInvoicesQueryValidation = [
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
 const businessUpdateValidation = [
   body('name').optional().trim().notEmpty().withMessage('Business name cannot be empty'),
   body('ruc')
@@ -69,6 +152,68 @@ const businessUpdateValidation = [
   body('hasRemoteSessions').optional().isBoolean(),
   body('phone').optional().trim(),
   body('email').optional().isEmail().withMessage('Valid email required'),
+  body('timezone')
+    .optional()
+    .custom(isValidTimeZone)
+    .withMessage('Timezone must be a valid IANA timezone (e.g., America/Guayaquil)'),
+  body('schedule').optional().isArray().withMessage('Schedule must be an array'),
+  body('schedule.*.day')
+    .isIn(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])
+    .withMessage('Invalid day'),
+  body('schedule.*.openTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Open time must be in HH:MM format'),
+  body('schedule.*.closeTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Close time must be in HH:MM format'),
+  body('schedule.*.isOpen').optional().isBoolean(),
+  body('bookingSettings').optional().isObject().withMessage('Booking settings must be an object'),
+  body('bookingSettings.bufferBefore')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer before must be between 0 and 120 minutes'),
+  body('bookingSettings.bufferAfter')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer after must be between 0 and 120 minutes'),
+  body('bookingSettings.slotInterval')
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage('Slot interval must be between 5 and 480 minutes'),
+  body('cancellationPolicy')
+    .optional()
+    .isObject()
+    .withMessage('Cancellation policy must be an object'),
+  body('cancellationPolicy.minNoticeHours')
+    .optional()
+    .isInt({ min: 0, max: 720 })
+    .withMessage('Minimum notice must be between 0 and 720 hours'),
+  body('cancellationPolicy.lateCancellation')
+    .optional()
+    .isIn(['block', 'flag'])
+    .withMessage('Late cancellation must be block or flag'),
+  body('cancellationPolicy.lateRefundPercent')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Late refund percent must be between 0 and 100'),
+  body('pricing').optional().isObject().withMessage('Pricing must be an object'),
+  body('pricing.taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Tax rate must be between 0 and 100'),
+  body('pricing.taxIncluded').optional().isBoolean().withMessage('taxIncluded must be a boolean'),
+  body('vitalSignThresholds')
+    .optional()
+    .isObject()
+    .withMessage('Vital sign thresholds must be an object')
+    .custom((value: object) =>
+      Object.keys(value).every((metric) =>
+        (VITAL_SIGN_METRICS as readonly string[]).includes(metric)
+      )
+    )
+    .withMessage(`Vital sign thresholds can only set ${VITAL_SIGN_METRICS.join(', ')}`),
+  body('vitalSignThresholds.*.min').optional().isFloat().withMessage('Minimum must be a number'),
+  body('vitalSignThresholds.*.max').optional().isFloat().withMessage('Maximum must be a number'),
   body('theme').optional().isObject().withMessage('Theme must be an object'),
   body('theme.primary')
     .optional()
@@ -374,6 +519,138 @@ router.get('/public/:id', getBusinessByIdPublic);
  */
 router.get('/:id', authenticate, getBusinessById);
 
+/**
+ * @swagger
+ * /api/businesses/{id}/client-attendance:
+ *   get:
+ *     summary: Get clients with late cancellations or no-shows (Owner only)
+ *     description: |
+ *       Counts late cancellations and no-shows per client of the business, most
+ *       incidents first, so owners can spot repeat offenders.
+ *     tags: [Businesses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Business ID
+ *       - in: query
+ *         name: minIncidents
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Only include clients with at least this many incidents
+ *     responses:
+ *       200:
+ *         description: Client attendance summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 results:
+ *                   type: number
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     clients:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           user:
+ *                             type: object
+ *                             properties:
+ *                               _id: { type: string }
+ *                               name: { type: string }
+ *                               email: { type: string }
+ *                               phone: { type: string }
+ *                           totalReservations: { type: number, example: 6 }
+ *                           noShows: { type: number, example: 2 }
+ *                           lateCancellations: { type: number, example: 1 }
+ *                           totalIncidents: { type: number, example: 3 }
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Business not found
+ */
+router.get(
+  '/:id/client-attendance',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(clientAttendanceQueryValidation),
+  getClientAttendance
+);
+
+/**
+ * @swagger
+ * /api/businesses/{id}/invoices:
+ *   get:
+ *     summary: Get the invoices of a business (Owner only)
+ *     description: |
+ *       Invoices and receipts the business issued for completed reservations, newest
+ *       first. Businesses with a RUC issue invoices and the rest receipts, numbered in
+ *       a single sequence per business.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Business ID
+ *       - $ref: '#/components/parameters/InvoiceFrom'
+ *       - $ref: '#/components/parameters/InvoiceTo'
+ *       - $ref: '#/components/parameters/InvoicePage'
+ *       - $ref: '#/components/parameters/InvoiceLimit'
+ *     responses:
+ *       200:
+ *         description: List of invoices
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 results:
+ *                   type: number
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invoices:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Invoice'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page: { type: number }
+ *                         limit: { type: number }
+ *                         total: { type: number }
+ *                         pages: { type: number }
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Business not found
+ */
+router.get(
+  '/:id/invoices',
+  authenticate,
+  authorize('owner', 'admin'),
+  validate(businessInvoicesQueryValidation),
+  getBusinessInvoices
+);
+
 /**
  * @swagger
  * /api/businesses/{id}:
@@ -1,13 +1,20 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 
 import {
   createClinicalRecord,
   getClinicalRecords,
   getClinicalRecordById,
   updateClinicalRecord,
+  deleteClinicalRecord,
+  getClinicalRecordRevisions,
+  getClinicalRecordVersion,
+  uploadClinicalRecordAttachment,
+  getClinicalRecordAttachments,
+  deleteClinicalRecordAttachment,
 } from '../controllers/clinicalRecordController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
+import { upload, handleUploadError } from '../middleware/upload.js';
 import { validate } from '../middleware/validate.js';
 
 const router = Router();
@@ -33,6 +40,30 @@ const clinicalRecordValidation = [
   body('medications').optional().isArray(),
   body('disability').optional().trim(),
   body('notes').optional().trim(),
+  body('healthProfile').optional().isObject().withMessage('Health profile must be an object'),
+  body('template').optional().isMongoId().withMessage('Invalid template ID'),
+  body('answers').optional().isObject().withMessage('Answers must be an object'),
+];
+
+const deleteValidation = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('A reason is required to delete a clinical record')
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters'),
+];
+
+const versionValidation = [
+  param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer'),
+];
+
+const attachmentValidation = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
 ];
 
 /**
@@ -269,4 +300,258 @@ router.put(
   updateClinicalRecord
 );
 
+/**
+ * @swagger
+ * /api/clinical-records/{id}:
+ *   delete:
+ *     summary: Delete a clinical record
+ *     description: |
+ *       Records are kept with the reason, author and time of the deletion for the
+ *       audit trail, and no longer returned by the API
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: Created for the wrong patient
+ *     responses:
+ *       200:
+ *         description: Clinical record deleted
+ *       400:
+ *         description: Missing reason
+ *       403:
+ *         description: Forbidden - Not the specialist of this record
+ *       404:
+ *         description: Clinical record not found
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  authorize('specialist', 'admin'),
+  validate(deleteValidation),
+  deleteClinicalRecord
+);
+
+/**
+ * @swagger
+ * /api/clinical-records/{id}/revisions:
+ *   get:
+ *     summary: Get the version history of a clinical record
+ *     description: |
+ *       Every edit stores an immutable revision with its author, time and the
+ *       previous and new value of each changed field. The record is created at
+ *       version 1, so the first revision is version 2
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *     responses:
+ *       200:
+ *         description: Revisions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 results:
+ *                   type: integer
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     revisions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ClinicalRecordRevision'
+ *       403:
+ *         description: Forbidden - Not authorized to view this record
+ *       404:
+ *         description: Clinical record not found
+ */
+router.get('/:id/revisions', authenticate, getClinicalRecordRevisions);
+
+/**
+ * @swagger
+ * /api/clinical-records/{id}/revisions/{version}:
+ *   get:
+ *     summary: Get a clinical record as of a past version
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: The clinical record with the content of that version
+ *       403:
+ *         description: Forbidden - Not authorized to view this record
+ *       404:
+ *         description: Clinical record or version not found
+ */
+router.get(
+  '/:id/revisions/:version',
+  authenticate,
+  validate(versionValidation),
+  getClinicalRecordVersion
+);
+
+/**
+ * @swagger
+ * /api/clinical-records/{id}/attachments:
+ *   post:
+ *     summary: Upload a file to a clinical record
+ *     description: Stores the file with the configured storage provider and links it to the record
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               description:
+ *                 type: string
+ *                 example: Chest X-ray
+ *     responses:
+ *       201:
+ *         description: Attachment created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     attachment:
+ *                       $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: No file provided, invalid file type or file too large
+ *       403:
+ *         description: Forbidden - Not the specialist of this record
+ *       404:
+ *         description: Clinical record not found
+ */
+router.post(
+  '/:id/attachments',
+  authenticate,
+  authorize('specialist', 'admin'),
+  upload.single('file'),
+  handleUploadError,
+  validate(attachmentValidation),
+  uploadClinicalRecordAttachment
+);
+
+/**
+ * @swagger
+ * /api/clinical-records/{id}/attachments:
+ *   get:
+ *     summary: Get the attachments of a clinical record
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *     responses:
+ *       200:
+ *         description: Attachments, newest first
+ *       403:
+ *         description: Forbidden - Not the patient or specialist of this record
+ *       404:
+ *         description: Clinical record not found
+ */
+router.get('/:id/attachments', authenticate, getClinicalRecordAttachments);
+
+/**
+ * @swagger
+ * /api/clinical-records/{id}/attachments/{attachmentId}:
+ *   delete:
+ *     summary: Delete an attachment and its stored file
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Clinical record ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachment deleted
+ *       403:
+ *         description: Forbidden - Not the specialist of this record
+ *       404:
+ *         description: Clinical record or attachment not found
+ */
+router.delete(
+  '/:id/attachments/:attachmentId',
+  authenticate,
+  authorize('specialist', 'admin'),
+  deleteClinicalRecordAttachment
+);
+
 export default router;
@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+
+import {
+  createClinicalRecordTemplate,
+  getClinicalRecordTemplates,
+  getClinicalRecordTemplate,
+  updateClinicalRecordTemplate,
+} from '../controllers/clinicalRecordTemplateController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+import { TEMPLATE_FIELD_TYPES } from '../models/ClinicalRecordTemplate.js';
+
+const router = Router({ mergeParams: true });
+
+const fieldKeyRegex = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+// Validation rules
+const templateFieldsValidation = [
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Description cannot exceed 500 characters'),
+  body('specialty').optional().trim(),
+  body('fields.*.key')
+    .matches(fieldKeyRegex)
+    .withMessage(
+      'Field keys must start with a letter and contain only letters, numbers and underscores'
+    ),
+  body('fields.*.label').trim().notEmpty().withMessage('Field label is required'),
+  body('fields.*.type')
+    .isIn(TEMPLATE_FIELD_TYPES)
+    .withMessage(`Field type must be one of ${TEMPLATE_FIELD_TYPES.join(', ')}`),
+  body('fields.*.required').optional().isBoolean().withMessage('Required must be a boolean'),
+  body('fields.*.options').optional().isArray().withMessage('Options must be an array'),
+  body('fields.*.options.*').isString().trim().notEmpty().withMessage('Invalid option'),
+  body('fields.*.unit')
+    .optional()
+    .trim()
+    .isLength({ max: 20 })
+    .withMessage('Unit cannot exceed 20 characters'),
+  body('fields.*.min').optional().isFloat().withMessage('Minimum must be a number'),
+  body('fields.*.max').optional().isFloat().withMessage('Maximum must be a number'),
+];
+
+const templateValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('fields').isArray({ min: 1 }).withMessage('Templates need at least one field'),
+  ...templateFieldsValidation,
+];
+
+const templateUpdateValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('fields').optional().isArray({ min: 1 }).withMessage('Templates need at least one field'),
+  ...templateFieldsValidation,
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/clinical-record-templates:
+ *   post:
+ *     summary: Create a clinical record template (Owner only)
+ *     description: |
+ *       Structured form the specialists of the business fill in when creating clinical
+ *       records. A template with a `specialty` is only offered to specialists of that
+ *       specialty, compared case-insensitively. Records store their answers under the
+ *       field keys, validated against the template version they were created with.
+ *     tags: [Clinical Record Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - fields
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Cardiology follow-up
+ *               description:
+ *                 type: string
+ *               specialty:
+ *                 type: string
+ *                 example: Cardiology
+ *               fields:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ClinicalRecordTemplateField'
+ *     responses:
+ *       201:
+ *         description: Template created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     template:
+ *                       $ref: '#/components/schemas/ClinicalRecordTemplate'
+ *       400:
+ *         description: Validation error, duplicate keys, or options or units on the wrong field types
+ *       403:
+ *         description: Not the owner of the business
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('owner'),
+  validate(templateValidation),
+  createClinicalRecordTemplate
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/clinical-record-templates:
+ *   get:
+ *     summary: Get the active clinical record templates of a business
+ *     tags: [Clinical Record Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: specialty
+ *         schema:
+ *           type: string
+ *         description: Only templates for this specialty and for every specialty
+ *     responses:
+ *       200:
+ *         description: Templates sorted by name, without their previous versions
+ */
+router.get('/', authenticate, getClinicalRecordTemplates);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/clinical-record-templates/{templateId}:
+ *   get:
+ *     summary: Get a clinical record template with its previous versions
+ *     tags: [Clinical Record Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Template details
+ *       404:
+ *         description: Template not found
+ */
+router.get('/:templateId', authenticate, getClinicalRecordTemplate);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/clinical-record-templates/{templateId}:
+ *   put:
+ *     summary: Update a clinical record template (Owner only)
+ *     description: |
+ *       Changing the fields starts a new version and keeps the previous one, so records
+ *       created with it keep being validated against their original fields. Templates
+ *       are never deleted; set `isActive` to false to stop offering them.
+ *     tags: [Clinical Record Templates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: templateId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               specialty:
+ *                 type: string
+ *               fields:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ClinicalRecordTemplateField'
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Template updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Template not found
+ */
+router.put(
+  '/:templateId',
+  authenticate,
+  authorize('owner'),
+  validate(templateUpdateValidation),
+  updateClinicalRecordTemplate
+);
+
+export default router;
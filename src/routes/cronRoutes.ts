@@ -1,6 +1,8 @@
 import { Router } from 'express';
 
 import { reminderService } from '../services/reminderService.js';
+import { waitlistService } from '../services/waitlistService.js';
+import { paymentService } from '../services/paymentService.js';
 
 const router = Router();
 
@@ -75,4 +77,136 @@ router.post('/send-reminders', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/cron/process-waitlist:
+ *   post:
+ *     summary: Pass unclaimed waitlist offers to the next client (for Vercel Cron)
+ *     description: |
+ *       Expires waitlist offers whose hold has run out and offers each freed slot to the
+ *       next matching client. Should be called every minute.
+ *
+ *       **Security**: This endpoint should be protected with a secret token in production.
+ *     tags: [Waitlist]
+ *     parameters:
+ *       - in: header
+ *         name: x-cron-secret
+ *         schema:
+ *           type: string
+ *         description: Secret token to authenticate cron job requests
+ *     responses:
+ *       200:
+ *         description: Expired offers processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     expired:
+ *                       type: number
+ *                       example: 2
+ *       401:
+ *         description: Unauthorized - Invalid or missing cron secret
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/process-waitlist', async (req, res) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const providedSecret = req.headers['x-cron-secret'];
+
+    if (process.env.NODE_ENV === 'production' && cronSecret && providedSecret !== cronSecret) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized',
+      });
+    }
+
+    const expired = await waitlistService.processExpiredOffers();
+
+    return res.json({
+      status: 'success',
+      data: { expired },
+    });
+  } catch (error) {
+    console.error('Error processing waitlist:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to process waitlist',
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/cron/release-unpaid:
+ *   post:
+ *     summary: Release reservations that were not paid in time (for Vercel Cron)
+ *     description: |
+ *       Cancels pending reservations whose deposit or prepayment is still unpaid when it
+ *       is due, offering their slot to the waitlist. Should be called every minute.
+ *
+ *       **Security**: This endpoint should be protected with a secret token in production.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: header
+ *         name: x-cron-secret
+ *         schema:
+ *           type: string
+ *         description: Secret token to authenticate cron job requests
+ *     responses:
+ *       200:
+ *         description: Unpaid reservations released
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     released:
+ *                       type: number
+ *                       example: 1
+ *       401:
+ *         description: Unauthorized - Invalid or missing cron secret
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/release-unpaid', async (req, res) => {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const providedSecret = req.headers['x-cron-secret'];
+
+    if (process.env.NODE_ENV === 'production' && cronSecret && providedSecret !== cronSecret) {
+      return res.status(401).json({
+        status: 'error',
+        message: 'Unauthorized',
+      });
+    }
+
+    const released = await paymentService.releaseUnpaidReservations();
+
+    return res.json({
+      status: 'success',
+      data: { released },
+    });
+  } catch (error) {
+    console.error('Error releasing unpaid reservations:', error);
+    return res.status(500).json({
+      status: 'error',
+      message: 'Failed to release unpaid reservations',
+    });
+  }
+});
+
 export default router;
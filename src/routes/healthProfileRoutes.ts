@@ -0,0 +1,217 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+
+import {
+  getHealthProfile,
+  getSharedHealthProfiles,
+  updateHealthProfile,
+  updateHealthProfileSharing,
+} from '../controllers/healthProfileController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+// Validation rules
+const entryValidation = (list: string) => [
+  body(list).optional().isArray().withMessage(`${list} must be an array`),
+  body(`${list}.*.name`).trim().notEmpty().withMessage('Name is required'),
+  body(`${list}.*.startDate`).optional().isISO8601().withMessage('Invalid start date'),
+  body(`${list}.*.endDate`).optional().isISO8601().withMessage('Invalid end date'),
+  body(`${list}.*.notes`)
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+];
+
+const healthProfileValidation = [
+  ...entryValidation('allergies'),
+  body('allergies.*.severity')
+    .optional()
+    .isIn(['mild', 'moderate', 'severe'])
+    .withMessage('Severity must be mild, moderate or severe'),
+  body('allergies.*.reaction').optional().trim(),
+  ...entryValidation('conditions'),
+  ...entryValidation('medications'),
+  body('medications.*.dosage').optional().trim(),
+  body('medications.*.frequency').optional().trim(),
+  body('disability')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Disability description cannot exceed 500 characters'),
+];
+
+const sharingValidation = [
+  body('businesses').isArray().withMessage('Businesses must be an array'),
+  body('businesses.*').isMongoId().withMessage('Invalid business ID'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/patients/{patientId}/health-profile:
+ *   get:
+ *     summary: Get the health profile a business keeps for a patient
+ *     description: |
+ *       Persistent allergies, chronic conditions and medications of the patient.
+ *       Entries without an end date are current. The patient, admins and the
+ *       specialists of the business or of the businesses it is shared with can
+ *       view it
+ *     tags: [Health Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Health profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     healthProfile:
+ *                       $ref: '#/components/schemas/HealthProfile'
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Health profile not found
+ */
+router.get('/', authenticate, getHealthProfile);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/patients/{patientId}/health-profile:
+ *   put:
+ *     summary: Update the health profile of a patient (Specialist or Admin)
+ *     description: |
+ *       Creates the profile on the first update. Entries are matched by name
+ *       against the current ones, so sending an existing allergy, condition or
+ *       medication updates it instead of adding a duplicate. Setting an `endDate`
+ *       closes the entry and keeps it in the history. Only users with a reservation
+ *       or clinical record at the business have a profile there
+ *     tags: [Health Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/HealthProfileUpdate'
+ *     responses:
+ *       200:
+ *         description: Health profile updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not a specialist of the business, or the user is not a patient of it
+ *       404:
+ *         description: Patient not found
+ */
+router.put(
+  '/',
+  authenticate,
+  authorize('specialist', 'admin'),
+  validate(healthProfileValidation),
+  updateHealthProfile
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/patients/{patientId}/health-profile/shared:
+ *   get:
+ *     summary: Get the health profiles other businesses keep for the patient and shared with this one (Specialist or Admin)
+ *     tags: [Health Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shared health profiles, most recently updated first
+ *       403:
+ *         description: Not a specialist of the business
+ */
+router.get('/shared', authenticate, authorize('specialist', 'admin'), getSharedHealthProfiles);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/patients/{patientId}/health-profile/sharing:
+ *   put:
+ *     summary: Choose the businesses the health profile is shared with (Patient only)
+ *     description: Replaces the previous list, so an empty list withdraws the consent
+ *     tags: [Health Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - businesses
+ *             properties:
+ *               businesses:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Sharing updated
+ *       403:
+ *         description: Not the patient
+ *       404:
+ *         description: Health profile or business not found
+ */
+router.put('/sharing', authenticate, validate(sharingValidation), updateHealthProfileSharing);
+
+export default router;
@@ -6,6 +6,16 @@ import reservationRoutes from './reservationRoutes.js';
 import clinicalRecordRoutes from './clinicalRecordRoutes.js';
 import uploadRoutes from './uploadRoutes.js';
 import cronRoutes from './cronRoutes.js';
+import scheduleExceptionRoutes from './scheduleExceptionRoutes.js';
+import waitlistRoutes from './waitlistRoutes.js';
+import resourceRoutes from './resourceRoutes.js';
+import analyticsRoutes from './analyticsRoutes.js';
+import paymentRoutes from './paymentRoutes.js';
+import invoiceRoutes from './invoiceRoutes.js';
+import pricingRuleRoutes from './pricingRuleRoutes.js';
+import healthProfileRoutes from './healthProfileRoutes.js';
+import vitalSignRoutes from './vitalSignRoutes.js';
+import clinicalRecordTemplateRoutes from './clinicalRecordTemplateRoutes.js';
 
 export {
   authRoutes,
@@ -16,4 +26,14 @@ export {
   clinicalRecordRoutes,
   uploadRoutes,
   cronRoutes,
+  scheduleExceptionRoutes,
+  waitlistRoutes,
+  resourceRoutes,
+  analyticsRoutes,
+  paymentRoutes,
+  invoiceRoutes,
+  pricingRuleRoutes,
+  healthProfileRoutes,
+  vitalSignRoutes,
+  clinicalRecordTemplateRoutes,
 };
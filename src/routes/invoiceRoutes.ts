@@ -0,0 +1,174 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+
+import {
+  getMyInvoices,
+  getInvoiceById,
+  downloadInvoicePdf,
+} from '../controllers/invoiceController.js';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router();
+
+// Validation rules
+const invoiceQueryValidation = [
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     InvoiceFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Only invoices issued from this date
+ *     InvoiceTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Only invoices issued up to this date
+ *     InvoicePage:
+ *       in: query
+ *       name: page
+ *       schema:
+ *         type: integer
+ *         default: 1
+ *     InvoiceLimit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         default: 20
+ *         maximum: 100
+ */
+
+/**
+ * @swagger
+ * /api/invoices:
+ *   get:
+ *     summary: Get my invoices
+ *     description: Invoices and receipts issued to the authenticated client by every business, newest first.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/InvoiceFrom'
+ *       - $ref: '#/components/parameters/InvoiceTo'
+ *       - $ref: '#/components/parameters/InvoicePage'
+ *       - $ref: '#/components/parameters/InvoiceLimit'
+ *     responses:
+ *       200:
+ *         description: List of invoices
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 results:
+ *                   type: number
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invoices:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Invoice'
+ *                     pagination:
+ *                       type: object
+ *                       properties:
+ *                         page: { type: number }
+ *                         limit: { type: number }
+ *                         total: { type: number }
+ *                         pages: { type: number }
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/', authenticate, validate(invoiceQueryValidation), getMyInvoices);
+
+/**
+ * @swagger
+ * /api/invoices/{id}:
+ *   get:
+ *     summary: Get invoice by ID
+ *     description: Available to the client, the business owner and admins.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     responses:
+ *       200:
+ *         description: Invoice details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     invoice:
+ *                       $ref: '#/components/schemas/Invoice'
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:id', authenticate, getInvoiceById);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/pdf:
+ *   get:
+ *     summary: Download invoice as PDF
+ *     description: Available to the client, the business owner and admins.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     responses:
+ *       200:
+ *         description: The invoice document
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Invoice not found
+ */
+router.get('/:id/pdf', authenticate, downloadInvoicePdf);
+
+export default router;
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+
+import { handlePaymentWebhook } from '../controllers/paymentController.js';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/payments/webhook:
+ *   post:
+ *     summary: Receive payment results from the payment provider
+ *     description: |
+ *       Called by the payment provider when a checkout is paid or fails. A paid
+ *       checkout marks the reservation payment as `paid`; when the reservation was
+ *       already released or cancelled the amount is refunded right away. A failed one
+ *       marks it as `failed` and the client can start a new checkout until the
+ *       payment is due. Calls for payments that already have a result are ignored.
+ *
+ *       With the `fake` provider the body is `{ "type", "paymentId", "reason" }`, and
+ *       the `x-payment-signature` header must hold the HMAC-SHA256 of the JSON body
+ *       with `PAYMENT_WEBHOOK_SECRET`. Every call is rejected while no secret is set.
+ *       In production, payments answer `503` while the provider is `fake` or no
+ *       secret is set.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: header
+ *         name: x-payment-signature
+ *         schema:
+ *           type: string
+ *         description: Signature of the body
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [payment.succeeded, payment.failed]
+ *               paymentId:
+ *                 type: string
+ *                 description: Provider payment ID
+ *                 example: fake_pay_4f9a1c2b7e8d0a1b2c3d4e5f
+ *               reason:
+ *                 type: string
+ *                 description: Why the payment failed
+ *     responses:
+ *       200:
+ *         description: Event applied
+ *       400:
+ *         description: Invalid payment event
+ *       401:
+ *         description: Invalid payment signature, or no webhook secret configured
+ *       404:
+ *         description: Payment not found
+ *       503:
+ *         description: Payments are not configured for production
+ */
+router.post('/webhook', handlePaymentWebhook);
+
+export default router;
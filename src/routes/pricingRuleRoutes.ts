@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+
+import {
+  createPricingRule,
+  getPricingRules,
+  updatePricingRule,
+  deletePricingRule,
+} from '../controllers/pricingRuleController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Validation rules
+const pricingRuleFieldsValidation = [
+  body('percent')
+    .optional()
+    .isFloat({ gt: 0, max: 100 })
+    .withMessage('Percent must be greater than 0 and at most 100'),
+  body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be a positive number'),
+  body('services').optional().isArray().withMessage('Services must be an array'),
+  body('services.*').isMongoId().withMessage('Invalid service ID'),
+  body('days').optional().isArray().withMessage('Days must be an array'),
+  body('days.*').isIn(days).withMessage('Invalid day'),
+  body('startTime').optional().matches(timeRegex).withMessage('Start time must be in HH:MM format'),
+  body('endTime').optional().matches(timeRegex).withMessage('End time must be in HH:MM format'),
+  body('validFrom')
+    .optional()
+    .matches(dateKeyRegex)
+    .withMessage('Valid from must be in YYYY-MM-DD format'),
+  body('validTo')
+    .optional()
+    .matches(dateKeyRegex)
+    .withMessage('Valid to must be in YYYY-MM-DD format'),
+];
+
+const pricingRuleValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('type').isIn(['surcharge', 'discount']).withMessage('Type must be surcharge or discount'),
+  ...pricingRuleFieldsValidation,
+];
+
+const pricingRuleUpdateValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('type')
+    .optional()
+    .isIn(['surcharge', 'discount'])
+    .withMessage('Type must be surcharge or discount'),
+  ...pricingRuleFieldsValidation,
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/pricing-rules:
+ *   post:
+ *     summary: Create a surcharge or promotional discount (Owner only)
+ *     description: |
+ *       Rules adjust the price of reservations starting on the given days, times of
+ *       day and validity window, read in the business timezone; missing conditions
+ *       match every reservation. A rule takes a `percent` of the service price or a
+ *       fixed `amount`. Every matching rule applies, and discounts never take the
+ *       price below zero. New reservations keep the resulting price, so later changes
+ *       to rules or services do not affect them.
+ *     tags: [Pricing Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Weekend
+ *               type:
+ *                 type: string
+ *                 enum: [surcharge, discount]
+ *               percent:
+ *                 type: number
+ *                 example: 20
+ *               amount:
+ *                 type: number
+ *               services:
+ *                 type: array
+ *                 description: Service IDs, every service when empty
+ *                 items:
+ *                   type: string
+ *               days:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [monday, tuesday, wednesday, thursday, friday, saturday, sunday]
+ *                 example: [saturday, sunday]
+ *               startTime:
+ *                 type: string
+ *                 example: '18:00'
+ *               endTime:
+ *                 type: string
+ *                 description: Exclusive. Before startTime the window wraps past midnight
+ *               validFrom:
+ *                 type: string
+ *                 example: '2025-12-01'
+ *               validTo:
+ *                 type: string
+ *                 example: '2025-12-31'
+ *     responses:
+ *       201:
+ *         description: Pricing rule created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       $ref: '#/components/schemas/PricingRule'
+ *       400:
+ *         description: Validation error, or neither or both of percent and amount
+ *       403:
+ *         description: Not the owner of the business
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('owner'),
+  validate(pricingRuleValidation),
+  createPricingRule
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/pricing-rules:
+ *   get:
+ *     summary: Get the pricing rules of a business
+ *     tags: [Pricing Rules]
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Surcharges then discounts, sorted by name
+ */
+router.get('/', getPricingRules);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/pricing-rules/{ruleId}:
+ *   put:
+ *     summary: Update a pricing rule (Owner only)
+ *     description: Setting `percent` or `amount` replaces the other. Reservations already booked keep their price
+ *     tags: [Pricing Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PricingRule'
+ *     responses:
+ *       200:
+ *         description: Pricing rule updated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Pricing rule not found
+ */
+router.put(
+  '/:ruleId',
+  authenticate,
+  authorize('owner'),
+  validate(pricingRuleUpdateValidation),
+  updatePricingRule
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/pricing-rules/{ruleId}:
+ *   delete:
+ *     summary: Delete a pricing rule (Owner only)
+ *     description: Reservations already booked keep their price
+ *     tags: [Pricing Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pricing rule deleted
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Pricing rule not found
+ */
+router.delete('/:ruleId', authenticate, authorize('owner'), deletePricingRule);
+
+export default router;
@@ -3,13 +3,22 @@ import { body } from 'express-validator';
 
 import {
   createReservation,
+  createReservationSeries,
+  getReservationSeries,
+  createSlotHold,
+  releaseSlotHold,
   getReservations,
   getReservationById,
   updateReservationStatus,
+  rescheduleReservation,
   checkAvailability,
   getMyReservationsAsSpecialist,
 } from '../controllers/reservationController.js';
 import { getClinicalRecordByReservation } from '../controllers/clinicalRecordController.js';
+import {
+  getReservationPayments,
+  retryReservationPayment,
+} from '../controllers/paymentController.js';
 import { authenticate } from '../middleware/auth.js';
 import { validate } from '../middleware/validate.js';
 
@@ -22,13 +31,57 @@ const reservationValidation = [
   body('service').notEmpty().withMessage('Service ID is required'),
   body('startDate').isISO8601().withMessage('Valid start date is required'),
   body('notes').optional().trim(),
+  body('attendanceMode')
+    .optional()
+    .isIn(['in_person', 'remote'])
+    .withMessage('Attendance mode must be in_person or remote'),
+  body('hold').optional().isMongoId().withMessage('Valid hold ID is required'),
+];
+
+const slotHoldValidation = [
+  body('business').isMongoId().withMessage('Valid business ID is required'),
+  body('specialist').isMongoId().withMessage('Valid specialist ID is required'),
+  body('service').isMongoId().withMessage('Valid service ID is required'),
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
 ];
 
+const reservationSeriesValidation = [
+  ...reservationValidation,
+  body('frequency')
+    .isIn(['weekly', 'biweekly'])
+    .withMessage('Frequency must be weekly or biweekly'),
+  body('count')
+    .optional()
+    .isInt({ min: 2, max: 52 })
+    .withMessage('Count must be between 2 and 52')
+    .toInt(),
+  body('until')
+    .optional()
+    .matches(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/)
+    .withMessage('Until must be in YYYY-MM-DD format'),
+  body('count')
+    .if(body('until').not().exists())
+    .exists()
+    .withMessage('Either count or until is required'),
+];
+
+const seriesScopeValidation = body('scope')
+  .optional()
+  .isIn(['single', 'following'])
+  .withMessage('Scope must be single or following');
+
 const updateStatusValidation = [
   body('status')
     .isIn(['pending', 'confirmed', 'cancelled', 'completed', 'no-show'])
     .withMessage('Invalid status'),
   body('cancellationReason').optional().trim(),
+  seriesScopeValidation,
+];
+
+const rescheduleValidation = [
+  body('startDate').isISO8601().withMessage('Valid start date is required'),
+  body('reason').optional().trim().isLength({ max: 500 }),
+  seriesScopeValidation,
 ];
 
 /**
@@ -80,6 +133,226 @@ const updateStatusValidation = [
  */
 router.post('/', authenticate, validate(reservationValidation), createReservation);
 
+/**
+ * @swagger
+ * /api/reservations/series:
+ *   post:
+ *     summary: Create a recurring reservation series
+ *     description: |
+ *       Books the same time every week or every other week, up to 52 occurrences.
+ *       Each occurrence is a normal reservation linked to the series and validated
+ *       like a single booking. Occurrences that cannot be booked are skipped and
+ *       listed in `conflicts`. The specialist receives one email for the series.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - business
+ *               - specialist
+ *               - service
+ *               - startDate
+ *               - frequency
+ *             properties:
+ *               business:
+ *                 type: string
+ *               specialist:
+ *                 type: string
+ *               service:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: First occurrence
+ *               frequency:
+ *                 type: string
+ *                 enum: [weekly, biweekly]
+ *               count:
+ *                 type: integer
+ *                 minimum: 2
+ *                 maximum: 52
+ *                 description: Number of occurrences. Required without until
+ *               until:
+ *                 type: string
+ *                 example: '2025-12-31'
+ *                 description: Last possible date (inclusive). Required without count
+ *               notes:
+ *                 type: string
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, remote]
+ *     responses:
+ *       201:
+ *         description: Series created with its reservations and the occurrences that could not be booked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     series:
+ *                       type: object
+ *                     reservations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Reservation'
+ *                     conflicts:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           startDate:
+ *                             type: string
+ *                             format: date-time
+ *                           reason:
+ *                             type: string
+ *                             example: Time slot is already booked
+ *       400:
+ *         description: Validation error
+ *       409:
+ *         description: None of the occurrences are available
+ */
+router.post(
+  '/series',
+  authenticate,
+  validate(reservationSeriesValidation),
+  createReservationSeries
+);
+
+/**
+ * @swagger
+ * /api/reservations/series/{seriesId}:
+ *   get:
+ *     summary: Get a reservation series with its occurrences
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Series ID
+ *     responses:
+ *       200:
+ *         description: Series and its reservations ordered by date
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reservation series not found
+ */
+router.get('/series/:seriesId', authenticate, getReservationSeries);
+
+/**
+ * @swagger
+ * /api/reservations/holds:
+ *   post:
+ *     summary: Hold a slot while completing a booking
+ *     description: |
+ *       Keeps the slot out of the available slots of every other client for
+ *       `SLOT_HOLD_MINUTES` (10 by default). Booking the same slot with
+ *       `POST /api/reservations` turns the hold into the reservation; otherwise it
+ *       expires on its own. Taking a new hold on the same specialist releases the
+ *       previous one.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - business
+ *               - specialist
+ *               - service
+ *               - startDate
+ *             properties:
+ *               business:
+ *                 type: string
+ *               specialist:
+ *                 type: string
+ *               service:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Slot held
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     hold:
+ *                       type: object
+ *                       properties:
+ *                         _id:
+ *                           type: string
+ *                         startDate:
+ *                           type: string
+ *                           format: date-time
+ *                         endDate:
+ *                           type: string
+ *                           format: date-time
+ *                         expiresAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Validation error or specialist not available at that time
+ *       404:
+ *         description: Service or specialist not found
+ *       409:
+ *         description: Time slot already booked or held by another client, or the specialist schedule is busy
+ */
+router.post('/holds', authenticate, validate(slotHoldValidation), createSlotHold);
+
+/**
+ * @swagger
+ * /api/reservations/holds/{id}:
+ *   delete:
+ *     summary: Release a slot hold
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Hold ID
+ *     responses:
+ *       200:
+ *         description: Hold released
+ *       400:
+ *         description: Waitlist offers are declined through DELETE /api/waitlist/{id}
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Hold not found or expired
+ */
+router.delete('/holds/:id', authenticate, releaseSlotHold);
+
 /**
  * @swagger
  * /api/reservations:
@@ -124,6 +397,15 @@ router.post('/', authenticate, validate(reservationValidation), createReservatio
  *                 type: string
  *                 description: Optional notes for the reservation
  *                 example: First time appointment
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, remote]
+ *                 description: |
+ *                   Defaults to remote for remote-only services and in person otherwise.
+ *                   Remote reservations get a video meeting link in `meeting`
+ *               hold:
+ *                 type: string
+ *                 description: Hold taken with POST /api/reservations/holds. Booking fails with 409 if it has expired
  *     responses:
  *       201:
  *         description: Reservation created successfully. The response includes the auto-calculated endDate. Confirmation email sent to client.
@@ -141,11 +423,13 @@ router.post('/', authenticate, validate(reservationValidation), createReservatio
  *                     reservation:
  *                       $ref: '#/components/schemas/Reservation'
  *       409:
- *         description: Time slot not available (conflicts with existing reservation)
+ *         description: Time slot not available (conflicts with an existing reservation or another client's hold), or the hold has expired
  *       404:
  *         description: Service, specialist, or business not found
  *       400:
- *         description: Invalid data or specialist cannot provide this service
+ *         description: Invalid data, specialist cannot provide this service or attendance mode not offered
+ *       503:
+ *         description: The service requires a prepayment and payments are not configured for production
  */
 router.get('/', authenticate, getReservations);
 
@@ -305,13 +589,75 @@ router.get('/:id', authenticate, getReservationById);
  */
 router.get('/:id/clinical-record', authenticate, getClinicalRecordByReservation);
 
+/**
+ * @swagger
+ * /api/reservations/{id}/payments:
+ *   get:
+ *     summary: Get the payments of a reservation
+ *     description: Checkouts started for the reservation with their result and refunds. For the client, the business owner or an admin.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Reservation ID
+ *     responses:
+ *       200:
+ *         description: Payments, oldest first
+ *       403:
+ *         description: Not authorized to view these payments
+ *       404:
+ *         description: Reservation not found
+ *   post:
+ *     summary: Start a new checkout for a reservation
+ *     description: |
+ *       For the client of a pending reservation whose payment failed or whose checkout
+ *       page was lost. Only possible until the payment is due; the new `checkoutUrl`
+ *       is also stored in the reservation `payment`.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Reservation ID
+ *     responses:
+ *       201:
+ *         description: Checkout started
+ *       403:
+ *         description: Only the client can pay for the reservation
+ *       404:
+ *         description: Reservation not found
+ *       409:
+ *         description: The reservation does not require or is not awaiting payment
+ *       503:
+ *         description: Payments are not configured for production
+ */
+router.get('/:id/payments', authenticate, getReservationPayments);
+router.post('/:id/payments', authenticate, retryReservationPayment);
+
 /**
  * @swagger
  * /api/reservations/{id}/status:
  *   put:
  *     summary: Update reservation status
  *     description: |
- *       Updates the status of a reservation.
+ *       Updates the status of a reservation. Allowed transitions:
+ *
+ *       | From | To | Who | When |
+ *       |------|----|-----|------|
+ *       | pending | confirmed | specialist, owner, admin | before the reservation ends |
+ *       | pending, confirmed | cancelled | client, specialist, owner, admin | before the reservation ends |
+ *       | confirmed | completed, no-show | specialist, owner, admin | after the reservation starts |
+ *
+ *       `completed`, `cancelled` and `no-show` are final.
  *
  *       **Automatic Notifications**:
  *       - When status changes to 'confirmed', a confirmation email is sent to the client
@@ -340,6 +686,11 @@ router.get('/:id/clinical-record', authenticate, getClinicalRecordByReservation)
  *                 enum: [pending, confirmed, cancelled, completed, no-show]
  *               cancellationReason:
  *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [single, following]
+ *                 default: single
+ *                 description: With following, cancelling also cancels the later occurrences of the series
  *     responses:
  *       200:
  *         description: Status updated successfully. Notification email sent if status is 'confirmed' or 'cancelled'.
@@ -347,9 +698,70 @@ router.get('/:id/clinical-record', authenticate, getClinicalRecordByReservation)
  *         description: Forbidden
  *       404:
  *         description: Reservation not found
+ *       409:
+ *         description: Status change not allowed from the current status or at this time
  */
 router.put('/:id/status', authenticate, validate(updateStatusValidation), updateReservationStatus);
 
+/**
+ * @swagger
+ * /api/reservations/{id}/reschedule:
+ *   put:
+ *     summary: Reschedule a reservation
+ *     description: |
+ *       Moves a pending or confirmed reservation to a new start time. The new time
+ *       is validated with the same rules as a new booking (schedule, exceptions,
+ *       opening hours, buffers and conflicts). The previous times are kept in
+ *       `rescheduleHistory` and the price is quoted again for the new time.
+ *       Prepaid reservations cannot move to a time with a different price.
+ *
+ *       **Automatic Notifications**:
+ *       - Both the client and the specialist receive a rescheduled email
+ *     tags: [Reservations, Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Reservation ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 example: '2025-12-24T10:00:00.000Z'
+ *               reason:
+ *                 type: string
+ *                 example: Client asked for a later time
+ *               scope:
+ *                 type: string
+ *                 enum: [single, following]
+ *                 default: single
+ *                 description: With following, the later occurrences of the series move by the same amount
+ *     responses:
+ *       200:
+ *         description: Reservation rescheduled successfully
+ *       400:
+ *         description: Validation error or time not available
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Reservation not found
+ *       409:
+ *         description: Time slot already booked, reservation can no longer be rescheduled or prepaid at a different price
+ */
+router.put('/:id/reschedule', authenticate, validate(rescheduleValidation), rescheduleReservation);
+
 /**
  * @swagger
  * /api/reservations/specialist/my-reservations:
@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+
+import {
+  createResource,
+  getResources,
+  updateResource,
+  deleteResource,
+} from '../controllers/resourceController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+// Validation rules
+const resourceValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('type').isIn(['room', 'equipment']).withMessage('Type must be room or equipment'),
+  body('description').optional().trim().isLength({ max: 500 }),
+];
+
+const resourceUpdateValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Name must be between 2 and 100 characters'),
+  body('type').optional().isIn(['room', 'equipment']).withMessage('Type must be room or equipment'),
+  body('description').optional().trim().isLength({ max: 500 }),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/resources:
+ *   post:
+ *     summary: Create a room or piece of equipment (Owner only)
+ *     description: |
+ *       Services list the resources they need in `requiredResources`. A slot is
+ *       only offered and booked when the specialist and every required resource
+ *       are free, so two specialists cannot use the same room at the same time.
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - type
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Room 1
+ *               type:
+ *                 type: string
+ *                 enum: [room, equipment]
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Resource created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not the owner of the business
+ */
+router.post('/', authenticate, authorize('owner'), validate(resourceValidation), createResource);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/resources:
+ *   get:
+ *     summary: Get the resources of a business
+ *     tags: [Resources]
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Resources sorted by type and name
+ */
+router.get('/', getResources);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/resources/{resourceId}:
+ *   put:
+ *     summary: Update a resource (Owner only)
+ *     description: Inactive resources cannot be added to services; services already requiring them keep doing so
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: resourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [room, equipment]
+ *               description:
+ *                 type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Resource updated
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Resource not found
+ */
+router.put(
+  '/:resourceId',
+  authenticate,
+  authorize('owner'),
+  validate(resourceUpdateValidation),
+  updateResource
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/resources/{resourceId}:
+ *   delete:
+ *     summary: Delete a resource (Owner only)
+ *     description: Services stop requiring the resource
+ *     tags: [Resources]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: resourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Resource deleted
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Resource not found
+ */
+router.delete('/:resourceId', authenticate, authorize('owner'), deleteResource);
+
+export default router;
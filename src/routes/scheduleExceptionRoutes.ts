@@ -0,0 +1,190 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+
+import {
+  createScheduleException,
+  getScheduleExceptions,
+  deleteScheduleException,
+} from '../controllers/scheduleExceptionController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Validation rules
+const scheduleExceptionValidation = [
+  body('type').isIn(['closed', 'custom_hours']).withMessage('Type must be closed or custom_hours'),
+  body('specialist').optional().isMongoId().withMessage('Invalid specialist ID'),
+  body('startDate').matches(dateKeyRegex).withMessage('Start date must be in YYYY-MM-DD format'),
+  body('endDate')
+    .optional()
+    .matches(dateKeyRegex)
+    .withMessage('End date must be in YYYY-MM-DD format'),
+  body('startTime')
+    .if(body('type').equals('custom_hours'))
+    .matches(timeRegex)
+    .withMessage('Start time must be in HH:MM format'),
+  body('endTime')
+    .if(body('type').equals('custom_hours'))
+    .matches(timeRegex)
+    .withMessage('End time must be in HH:MM format'),
+  body('recurringYearly').optional().isBoolean().withMessage('recurringYearly must be a boolean'),
+  body('reason').optional().trim().isLength({ max: 300 }),
+];
+
+const scheduleExceptionQueryValidation = [
+  query('specialist').optional().isMongoId().withMessage('Invalid specialist ID'),
+  query('from').optional().matches(dateKeyRegex).withMessage('from must be in YYYY-MM-DD format'),
+  query('to').optional().matches(dateKeyRegex).withMessage('to must be in YYYY-MM-DD format'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/schedule-exceptions:
+ *   post:
+ *     summary: Create a schedule exception (Owner only)
+ *     description: |
+ *       Time off, holidays and one-off hours that override the weekly availability.
+ *       Without `specialist` the exception applies to the whole business.
+ *       `closed` removes every slot in the date range; `custom_hours` replaces a
+ *       specialist's hours (or caps everyone's hours when business-wide).
+ *       Dates and times are in each affected specialist's timezone.
+ *     tags: [Schedule Exceptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Business ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - type
+ *               - startDate
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [closed, custom_hours]
+ *                 example: closed
+ *               specialist:
+ *                 type: string
+ *                 description: Specialist ID. Omit for a business-wide exception
+ *               startDate:
+ *                 type: string
+ *                 example: '2025-12-24'
+ *               endDate:
+ *                 type: string
+ *                 description: Inclusive. Defaults to startDate
+ *                 example: '2025-12-26'
+ *               startTime:
+ *                 type: string
+ *                 description: Required for custom_hours
+ *                 example: '09:00'
+ *               endTime:
+ *                 type: string
+ *                 description: Required for custom_hours
+ *                 example: '13:00'
+ *               recurringYearly:
+ *                 type: boolean
+ *                 description: Repeat every year on the same dates (public holidays)
+ *                 example: false
+ *               reason:
+ *                 type: string
+ *                 example: Christmas
+ *     responses:
+ *       201:
+ *         description: Schedule exception created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize('owner'),
+  validate(scheduleExceptionValidation),
+  createScheduleException
+);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/schedule-exceptions:
+ *   get:
+ *     summary: Get schedule exceptions for a business
+ *     description: When filtering by specialist, business-wide exceptions are included
+ *     tags: [Schedule Exceptions]
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Business ID
+ *       - in: query
+ *         name: specialist
+ *         schema:
+ *           type: string
+ *         description: Specialist ID
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: '2025-12-01'
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: '2025-12-31'
+ *     responses:
+ *       200:
+ *         description: List of schedule exceptions
+ */
+router.get('/', validate(scheduleExceptionQueryValidation), getScheduleExceptions);
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/schedule-exceptions/{exceptionId}:
+ *   delete:
+ *     summary: Delete a schedule exception (Owner only)
+ *     tags: [Schedule Exceptions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Business ID
+ *       - in: path
+ *         name: exceptionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Schedule exception ID
+ *     responses:
+ *       200:
+ *         description: Schedule exception deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Schedule exception not found
+ */
+router.delete('/:exceptionId', authenticate, authorize('owner'), deleteScheduleException);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 
 import {
   createService,
@@ -7,6 +7,8 @@ import {
   getServiceById,
   updateService,
   deleteService,
+  searchAvailableSlots,
+  getServicePrice,
 } from '../controllers/serviceController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { validate } from '../middleware/validate.js';
@@ -19,7 +21,42 @@ const serviceValidation = [
   body('duration')
     .isInt({ min: 5, max: 480 })
     .withMessage('Duration must be between 5 and 480 minutes'),
+  body('bufferBefore')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer before must be between 0 and 120 minutes'),
+  body('bufferAfter')
+    .optional()
+    .isInt({ min: 0, max: 120 })
+    .withMessage('Buffer after must be between 0 and 120 minutes'),
+  body('slotInterval')
+    .optional()
+    .isInt({ min: 5, max: 480 })
+    .withMessage('Slot interval must be between 5 and 480 minutes'),
+  body('capacity')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Capacity must be between 1 and 100'),
+  body('requiredResources').optional().isArray().withMessage('Required resources must be an array'),
+  body('requiredResources.*').isMongoId().withMessage('Invalid resource ID'),
+  body('attendanceMode')
+    .optional()
+    .isIn(['in_person', 'remote', 'hybrid'])
+    .withMessage('Attendance mode must be in_person, remote or hybrid'),
   body('price').isFloat({ min: 0 }).withMessage('Price must be a positive number'),
+  body('prepayment')
+    .optional()
+    .isIn(['none', 'deposit', 'full'])
+    .withMessage('Prepayment must be none, deposit or full'),
+  body('depositAmount')
+    .optional()
+    .isFloat({ gt: 0 })
+    .withMessage('Deposit amount must be a positive number'),
+  body('taxRate')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Tax rate must be between 0 and 100'),
+  body('taxIncluded').optional().isBoolean().withMessage('taxIncluded must be a boolean'),
   body('description').optional().trim(),
   body('category').optional().trim(),
 ];
@@ -60,9 +97,48 @@ const serviceValidation = [
  *               duration:
  *                 type: number
  *                 example: 60
+ *               bufferBefore:
+ *                 type: number
+ *                 description: Minutes kept free before each appointment
+ *                 example: 0
+ *               bufferAfter:
+ *                 type: number
+ *                 description: Minutes kept free after each appointment
+ *                 example: 10
+ *               slotInterval:
+ *                 type: number
+ *                 description: Minutes between offered start times. Defaults to the duration
+ *                 example: 15
+ *               capacity:
+ *                 type: number
+ *                 description: Clients who can book the same session (group classes). Defaults to 1
+ *                 example: 1
+ *               requiredResources:
+ *                 type: array
+ *                 description: Resource IDs (rooms, equipment) that must be free for the appointment
+ *                 items:
+ *                   type: string
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, remote, hybrid]
+ *                 description: Remote and hybrid (client chooses) services require a business with remote sessions
  *               price:
  *                 type: number
  *                 example: 75
+ *               prepayment:
+ *                 type: string
+ *                 enum: [none, deposit, full]
+ *                 description: Amount the client pays when booking. Defaults to none
+ *               depositAmount:
+ *                 type: number
+ *                 description: Required for deposits, up to the price
+ *                 example: 20
+ *               taxRate:
+ *                 type: number
+ *                 description: Tax percent overriding the business pricing, e.g. 0 for exempt services
+ *               taxIncluded:
+ *                 type: boolean
+ *                 description: Whether the price already includes the tax, overriding the business pricing
  *               category:
  *                 type: string
  *                 example: Wellness
@@ -110,6 +186,186 @@ router.post('/', authenticate, authorize('owner'), validate(serviceValidation),
  */
 router.get('/', getServicesByBusiness);
 
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const availabilitySearchValidation = [
+  query('from').optional().matches(dateKeyRegex).withMessage('From must be in YYYY-MM-DD format'),
+  query('to').optional().matches(dateKeyRegex).withMessage('To must be in YYYY-MM-DD format'),
+  query('timeFrom').optional().matches(timeRegex).withMessage('Time from must be in HH:mm format'),
+  query('timeTo').optional().matches(timeRegex).withMessage('Time to must be in HH:mm format'),
+  query('specialistId').optional().isMongoId().withMessage('Invalid specialist ID'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 200 })
+    .withMessage('Limit must be between 1 and 200'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/services/{serviceId}/available-slots:
+ *   get:
+ *     summary: Search available slots for a service across specialists and days
+ *     description: |
+ *       Returns the free slots of every active specialist offering the service,
+ *       sorted by start time, so the first slot is the next available appointment.
+ *       Searches 14 days from today by default and at most 31 days. Dates and
+ *       times of day are in each specialist's timezone.
+ *     tags: [Services]
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: serviceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: '2025-12-01'
+ *         description: First day (YYYY-MM-DD), defaults to today
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: '2025-12-14'
+ *         description: Last day (YYYY-MM-DD, inclusive), defaults to 14 days from the first
+ *       - in: query
+ *         name: timeFrom
+ *         schema:
+ *           type: string
+ *           example: '09:00'
+ *         description: Earliest start time of day (HH:mm)
+ *       - in: query
+ *         name: timeTo
+ *         schema:
+ *           type: string
+ *           example: '13:00'
+ *         description: Latest end time of day (HH:mm)
+ *       - in: query
+ *         name: specialistId
+ *         schema:
+ *           type: string
+ *         description: Only search this specialist
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Available slots sorted by start time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fromDate:
+ *                       type: string
+ *                     toDate:
+ *                       type: string
+ *                     total:
+ *                       type: number
+ *                       description: Slots found before applying the limit
+ *                     slots:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           startTime:
+ *                             type: string
+ *                             format: date-time
+ *                           endTime:
+ *                             type: string
+ *                             format: date-time
+ *                           remainingSeats:
+ *                             type: integer
+ *                           specialist:
+ *                             type: object
+ *                             properties:
+ *                               _id:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               specialty:
+ *                                 type: string
+ *       400:
+ *         description: Invalid parameters or range longer than 31 days
+ *       404:
+ *         description: Business or service not found
+ */
+router.get(
+  '/:serviceId/available-slots',
+  validate(availabilitySearchValidation),
+  searchAvailableSlots
+);
+
+const servicePriceValidation = [
+  query('startDate').isISO8601().withMessage('Valid start date is required'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/services/{serviceId}/price:
+ *   get:
+ *     summary: Get the price of a service at a given time
+ *     description: |
+ *       The price a reservation starting at `startDate` would be booked at, with the
+ *       surcharges and discounts of the business pricing rules that apply and the tax.
+ *       New reservations keep this breakdown in `price`.
+ *     tags: [Services]
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: serviceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Price breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     price:
+ *                       $ref: '#/components/schemas/PriceBreakdown'
+ *       400:
+ *         description: Invalid start date
+ *       404:
+ *         description: Service not found
+ */
+router.get('/:serviceId/price', validate(servicePriceValidation), getServicePrice);
+
 /**
  * @swagger
  * /api/businesses/{businessId}/services/{serviceId}:
@@ -171,8 +427,32 @@ router.get('/:serviceId', getServiceById);
  *                 type: string
  *               duration:
  *                 type: number
+ *               bufferBefore:
+ *                 type: number
+ *               bufferAfter:
+ *                 type: number
+ *               slotInterval:
+ *                 type: number
+ *               capacity:
+ *                 type: number
+ *               requiredResources:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               attendanceMode:
+ *                 type: string
+ *                 enum: [in_person, remote, hybrid]
  *               price:
  *                 type: number
+ *               prepayment:
+ *                 type: string
+ *                 enum: [none, deposit, full]
+ *               depositAmount:
+ *                 type: number
+ *               taxRate:
+ *                 type: number
+ *               taxIncluded:
+ *                 type: boolean
  *               category:
  *                 type: string
  *     responses:
@@ -12,6 +12,7 @@ import {
 } from '../controllers/specialistController.js';
 import { authenticate, authorize } from '../middleware/auth.js';
 import { validate } from '../middleware/validate.js';
+import { isValidTimeZone } from '../utils/timezone.js';
 
 const router = Router({ mergeParams: true });
 
@@ -23,6 +24,10 @@ const specialistValidation = [
   body('phone').optional().trim(),
   body('specialty').trim().notEmpty().withMessage('Specialty is required'),
   body('bio').optional().trim(),
+  body('timezone')
+    .optional()
+    .custom(isValidTimeZone)
+    .withMessage('Timezone must be a valid IANA timezone (e.g., America/Guayaquil)'),
   body('services').optional().isArray().withMessage('Services must be an array'),
   body('services.*').optional().isMongoId().withMessage('Each service must be a valid ID'),
   body('schedule').optional().isArray().withMessage('Schedule must be an array'),
@@ -38,6 +43,13 @@ const specialistValidation = [
     .optional()
     .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
     .withMessage('End time must be in HH:MM format'),
+  body('schedule.*.breaks').optional().isArray().withMessage('Breaks must be an array'),
+  body('schedule.*.breaks.*.startTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Break start time must be in HH:MM format'),
+  body('schedule.*.breaks.*.endTime')
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Break end time must be in HH:MM format'),
 ];
 
 const resetPasswordValidation = [
@@ -105,6 +117,7 @@ const resetPasswordValidation = [
  *                 description: Array of service IDs that this specialist can provide
  *               schedule:
  *                 type: array
+ *                 description: Weekly working blocks. Repeat a day for split shifts
  *                 items:
  *                   type: object
  *                   properties:
@@ -121,6 +134,17 @@ const resetPasswordValidation = [
  *                     isAvailable:
  *                       type: boolean
  *                       example: true
+ *                     breaks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           startTime:
+ *                             type: string
+ *                             example: "11:00"
+ *                           endTime:
+ *                             type: string
+ *                             example: "11:15"
  *     responses:
  *       201:
  *         description: Specialist created successfully (user account + specialist profile)
@@ -251,6 +275,7 @@ router.get('/:specialistId', getSpecialistById);
  *                 type: string
  *               schedule:
  *                 type: array
+ *                 description: Weekly working blocks. Repeat a day for split shifts
  *                 items:
  *                   type: object
  *                   properties:
@@ -260,6 +285,15 @@ router.get('/:specialistId', getSpecialistById);
  *                       type: string
  *                     endTime:
  *                       type: string
+ *                     breaks:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           startTime:
+ *                             type: string
+ *                           endTime:
+ *                             type: string
  *                     isAvailable:
  *                       type: boolean
  *     responses:
@@ -450,6 +484,10 @@ router.post(
  *                             type: string
  *                             format: date-time
  *                             example: "2025-11-24T10:00:00.000Z"
+ *                           remainingSeats:
+ *                             type: integer
+ *                             description: Seats left in the session, 1 for individual services
+ *                             example: 1
  *                     totalSlots:
  *                       type: integer
  *                       example: 8
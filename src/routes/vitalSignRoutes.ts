@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+
+import { getVitalSigns } from '../controllers/vitalSignController.js';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router({ mergeParams: true });
+
+// Validation rules
+const vitalSignQueryValidation = [
+  query('from').optional().isISO8601().withMessage('From must be a valid date'),
+  query('to').optional().isISO8601().withMessage('To must be a valid date'),
+];
+
+/**
+ * @swagger
+ * /api/businesses/{businessId}/patients/{patientId}/vital-signs:
+ *   get:
+ *     summary: Get the vital sign history of a patient at a business
+ *     description: |
+ *       One time series per metric with the values recorded in the patient's
+ *       clinical records, oldest first. Blood pressure is split into `systolic`
+ *       and `diastolic`, and `bmi` is calculated from weight and height when it
+ *       was not recorded. Values outside the thresholds of the business are
+ *       flagged `low` or `high`. The patient, admins and the specialists of the
+ *       business can view it
+ *     tags: [Clinical Records]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: businessId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: patientId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Records created from this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Records created up to this date
+ *     responses:
+ *       200:
+ *         description: Vital sign series
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 data:
+ *                   $ref: '#/components/schemas/VitalSigns'
+ *       400:
+ *         description: Invalid dates or IDs
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Business not found
+ */
+router.get('/', authenticate, validate(vitalSignQueryValidation), getVitalSigns);
+
+export default router;
@@ -0,0 +1,122 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+
+import { joinWaitlist, getMyWaitlist, leaveWaitlist } from '../controllers/waitlistController.js';
+import { authenticate } from '../middleware/auth.js';
+import { validate } from '../middleware/validate.js';
+
+const router = Router();
+
+const dateKeyRegex = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+// Validation rules
+const waitlistValidation = [
+  body('business').isMongoId().withMessage('Valid business ID is required'),
+  body('specialist').isMongoId().withMessage('Valid specialist ID is required'),
+  body('service').isMongoId().withMessage('Valid service ID is required'),
+  body('fromDate').matches(dateKeyRegex).withMessage('From date must be in YYYY-MM-DD format'),
+  body('toDate')
+    .matches(dateKeyRegex)
+    .withMessage('To date must be in YYYY-MM-DD format')
+    .custom((toDate, { req }) => toDate >= req.body.fromDate)
+    .withMessage('To date must be on or after from date'),
+  body('notes').optional().trim().isLength({ max: 500 }),
+];
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   post:
+ *     summary: Join the waitlist of a specialist and service
+ *     description: |
+ *       When a matching reservation is cancelled, the first client waiting for that
+ *       specialist and service whose date range contains the freed slot receives an
+ *       email and a temporary hold on the slot. Booking the slot through
+ *       `POST /api/reservations` claims it; otherwise it is offered to the next
+ *       client once the hold expires. Dates are in the specialist timezone.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - business
+ *               - specialist
+ *               - service
+ *               - fromDate
+ *               - toDate
+ *             properties:
+ *               business:
+ *                 type: string
+ *               specialist:
+ *                 type: string
+ *               service:
+ *                 type: string
+ *               fromDate:
+ *                 type: string
+ *                 example: '2025-12-01'
+ *               toDate:
+ *                 type: string
+ *                 example: '2025-12-15'
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Joined the waitlist
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Specialist or service not found
+ *       409:
+ *         description: Already on the waitlist for this specialist and service
+ */
+router.post('/', authenticate, validate(waitlistValidation), joinWaitlist);
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   get:
+ *     summary: Get my waitlist entries
+ *     description: Entries with status `offered` include the held slot and its expiration in `offer`
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Waitlist entries, newest first
+ */
+router.get('/', authenticate, getMyWaitlist);
+
+/**
+ * @swagger
+ * /api/waitlist/{id}:
+ *   delete:
+ *     summary: Leave the waitlist
+ *     description: Declining an offer passes the held slot to the next client right away
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Waitlist entry ID
+ *     responses:
+ *       200:
+ *         description: Left the waitlist
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Waitlist entry not found
+ *       409:
+ *         description: Entry already booked, expired or cancelled
+ */
+router.delete('/:id', authenticate, leaveWaitlist);
+
+export default router;
@@ -11,6 +11,8 @@ import { connectDatabase } from './config/database.js';
 import { errorHandler, notFound } from './middleware/errorHandler.js';
 import { swaggerSpec } from './swagger.js';
 import { reminderService } from './services/reminderService.js';
+import { waitlistService } from './services/waitlistService.js';
+import { paymentService } from './services/paymentService.js';
 
 // Load environment variables
 dotenv.config();
@@ -21,13 +23,18 @@ const app: Express = express();
 // Connect to database
 connectDatabase();
 
-// Start reminder service ONLY in non-serverless environments
-// In Vercel, use Vercel Cron Jobs to call /api/cron/send-reminders
+// Start reminder, waitlist and payment services ONLY in non-serverless environments
+// In Vercel, use Vercel Cron Jobs to call /api/cron/send-reminders, /api/cron/process-waitlist
+// and /api/cron/release-unpaid
 if (process.env.VERCEL !== '1' && process.env.NODE_ENV !== 'serverless') {
   console.log('Starting reminder service (cron job)...');
   reminderService.start();
+  waitlistService.start();
+  paymentService.start();
 } else {
-  console.log('Serverless environment detected. Use Vercel Cron Jobs for reminders.');
+  console.log(
+    'Serverless environment detected. Use Vercel Cron Jobs for reminders, waitlist and payments.'
+  );
 }
 
 // Middleware
@@ -131,6 +138,9 @@ app.get('/api', (_req: Request, res: Response) => {
       reservations: '/api/reservations',
       clinicalRecords: '/api/clinical-records',
       upload: '/api/upload',
+      waitlist: '/api/waitlist',
+      payments: '/api/payments',
+      invoices: '/api/invoices',
     },
   });
 });
@@ -145,14 +155,34 @@ import {
   serviceRoutes,
   specialistRoutes,
   cronRoutes,
+  scheduleExceptionRoutes,
+  waitlistRoutes,
+  resourceRoutes,
+  analyticsRoutes,
+  paymentRoutes,
+  invoiceRoutes,
+  pricingRuleRoutes,
+  healthProfileRoutes,
+  vitalSignRoutes,
+  clinicalRecordTemplateRoutes,
 } from './routes/index.js';
 
 app.use('/api/auth', authRoutes);
 app.use('/api/businesses', businessRoutes);
 app.use('/api/businesses/:businessId/services', serviceRoutes);
 app.use('/api/businesses/:businessId/specialists', specialistRoutes);
+app.use('/api/businesses/:businessId/schedule-exceptions', scheduleExceptionRoutes);
+app.use('/api/businesses/:businessId/resources', resourceRoutes);
+app.use('/api/businesses/:businessId/analytics', analyticsRoutes);
+app.use('/api/businesses/:businessId/pricing-rules', pricingRuleRoutes);
+app.use('/api/businesses/:businessId/patients/:patientId/health-profile', healthProfileRoutes);
+app.use('/api/businesses/:businessId/patients/:patientId/vital-signs', vitalSignRoutes);
+app.use('/api/businesses/:businessId/clinical-record-templates', clinicalRecordTemplateRoutes);
 app.use('/api/specialists', specialistRoutes); // Direct access for available-slots endpoint
 app.use('/api/reservations', reservationRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/payments', paymentRoutes);
+app.use('/api/invoices', invoiceRoutes);
 app.use('/api/clinical-records', clinicalRecordRoutes);
 app.use('/api/upload', uploadRoutes);
 app.use('/api/cron', cronRoutes); // Cron endpoints for Vercel Cron Jobs
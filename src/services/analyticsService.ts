@@ -0,0 +1,539 @@
+import { Types } from 'mongoose';
+
+import { Business } from '../models/Business.js';
+import { Reservation, IReservation } from '../models/Reservation.js';
+import { Specialist, ISpecialist } from '../models/Specialist.js';
+import { availabilityService } from './availabilityService.js';
+import {
+  DAY_NAMES,
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getDayName,
+  getZonedDayBounds,
+  toDateKey,
+} from '../utils/timezone.js';
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+export interface AnalyticsQuery {
+  fromDate?: string; // YYYY-MM-DD, defaults to 30 days before toDate
+  toDate?: string; // YYYY-MM-DD, inclusive, defaults to today in the business timezone
+  granularity?: AnalyticsGranularity; // defaults to day
+}
+
+export interface AnalyticsRange {
+  fromDate: string;
+  toDate: string;
+  granularity: AnalyticsGranularity;
+  timezone: string;
+}
+
+type ReservationStatus = IReservation['status'];
+type StatusCounts = Record<ReservationStatus, number>;
+
+interface ResolvedRange extends AnalyticsRange {
+  businessId: Types.ObjectId;
+  start: Date;
+  end: Date;
+}
+
+interface SpecialistSummary {
+  _id: Types.ObjectId;
+  name?: string;
+  specialty: string;
+}
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_TOP_SERVICES = 5;
+
+const RESERVATION_STATUSES: ReservationStatus[] = [
+  'pending',
+  'confirmed',
+  'cancelled',
+  'completed',
+  'no-show',
+];
+// Reservations that keep or kept the specialist busy
+const BOOKED_STATUSES: ReservationStatus[] = ['pending', 'confirmed', 'completed', 'no-show'];
+
+const countDays = (fromDate: string, toDate: string) =>
+  (Date.parse(toDate) - Date.parse(fromDate)) / 86400000 + 1;
+
+/**
+ * First day (YYYY-MM-DD) of the period containing a day. Weeks start on Monday
+ */
+const toPeriodKey = (dateKey: string, granularity: AnalyticsGranularity): string => {
+  if (granularity === 'month') {
+    return `${dateKey.slice(0, 7)}-01`;
+  }
+
+  if (granularity === 'week') {
+    const daysSinceMonday = (DAY_NAMES.indexOf(getDayName(dateKey)) + 6) % 7;
+    return addDaysToDateKey(dateKey, -daysSinceMonday);
+  }
+
+  return dateKey;
+};
+
+const listDays = (range: AnalyticsRange): string[] =>
+  Array.from({ length: countDays(range.fromDate, range.toDate) }, (_, index) =>
+    addDaysToDateKey(range.fromDate, index)
+  );
+
+const listPeriods = (range: AnalyticsRange): string[] => [
+  ...new Set(listDays(range).map((dateKey) => toPeriodKey(dateKey, range.granularity))),
+];
+
+// Share of a whole rounded to 4 decimals, null when there is nothing to compare with
+const toRatio = (part: number, whole: number): number | null =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const emptyStatusCounts = (): StatusCounts =>
+  Object.fromEntries(RESERVATION_STATUSES.map((status) => [status, 0])) as StatusCounts;
+
+const toSpecialistSummary = (specialist: ISpecialist): SpecialistSummary => {
+  const user = specialist.user as unknown as { name?: string } | null;
+  return { _id: specialist._id, name: user?.name, specialty: specialist.specialty };
+};
+
+/**
+ * Owner dashboard figures computed with aggregations over reservations.
+ * Periods are calendar days, Monday-based weeks or months in the business timezone,
+ * identified by their first day.
+ */
+export class AnalyticsService {
+  async getReservationsByStatus(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery = {}
+  ) {
+    const range = await this.resolveRange(businessId, userId, userRole, query);
+
+    const rows = await Reservation.aggregate<{
+      _id: { period: string; status: ReservationStatus };
+      count: number;
+    }>([
+      { $match: this.matchRange(range) },
+      {
+        $group: {
+          _id: { period: this.periodExpression(range), status: '$status' },
+          count: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const byPeriod = new Map(listPeriods(range).map((period) => [period, emptyStatusCounts()]));
+    const totals = emptyStatusCounts();
+    for (const { _id, count } of rows) {
+      const counts = byPeriod.get(_id.period);
+      if (counts) {
+        counts[_id.status] += count;
+      }
+      totals[_id.status] += count;
+    }
+
+    const sum = (counts: StatusCounts) =>
+      Object.values(counts).reduce((total, count) => total + count, 0);
+
+    return {
+      ...this.describeRange(range),
+      total: sum(totals),
+      byStatus: totals,
+      periods: [...byPeriod].map(([period, counts]) => ({
+        period,
+        total: sum(counts),
+        byStatus: counts,
+      })),
+    };
+  }
+
+  /**
+   * Revenue before tax of completed reservations at the price they were booked at.
+   * Reservations booked before prices were kept count at the current service price
+   */
+  async getRevenue(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery = {}
+  ) {
+    const range = await this.resolveRange(businessId, userId, userRole, query);
+
+    const rows = await Reservation.aggregate<{ _id: string; revenue: number; completed: number }>([
+      { $match: { ...this.matchRange(range), status: 'completed' } },
+      { $lookup: { from: 'services', localField: 'service', foreignField: '_id', as: 'service' } },
+      { $unwind: '$service' },
+      {
+        $group: {
+          _id: this.periodExpression(range),
+          revenue: { $sum: { $ifNull: ['$price.subtotal', '$service.price'] } },
+          completed: { $sum: 1 },
+        },
+      },
+    ]);
+
+    const byPeriod = new Map(rows.map((row) => [row._id, row]));
+    const periods = listPeriods(range).map((period) => ({
+      period,
+      revenue: roundAmount(byPeriod.get(period)?.revenue ?? 0),
+      completed: byPeriod.get(period)?.completed ?? 0,
+    }));
+
+    return {
+      ...this.describeRange(range),
+      revenue: roundAmount(rows.reduce((total, row) => total + row.revenue, 0)),
+      completed: rows.reduce((total, row) => total + row.completed, 0),
+      periods,
+    };
+  }
+
+  /**
+   * Share of attended-or-missed reservations (completed and no-show) each
+   * specialist's clients did not show up to, highest first
+   */
+  async getNoShowRates(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery = {}
+  ) {
+    const range = await this.resolveRange(businessId, userId, userRole, query);
+
+    const rows = await Reservation.aggregate<{
+      _id: { specialist: Types.ObjectId; period: string };
+      completed: number;
+      noShows: number;
+    }>([
+      { $match: { ...this.matchRange(range), status: { $in: ['completed', 'no-show'] } } },
+      {
+        $group: {
+          _id: { specialist: '$specialist', period: this.periodExpression(range) },
+          completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+          noShows: { $sum: { $cond: [{ $eq: ['$status', 'no-show'] }, 1, 0] } },
+        },
+      },
+    ]);
+
+    const specialists = await this.getSpecialists(
+      range,
+      rows.map((row) => row._id.specialist)
+    );
+
+    return {
+      ...this.describeRange(range),
+      specialists: specialists
+        .map((specialist) => {
+          const own = rows.filter((row) => row._id.specialist.equals(specialist._id));
+          const completed = own.reduce((total, row) => total + row.completed, 0);
+          const noShows = own.reduce((total, row) => total + row.noShows, 0);
+
+          return {
+            specialist: toSpecialistSummary(specialist),
+            completed,
+            noShows,
+            noShowRate: toRatio(noShows, completed + noShows),
+            periods: listPeriods(range).map((period) => {
+              const row = own.find((item) => item._id.period === period);
+              return {
+                period,
+                completed: row?.completed ?? 0,
+                noShows: row?.noShows ?? 0,
+                noShowRate: toRatio(row?.noShows ?? 0, (row?.completed ?? 0) + (row?.noShows ?? 0)),
+              };
+            }),
+          };
+        })
+        .sort((a, b) => (b.noShowRate ?? -1) - (a.noShowRate ?? -1)),
+    };
+  }
+
+  /**
+   * Booked minutes against the minutes each specialist is available according to
+   * their weekly availability. A group session counts once however many seats it has.
+   */
+  async getUtilization(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery = {}
+  ) {
+    const range = await this.resolveRange(businessId, userId, userRole, query);
+
+    const rows = await Reservation.aggregate<{
+      _id: { specialist: Types.ObjectId; period: string };
+      bookedMinutes: number;
+    }>([
+      { $match: { ...this.matchRange(range), status: { $in: BOOKED_STATUSES } } },
+      {
+        $group: {
+          _id: { specialist: '$specialist', startDate: '$startDate', endDate: '$endDate' },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            specialist: '$_id.specialist',
+            period: this.periodExpression(range, '$_id.startDate'),
+          },
+          bookedMinutes: {
+            $sum: { $divide: [{ $subtract: ['$_id.endDate', '$_id.startDate'] }, 60000] },
+          },
+        },
+      },
+    ]);
+
+    const specialists = await this.getSpecialists(
+      range,
+      rows.map((row) => row._id.specialist)
+    );
+    const days = listDays(range);
+
+    const results = specialists.map((specialist) => {
+      const timeZone = specialist.timezone || range.timezone;
+      const availableByPeriod = new Map<string, number>();
+      for (const dateKey of days) {
+        const period = toPeriodKey(dateKey, range.granularity);
+        availableByPeriod.set(
+          period,
+          (availableByPeriod.get(period) ?? 0) +
+            availabilityService.getWeeklyMinutes(specialist, dateKey, timeZone)
+        );
+      }
+
+      const own = rows.filter((row) => row._id.specialist.equals(specialist._id));
+      const periods = [...availableByPeriod].map(([period, availableMinutes]) => {
+        const bookedMinutes = own.find((row) => row._id.period === period)?.bookedMinutes ?? 0;
+        return {
+          period,
+          bookedMinutes,
+          availableMinutes,
+          utilization: toRatio(bookedMinutes, availableMinutes),
+        };
+      });
+      const bookedMinutes = periods.reduce((total, period) => total + period.bookedMinutes, 0);
+      const availableMinutes = periods.reduce(
+        (total, period) => total + period.availableMinutes,
+        0
+      );
+
+      return {
+        specialist: toSpecialistSummary(specialist),
+        bookedMinutes,
+        availableMinutes,
+        utilization: toRatio(bookedMinutes, availableMinutes),
+        periods,
+      };
+    });
+
+    const bookedMinutes = results.reduce((total, result) => total + result.bookedMinutes, 0);
+    const availableMinutes = results.reduce((total, result) => total + result.availableMinutes, 0);
+
+    return {
+      ...this.describeRange(range),
+      bookedMinutes,
+      availableMinutes,
+      utilization: toRatio(bookedMinutes, availableMinutes),
+      specialists: results,
+    };
+  }
+
+  /**
+   * Services with the most reservations that were not cancelled, with the revenue
+   * before tax of those completed
+   */
+  async getTopServices(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery & { limit?: number } = {}
+  ) {
+    const range = await this.resolveRange(businessId, userId, userRole, query);
+
+    const rows = await Reservation.aggregate<{
+      service: { _id: Types.ObjectId; name: string; price: number };
+      reservations: number;
+      completed: number;
+      revenue: number;
+      periods: { period: string; reservations: number; completed: number }[];
+    }>([
+      { $match: { ...this.matchRange(range), status: { $ne: 'cancelled' } } },
+      {
+        $group: {
+          _id: { service: '$service', period: this.periodExpression(range) },
+          reservations: { $sum: 1 },
+          completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+          // Completed reservations without a stored price count at the service price
+          bookedRevenue: {
+            $sum: {
+              $cond: [{ $eq: ['$status', 'completed'] }, { $ifNull: ['$price.subtotal', 0] }, 0],
+            },
+          },
+          unpriced: {
+            $sum: {
+              $cond: [
+                {
+                  $and: [
+                    { $eq: ['$status', 'completed'] },
+                    { $eq: [{ $type: '$price' }, 'missing'] },
+                  ],
+                },
+                1,
+                0,
+              ],
+            },
+          },
+        },
+      },
+      {
+        $group: {
+          _id: '$_id.service',
+          reservations: { $sum: '$reservations' },
+          completed: { $sum: '$completed' },
+          bookedRevenue: { $sum: '$bookedRevenue' },
+          unpriced: { $sum: '$unpriced' },
+          periods: {
+            $push: {
+              period: '$_id.period',
+              reservations: '$reservations',
+              completed: '$completed',
+            },
+          },
+        },
+      },
+      { $sort: { reservations: -1, completed: -1 } },
+      { $limit: query.limit ?? DEFAULT_TOP_SERVICES },
+      { $lookup: { from: 'services', localField: '_id', foreignField: '_id', as: 'service' } },
+      { $unwind: '$service' },
+      {
+        $project: {
+          _id: 0,
+          service: { _id: '$service._id', name: '$service.name', price: '$service.price' },
+          reservations: 1,
+          completed: 1,
+          revenue: {
+            $add: ['$bookedRevenue', { $multiply: ['$unpriced', '$service.price'] }],
+          },
+          periods: 1,
+        },
+      },
+    ]);
+
+    const periods = listPeriods(range);
+
+    return {
+      ...this.describeRange(range),
+      services: rows.map((row) => ({
+        ...row,
+        revenue: roundAmount(row.revenue),
+        periods: periods.map((period) => {
+          const item = row.periods.find((entry) => entry.period === period);
+          return {
+            period,
+            reservations: item?.reservations ?? 0,
+            completed: item?.completed ?? 0,
+          };
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Check the caller can see the business figures and resolve the requested days
+   */
+  private async resolveRange(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    query: AnalyticsQuery
+  ): Promise<ResolvedRange> {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+    const business = await Business.findById(businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    // Verify ownership
+    if (userRole !== 'admin' && business.user.toString() !== userId) {
+      throw new Error('Unauthorized to view this business');
+    }
+
+    const timezone = business.timezone || DEFAULT_TIMEZONE;
+    const lastDays = DEFAULT_RANGE_DAYS - 1;
+    const toDate =
+      query.toDate ||
+      (query.fromDate
+        ? addDaysToDateKey(query.fromDate, lastDays)
+        : toDateKey(new Date(), timezone));
+    const fromDate = query.fromDate || addDaysToDateKey(toDate, -lastDays);
+
+    if (toDate < fromDate) {
+      throw new Error('End date must be on or after start date');
+    }
+    if (countDays(fromDate, toDate) > MAX_RANGE_DAYS) {
+      throw new Error(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    return {
+      businessId: business._id,
+      fromDate,
+      toDate,
+      granularity: query.granularity || 'day',
+      timezone,
+      start: getZonedDayBounds(fromDate, timezone).start,
+      end: getZonedDayBounds(toDate, timezone).end,
+    };
+  }
+
+  private describeRange(range: ResolvedRange): AnalyticsRange {
+    return {
+      fromDate: range.fromDate,
+      toDate: range.toDate,
+      granularity: range.granularity,
+      timezone: range.timezone,
+    };
+  }
+
+  private matchRange(range: ResolvedRange) {
+    return { business: range.businessId, startDate: { $gte: range.start, $lt: range.end } };
+  }
+
+  /**
+   * Aggregation expression for the first day of the period a date falls in
+   */
+  private periodExpression(range: ResolvedRange, date = '$startDate') {
+    return {
+      $dateToString: {
+        format: '%Y-%m-%d',
+        date: {
+          $dateTrunc: {
+            date,
+            unit: range.granularity,
+            timezone: range.timezone,
+            ...(range.granularity === 'week' && { startOfWeek: 'monday' }),
+          },
+        },
+        timezone: range.timezone,
+      },
+    };
+  }
+
+  /**
+   * Active specialists of the business plus any other specialist with figures
+   */
+  private async getSpecialists(range: ResolvedRange, withFigures: Types.ObjectId[]) {
+    return Specialist.find({
+      business: range.businessId,
+      $or: [{ isActive: true }, { _id: { $in: withFigures } }],
+    })
+      .populate('user', 'name')
+      .sort({ createdAt: 1 });
+  }
+}
+
+export const analyticsService = new AnalyticsService();
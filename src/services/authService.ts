@@ -1,6 +1,12 @@
-import { User } from '../models/User.js';
+import { User, IUser } from '../models/User.js';
+import { RefreshToken } from '../models/RefreshToken.js';
 import { hashPassword, comparePassword } from '../utils/password.js';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt.js';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  getTokenExpiration,
+} from '../utils/jwt.js';
 import crypto from 'crypto';
 import { notificationService } from './notificationService.js';
 
@@ -35,6 +41,7 @@ export interface LoginData {
 export interface UpdateProfileData {
   name?: string;
   phone?: string;
+  taxId?: string;
   avatar?: string;
 }
 
@@ -56,17 +63,7 @@ export class AuthService {
     });
 
     // Generate tokens
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
+    const { accessToken, refreshToken } = await this.issueTokens(user);
 
     return {
       user,
@@ -94,17 +91,7 @@ export class AuthService {
     }
 
     // Generate tokens
-    const accessToken = generateAccessToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
-
-    const refreshToken = generateRefreshToken({
-      userId: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
+    const { accessToken, refreshToken } = await this.issueTokens(user);
 
     // Remove password from response
     user.password = '';
@@ -116,6 +103,87 @@ export class AuthService {
     };
   }
 
+  /**
+   * Exchange a refresh token for a new token pair.
+   * Each refresh token is single-use: presenting one that was already rotated
+   * or revoked is treated as theft and revokes the whole token family.
+   */
+  async refreshTokens(token: string) {
+    const payload = verifyRefreshToken(token);
+    const tokenHash = this.hashToken(token);
+
+    // Atomically claim the token so concurrent refreshes cannot both succeed
+    const stored = await RefreshToken.findOneAndUpdate(
+      { tokenHash, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+      { usedAt: new Date() },
+      { new: true }
+    );
+
+    if (!stored) {
+      const previous = await RefreshToken.findOne({ tokenHash });
+      if (previous) {
+        await this.revokeFamily(previous.family);
+        throw new Error('Refresh token reuse detected');
+      }
+      throw new Error('Invalid refresh token');
+    }
+
+    const user = await User.findById(payload.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.isActive) {
+      await this.revokeFamily(stored.family);
+      throw new Error('User account is inactive');
+    }
+
+    return this.issueTokens(user, stored.family);
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to
+   */
+  async logout(token: string) {
+    const stored = await RefreshToken.findOne({ tokenHash: this.hashToken(token) });
+    if (stored) {
+      await this.revokeFamily(stored.family);
+    }
+
+    return { message: 'Logged out successfully' };
+  }
+
+  private async issueTokens(user: IUser, family: string = crypto.randomUUID()) {
+    const payload = {
+      userId: user._id.toString(),
+      email: user.email,
+      role: user.role,
+    };
+
+    const accessToken = generateAccessToken(payload);
+    const refreshToken = generateRefreshToken(payload);
+
+    await RefreshToken.create({
+      user: user._id,
+      tokenHash: this.hashToken(refreshToken),
+      family,
+      expiresAt: getTokenExpiration(refreshToken),
+    });
+
+    return { accessToken, refreshToken };
+  }
+
+  private async revokeFamily(family: string) {
+    await RefreshToken.updateMany(
+      { family, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+  }
+
+  private hashToken(token: string) {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
   async getProfile(userId: string) {
     const user = await User.findById(userId);
     if (!user) {
@@ -134,6 +202,7 @@ export class AuthService {
     // Update fields
     if (data.name !== undefined) user.name = data.name;
     if (data.phone !== undefined) user.phone = data.phone;
+    if (data.taxId !== undefined) user.taxId = data.taxId || undefined;
     if (data.avatar !== undefined) user.avatar = data.avatar;
 
     await user.save();
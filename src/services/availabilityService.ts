@@ -1,14 +1,245 @@
 import { Types } from 'mongoose';
 
-import { Specialist } from '../models/Specialist.js';
-import { Service } from '../models/Service.js';
-import { Reservation } from '../models/Reservation.js';
+import { Specialist, ISpecialist } from '../models/Specialist.js';
+import { Service, IService } from '../models/Service.js';
+import { Reservation, IReservation } from '../models/Reservation.js';
+import { Business, IBusiness } from '../models/Business.js';
+import { SlotHold, ISlotHold } from '../models/SlotHold.js';
+import { IScheduleException } from '../models/ScheduleException.js';
+import { scheduleExceptionService, exceptionCoversDate } from './scheduleExceptionService.js';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToDateKey,
+  getDayName,
+  getZonedDayBounds,
+  toDateKey,
+  zonedTimeToUtc,
+} from '../utils/timezone.js';
 
 export interface AvailableSlot {
   startTime: Date;
   endTime: Date;
+  remainingSeats?: number;
 }
 
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingRules {
+  duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
+  slotInterval: number;
+  capacity: number;
+  serviceId?: string;
+  resourceIds: string[]; // rooms and equipment that must be free too
+}
+
+// Rules needed to tell whether existing appointments clash with a new one
+type ConflictRules = Pick<BookingRules, 'bufferBefore' | 'bufferAfter'> &
+  Partial<Pick<BookingRules, 'capacity' | 'serviceId' | 'resourceIds'>>;
+
+export interface AvailabilitySearchParams {
+  businessId: string;
+  serviceId: string;
+  specialistId?: string;
+  fromDate?: string; // YYYY-MM-DD, defaults to today in the business timezone
+  toDate?: string; // YYYY-MM-DD, inclusive
+  timeFrom?: string; // HH:mm, earliest start in the specialist timezone
+  timeTo?: string; // HH:mm, latest end in the specialist timezone
+  limit?: number;
+}
+
+export interface SpecialistSlot extends AvailableSlot {
+  specialist: {
+    _id: Types.ObjectId;
+    name?: string;
+    specialty: string;
+  };
+}
+
+export interface AvailabilitySearchResult {
+  fromDate: string;
+  toDate: string;
+  total: number;
+  slots: SpecialistSlot[];
+}
+
+// Upper bound of any buffer, used to widen reservation lookups
+const MAX_BUFFER_MINUTES = 120;
+
+// Days searched when no end date is given, and the longest range allowed
+const DEFAULT_SEARCH_DAYS = 14;
+const MAX_SEARCH_DAYS = 31;
+const DEFAULT_SEARCH_LIMIT = 50;
+
+// Anything keeping a specialist busy: reservations and slot holds
+type BusyTime = Pick<
+  IReservation,
+  'specialist' | 'service' | 'startDate' | 'endDate' | 'bufferBefore' | 'bufferAfter'
+>;
+
+/**
+ * Time an appointment keeps the specialist busy, buffers included
+ */
+const toBlockedInterval = (
+  start: Date,
+  end: Date,
+  bufferBefore = 0,
+  bufferAfter = 0
+): TimeInterval => ({
+  start: new Date(start.getTime() - bufferBefore * 60000),
+  end: new Date(end.getTime() + bufferAfter * 60000),
+});
+
+const earliest = (a: Date, b: Date): Date => (a < b ? a : b);
+const latest = (a: Date, b: Date): Date => (a > b ? a : b);
+
+const toInterval = (
+  dateKey: string,
+  startTime: string,
+  endTime: string,
+  timeZone: string
+): TimeInterval => ({
+  start: zonedTimeToUtc(dateKey, startTime, timeZone),
+  end: zonedTimeToUtc(dateKey, endTime, timeZone),
+});
+
+/**
+ * Parts of `intervals` also covered by `limits`
+ */
+const intersectIntervals = (intervals: TimeInterval[], limits: TimeInterval[]): TimeInterval[] =>
+  intervals
+    .flatMap((interval) =>
+      limits.map((limit) => ({
+        start: latest(interval.start, limit.start),
+        end: earliest(interval.end, limit.end),
+      }))
+    )
+    .filter((interval) => interval.start < interval.end);
+
+/**
+ * Parts of `intervals` not covered by any gap (breaks)
+ */
+const subtractIntervals = (intervals: TimeInterval[], gaps: TimeInterval[]): TimeInterval[] =>
+  gaps.reduce(
+    (remaining, gap) =>
+      remaining
+        .flatMap((interval) => [
+          { start: interval.start, end: earliest(interval.end, gap.start) },
+          { start: latest(interval.start, gap.end), end: interval.end },
+        ])
+        .filter((interval) => interval.start < interval.end),
+    intervals
+  );
+
+/**
+ * Weekly availability blocks of a specialist on a calendar day, minus their breaks
+ */
+const getWeeklyBlocks = (
+  specialist: ISpecialist,
+  dateKey: string,
+  timeZone: string
+): TimeInterval[] => {
+  const dayOfWeek = getDayName(dateKey);
+
+  return specialist.availability
+    .filter((block) => block.day === dayOfWeek && block.isAvailable)
+    .flatMap((block) =>
+      subtractIntervals(
+        [toInterval(dateKey, block.startTime, block.endTime, timeZone)],
+        (block.breaks || []).map((item) =>
+          toInterval(dateKey, item.startTime, item.endTime, timeZone)
+        )
+      )
+    );
+};
+
+/**
+ * Business opening hours for a calendar day, or null when the business has no schedule
+ */
+const getOpeningHours = (
+  schedule: IBusiness['schedule'],
+  dateKey: string,
+  timeZone: string
+): TimeInterval[] | null => {
+  if (!schedule?.length) {
+    return null;
+  }
+
+  const dayOfWeek = getDayName(dateKey);
+  return schedule
+    .filter((entry) => entry.day === dayOfWeek && entry.isOpen && entry.openTime && entry.closeTime)
+    .map((entry) => toInterval(dateKey, entry.openTime, entry.closeTime, timeZone));
+};
+
+/**
+ * Apply schedule exceptions and opening hours to a day's working intervals:
+ * - any closure (specialist or business-wide) removes the day
+ * - specialist custom hours replace the intervals
+ * - business custom hours cap them, otherwise the weekly opening hours do
+ */
+const applyScheduleRules = (
+  intervals: TimeInterval[],
+  dateKey: string,
+  timeZone: string,
+  exceptions: IScheduleException[],
+  schedule: IBusiness['schedule']
+): TimeInterval[] => {
+  if (exceptions.some((exception) => exception.type === 'closed')) {
+    return [];
+  }
+
+  const toExceptionInterval = (exception: IScheduleException) =>
+    toInterval(dateKey, exception.startTime as string, exception.endTime as string, timeZone);
+
+  const specialistHours = exceptions.find((exception) => !!exception.specialist);
+  let result = specialistHours ? [toExceptionInterval(specialistHours)] : intervals;
+
+  const businessHours = exceptions.filter((exception) => !exception.specialist);
+  if (businessHours.length > 0) {
+    for (const exception of businessHours) {
+      result = intersectIntervals(result, [toExceptionInterval(exception)]);
+    }
+    return result;
+  }
+
+  const openingHours = getOpeningHours(schedule, dateKey, timeZone);
+  return openingHours ? intersectIntervals(result, openingHours) : result;
+};
+
+/**
+ * Every slot start inside the working intervals, stepped by the slot interval
+ */
+const generateSlots = (intervals: TimeInterval[], rules: BookingRules): AvailableSlot[] => {
+  const slots: AvailableSlot[] = [];
+
+  for (const interval of intervals) {
+    let currentSlotStart = new Date(interval.start);
+
+    while (currentSlotStart < interval.end) {
+      const currentSlotEnd = new Date(currentSlotStart.getTime() + rules.duration * 60000);
+
+      // Check if slot end exceeds the interval end
+      if (currentSlotEnd > interval.end) {
+        break;
+      }
+
+      slots.push({
+        startTime: new Date(currentSlotStart),
+        endTime: new Date(currentSlotEnd),
+      });
+
+      // Move to next slot start
+      currentSlotStart = new Date(currentSlotStart.getTime() + rules.slotInterval * 60000);
+    }
+  }
+
+  return slots;
+};
+
 export class AvailabilityService {
   /**
    * Calculate available time slots for a specialist on a given date
@@ -28,128 +259,613 @@ export class AvailabilityService {
       throw new Error('Specialist not found or inactive');
     }
 
-    // Get service duration (default to 60 minutes if no service specified)
-    let serviceDuration = 60;
+    // Get service timing (default to 60 minutes if no service specified)
+    let service: IService | null = null;
     if (serviceId) {
       if (!Types.ObjectId.isValid(serviceId)) {
         throw new Error('Invalid service ID');
       }
-      const service = await Service.findById(serviceId);
+      service = await Service.findById(serviceId);
       if (!service) {
         throw new Error('Service not found');
       }
-      serviceDuration = service.duration;
     }
+    const rules = await this.getBookingRules(service, specialist.business.toString());
+
+    // Availability times are wall-clock times in the specialist's timezone.
+    // The requested date is a calendar day (YYYY-MM-DD parses to UTC midnight).
+    const timeZone = await this.getSpecialistTimeZone(specialist);
+    const dateKey = toDateKey(date, 'UTC');
+
+    const workingIntervals = await this.getWorkingIntervals(specialist, dateKey, timeZone);
+    if (workingIntervals.length === 0) {
+      return []; // Specialist not available on this day
+    }
+
+    const dayStart = workingIntervals[0].start;
+    const dayEnd = workingIntervals[workingIntervals.length - 1].end;
+
+    // Get existing reservations whose busy time reaches the working hours
+    const dayInterval = toBlockedInterval(dayStart, dayEnd, rules.bufferBefore, rules.bufferAfter);
+    const busyTimes: BusyTime[] = [
+      ...(await this.findBlockingReservations(specialistId, dayInterval)),
+      ...(await this.findBlockingHolds(specialistId, dayInterval)),
+    ];
+    const resourceBusyTimes = await this.findResourceBookings(rules.resourceIds, dayInterval);
+
+    // Generate all possible slots inside each working interval, then filter out
+    // those whose busy time (buffers included) overlaps existing reservations or holds
+    const availableSlots = generateSlots(workingIntervals, rules)
+      .map((slot) => ({
+        ...slot,
+        remainingSeats: this.getRemainingSeats(
+          slot,
+          rules,
+          busyTimes,
+          resourceBusyTimes,
+          specialistId
+        ),
+      }))
+      .filter((slot) => slot.remainingSeats > 0);
 
-    // Get day of week from date (use UTC to avoid timezone issues)
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const dayOfWeek = dayNames[date.getUTCDay()];
+    // Filter out past slots only if the date is today in the specialist's timezone
+    const now = new Date();
+    if (dateKey === toDateKey(now, timeZone)) {
+      return availableSlots.filter((slot) => slot.startTime > now);
+    }
 
-    // Find availability for this day
-    const dayAvailability = specialist.availability.find(
-      (avail) => avail.day === dayOfWeek && avail.isAvailable
+    return availableSlots;
+  }
+
+  /**
+   * Minutes a specialist works on a calendar day according to their weekly
+   * availability, breaks excluded
+   */
+  getWeeklyMinutes(specialist: ISpecialist, dateKey: string, timeZone: string): number {
+    return getWeeklyBlocks(specialist, dateKey, timeZone).reduce(
+      (total, block) => total + (block.end.getTime() - block.start.getTime()) / 60000,
+      0
     );
+  }
 
-    if (!dayAvailability) {
-      return []; // Specialist not available on this day
+  /**
+   * Resolve the timezone a specialist's schedule is expressed in:
+   * the specialist override, then the business timezone, then UTC
+   */
+  async getSpecialistTimeZone(specialist: ISpecialist | null): Promise<string> {
+    if (!specialist) {
+      return DEFAULT_TIMEZONE;
     }
 
-    // Parse start and end times
-    const [startHour, startMinute] = dayAvailability.startTime.split(':').map(Number);
-    const [endHour, endMinute] = dayAvailability.endTime.split(':').map(Number);
+    if (specialist.timezone) {
+      return specialist.timezone;
+    }
 
-    // Create date objects for start and end of availability (using UTC)
-    const availabilityStart = new Date(date);
-    availabilityStart.setUTCHours(startHour, startMinute, 0, 0);
+    const business = await Business.findById(specialist.business).select('timezone');
+    return business?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Working intervals of a specialist on a calendar day: the weekly blocks minus
+   * their breaks, adjusted by schedule exceptions and capped by business opening hours
+   */
+  async getWorkingIntervals(
+    specialist: ISpecialist,
+    dateKey: string,
+    timeZone: string
+  ): Promise<TimeInterval[]> {
+    const blocks = getWeeklyBlocks(specialist, dateKey, timeZone);
 
-    const availabilityEnd = new Date(date);
-    availabilityEnd.setUTCHours(endHour, endMinute, 0, 0);
+    const intervals = await this.applyScheduleRules(specialist, dateKey, timeZone, blocks);
+    return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
 
-    // Get existing reservations for this day (use UTC)
-    const startOfDay = new Date(date);
-    startOfDay.setUTCHours(0, 0, 0, 0);
+  /**
+   * Check that a time range does not fall on a closure and stays inside the
+   * business opening hours and any one-off hours set for that day.
+   * Days without exceptions or opening hours are not restricted.
+   */
+  async isAllowedBySchedule(specialist: ISpecialist, startDate: Date, endDate: Date) {
+    const timeZone = await this.getSpecialistTimeZone(specialist);
+    const dateKey = toDateKey(startDate, timeZone);
 
-    const endOfDay = new Date(date);
-    endOfDay.setUTCHours(23, 59, 59, 999);
+    const intervals = await this.applyScheduleRules(specialist, dateKey, timeZone, [
+      getZonedDayBounds(dateKey, timeZone),
+    ]);
 
-    const reservations = await Reservation.find({
-      specialist: specialistId,
-      status: { $in: ['pending', 'confirmed'] },
-      startDate: { $gte: startOfDay, $lte: endOfDay },
-    }).sort({ startDate: 1 });
+    return intervals.some((interval) => startDate >= interval.start && endDate <= interval.end);
+  }
 
-    // Generate all possible slots
-    const allSlots: AvailableSlot[] = [];
-    let currentSlotStart = new Date(availabilityStart);
+  /**
+   * Load the exceptions and opening hours of a day and apply them to its working intervals
+   */
+  private async applyScheduleRules(
+    specialist: ISpecialist,
+    dateKey: string,
+    timeZone: string,
+    intervals: TimeInterval[]
+  ): Promise<TimeInterval[]> {
+    const exceptions = await scheduleExceptionService.getExceptionsForDay(
+      specialist.business.toString(),
+      specialist._id.toString(),
+      dateKey
+    );
+    const business: IBusiness | null = await Business.findById(specialist.business).select(
+      'schedule'
+    );
 
-    while (currentSlotStart < availabilityEnd) {
-      const currentSlotEnd = new Date(currentSlotStart.getTime() + serviceDuration * 60000);
+    return applyScheduleRules(intervals, dateKey, timeZone, exceptions, business?.schedule);
+  }
 
-      // Check if slot end exceeds availability end
-      if (currentSlotEnd > availabilityEnd) {
-        break;
+  /**
+   * Free slots of a service across every specialist offering it over a range of days,
+   * sorted by start time. Reservations, holds and schedule exceptions of the whole
+   * range are loaded with one query each.
+   */
+  async searchAvailableSlots(params: AvailabilitySearchParams): Promise<AvailabilitySearchResult> {
+    if (!Types.ObjectId.isValid(params.businessId)) {
+      throw new Error('Invalid business ID');
+    }
+    if (!Types.ObjectId.isValid(params.serviceId)) {
+      throw new Error('Invalid service ID');
+    }
+    if (params.specialistId && !Types.ObjectId.isValid(params.specialistId)) {
+      throw new Error('Invalid specialist ID');
+    }
+
+    const business: IBusiness | null = await Business.findById(params.businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    const service = await Service.findById(params.serviceId);
+    if (!service || !service.isActive || service.business.toString() !== params.businessId) {
+      throw new Error('Service not found');
+    }
+
+    const rules = await this.getBookingRules(service, params.businessId);
+
+    const fromDate =
+      params.fromDate || toDateKey(new Date(), business.timezone || DEFAULT_TIMEZONE);
+    const toDate = params.toDate || addDaysToDateKey(fromDate, DEFAULT_SEARCH_DAYS - 1);
+    if (toDate < fromDate) {
+      throw new Error('End date must be on or after start date');
+    }
+
+    const dateKeys: string[] = [];
+    for (let dateKey = fromDate; dateKey <= toDate; dateKey = addDaysToDateKey(dateKey, 1)) {
+      if (dateKeys.length === MAX_SEARCH_DAYS) {
+        throw new Error(`Search range cannot exceed ${MAX_SEARCH_DAYS} days`);
       }
+      dateKeys.push(dateKey);
+    }
 
-      allSlots.push({
-        startTime: new Date(currentSlotStart),
-        endTime: new Date(currentSlotEnd),
-      });
+    // Specialists without a services list can provide every service
+    const specialists: ISpecialist[] = await Specialist.find({
+      business: params.businessId,
+      isActive: true,
+      ...(params.specialistId && { _id: params.specialistId }),
+      $or: [{ services: service._id }, { services: { $size: 0 } }],
+    }).populate('user', 'name');
 
-      // Move to next slot (same duration as service)
-      currentSlotStart = new Date(currentSlotEnd);
+    if (specialists.length === 0) {
+      return { fromDate, toDate, total: 0, slots: [] };
     }
 
-    // Filter out slots that overlap with existing reservations
-    const availableSlots = allSlots.filter((slot) => {
-      return !reservations.some((reservation) => {
-        const reservationStart = new Date(reservation.startDate);
-        const reservationEnd = new Date(reservation.endDate);
+    // Day keys are local to each specialist, so pad the range by a day on each side
+    const paddedFrom = addDaysToDateKey(fromDate, -1);
+    const paddedTo = addDaysToDateKey(toDate, 1);
+    const range = toBlockedInterval(
+      getZonedDayBounds(paddedFrom, 'UTC').start,
+      getZonedDayBounds(paddedTo, 'UTC').end,
+      MAX_BUFFER_MINUTES,
+      MAX_BUFFER_MINUTES
+    );
 
-        // Check if slot overlaps with reservation
-        return (
-          (slot.startTime >= reservationStart && slot.startTime < reservationEnd) ||
-          (slot.endTime > reservationStart && slot.endTime <= reservationEnd) ||
-          (slot.startTime <= reservationStart && slot.endTime >= reservationEnd)
-        );
-      });
+    const specialistIds = specialists.map((specialist) => specialist._id);
+    const exceptions = await scheduleExceptionService.getExceptionsForRange(
+      params.businessId,
+      paddedFrom,
+      paddedTo
+    );
+    const reservations: IReservation[] = await Reservation.find({
+      specialist: { $in: specialistIds },
+      status: { $in: ['pending', 'confirmed'] },
+      startDate: { $lt: range.end },
+      endDate: { $gt: range.start },
+    });
+    const holds: ISlotHold[] = await SlotHold.find({
+      specialist: { $in: specialistIds },
+      expiresAt: { $gt: new Date() },
+      startDate: { $lt: range.end },
+      endDate: { $gt: range.start },
     });
 
-    // Filter out past slots only if the date is today
+    const resourceBusyTimes = await this.findResourceBookings(rules.resourceIds, range);
+
+    const busyTimesBySpecialist = new Map<string, BusyTime[]>();
+    for (const busyTime of [...reservations, ...holds]) {
+      const key = busyTime.specialist.toString();
+      busyTimesBySpecialist.set(key, [...(busyTimesBySpecialist.get(key) || []), busyTime]);
+    }
+
     const now = new Date();
-    const todayStart = new Date();
-    todayStart.setUTCHours(0, 0, 0, 0);
+    const slots: SpecialistSlot[] = [];
 
-    const requestedDayStart = new Date(date);
-    requestedDayStart.setUTCHours(0, 0, 0, 0);
+    for (const specialist of specialists) {
+      const timeZone = specialist.timezone || business.timezone || DEFAULT_TIMEZONE;
+      const busyTimes = busyTimesBySpecialist.get(specialist._id.toString()) || [];
+      const specialistExceptions = exceptions.filter(
+        (exception) => !exception.specialist || exception.specialist.equals(specialist._id)
+      );
+      const user = specialist.user as unknown as { name?: string } | null;
 
-    if (requestedDayStart.getTime() === todayStart.getTime()) {
-      // Only filter past slots for today
-      return availableSlots.filter((slot) => slot.startTime > now);
+      for (const dateKey of dateKeys) {
+        const dayBounds = getZonedDayBounds(dateKey, timeZone);
+        const timeWindow = {
+          start: params.timeFrom
+            ? zonedTimeToUtc(dateKey, params.timeFrom, timeZone)
+            : dayBounds.start,
+          end: params.timeTo ? zonedTimeToUtc(dateKey, params.timeTo, timeZone) : dayBounds.end,
+        };
+
+        const intervals = intersectIntervals(
+          applyScheduleRules(
+            getWeeklyBlocks(specialist, dateKey, timeZone),
+            dateKey,
+            timeZone,
+            specialistExceptions.filter((exception) => exceptionCoversDate(exception, dateKey)),
+            business.schedule
+          ),
+          [timeWindow]
+        );
+
+        for (const slot of generateSlots(intervals, rules)) {
+          const remainingSeats = this.getRemainingSeats(
+            slot,
+            rules,
+            busyTimes,
+            resourceBusyTimes,
+            specialist._id.toString()
+          );
+          if (slot.startTime > now && remainingSeats > 0) {
+            slots.push({
+              ...slot,
+              remainingSeats,
+              specialist: {
+                _id: specialist._id,
+                name: user?.name,
+                specialty: specialist.specialty,
+              },
+            });
+          }
+        }
+      }
     }
 
-    return availableSlots;
+    slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    return {
+      fromDate,
+      toDate,
+      total: slots.length,
+      slots: slots.slice(0, params.limit ?? DEFAULT_SEARCH_LIMIT),
+    };
+  }
+
+  /**
+   * Duration, buffers and slot interval for a service.
+   * Business booking settings take precedence over the service values.
+   */
+  async getBookingRules(service: IService | null, businessId: string): Promise<BookingRules> {
+    const business: IBusiness | null =
+      await Business.findById(businessId).select('bookingSettings');
+    const settings = business?.bookingSettings || {};
+    const duration = service?.duration ?? 60;
+
+    return {
+      duration,
+      bufferBefore: settings.bufferBefore ?? service?.bufferBefore ?? 0,
+      bufferAfter: settings.bufferAfter ?? service?.bufferAfter ?? 0,
+      slotInterval: settings.slotInterval ?? service?.slotInterval ?? duration,
+      capacity: service?.capacity ?? 1,
+      serviceId: service?._id.toString(),
+      resourceIds: (service?.requiredResources || []).map((id) => id.toString()),
+    };
+  }
+
+  /**
+   * Active reservations of a specialist whose busy time (buffers included) overlaps an interval
+   */
+  async findBlockingReservations(
+    specialistId: string,
+    interval: TimeInterval,
+    excludeReservationIds: string[] = []
+  ): Promise<IReservation[]> {
+    const reservations: IReservation[] = await Reservation.find({
+      ...(excludeReservationIds.length > 0 && { _id: { $nin: excludeReservationIds } }),
+      specialist: specialistId,
+      status: { $in: ['pending', 'confirmed'] },
+      startDate: { $lt: new Date(interval.end.getTime() + MAX_BUFFER_MINUTES * 60000) },
+      endDate: { $gt: new Date(interval.start.getTime() - MAX_BUFFER_MINUTES * 60000) },
+    }).sort({ startDate: 1 });
+
+    return reservations.filter((reservation) => this.overlaps(reservation, interval));
+  }
+
+  /**
+   * First active reservation clashing with an appointment, accounting for the
+   * buffers of both the new appointment and the existing reservations.
+   * Reservations being moved are excluded so they do not clash with themselves,
+   * and other seats of the same group session are not clashes.
+   */
+  async findConflictingReservation(
+    specialistId: string,
+    startDate: Date,
+    endDate: Date,
+    rules: ConflictRules,
+    excludeReservationIds: string[] = []
+  ): Promise<IReservation | null> {
+    const reservations = await this.findBlockingReservations(
+      specialistId,
+      toBlockedInterval(startDate, endDate, rules.bufferBefore, rules.bufferAfter),
+      excludeReservationIds
+    );
+    return (
+      reservations.find((reservation) => !this.isSameSession(reservation, startDate, rules)) || null
+    );
+  }
+
+  /**
+   * Active holds of a specialist whose busy time overlaps an interval. Holds of
+   * the excluded user are ignored so the holder can still book the slot
+   */
+  async findBlockingHolds(
+    specialistId: string,
+    interval: TimeInterval,
+    excludeUserId?: string
+  ): Promise<ISlotHold[]> {
+    const holds: ISlotHold[] = await SlotHold.find({
+      ...(excludeUserId && { user: { $ne: excludeUserId } }),
+      specialist: specialistId,
+      expiresAt: { $gt: new Date() },
+      startDate: { $lt: new Date(interval.end.getTime() + MAX_BUFFER_MINUTES * 60000) },
+      endDate: { $gt: new Date(interval.start.getTime() - MAX_BUFFER_MINUTES * 60000) },
+    }).sort({ startDate: 1 });
+
+    return holds.filter((hold) => this.overlaps(hold, interval));
+  }
+
+  /**
+   * First active hold of another client clashing with an appointment
+   */
+  async findConflictingHold(
+    specialistId: string,
+    startDate: Date,
+    endDate: Date,
+    rules: ConflictRules,
+    excludeUserId?: string
+  ): Promise<ISlotHold | null> {
+    const holds = await this.findBlockingHolds(
+      specialistId,
+      toBlockedInterval(startDate, endDate, rules.bufferBefore, rules.bufferAfter),
+      excludeUserId
+    );
+    return holds.find((hold) => !this.isSameSession(hold, startDate, rules)) || null;
+  }
+
+  /**
+   * Active reservations and holds using any of the resources whose busy time overlaps
+   * an interval, whichever specialist they are with. Holds of the excluded user are ignored.
+   */
+  async findResourceBookings(
+    resourceIds: string[],
+    interval: TimeInterval,
+    excludeReservationIds: string[] = [],
+    excludeUserId?: string
+  ): Promise<(IReservation | ISlotHold)[]> {
+    if (resourceIds.length === 0) {
+      return [];
+    }
+
+    const period = {
+      startDate: { $lt: new Date(interval.end.getTime() + MAX_BUFFER_MINUTES * 60000) },
+      endDate: { $gt: new Date(interval.start.getTime() - MAX_BUFFER_MINUTES * 60000) },
+    };
+    const reservations: IReservation[] = await Reservation.find({
+      ...(excludeReservationIds.length > 0 && { _id: { $nin: excludeReservationIds } }),
+      resources: { $in: resourceIds },
+      status: { $in: ['pending', 'confirmed'] },
+      ...period,
+    });
+    const holds: ISlotHold[] = await SlotHold.find({
+      ...(excludeUserId && { user: { $ne: excludeUserId } }),
+      resources: { $in: resourceIds },
+      expiresAt: { $gt: new Date() },
+      ...period,
+    });
+
+    return [...reservations, ...holds].filter((booking) => this.overlaps(booking, interval));
+  }
+
+  /**
+   * First reservation or hold keeping a required resource busy during an appointment.
+   * Seats of the same group session share its resources.
+   */
+  async findConflictingResourceBooking(
+    specialistId: string,
+    startDate: Date,
+    endDate: Date,
+    rules: ConflictRules,
+    excludeReservationIds: string[] = [],
+    excludeUserId?: string
+  ): Promise<IReservation | ISlotHold | null> {
+    const bookings = await this.findResourceBookings(
+      rules.resourceIds || [],
+      toBlockedInterval(startDate, endDate, rules.bufferBefore, rules.bufferAfter),
+      excludeReservationIds,
+      excludeUserId
+    );
+    return (
+      bookings.find((booking) => !this.isSessionPeer(booking, specialistId, startDate, rules)) ||
+      null
+    );
+  }
+
+  /**
+   * Seats taken in a group session by active reservations and other clients' holds
+   */
+  async findSessionSeats(
+    specialistId: string,
+    startDate: Date,
+    rules: Pick<BookingRules, 'serviceId'>,
+    excludeReservationIds: string[] = [],
+    excludeUserId?: string
+  ): Promise<(IReservation | ISlotHold)[]> {
+    const reservations: IReservation[] = await Reservation.find({
+      ...(excludeReservationIds.length > 0 && { _id: { $nin: excludeReservationIds } }),
+      specialist: specialistId,
+      service: rules.serviceId,
+      startDate,
+      status: { $in: ['pending', 'confirmed'] },
+    });
+    const holds: ISlotHold[] = await SlotHold.find({
+      ...(excludeUserId && { user: { $ne: excludeUserId } }),
+      specialist: specialistId,
+      service: rules.serviceId,
+      startDate,
+      expiresAt: { $gt: new Date() },
+    });
+
+    return [...reservations, ...holds];
   }
 
   /**
    * Check if a specific time slot is available
    */
-  async isSlotAvailable(specialistId: string, startDate: Date, endDate: Date): Promise<boolean> {
+  async isSlotAvailable(
+    specialistId: string,
+    startDate: Date,
+    endDate: Date,
+    serviceId?: string
+  ): Promise<boolean> {
     if (!Types.ObjectId.isValid(specialistId)) {
       throw new Error('Invalid specialist ID');
     }
 
+    const specialist = await Specialist.findById(specialistId);
+    if (specialist && !(await this.isAllowedBySchedule(specialist, startDate, endDate))) {
+      return false;
+    }
+
+    let rules: ConflictRules = {
+      bufferBefore: 0,
+      bufferAfter: 0,
+    };
+    if (specialist) {
+      const service = serviceId ? await Service.findById(serviceId) : null;
+      rules = await this.getBookingRules(service, specialist.business.toString());
+    }
+
     // Check for overlapping reservations
-    const overlappingReservation = await Reservation.findOne({
-      specialist: specialistId,
-      status: { $in: ['pending', 'confirmed'] },
-      $or: [
-        { startDate: { $lt: endDate, $gte: startDate } },
-        { endDate: { $gt: startDate, $lte: endDate } },
-        { startDate: { $lte: startDate }, endDate: { $gte: endDate } },
-      ],
-    });
+    const overlappingReservation = await this.findConflictingReservation(
+      specialistId,
+      startDate,
+      endDate,
+      rules
+    );
+
+    if (overlappingReservation) {
+      return false;
+    }
+
+    if (await this.findConflictingHold(specialistId, startDate, endDate, rules)) {
+      return false;
+    }
+
+    if (await this.findConflictingResourceBooking(specialistId, startDate, endDate, rules)) {
+      return false;
+    }
+
+    if (rules.capacity && rules.capacity > 1) {
+      const seats = await this.findSessionSeats(specialistId, startDate, rules);
+      return seats.length < rules.capacity;
+    }
+
+    return true;
+  }
+
+  /**
+   * Seats left in a slot: none when its busy time (buffers included) overlaps another
+   * appointment of the specialist or of a required resource, otherwise the capacity
+   * minus the seats taken in the same session
+   */
+  private getRemainingSeats(
+    slot: AvailableSlot,
+    rules: BookingRules,
+    busyTimes: BusyTime[],
+    resourceBusyTimes: BusyTime[],
+    specialistId: string
+  ) {
+    const blocked = toBlockedInterval(
+      slot.startTime,
+      slot.endTime,
+      rules.bufferBefore,
+      rules.bufferAfter
+    );
+    const overlapping = busyTimes.filter((busyTime) => this.overlaps(busyTime, blocked));
+
+    if (overlapping.some((busyTime) => !this.isSameSession(busyTime, slot.startTime, rules))) {
+      return 0;
+    }
+
+    const resourceTaken = resourceBusyTimes.some(
+      (busyTime) =>
+        this.overlaps(busyTime, blocked) &&
+        !this.isSessionPeer(busyTime, specialistId, slot.startTime, rules)
+    );
+    if (resourceTaken) {
+      return 0;
+    }
 
-    return !overlappingReservation;
+    return Math.max(rules.capacity - overlapping.length, 0);
+  }
+
+  /**
+   * Whether an appointment is another seat of a group session starting at the given time
+   */
+  private isSameSession(busyTime: BusyTime, startDate: Date, rules: ConflictRules): boolean {
+    return (
+      !!rules.capacity &&
+      rules.capacity > 1 &&
+      busyTime.service?.toString() === rules.serviceId &&
+      new Date(busyTime.startDate).getTime() === startDate.getTime()
+    );
+  }
+
+  /**
+   * Same as isSameSession for appointments that may be with another specialist
+   */
+  private isSessionPeer(
+    busyTime: BusyTime,
+    specialistId: string,
+    startDate: Date,
+    rules: ConflictRules
+  ): boolean {
+    return (
+      busyTime.specialist.toString() === specialistId &&
+      this.isSameSession(busyTime, startDate, rules)
+    );
+  }
+
+  private overlaps(busyTime: BusyTime, interval: TimeInterval): boolean {
+    const blocked = toBlockedInterval(
+      new Date(busyTime.startDate),
+      new Date(busyTime.endDate),
+      busyTime.bufferBefore,
+      busyTime.bufferAfter
+    );
+    return blocked.start < interval.end && blocked.end > interval.start;
   }
 }
 
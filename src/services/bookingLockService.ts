@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+
+import { BookingLock } from '../models/BookingLock.js';
+import { SlotConflictError } from '../utils/errors.js';
+
+// A lock outlives its holder by at most this long (crashed request)
+const LOCK_TTL_MS = 10000;
+// How long a booking waits for another booking of the same specialist to finish
+const LOCK_WAIT_MS = 5000;
+const RETRY_DELAY_MS = 25;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isDuplicateKeyError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * Serializes bookings per specialist so the conflict check and the write of a
+ * reservation cannot interleave with another booking for the same specialist.
+ */
+export class BookingLockService {
+  async withSpecialistLock<T>(specialistId: string, fn: () => Promise<T>): Promise<T> {
+    const token = await this.acquire(specialistId);
+
+    try {
+      return await fn();
+    } finally {
+      await BookingLock.deleteOne({ _id: specialistId, token });
+    }
+  }
+
+  /**
+   * Hold the locks of several keys (a specialist and the resources a booking
+   * needs), always taken in the same order so two bookings cannot wait on each other
+   */
+  async withLocks<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const [key, ...rest] = [...new Set(keys)].sort();
+    if (!key) {
+      return fn();
+    }
+
+    return this.withSpecialistLock(key, () => this.withLocks(rest, fn));
+  }
+
+  private async acquire(specialistId: string): Promise<string> {
+    const token = crypto.randomUUID();
+    const deadline = Date.now() + LOCK_WAIT_MS;
+
+    while (Date.now() < deadline) {
+      const now = new Date();
+      try {
+        // Matches only a missing or expired lock; a live lock makes the upsert
+        // collide on _id and the caller waits for it to be released
+        await BookingLock.findOneAndUpdate(
+          { _id: specialistId, expiresAt: { $lte: now } },
+          { $set: { token, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) } },
+          { upsert: true }
+        );
+        return token;
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+      }
+
+      await sleep(RETRY_DELAY_MS);
+    }
+
+    throw new SlotConflictError('Specialist schedule is busy, please try again');
+  }
+}
+
+export const bookingLockService = new BookingLockService();
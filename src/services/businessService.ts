@@ -1,8 +1,11 @@
 import { Types } from 'mongoose';
 
 import { Business } from '../models/Business.js';
-import { Service } from '../models/Service.js';
+import { Reservation } from '../models/Reservation.js';
+import { Service, IService } from '../models/Service.js';
 import { Specialist } from '../models/Specialist.js';
+import { resourceService } from './resourceService.js';
+import { VitalSignThresholds } from '../utils/vitalSigns.js';
 
 export interface CreateBusinessData {
   name: string;
@@ -11,6 +14,28 @@ export interface CreateBusinessData {
   phone?: string;
   email?: string;
   logo?: string;
+  timezone?: string;
+  schedule?: Array<{
+    day: string;
+    openTime: string;
+    closeTime: string;
+    isOpen?: boolean;
+  }>;
+  bookingSettings?: {
+    bufferBefore?: number;
+    bufferAfter?: number;
+    slotInterval?: number;
+  };
+  cancellationPolicy?: {
+    minNoticeHours?: number;
+    lateCancellation?: 'block' | 'flag';
+    lateRefundPercent?: number;
+  };
+  pricing?: {
+    taxRate?: number;
+    taxIncluded?: boolean;
+  };
+  vitalSignThresholds?: VitalSignThresholds;
   ownerId: string;
   theme?: {
     primary: string;
@@ -27,6 +52,28 @@ export interface UpdateBusinessData {
   phone?: string;
   email?: string;
   logo?: string;
+  timezone?: string;
+  schedule?: Array<{
+    day: string;
+    openTime: string;
+    closeTime: string;
+    isOpen?: boolean;
+  }>;
+  bookingSettings?: {
+    bufferBefore?: number;
+    bufferAfter?: number;
+    slotInterval?: number;
+  };
+  cancellationPolicy?: {
+    minNoticeHours?: number;
+    lateCancellation?: 'block' | 'flag';
+    lateRefundPercent?: number;
+  };
+  pricing?: {
+    taxRate?: number;
+    taxIncluded?: boolean;
+  };
+  vitalSignThresholds?: VitalSignThresholds;
   isActive?: boolean;
   theme?: {
     primary?: string;
@@ -41,7 +88,17 @@ export interface CreateServiceData {
   name: string;
   description?: string;
   duration: number;
+  bufferBefore?: number;
+  bufferAfter?: number;
+  slotInterval?: number;
+  capacity?: number;
+  requiredResources?: string[];
+  attendanceMode?: IService['attendanceMode'];
   price: number;
+  prepayment?: IService['prepayment'];
+  depositAmount?: number;
+  taxRate?: number;
+  taxIncluded?: boolean;
 }
 
 export interface CreateSpecialistData {
@@ -52,10 +109,13 @@ export interface CreateSpecialistData {
   phone?: string;
   specialty: string;
   bio?: string;
+  timezone?: string;
   schedule?: Array<{
-    dayOfWeek: number;
+    day: string;
     startTime: string;
     endTime: string;
+    isAvailable?: boolean;
+    breaks?: Array<{ startTime: string; endTime: string }>;
   }>;
   services?: string[];
 }
@@ -69,6 +129,12 @@ export class BusinessService {
       phone: data.phone,
       email: data.email,
       logo: data.logo,
+      timezone: data.timezone,
+      schedule: data.schedule,
+      bookingSettings: data.bookingSettings,
+      cancellationPolicy: data.cancellationPolicy,
+      pricing: data.pricing,
+      vitalSignThresholds: data.vitalSignThresholds,
       user: data.ownerId,
       theme: data.theme,
     });
@@ -190,6 +256,60 @@ export class BusinessService {
     return business;
   }
 
+  /**
+   * Late cancellations and no-shows per client, most incidents first
+   */
+  async getClientAttendance(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    options: { minIncidents?: number } = {}
+  ) {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+    const business = await Business.findById(businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    // Verify ownership
+    const businessUserId = business.user?.toString() || business.get('user')?.toString();
+    if (userRole !== 'admin' && businessUserId !== userId) {
+      throw new Error('Unauthorized to view this business');
+    }
+
+    return Reservation.aggregate([
+      { $match: { business: new Types.ObjectId(businessId) } },
+      {
+        $group: {
+          _id: '$user',
+          totalReservations: { $sum: 1 },
+          noShows: { $sum: { $cond: [{ $eq: ['$status', 'no-show'] }, 1, 0] } },
+          lateCancellations: { $sum: { $cond: ['$isLateCancellation', 1, 0] } },
+        },
+      },
+      { $addFields: { totalIncidents: { $add: ['$noShows', '$lateCancellations'] } } },
+      { $match: { totalIncidents: { $gte: options.minIncidents ?? 1 } } },
+      { $sort: { totalIncidents: -1, totalReservations: 1 } },
+      { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+      { $unwind: '$user' },
+      {
+        $project: {
+          _id: 0,
+          'user._id': 1,
+          'user.name': 1,
+          'user.email': 1,
+          'user.phone': 1,
+          totalReservations: 1,
+          noShows: 1,
+          lateCancellations: 1,
+          totalIncidents: 1,
+        },
+      },
+    ]);
+  }
+
   async deleteBusiness(businessId: string, ownerId: string) {
     if (!Types.ObjectId.isValid(businessId)) {
       throw new Error('Invalid business ID');
@@ -217,12 +337,32 @@ export class BusinessService {
       throw new Error('Business not found');
     }
 
+    if (data.requiredResources?.length) {
+      await resourceService.assertBusinessResources(data.businessId, data.requiredResources);
+    }
+
+    if (data.attendanceMode && data.attendanceMode !== 'in_person' && !business.hasRemoteSessions) {
+      throw new Error('Enable remote sessions for the business to offer remote services');
+    }
+
+    this.assertDeposit(data.prepayment, data.depositAmount, data.price);
+
     const service = await Service.create({
       business: data.businessId,
       name: data.name,
       description: data.description,
       duration: data.duration,
+      bufferBefore: data.bufferBefore,
+      bufferAfter: data.bufferAfter,
+      slotInterval: data.slotInterval,
+      capacity: data.capacity,
+      requiredResources: data.requiredResources,
+      attendanceMode: data.attendanceMode,
       price: data.price,
+      prepayment: data.prepayment,
+      depositAmount: data.depositAmount,
+      taxRate: data.taxRate,
+      taxIncluded: data.taxIncluded,
     });
 
     return service;
@@ -244,12 +384,50 @@ export class BusinessService {
       throw new Error('Unauthorized to update this service');
     }
 
+    if (data.requiredResources?.length) {
+      await resourceService.assertBusinessResources(businessId, data.requiredResources);
+    }
+
+    if (data.attendanceMode && data.attendanceMode !== 'in_person') {
+      const business = await Business.findById(businessId).select('hasRemoteSessions');
+      if (!business?.hasRemoteSessions) {
+        throw new Error('Enable remote sessions for the business to offer remote services');
+      }
+    }
+
+    this.assertDeposit(
+      data.prepayment ?? service.prepayment,
+      data.depositAmount ?? service.depositAmount,
+      data.price ?? service.price
+    );
+
     Object.assign(service, data);
     await service.save();
 
     return service;
   }
 
+  /**
+   * Services taking a deposit need a positive amount no higher than their price
+   */
+  private assertDeposit(
+    prepayment: IService['prepayment'] | undefined,
+    depositAmount: number | undefined,
+    price: number
+  ) {
+    if (prepayment !== 'deposit') {
+      return;
+    }
+
+    if (!depositAmount || depositAmount <= 0) {
+      throw new Error('Deposit amount is required for services taking a deposit');
+    }
+
+    if (depositAmount > price) {
+      throw new Error('Deposit amount cannot exceed the service price');
+    }
+  }
+
   async deleteService(serviceId: string, businessId: string) {
     const service = await Service.findById(serviceId);
     if (!service) {
@@ -315,6 +493,7 @@ export class BusinessService {
       user: user._id,
       specialty: data.specialty,
       bio: data.bio,
+      timezone: data.timezone,
       availability: data.schedule,
       services: data.services || [],
     });
@@ -362,6 +541,7 @@ export class BusinessService {
     // Update other fields (no userId update - cannot change specialist's user account)
     if (data.specialty) specialist.specialty = data.specialty;
     if (data.bio !== undefined) specialist.bio = data.bio;
+    if (data.timezone !== undefined) specialist.timezone = data.timezone || undefined;
     if (data.schedule) specialist.availability = data.schedule as any;
 
     await specialist.save();
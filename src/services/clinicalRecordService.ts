@@ -1,8 +1,21 @@
-import { ClinicalRecord } from '../models/ClinicalRecord.js';
-import { Attachment } from '../models/Attachment.js';
+import { Types } from 'mongoose';
+
+import { ClinicalRecord, IClinicalRecord } from '../models/ClinicalRecord.js';
+import {
+  ClinicalRecordRevision,
+  IClinicalRecordRevision,
+} from '../models/ClinicalRecordRevision.js';
+import { Attachment, IAttachment } from '../models/Attachment.js';
 import { Specialist } from '../models/Specialist.js';
 import { Business } from '../models/Business.js';
 import { Reservation } from '../models/Reservation.js';
+import { storageService } from '../utils/storage.js';
+import { healthProfileService, UpdateHealthProfileData } from './healthProfileService.js';
+import {
+  clinicalRecordTemplateService,
+  templateMatchesSpecialty,
+  validateTemplateAnswers,
+} from './clinicalRecordTemplateService.js';
 
 export interface CreateClinicalRecordData {
   patientId: string;
@@ -19,12 +32,26 @@ export interface CreateClinicalRecordData {
     heartRate?: number;
     temperature?: number;
   };
+  healthProfile?: UpdateHealthProfileData; // changes to the patient's health profile at the business
+  templateId?: string;
+  answers?: Record<string, unknown>; // keyed by the template field keys
 }
 
 export interface UpdateClinicalRecordData {
   diagnosis?: string;
   treatment?: string;
   notes?: string;
+  weight?: number;
+  height?: number;
+  bmi?: number;
+  bloodPressure?: string;
+  heartRate?: number;
+  temperature?: number;
+  diseases?: string[];
+  allergies?: string[];
+  medications?: string[];
+  disability?: string;
+  answers?: Record<string, unknown>; // replaces every answer of the record
   vitalSigns?: {
     bloodPressure?: string;
     heartRate?: number;
@@ -36,13 +63,40 @@ export interface UpdateClinicalRecordData {
 
 export interface CreateAttachmentData {
   clinicalRecordId: string;
-  fileName: string;
-  fileUrl: string;
-  fileType: string;
-  fileSize: number;
+  file: Express.Multer.File;
   description?: string;
 }
 
+// Fields kept in the version history of a record
+const TRACKED_FIELDS = [
+  'diagnosis',
+  'treatment',
+  'notes',
+  'weight',
+  'height',
+  'bmi',
+  'bloodPressure',
+  'heartRate',
+  'temperature',
+  'diseases',
+  'allergies',
+  'medications',
+  'disability',
+  'answers',
+] as const;
+
+// Deleted records are kept for the audit trail but hidden everywhere else
+const notDeleted = { deletedAt: null };
+
+const plainValue = (value: unknown) => (Array.isArray(value) ? [...value] : value);
+
+const getFileType = (mimeType: string): IAttachment['fileType'] => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType === 'application/pdf' || mimeType.startsWith('text/')) return 'document';
+  return 'other';
+};
+
 export class ClinicalRecordService {
   async createClinicalRecord(userId: string, data: CreateClinicalRecordData) {
     // Verify specialist exists and belongs to user
@@ -82,13 +136,36 @@ export class ClinicalRecordService {
         throw new Error('Reservation does not belong to this business');
       }
 
-      // Check if a clinical record already exists for this reservation
-      const existingRecord = await ClinicalRecord.findOne({ reservation: data.reservationId });
+      // Check if a clinical record already exists for this reservation. A deleted
+      // one can be replaced
+      const existingRecord = await ClinicalRecord.findOne({
+        reservation: data.reservationId,
+        ...notDeleted,
+      });
       if (existingRecord) {
         throw new Error('Clinical record already exists for this reservation');
       }
     }
 
+    // Records are created with the current version of their template
+    let template;
+    let answers;
+    if (data.templateId) {
+      template = await clinicalRecordTemplateService.getTemplate(data.templateId, data.businessId);
+      if (!template.isActive) {
+        throw new Error('Invalid template: it is no longer active');
+      }
+      if (!templateMatchesSpecialty(template, specialist.specialty)) {
+        throw new Error('Invalid template for this specialist');
+      }
+      answers = validateTemplateAnswers(
+        template.fields.map((field) => field.toObject()),
+        data.answers ?? {}
+      );
+    } else if (data.answers !== undefined) {
+      throw new Error('Invalid answers: the record has no template');
+    }
+
     const clinicalRecord = await ClinicalRecord.create({
       user: data.patientId,
       business: data.businessId,
@@ -102,8 +179,28 @@ export class ClinicalRecordService {
       bloodPressure: data.vitalSigns?.bloodPressure,
       heartRate: data.vitalSigns?.heartRate,
       temperature: data.vitalSigns?.temperature,
+      template: template?._id,
+      templateVersion: template?.version,
+      answers,
     });
 
+    if (data.healthProfile) {
+      try {
+        // Records are always created by their specialist
+        await healthProfileService.updateProfile(
+          data.patientId,
+          data.businessId,
+          userId,
+          'specialist',
+          data.healthProfile,
+          clinicalRecord._id.toString()
+        );
+      } catch (error) {
+        await ClinicalRecord.deleteOne({ _id: clinicalRecord._id });
+        throw error;
+      }
+    }
+
     return clinicalRecord;
   }
 
@@ -117,6 +214,7 @@ export class ClinicalRecordService {
     if (filter.patientId) query.user = filter.patientId;
     if (filter.specialistId) query.specialist = filter.specialistId;
     if (filter.businessId) query.business = filter.businessId;
+    query.deletedAt = null;
 
     const records = await ClinicalRecord.find(query)
       .populate('user', 'name email phone')
@@ -128,7 +226,7 @@ export class ClinicalRecordService {
   }
 
   async getClinicalRecordById(recordId: string, userId: string, userRole: string) {
-    const record = await ClinicalRecord.findById(recordId)
+    const record = await ClinicalRecord.findOne({ _id: recordId, ...notDeleted })
       .populate('user', 'name email phone')
       .populate('business', 'name')
       .populate('specialist');
@@ -159,7 +257,7 @@ export class ClinicalRecordService {
   }
 
   async getClinicalRecordByReservation(reservationId: string, userId: string, userRole: string) {
-    const record = await ClinicalRecord.findOne({ reservation: reservationId })
+    const record = await ClinicalRecord.findOne({ reservation: reservationId, ...notDeleted })
       .populate('user', 'name email phone')
       .populate('business', 'name')
       .populate('specialist')
@@ -206,14 +304,14 @@ export class ClinicalRecordService {
     }
 
     const skip = (page - 1) * limit;
-    const records = await ClinicalRecord.find({ user: patientId })
+    const records = await ClinicalRecord.find({ user: patientId, ...notDeleted })
       .populate('business', 'name')
       .populate('specialist')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit);
 
-    const total = await ClinicalRecord.countDocuments({ user: patientId });
+    const total = await ClinicalRecord.countDocuments({ user: patientId, ...notDeleted });
 
     return {
       records,
@@ -238,14 +336,17 @@ export class ClinicalRecordService {
     }
 
     const skip = (page - 1) * limit;
-    const records = await ClinicalRecord.find({ specialist: specialistId })
+    const records = await ClinicalRecord.find({ specialist: specialistId, ...notDeleted })
       .populate('patient', 'name email phone')
       .populate('business', 'name')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit);
 
-    const total = await ClinicalRecord.countDocuments({ specialist: specialistId });
+    const total = await ClinicalRecord.countDocuments({
+      specialist: specialistId,
+      ...notDeleted,
+    });
 
     return {
       records,
@@ -264,10 +365,7 @@ export class ClinicalRecordService {
     userRole: string,
     data: UpdateClinicalRecordData
   ) {
-    const record = await ClinicalRecord.findById(recordId);
-    if (!record) {
-      throw new Error('Clinical record not found');
-    }
+    const record = await this.findClinicalRecord(recordId);
 
     // Verify user is the specialist who created the record or admin
     if (userRole !== 'admin') {
@@ -281,19 +379,111 @@ export class ClinicalRecordService {
       }
     }
 
-    // Update fields
-    Object.assign(record, data);
-    await record.save();
+    const { vitalSigns, ...fields } = data;
+    const updates: Record<string, unknown> = { ...fields, ...vitalSigns };
+
+    // Answers are checked against the template version the record was created with
+    if (data.answers !== undefined) {
+      if (!record.template || !record.templateVersion) {
+        throw new Error('Invalid answers: the record has no template');
+      }
+      const templateFields = await clinicalRecordTemplateService.getVersionFields(
+        record.template,
+        record.templateVersion
+      );
+      updates.answers = validateTemplateAnswers(templateFields, data.answers);
+    }
+    const previous = TRACKED_FIELDS.map((field) => plainValue(record.get(field)));
+
+    for (const field of TRACKED_FIELDS) {
+      if (updates[field] !== undefined) {
+        record.set(field, updates[field]);
+      }
+    }
+    await record.validate();
+
+    // Compare the cast values so "70" and 70 are not reported as a change
+    const changes = TRACKED_FIELDS.map((field, index) => ({
+      field,
+      from: previous[index],
+      to: plainValue(record.get(field)),
+    })).filter((change) => JSON.stringify(change.from) !== JSON.stringify(change.to));
+
+    if (changes.length === 0) {
+      return record;
+    }
+
+    // The unique version index rejects concurrent edits of the same version
+    const version = record.version + 1;
+    const revision = await ClinicalRecordRevision.create({
+      clinicalRecord: record._id,
+      version,
+      author: userId,
+      changes,
+    });
+
+    record.version = version;
+    try {
+      await record.save();
+    } catch (error) {
+      // A revision left behind would take the next version and block every later edit
+      await ClinicalRecordRevision.deleteOne({ _id: revision._id });
+      throw error;
+    }
 
     return record;
   }
 
-  async deleteClinicalRecord(recordId: string, userId: string, userRole: string) {
-    const record = await ClinicalRecord.findById(recordId);
-    if (!record) {
-      throw new Error('Clinical record not found');
+  async getRevisions(recordId: string, userId: string, userRole: string) {
+    const record = await this.findClinicalRecord(recordId);
+    await this.assertCanView(record, userId, userRole, 'Unauthorized to view this clinical record');
+
+    return ClinicalRecordRevision.find({ clinicalRecord: record._id })
+      .populate('author', 'name email')
+      .sort({ version: -1 });
+  }
+
+  /**
+   * The record as it was at the given version, rebuilt by undoing the changes of
+   * every later revision
+   */
+  async getClinicalRecordVersion(
+    recordId: string,
+    version: number,
+    userId: string,
+    userRole: string
+  ) {
+    const record = await this.findClinicalRecord(recordId);
+    await this.assertCanView(record, userId, userRole, 'Unauthorized to view this clinical record');
+
+    if (!Number.isInteger(version) || version < 1 || version > record.version) {
+      throw new Error('Clinical record version not found');
     }
 
+    const revisions: IClinicalRecordRevision[] = await ClinicalRecordRevision.find({
+      clinicalRecord: record._id,
+      version: { $gte: version },
+    }).sort({ version: -1 });
+
+    const state: Record<string, unknown> = record.toObject();
+    for (const revision of revisions) {
+      if (revision.version === version) continue;
+      for (const change of revision.changes) {
+        state[change.field] = change.from;
+      }
+    }
+
+    const revision = revisions.find((entry) => entry.version === version);
+    return {
+      ...state,
+      version,
+      updatedAt: revision ? revision.createdAt : record.createdAt,
+    };
+  }
+
+  async deleteClinicalRecord(recordId: string, userId: string, userRole: string, reason: string) {
+    const record = await this.findClinicalRecord(recordId);
+
     // Only admins or the specialist who created it can delete
     if (userRole !== 'admin') {
       const specialist = await Specialist.findOne({
@@ -306,82 +496,91 @@ export class ClinicalRecordService {
       }
     }
 
-    await ClinicalRecord.deleteOne({ _id: recordId });
+    record.deletedAt = new Date();
+    record.deletedBy = new Types.ObjectId(userId);
+    record.deletionReason = reason;
+    await record.save();
+
     return { message: 'Clinical record deleted successfully' };
   }
 
   // Attachment management
-  async createAttachment(userId: string, data: CreateAttachmentData) {
-    // Verify clinical record exists and user has access
-    const record = await ClinicalRecord.findById(data.clinicalRecordId);
-    if (!record) {
-      throw new Error('Clinical record not found');
-    }
-
-    // Verify user is the specialist
-    const specialist = await Specialist.findOne({
-      _id: record.specialist,
-      user: userId,
-    });
-
-    if (!specialist) {
-      throw new Error('Unauthorized to add attachments');
-    }
+  async createAttachment(userId: string, userRole: string, data: CreateAttachmentData) {
+    const record = await this.findClinicalRecord(data.clinicalRecordId);
 
-    const attachment = await Attachment.create({
-      clinicalRecord: data.clinicalRecordId,
-      fileName: data.fileName,
-      fileUrl: data.fileUrl,
-      fileType: data.fileType,
-      fileSize: data.fileSize,
-      description: data.description,
-    });
-
-    return attachment;
-  }
-
-  async getAttachmentsByClinicalRecord(recordId: string, userId: string, userRole: string) {
-    // Verify clinical record exists and user has access
-    const record = await ClinicalRecord.findById(recordId);
-    if (!record) {
-      throw new Error('Clinical record not found');
-    }
-
-    // Check authorization
-    const patientId = record.get('patient');
-    const isPatient = patientId?.toString() === userId;
-    const isAdmin = userRole === 'admin';
-
-    if (!isPatient && !isAdmin) {
-      const specialistId = record.get('specialist');
+    // Only admins or the specialist of the record can add attachments
+    if (userRole !== 'admin') {
       const specialist = await Specialist.findOne({
-        _id: specialistId,
+        _id: record.specialist,
         user: userId,
       });
 
       if (!specialist) {
-        throw new Error('Unauthorized to view attachments');
+        throw new Error('Unauthorized to add attachments');
       }
     }
 
-    const attachments = await Attachment.find({ clinicalRecord: recordId });
+    const stored = await storageService.upload(data.file, { folder: 'clinical-records' });
+
+    try {
+      const attachment = await Attachment.create({
+        ownerType: 'clinical_record',
+        ownerId: record._id,
+        fileName: data.file.originalname,
+        fileUrl: stored.url,
+        fileType: getFileType(data.file.mimetype),
+        fileSize: data.file.size,
+        mimeType: data.file.mimetype,
+        uploadedBy: userId,
+        metadata: data.description ? { description: data.description } : undefined,
+      });
+
+      await ClinicalRecord.updateOne(
+        { _id: record._id },
+        { $push: { attachments: attachment._id } }
+      );
+
+      return attachment;
+    } catch (error) {
+      // Do not leave orphan files behind
+      await storageService.delete(stored.url, stored.provider);
+      throw error;
+    }
+  }
+
+  async getAttachmentsByClinicalRecord(recordId: string, userId: string, userRole: string) {
+    const record = await this.findClinicalRecord(recordId);
+    await this.assertCanView(record, userId, userRole, 'Unauthorized to view attachments');
+
+    const attachments = await Attachment.find({
+      ownerType: 'clinical_record',
+      ownerId: record._id,
+    })
+      .populate('uploadedBy', 'name')
+      .sort({ createdAt: -1 });
     return attachments;
   }
 
-  async deleteAttachment(attachmentId: string, userId: string, userRole: string) {
-    const attachment = await Attachment.findById(attachmentId).populate('clinicalRecord');
+  async deleteAttachment(recordId: string, attachmentId: string, userId: string, userRole: string) {
+    const record = await this.findClinicalRecord(recordId);
+
+    if (!Types.ObjectId.isValid(attachmentId)) {
+      throw new Error('Invalid attachment ID');
+    }
+
+    const attachment = await Attachment.findOne({
+      _id: attachmentId,
+      ownerType: 'clinical_record',
+      ownerId: record._id,
+    });
     if (!attachment) {
       throw new Error('Attachment not found');
     }
 
-    const clinicalRecordId = attachment.get('clinicalRecord');
-    const clinicalRecord = await ClinicalRecord.findById(clinicalRecordId);
-
     // Only admins or the specialist can delete
-    if (userRole !== 'admin' && clinicalRecord) {
-      const specialistId = clinicalRecord.get('specialist');
+    if (userRole !== 'admin') {
       const specialist = await Specialist.findOne({
-        _id: specialistId,
+        _id: record.specialist,
         user: userId,
       });
 
@@ -390,9 +589,47 @@ export class ClinicalRecordService {
       }
     }
 
-    await Attachment.deleteOne({ _id: attachmentId });
+    // Remove the stored file first so a failure leaves the attachment to retry
+    await storageService.delete(attachment.fileUrl);
+    await Attachment.deleteOne({ _id: attachment._id });
+    await ClinicalRecord.updateOne({ _id: record._id }, { $pull: { attachments: attachment._id } });
+
     return { message: 'Attachment deleted successfully' };
   }
+
+  private async findClinicalRecord(recordId: string): Promise<IClinicalRecord> {
+    if (!Types.ObjectId.isValid(recordId)) {
+      throw new Error('Invalid clinical record ID');
+    }
+
+    const record = await ClinicalRecord.findOne({ _id: recordId, ...notDeleted });
+    if (!record) {
+      throw new Error('Clinical record not found');
+    }
+
+    return record;
+  }
+
+  // The patient, the specialist of the record and admins can view it
+  private async assertCanView(
+    record: IClinicalRecord,
+    userId: string,
+    userRole: string,
+    message: string
+  ) {
+    if (record.user.toString() === userId || userRole === 'admin') {
+      return;
+    }
+
+    const specialist = await Specialist.findOne({
+      _id: record.specialist,
+      user: userId,
+    });
+
+    if (!specialist) {
+      throw new Error(message);
+    }
+  }
 }
 
 export const clinicalRecordService = new ClinicalRecordService();
@@ -0,0 +1,264 @@
+import { Types } from 'mongoose';
+
+import {
+  ClinicalRecordTemplate,
+  IClinicalRecordTemplate,
+  IClinicalRecordTemplateField,
+} from '../models/ClinicalRecordTemplate.js';
+import { Business } from '../models/Business.js';
+
+export type TemplateFieldData = Pick<IClinicalRecordTemplateField, 'key' | 'label' | 'type'> &
+  Partial<Omit<IClinicalRecordTemplateField, 'key' | 'label' | 'type'>>;
+
+export interface CreateTemplateData {
+  businessId: string;
+  name: string;
+  description?: string;
+  specialty?: string;
+  fields: TemplateFieldData[];
+}
+
+export type UpdateTemplateData = Partial<
+  Omit<CreateTemplateData, 'businessId'> & { isActive: boolean }
+>;
+
+const isEmptyAnswer = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const checkAnswer = (field: IClinicalRecordTemplateField, value: unknown): unknown => {
+  const invalid = (reason: string) => new Error(`Invalid answers: ${field.label} ${reason}`);
+
+  switch (field.type) {
+    case 'text':
+    case 'textarea':
+      if (typeof value !== 'string') throw invalid('must be text');
+      if (value.length > 5000) throw invalid('cannot exceed 5000 characters');
+      return value.trim();
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid('must be a number');
+      if (field.min !== undefined && value < field.min) {
+        throw invalid(`must be at least ${field.min}`);
+      }
+      if (field.max !== undefined && value > field.max) {
+        throw invalid(`must be at most ${field.max}`);
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') throw invalid('must be true or false');
+      return value;
+    case 'date':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        throw invalid('must be a date');
+      }
+      return value;
+    case 'select':
+      if (typeof value !== 'string' || !field.options.includes(value)) {
+        throw invalid(`must be one of ${field.options.join(', ')}`);
+      }
+      return value;
+    case 'multiselect':
+      if (
+        !Array.isArray(value) ||
+        value.some((option) => typeof option !== 'string' || !field.options.includes(option))
+      ) {
+        throw invalid(`must be a list of ${field.options.join(', ')}`);
+      }
+      return [...new Set(value)];
+  }
+};
+
+/**
+ * Checks the answers of a clinical record against the fields of a template
+ * version and returns them in field order, without the empty ones
+ */
+export const validateTemplateAnswers = (
+  fields: IClinicalRecordTemplateField[],
+  answers: unknown
+): Record<string, unknown> => {
+  if (typeof answers !== 'object' || answers === null || Array.isArray(answers)) {
+    throw new Error('Invalid answers: they must be an object');
+  }
+
+  const values = answers as Record<string, unknown>;
+  const unknownKey = Object.keys(values).find((key) => !fields.some((field) => field.key === key));
+  if (unknownKey) {
+    throw new Error(`Invalid answers: the template has no field ${unknownKey}`);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = values[field.key];
+    if (isEmptyAnswer(value)) {
+      if (field.required) {
+        throw new Error(`Invalid answers: ${field.label} is required`);
+      }
+      continue;
+    }
+    result[field.key] = checkAnswer(field, value);
+  }
+
+  return result;
+};
+
+/**
+ * Templates without a specialty are for every specialist of the business
+ */
+export const templateMatchesSpecialty = (
+  template: Pick<IClinicalRecordTemplate, 'specialty'>,
+  specialty?: string
+) => !template.specialty || template.specialty.toLowerCase() === (specialty ?? '').toLowerCase();
+
+export class ClinicalRecordTemplateService {
+  async createTemplate(data: CreateTemplateData) {
+    const business = await Business.findById(data.businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    this.assertFields(data.fields);
+
+    return ClinicalRecordTemplate.create({
+      business: data.businessId,
+      name: data.name,
+      description: data.description,
+      specialty: data.specialty,
+      fields: data.fields,
+    });
+  }
+
+  /**
+   * Active templates of a business. With a specialty, only the ones for that
+   * specialty or for every specialty
+   */
+  async getTemplates(businessId: string, specialty?: string) {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+
+    const templates: IClinicalRecordTemplate[] = await ClinicalRecordTemplate.find({
+      business: businessId,
+      isActive: true,
+    })
+      .select('-previousVersions')
+      .sort({ name: 1 });
+
+    return specialty
+      ? templates.filter((template) => templateMatchesSpecialty(template, specialty))
+      : templates;
+  }
+
+  async getTemplate(templateId: string, businessId: string) {
+    return this.findBusinessTemplate(templateId, businessId);
+  }
+
+  /**
+   * Changing the fields starts a new version. Records created with earlier
+   * versions keep being validated against them
+   */
+  async updateTemplate(templateId: string, businessId: string, data: UpdateTemplateData) {
+    const template = await this.findBusinessTemplate(templateId, businessId);
+
+    if (data.fields) {
+      this.assertFields(data.fields);
+
+      const previous = template.fields.map((field) => field.toObject());
+      template.set('fields', data.fields);
+      const changed =
+        JSON.stringify(template.fields.map((field) => field.toObject())) !==
+        JSON.stringify(previous);
+      if (changed) {
+        template.previousVersions.push({
+          version: template.version,
+          fields: previous,
+          replacedAt: new Date(),
+        });
+        template.version += 1;
+      }
+    }
+
+    for (const field of ['name', 'description', 'specialty', 'isActive'] as const) {
+      if (data[field] !== undefined) {
+        template.set(field, data[field]);
+      }
+    }
+    await template.save();
+
+    return template;
+  }
+
+  /**
+   * Fields of a template version, to validate the answers of records created
+   * with it
+   */
+  async getVersionFields(templateId: Types.ObjectId | string, version: number) {
+    const template: IClinicalRecordTemplate | null =
+      await ClinicalRecordTemplate.findById(templateId);
+    if (!template) {
+      throw new Error('Clinical record template not found');
+    }
+
+    if (version === template.version) {
+      return template.fields.map((field) => field.toObject() as IClinicalRecordTemplateField);
+    }
+
+    const previous = template.previousVersions.find((entry) => entry.version === version);
+    if (!previous) {
+      throw new Error('Clinical record template version not found');
+    }
+    return previous.fields;
+  }
+
+  private assertFields(fields: TemplateFieldData[]) {
+    if (fields.length === 0) {
+      throw new Error('Invalid template: add at least one field');
+    }
+
+    const keys = new Set<string>();
+    for (const field of fields) {
+      if (keys.has(field.key)) {
+        throw new Error(`Invalid template: duplicate field key ${field.key}`);
+      }
+      keys.add(field.key);
+
+      const hasOptions = (field.options?.length ?? 0) > 0;
+      if (field.type === 'select' || field.type === 'multiselect') {
+        if (!hasOptions) {
+          throw new Error(`Invalid template: ${field.label} needs options`);
+        }
+      } else if (hasOptions) {
+        throw new Error('Invalid template: only select fields take options');
+      }
+
+      if (
+        field.type !== 'number' &&
+        (field.unit !== undefined || field.min !== undefined || field.max !== undefined)
+      ) {
+        throw new Error('Invalid template: only number fields take a unit, minimum or maximum');
+      }
+      if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+        throw new Error(`Invalid template: the minimum of ${field.label} is above its maximum`);
+      }
+    }
+  }
+
+  private async findBusinessTemplate(
+    templateId: string,
+    businessId: string
+  ): Promise<IClinicalRecordTemplate> {
+    if (!Types.ObjectId.isValid(templateId)) {
+      throw new Error('Invalid template ID');
+    }
+
+    const template = await ClinicalRecordTemplate.findById(templateId);
+    if (!template || template.business.toString() !== businessId) {
+      throw new Error('Clinical record template not found');
+    }
+
+    return template;
+  }
+}
+
+export const clinicalRecordTemplateService = new ClinicalRecordTemplateService();
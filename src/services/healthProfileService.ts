@@ -0,0 +1,236 @@
+import { Types } from 'mongoose';
+
+import { HealthProfile, IHealthProfile, IHealthProfileEntry } from '../models/HealthProfile.js';
+import { Business } from '../models/Business.js';
+import { Specialist } from '../models/Specialist.js';
+import { User } from '../models/User.js';
+import { Reservation } from '../models/Reservation.js';
+import { ClinicalRecord } from '../models/ClinicalRecord.js';
+
+export interface HealthProfileEntryData {
+  name: string;
+  startDate?: Date;
+  endDate?: Date;
+  notes?: string;
+}
+
+export interface HealthProfileAllergyData extends HealthProfileEntryData {
+  severity?: 'mild' | 'moderate' | 'severe';
+  reaction?: string;
+}
+
+export interface HealthProfileMedicationData extends HealthProfileEntryData {
+  dosage?: string;
+  frequency?: string;
+}
+
+export interface UpdateHealthProfileData {
+  allergies?: HealthProfileAllergyData[];
+  conditions?: HealthProfileEntryData[];
+  medications?: HealthProfileMedicationData[];
+  disability?: string;
+}
+
+type EntryList = Types.DocumentArray<IHealthProfileEntry & Types.Subdocument>;
+
+export class HealthProfileService {
+  /**
+   * Profile a business keeps for a patient. The patient, admins, specialists of
+   * the business and of the businesses it is shared with can view it
+   */
+  async getProfile(patientId: string, businessId: string, userId: string, userRole: string) {
+    this.assertIds(patientId, businessId);
+
+    const profile: IHealthProfile | null = await HealthProfile.findOne({
+      patient: patientId,
+      business: businessId,
+    })
+      .populate('business', 'name')
+      .populate('sharedWith', 'name');
+    if (!profile) {
+      throw new Error('Health profile not found');
+    }
+
+    if (patientId !== userId && userRole !== 'admin') {
+      const businesses = [businessId, ...profile.sharedWith.map((business) => business._id)];
+      const specialist = await Specialist.exists({ user: userId, business: { $in: businesses } });
+      if (!specialist) {
+        throw new Error('Unauthorized to view this health profile');
+      }
+    }
+
+    return profile;
+  }
+
+  /**
+   * Profiles of the patient at other businesses that the patient shared with
+   * this one
+   */
+  async getSharedProfiles(patientId: string, businessId: string, userId: string, userRole: string) {
+    this.assertIds(patientId, businessId);
+    await this.assertCanManage(
+      businessId,
+      userId,
+      userRole,
+      'Unauthorized to view health profiles'
+    );
+
+    return HealthProfile.find({ patient: patientId, sharedWith: businessId })
+      .populate('business', 'name')
+      .sort({ updatedAt: -1 });
+  }
+
+  /**
+   * Records allergies, chronic conditions and medications. Entries are matched
+   * by name against the current ones, so an update changes the entry instead of
+   * adding a duplicate, and setting an end date closes it while keeping it in
+   * the history
+   */
+  async updateProfile(
+    patientId: string,
+    businessId: string,
+    userId: string,
+    userRole: string,
+    data: UpdateHealthProfileData,
+    clinicalRecordId?: string
+  ) {
+    this.assertIds(patientId, businessId);
+    await this.assertCanManage(
+      businessId,
+      userId,
+      userRole,
+      'Unauthorized to update this health profile'
+    );
+
+    const patient = await User.exists({ _id: patientId });
+    if (!patient) {
+      throw new Error('Patient not found');
+    }
+    await this.assertIsPatientOf(patientId, businessId);
+
+    const profile: IHealthProfile =
+      (await HealthProfile.findOne({ patient: patientId, business: businessId })) ??
+      new HealthProfile({ patient: patientId, business: businessId });
+
+    this.mergeEntries(profile.allergies, data.allergies, userId, clinicalRecordId);
+    this.mergeEntries(profile.conditions, data.conditions, userId, clinicalRecordId);
+    this.mergeEntries(profile.medications, data.medications, userId, clinicalRecordId);
+    if (data.disability !== undefined) {
+      profile.disability = data.disability;
+    }
+    profile.updatedBy = new Types.ObjectId(userId);
+    await profile.save();
+
+    return profile;
+  }
+
+  /**
+   * Businesses the patient consents to share the profile with. Replaces the
+   * previous list, so an empty list withdraws every consent
+   */
+  async updateSharing(
+    patientId: string,
+    businessId: string,
+    userId: string,
+    businessIds: string[]
+  ) {
+    this.assertIds(patientId, businessId);
+    if (patientId !== userId) {
+      throw new Error('Unauthorized: only the patient can share a health profile');
+    }
+
+    const profile = await HealthProfile.findOne({ patient: patientId, business: businessId });
+    if (!profile) {
+      throw new Error('Health profile not found');
+    }
+
+    const sharedWith = [...new Set(businessIds)].filter((id) => id !== businessId);
+    if (sharedWith.some((id) => !Types.ObjectId.isValid(id))) {
+      throw new Error('Invalid business ID');
+    }
+    const count = await Business.countDocuments({ _id: { $in: sharedWith } });
+    if (count !== sharedWith.length) {
+      throw new Error('Business not found');
+    }
+
+    profile.sharedWith = sharedWith.map((id) => new Types.ObjectId(id));
+    await profile.save();
+
+    return profile.populate('sharedWith', 'name');
+  }
+
+  /**
+   * Profile shown next to the clinical records of the business, without
+   * authorization checks
+   */
+  async findProfile(patientId: string, businessId: string) {
+    return HealthProfile.findOne({ patient: patientId, business: businessId });
+  }
+
+  private mergeEntries(
+    entries: EntryList,
+    updates: HealthProfileEntryData[] | undefined,
+    userId: string,
+    clinicalRecordId?: string
+  ) {
+    for (const update of updates ?? []) {
+      const name = update.name.trim().toLowerCase();
+      let entry = entries.find((item) => !item.endDate && item.name.toLowerCase() === name);
+      if (!entry) {
+        entries.push({ name: update.name });
+        entry = entries[entries.length - 1];
+      }
+
+      for (const [field, value] of Object.entries(update)) {
+        if (value !== undefined) {
+          entry.set(field, value);
+        }
+      }
+      entry.set('recordedBy', userId);
+      entry.set('clinicalRecord', clinicalRecordId);
+
+      if (entry.startDate && entry.endDate && entry.endDate < entry.startDate) {
+        throw new Error(`Invalid dates for ${entry.name}: end date is before start date`);
+      }
+    }
+  }
+
+  private assertIds(patientId: string, businessId: string) {
+    if (!Types.ObjectId.isValid(patientId)) {
+      throw new Error('Invalid patient ID');
+    }
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+  }
+
+  // Admins and the specialists of the business manage its health profiles
+  private async assertCanManage(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    message: string
+  ) {
+    if (userRole === 'admin') {
+      return;
+    }
+
+    const specialist = await Specialist.exists({ user: userId, business: businessId });
+    if (!specialist) {
+      throw new Error(message);
+    }
+  }
+
+  // Businesses only keep profiles of users they have booked or treated
+  private async assertIsPatientOf(patientId: string, businessId: string) {
+    const [reservation, record] = await Promise.all([
+      Reservation.exists({ user: patientId, business: businessId }),
+      ClinicalRecord.exists({ user: patientId, business: businessId, deletedAt: null }),
+    ]);
+    if (!reservation && !record) {
+      throw new Error('Unauthorized: the user is not a patient of this business');
+    }
+  }
+}
+
+export const healthProfileService = new HealthProfileService();
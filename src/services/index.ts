@@ -5,3 +5,15 @@ export * from './clinicalRecordService.js';
 export * from './availabilityService.js';
 export * from './notificationService.js';
 export * from './reminderService.js';
+export * from './scheduleExceptionService.js';
+export * from './resourceService.js';
+export * from './bookingLockService.js';
+export * from './slotHoldService.js';
+export * from './waitlistService.js';
+export * from './analyticsService.js';
+export * from './paymentService.js';
+export * from './invoiceService.js';
+export * from './pricingService.js';
+export * from './healthProfileService.js';
+export * from './vitalSignService.js';
+export * from './clinicalRecordTemplateService.js';
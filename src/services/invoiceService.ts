@@ -0,0 +1,325 @@
+import { Types } from 'mongoose';
+
+import { Invoice, IInvoice } from '../models/Invoice.js';
+import { InvoiceCounter } from '../models/InvoiceCounter.js';
+import { IReservation } from '../models/Reservation.js';
+import { Business, IBusiness } from '../models/Business.js';
+import { Service } from '../models/Service.js';
+import { User } from '../models/User.js';
+import { DEFAULT_TIMEZONE, toDateKey, toTimeKey } from '../utils/timezone.js';
+import { PdfLine, PdfText, renderPdf } from '../utils/pdf.js';
+import { pricingService } from './pricingService.js';
+
+export interface InvoiceFilterData {
+  fromDate?: Date;
+  toDate?: Date;
+  page?: number;
+  limit?: number;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(2)} ${currency}`;
+
+// Establishment and emission point followed by the sequential, as printed in Ecuador
+const formatInvoiceCode = (number: number) => `001-001-${number.toString().padStart(9, '0')}`;
+
+// How long to wait for a concurrent request to number the invoice it stored
+const NUMBER_WAIT_ATTEMPTS = 200;
+const NUMBER_WAIT_DELAY_MS = 25;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isDuplicateKeyError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+export class InvoiceService {
+  /**
+   * Issue the invoice of a completed reservation, or return it if it was already
+   * issued. Businesses with a RUC issue invoices and the rest receipts, both
+   * numbered in the same sequence
+   */
+  async issueForReservation(reservation: IReservation) {
+    const existing = await Invoice.findOne({ reservation: reservation._id });
+    if (existing) {
+      return this.waitForNumber(existing._id);
+    }
+
+    const [business, customer, service] = await Promise.all([
+      Business.findById(reservation.business),
+      User.findById(reservation.user),
+      Service.findById(reservation.service),
+    ]);
+    if (!business || !customer || !service) {
+      throw new Error('Cannot issue an invoice for a reservation with missing data');
+    }
+
+    // Reservations booked before prices were kept are charged at the current price
+    const price = reservation.price ?? (await pricingService.quote(service, reservation.startDate));
+    const adjustments = price.adjustments.map((adjustment) => adjustment.name);
+    const description = adjustments.length
+      ? `${service.name} (${adjustments.join(', ')})`
+      : service.name;
+    const payment = reservation.payment;
+
+    const invoice = new Invoice({
+      business: business._id,
+      reservation: reservation._id,
+      user: customer._id,
+      type: business.ruc ? 'invoice' : 'receipt',
+      seller: {
+        name: business.name,
+        ruc: business.ruc,
+        address: business.address,
+        phone: business.phone,
+        email: business.email,
+      },
+      customer: {
+        name: customer.name,
+        email: customer.email,
+        phone: customer.phone,
+        taxId: customer.taxId,
+      },
+      items: [{ description, quantity: 1, unitPrice: price.subtotal, subtotal: price.subtotal }],
+      serviceDate: reservation.startDate,
+      subtotal: price.subtotal,
+      taxRate: price.taxRate,
+      tax: price.tax,
+      total: price.total,
+      currency: price.currency,
+      amountPaid: payment ? roundAmount(payment.amountPaid - payment.amountRefunded) : 0,
+    });
+    await invoice.validate({ pathsToSkip: ['number', 'code'] });
+
+    // The invoice is stored before it takes a number, and the unique reservation
+    // index lets only one request store it, so numbers are never left unused
+    try {
+      const issued: IInvoice | null = await Invoice.findOneAndUpdate(
+        { reservation: reservation._id },
+        { $setOnInsert: invoice.toObject() },
+        { upsert: true }
+      );
+      if (issued) {
+        return this.waitForNumber(issued._id);
+      }
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+      // Stored meanwhile by a concurrent request
+      const issued = await Invoice.findOne({ reservation: reservation._id });
+      if (!issued) {
+        throw error;
+      }
+      return this.waitForNumber(issued._id);
+    }
+
+    return this.assignNumber(invoice._id as Types.ObjectId, business._id as Types.ObjectId);
+  }
+
+  async getInvoiceById(invoiceId: string, userId: string, userRole: string) {
+    if (!Types.ObjectId.isValid(invoiceId)) {
+      throw new Error('Invalid invoice ID');
+    }
+
+    const invoice: IInvoice | null = await Invoice.findById(invoiceId);
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+
+    if (userRole !== 'admin' && invoice.user.toString() !== userId) {
+      const business = await Business.findOne({ _id: invoice.business, user: userId });
+      if (!business) {
+        throw new Error('Unauthorized to view this invoice');
+      }
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Invoices of a business, newest first
+   */
+  async getBusinessInvoices(
+    businessId: string,
+    userId: string,
+    userRole: string,
+    filter: InvoiceFilterData = {}
+  ) {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+
+    const business = await Business.findById(businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    if (userRole !== 'admin' && business.user.toString() !== userId) {
+      throw new Error('Unauthorized to view the invoices of this business');
+    }
+
+    return this.findInvoices({ business: business._id }, filter);
+  }
+
+  /**
+   * Invoices issued to a client by every business, newest first
+   */
+  async getClientInvoices(userId: string, filter: InvoiceFilterData = {}) {
+    return this.findInvoices({ user: new Types.ObjectId(userId) }, filter);
+  }
+
+  /**
+   * The invoice as a one-page PDF in Spanish
+   */
+  async renderInvoicePdf(invoice: IInvoice): Promise<Buffer> {
+    const business: IBusiness | null = await Business.findById(invoice.business).select('timezone');
+    const timeZone = business?.timezone || DEFAULT_TIMEZONE;
+    const date = (value: Date) => toDateKey(value, timeZone);
+    const amount = (value: number) => formatAmount(value, invoice.currency);
+
+    const texts: PdfText[] = [];
+    const lines: PdfLine[] = [];
+    let y = 60;
+    const write = (text: string, x = 50, options: Partial<PdfText> = {}) =>
+      texts.push({ text, x, y, ...options });
+
+    write(invoice.seller.name, 50, { size: 16, bold: true });
+    write(invoice.type === 'invoice' ? 'FACTURA' : 'RECIBO', 400, { size: 16, bold: true });
+    y += 20;
+    if (invoice.seller.ruc) write(`RUC: ${invoice.seller.ruc}`);
+    write(`No. ${invoice.code}`, 400, { bold: true });
+    y += 15;
+    if (invoice.seller.address) write(invoice.seller.address);
+    write(`Fecha de emisión: ${date(invoice.issuedAt)}`, 400);
+    y += 15;
+    const contact = [invoice.seller.phone, invoice.seller.email].filter(Boolean).join(' - ');
+    if (contact) write(contact);
+
+    y += 25;
+    lines.push({ x1: 50, y1: y, x2: 545, y2: y });
+    y += 20;
+    write('Cliente', 50, { bold: true });
+    y += 15;
+    write(invoice.customer.name);
+    y += 15;
+    write(
+      invoice.customer.taxId
+        ? `Cédula/RUC: ${invoice.customer.taxId}`
+        : 'Consumidor final (sin identificación)'
+    );
+    y += 15;
+    const customerContact = [invoice.customer.email, invoice.customer.phone]
+      .filter(Boolean)
+      .join(' - ');
+    if (customerContact) write(customerContact);
+
+    y += 30;
+    write('Descripción', 50, { bold: true });
+    write('Cant.', 330, { bold: true });
+    write('P. unitario', 390, { bold: true });
+    write('Subtotal', 475, { bold: true });
+    y += 6;
+    lines.push({ x1: 50, y1: y, x2: 545, y2: y });
+    for (const item of invoice.items) {
+      y += 16;
+      write(item.description);
+      write(item.quantity.toString(), 330);
+      write(amount(item.unitPrice), 390);
+      write(amount(item.subtotal), 475);
+    }
+    y += 16;
+    const serviceTime = toTimeKey(invoice.serviceDate, timeZone);
+    write(`Fecha del servicio: ${date(invoice.serviceDate)} ${serviceTime}`, 50, { size: 9 });
+
+    y += 20;
+    lines.push({ x1: 330, y1: y, x2: 545, y2: y });
+    const totals: [string, number][] = [
+      ['Subtotal', invoice.subtotal],
+      [`IVA ${invoice.taxRate}%`, invoice.tax],
+      ['Total', invoice.total],
+    ];
+    if (invoice.amountPaid > 0) {
+      totals.push(['Pagado en línea', invoice.amountPaid]);
+      totals.push(['Saldo', roundAmount(Math.max(invoice.total - invoice.amountPaid, 0))]);
+    }
+    for (const [label, value] of totals) {
+      y += 16;
+      write(label, 390, { bold: label === 'Total' });
+      write(amount(value), 475, { bold: label === 'Total' });
+    }
+
+    return renderPdf({ texts, lines, title: `${invoice.type} ${invoice.code}` });
+  }
+
+  /**
+   * Give a stored invoice the next number of its business
+   */
+  private async assignNumber(invoiceId: Types.ObjectId, businessId: Types.ObjectId) {
+    const counter = await InvoiceCounter.findOneAndUpdate(
+      { business: businessId },
+      { $inc: { lastNumber: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    const numbered: IInvoice | null = await Invoice.findOneAndUpdate(
+      { _id: invoiceId, number: null },
+      { number: counter.lastNumber, code: formatInvoiceCode(counter.lastNumber) },
+      { new: true }
+    );
+
+    return numbered ?? ((await Invoice.findById(invoiceId)) as IInvoice);
+  }
+
+  /**
+   * An invoice stored by a concurrent request, once it has its number. Invoices
+   * left without one, when that request failed, are numbered here
+   */
+  private async waitForNumber(invoiceId: Types.ObjectId) {
+    for (let attempt = 0; attempt < NUMBER_WAIT_ATTEMPTS; attempt++) {
+      const invoice: IInvoice | null = await Invoice.findById(invoiceId);
+      if (!invoice || invoice.number) {
+        return invoice as IInvoice;
+      }
+      await sleep(NUMBER_WAIT_DELAY_MS);
+    }
+
+    const invoice = (await Invoice.findById(invoiceId)) as IInvoice;
+    return this.assignNumber(invoice._id as Types.ObjectId, invoice.business);
+  }
+
+  private async findInvoices(query: Record<string, unknown>, filter: InvoiceFilterData) {
+    const page = filter.page || 1;
+    const limit = filter.limit || 20;
+
+    if (filter.fromDate || filter.toDate) {
+      query.issuedAt = {
+        ...(filter.fromDate && { $gte: filter.fromDate }),
+        ...(filter.toDate && { $lte: filter.toDate }),
+      };
+    }
+
+    // Skip invoices still waiting for their number
+    query.number = { $ne: null };
+
+    const [invoices, total] = await Promise.all([
+      Invoice.find(query)
+        .sort({ issuedAt: -1, number: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Invoice.countDocuments(query),
+    ]);
+
+    return {
+      invoices,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+}
+
+export const invoiceService = new InvoiceService();
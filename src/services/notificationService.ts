@@ -1,7 +1,9 @@
 import nodemailer from 'nodemailer';
 
 import { IReservation } from '../models/Reservation.js';
+import { IWaitlistEntry } from '../models/WaitlistEntry.js';
 import { config } from '../config/index.js';
+import { DEFAULT_TIMEZONE } from '../utils/timezone.js';
 
 interface EmailData {
   to: string;
@@ -17,8 +19,10 @@ interface NotificationData {
   businessName: string;
   startDate: Date;
   endDate: Date;
+  timeZone: string;
   notes?: string;
   cancellationReason?: string;
+  meetingUrl?: string; // remote sessions only
 }
 
 export class NotificationService {
@@ -69,8 +73,10 @@ export class NotificationService {
     }
   }
 
-  private formatDate(date: Date): string {
+  private formatDate(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
     return new Date(date).toLocaleString('es-ES', {
+      timeZone,
+      timeZoneName: 'short',
       weekday: 'long',
       year: 'numeric',
       month: 'long',
@@ -110,7 +116,7 @@ export class NotificationService {
               <p><strong>Email:</strong> ${data.userEmail}</p>
               <p><strong>Servicio:</strong> ${data.serviceName}</p>
               <p><strong>Negocio:</strong> ${data.businessName}</p>
-              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate)}</p>
+              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
               <p><strong>Duración:</strong> ${Math.round((data.endDate.getTime() - data.startDate.getTime()) / 60000)} minutos</p>
               ${data.notes ? `<p><strong>Notas del paciente:</strong> ${data.notes}</p>` : ''}
             </div>
@@ -164,16 +170,21 @@ export class NotificationService {
               <h3>📋 Información de tu Cita</h3>
               <p><strong>Especialista:</strong> ${data.specialistName}</p>
               <p><strong>Servicio:</strong> ${data.serviceName}</p>
-              <p><strong>Lugar:</strong> ${data.businessName}</p>
-              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate)}</p>
+              ${this.getLocationInfo(data)}
+              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
               <p><strong>Duración:</strong> ${Math.round((data.endDate.getTime() - data.startDate.getTime()) / 60000)} minutos</p>
             </div>
 
             <div class="info-box" style="border-left-color: #FF9800;">
               <h3>📝 Recordatorios Importantes</h3>
               <ul>
-                <li>Llega 10 minutos antes de tu cita</li>
-                <li>Trae tu documento de identidad</li>
+                ${
+                  data.meetingUrl
+                    ? `<li>Conéctate 5 minutos antes desde un lugar tranquilo</li>
+                <li>Verifica tu cámara, micrófono y conexión a internet</li>`
+                    : `<li>Llega 10 minutos antes de tu cita</li>
+                <li>Trae tu documento de identidad</li>`
+                }
                 <li>Si necesitas cancelar, hazlo con al menos 24 horas de anticipación</li>
               </ul>
             </div>
@@ -219,7 +230,7 @@ export class NotificationService {
               <p><strong>Especialista:</strong> ${data.specialistName}</p>
               <p><strong>Servicio:</strong> ${data.serviceName}</p>
               <p><strong>Lugar:</strong> ${data.businessName}</p>
-              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate)}</p>
+              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
               ${data.cancellationReason ? `<p><strong>Motivo:</strong> ${data.cancellationReason}</p>` : ''}
             </div>
 
@@ -279,16 +290,21 @@ export class NotificationService {
               <h3>📋 Detalles de tu Cita</h3>
               <p><strong>Especialista:</strong> ${data.specialistName}</p>
               <p><strong>Servicio:</strong> ${data.serviceName}</p>
-              <p><strong>Lugar:</strong> ${data.businessName}</p>
-              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate)}</p>
+              ${this.getLocationInfo(data)}
+              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
               <p><strong>Duración estimada:</strong> ${Math.round((data.endDate.getTime() - data.startDate.getTime()) / 60000)} minutos</p>
             </div>
 
             <div class="info-box" style="border-left-color: #2196F3;">
               <h3>✅ Checklist para tu Cita</h3>
               <ul style="list-style-type: none; padding-left: 0;">
-                <li>✓ Llega 10 minutos antes</li>
-                <li>✓ Trae tu documento de identidad</li>
+                ${
+                  data.meetingUrl
+                    ? `<li>✓ Abre el enlace de la sesión 5 minutos antes</li>
+                <li>✓ Verifica tu cámara, micrófono y conexión a internet</li>`
+                    : `<li>✓ Llega 10 minutos antes</li>
+                <li>✓ Trae tu documento de identidad</li>`
+                }
                 <li>✓ Trae tus exámenes previos (si aplica)</li>
                 <li>✓ Anota tus preguntas o síntomas</li>
               </ul>
@@ -306,6 +322,117 @@ export class NotificationService {
     `;
   }
 
+  private getReservationRescheduledTemplate(
+    data: NotificationData,
+    recipientName: string,
+    previousStartDate: Date
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #673AB7; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border: 1px solid #ddd; border-radius: 0 0 5px 5px; }
+          .info-box { background-color: white; padding: 15px; margin: 15px 0; border-left: 4px solid #673AB7; }
+          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #777; }
+          .old-date { color: #777; text-decoration: line-through; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>📅 Reservación Reprogramada</h1>
+          </div>
+          <div class="content">
+            <p>Hola <strong>${recipientName}</strong>,</p>
+            <p>La siguiente reservación ha cambiado de horario:</p>
+
+            <div class="info-box">
+              <h3>📋 Detalles de la Reservación</h3>
+              <p><strong>Paciente:</strong> ${data.userName}</p>
+              <p><strong>Especialista:</strong> ${data.specialistName}</p>
+              <p><strong>Servicio:</strong> ${data.serviceName}</p>
+              <p><strong>Lugar:</strong> ${data.businessName}</p>
+              <p><strong>Fecha anterior:</strong> <span class="old-date">${this.formatDate(previousStartDate, data.timeZone)}</span></p>
+              <p><strong>Nueva fecha y hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
+              <p><strong>Duración:</strong> ${Math.round((data.endDate.getTime() - data.startDate.getTime()) / 60000)} minutos</p>
+            </div>
+
+            <p>Si el nuevo horario no te conviene, puedes reprogramar o cancelar la cita.</p>
+          </div>
+          <div class="footer">
+            <p>Este es un mensaje automático de C3M Centralia</p>
+            <p>No respondas a este correo</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  private getWaitlistOfferTemplate(data: NotificationData, expiresAt: Date): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #009688; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+          .content { background-color: #f9f9f9; padding: 30px; border: 1px solid #ddd; border-radius: 0 0 5px 5px; }
+          .info-box { background-color: white; padding: 15px; margin: 15px 0; border-left: 4px solid #009688; }
+          .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #777; }
+          .deadline { background-color: #FFC107; padding: 10px; border-radius: 5px; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>🔔 ¡Se liberó un horario!</h1>
+          </div>
+          <div class="content">
+            <p>Hola <strong>${data.userName}</strong>,</p>
+            <p>Estabas en la lista de espera y se liberó un horario que coincide con tu solicitud. Lo hemos apartado para ti:</p>
+
+            <div class="info-box">
+              <h3>📋 Horario Disponible</h3>
+              <p><strong>Especialista:</strong> ${data.specialistName}</p>
+              <p><strong>Servicio:</strong> ${data.serviceName}</p>
+              <p><strong>Lugar:</strong> ${data.businessName}</p>
+              <p><strong>Fecha y Hora:</strong> ${this.formatDate(data.startDate, data.timeZone)}</p>
+            </div>
+
+            <p class="deadline">
+              <strong>Reserva antes de:</strong> ${this.formatDate(expiresAt, data.timeZone)}
+            </p>
+
+            <p>Si no reservas a tiempo, el horario se ofrecerá a la siguiente persona en la lista de espera.</p>
+          </div>
+          <div class="footer">
+            <p>Este es un mensaje automático de C3M Centralia</p>
+            <p>No respondas a este correo</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Where the appointment takes place: the business, or the meeting link of remote sessions
+   */
+  private getLocationInfo(data: NotificationData): string {
+    if (!data.meetingUrl) {
+      return `<p><strong>Lugar:</strong> ${data.businessName}</p>`;
+    }
+
+    return `<p><strong>Modalidad:</strong> Sesión remota con ${data.businessName}</p>
+              <p><strong>Enlace de la sesión:</strong> <a href="${data.meetingUrl}">${data.meetingUrl}</a></p>`;
+  }
+
   private extractNotificationData(reservation: IReservation): NotificationData {
     const userName =
       typeof reservation.user === 'object' && 'name' in reservation.user
@@ -336,6 +463,21 @@ export class NotificationService {
         ? (reservation.business.name as string)
         : 'Negocio';
 
+    // Dates are shown in the specialist's timezone, falling back to the business one
+    const specialistTimeZone =
+      typeof reservation.specialist === 'object' &&
+      reservation.specialist !== null &&
+      'timezone' in reservation.specialist
+        ? (reservation.specialist.timezone as string | undefined)
+        : undefined;
+
+    const businessTimeZone =
+      typeof reservation.business === 'object' &&
+      reservation.business !== null &&
+      'timezone' in reservation.business
+        ? (reservation.business.timezone as string | undefined)
+        : undefined;
+
     return {
       userName,
       userEmail,
@@ -344,8 +486,10 @@ export class NotificationService {
       businessName,
       startDate: reservation.startDate,
       endDate: reservation.endDate,
+      timeZone: specialistTimeZone || businessTimeZone || DEFAULT_TIMEZONE,
       notes: reservation.notes,
       cancellationReason: reservation.cancellationReason,
+      meetingUrl: reservation.attendanceMode === 'remote' ? reservation.meeting?.url : undefined,
     };
   }
 
@@ -418,6 +562,71 @@ export class NotificationService {
     }
   }
 
+  async sendReservationRescheduled(
+    reservation: IReservation,
+    previousStartDate: Date
+  ): Promise<void> {
+    try {
+      const data = this.extractNotificationData(reservation);
+
+      const specialistEmail =
+        typeof reservation.specialist === 'object' &&
+        'user' in reservation.specialist &&
+        typeof reservation.specialist.user === 'object' &&
+        reservation.specialist.user !== null &&
+        'email' in reservation.specialist.user
+          ? (reservation.specialist.user.email as string)
+          : '';
+
+      // Both the client and the specialist are told about the new time
+      const recipients = [
+        { email: data.userEmail, name: data.userName },
+        { email: specialistEmail, name: data.specialistName },
+      ].filter((recipient) => recipient.email);
+
+      for (const recipient of recipients) {
+        await this.sendEmail({
+          to: recipient.email,
+          subject: `Cita Reprogramada - ${data.businessName}`,
+          html: this.getReservationRescheduledTemplate(data, recipient.name, previousStartDate),
+        });
+      }
+    } catch (error) {
+      console.error('Error sending reservation rescheduled notification:', error);
+    }
+  }
+
+  async sendWaitlistOffer(entry: IWaitlistEntry): Promise<void> {
+    try {
+      if (!entry.offer) {
+        return;
+      }
+
+      // A populated entry has the same shape as a reservation for the template data
+      const data = this.extractNotificationData({
+        user: entry.user,
+        business: entry.business,
+        specialist: entry.specialist,
+        service: entry.service,
+        startDate: entry.offer.startDate,
+        endDate: entry.offer.endDate,
+      } as IReservation);
+
+      if (!data.userEmail) {
+        console.warn('Client email not found for waitlist offer');
+        return;
+      }
+
+      await this.sendEmail({
+        to: data.userEmail,
+        subject: `Horario Disponible - ${data.businessName}`,
+        html: this.getWaitlistOfferTemplate(data, entry.offer.expiresAt),
+      });
+    } catch (error) {
+      console.error('Error sending waitlist offer notification:', error);
+    }
+  }
+
   async sendReservationReminder(reservation: IReservation): Promise<void> {
     try {
       const data = this.extractNotificationData(reservation);
@@ -0,0 +1,406 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Types } from 'mongoose';
+
+import { Payment, IPayment } from '../models/Payment.js';
+import { Reservation, IReservation } from '../models/Reservation.js';
+import { Business, IBusiness } from '../models/Business.js';
+import { IService } from '../models/Service.js';
+import { config } from '../config/index.js';
+import { notificationService } from './notificationService.js';
+import { waitlistService } from './waitlistService.js';
+import { PriceBreakdown } from './pricingService.js';
+import { paymentGateway } from '../utils/payment.js';
+
+type ReservationPayment = NonNullable<IReservation['payment']>;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class PaymentService {
+  private job: ScheduledTask | null = null;
+
+  /**
+   * Starts the cron job releasing reservations that were not paid in time
+   * Runs every minute
+   */
+  start() {
+    if (this.job) {
+      console.log('Payment service is already running');
+      return;
+    }
+
+    this.job = cron.schedule('* * * * *', async () => {
+      await this.releaseUnpaidReservations();
+    });
+
+    console.log('Payment service started - will run every minute');
+  }
+
+  /**
+   * Stops the payment cron job
+   */
+  stop() {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Payment service stopped');
+    }
+  }
+
+  /**
+   * Payment a new reservation of the service requires for its price, or undefined
+   * when it is not paid in advance
+   */
+  getBookingTerms(service: IService, price: PriceBreakdown): ReservationPayment | undefined {
+    const amountDue =
+      service.prepayment === 'full'
+        ? price.total
+        : service.prepayment === 'deposit'
+          ? Math.min(service.depositAmount ?? 0, price.total)
+          : 0;
+
+    if (service.prepayment === 'none' || amountDue <= 0) {
+      return undefined;
+    }
+
+    return {
+      type: service.prepayment,
+      status: 'pending',
+      amountDue: roundAmount(amountDue),
+      amountPaid: 0,
+      amountRefunded: 0,
+      currency: price.currency,
+      dueAt: new Date(Date.now() + config.payment.timeoutMinutes * 60000),
+    };
+  }
+
+  /**
+   * Start a checkout for the amount a reservation still owes and keep its URL
+   * on the reservation
+   */
+  async startCheckout(reservation: IReservation, description: string) {
+    if (!reservation.payment) {
+      throw new Error('Reservation does not require a payment');
+    }
+
+    const paymentId = new Types.ObjectId();
+    const amount = roundAmount(reservation.payment.amountDue - reservation.payment.amountPaid);
+    const checkout = await paymentGateway.createCheckout({
+      paymentId: paymentId.toString(),
+      amount,
+      currency: reservation.payment.currency,
+      description,
+    });
+
+    const payment = await Payment.create({
+      _id: paymentId,
+      reservation: reservation._id,
+      user: reservation.user,
+      business: reservation.business,
+      type: reservation.payment.type,
+      amount,
+      currency: reservation.payment.currency,
+      provider: paymentGateway.providerName,
+      providerPaymentId: checkout.providerPaymentId,
+      checkoutUrl: checkout.checkoutUrl,
+    });
+
+    reservation.payment.status = 'pending';
+    reservation.payment.checkoutUrl = checkout.checkoutUrl;
+    await reservation.save();
+
+    return payment;
+  }
+
+  /**
+   * New checkout for a client whose payment failed or who lost the checkout page
+   */
+  async retryCheckout(reservationId: string, userId: string) {
+    if (!Types.ObjectId.isValid(reservationId)) {
+      throw new Error('Invalid reservation ID');
+    }
+
+    const reservation = await Reservation.findById(reservationId).populate('service', 'name');
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    if (reservation.user.toString() !== userId) {
+      throw new Error('Unauthorized to pay for this reservation');
+    }
+
+    if (!reservation.payment) {
+      throw new Error('Reservation does not require a payment');
+    }
+
+    if (
+      reservation.status !== 'pending' ||
+      !['pending', 'failed'].includes(reservation.payment.status) ||
+      (reservation.payment.dueAt && reservation.payment.dueAt <= new Date())
+    ) {
+      throw new Error('Reservation is not awaiting payment');
+    }
+
+    const service = reservation.service as unknown as { name?: string } | null;
+    const payment = await this.startCheckout(reservation, service?.name || 'Reservation');
+
+    return { payment, reservation };
+  }
+
+  /**
+   * Payments of a reservation, for its client, the business owner or an admin
+   */
+  async getReservationPayments(reservationId: string, userId: string, userRole: string) {
+    if (!Types.ObjectId.isValid(reservationId)) {
+      throw new Error('Invalid reservation ID');
+    }
+
+    const reservation = await Reservation.findById(reservationId);
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    if (userRole !== 'admin' && reservation.user.toString() !== userId) {
+      const business = await Business.findOne({ _id: reservation.business, user: userId });
+      if (!business) {
+        throw new Error('Unauthorized to view the payments of this reservation');
+      }
+    }
+
+    return Payment.find({ reservation: reservation._id }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * Apply a webhook call from the payment provider. Calls for payments that are
+   * no longer pending are ignored, so providers can safely deliver them again,
+   * even at the same time
+   */
+  async handleWebhook(body: unknown, signature?: string) {
+    const event = paymentGateway.parseEvent(body, signature);
+
+    const payment: IPayment | null = await Payment.findOne({
+      provider: paymentGateway.providerName,
+      providerPaymentId: event.providerPaymentId,
+    });
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    // Only the call that moves the payment out of pending applies it. Checkouts
+    // of released reservations can still be paid, and are then refunded
+    const claimed: IPayment | null = await Payment.findOneAndUpdate(
+      { _id: payment._id, status: { $in: ['pending', 'expired'] } },
+      event.type === 'payment.failed'
+        ? { status: 'failed', failureReason: event.failureReason }
+        : { status: 'succeeded', paidAt: new Date() },
+      { new: true }
+    );
+    if (!claimed) {
+      return (await Payment.findById(payment._id)) ?? payment;
+    }
+
+    if (event.type === 'payment.failed') {
+      // The slot stays reserved until the due time so the client can try again
+      await Reservation.updateOne(
+        { _id: claimed.reservation, 'payment.status': 'pending' },
+        { $set: { 'payment.status': 'failed' } }
+      );
+      return claimed;
+    }
+
+    let reservation: IReservation | null = await Reservation.findById(claimed.reservation);
+    if (!reservation?.payment) {
+      return claimed;
+    }
+
+    if (
+      ['pending', 'confirmed'].includes(reservation.status) &&
+      reservation.payment.amountPaid < reservation.payment.amountDue
+    ) {
+      // Only while still active: the release job may cancel it meanwhile, and the
+      // payment is then refunded below
+      const paid = await Reservation.findOneAndUpdate(
+        { _id: reservation._id, status: { $in: ['pending', 'confirmed'] } },
+        {
+          $set: {
+            'payment.status': 'paid',
+            'payment.amountPaid': roundAmount(reservation.payment.amountPaid + claimed.amount),
+          },
+          $unset: { 'payment.dueAt': 1 },
+        }
+      );
+      if (paid) {
+        return claimed;
+      }
+
+      reservation = await Reservation.findById(claimed.reservation);
+      if (!reservation?.payment) {
+        return claimed;
+      }
+    }
+
+    const isActive = ['pending', 'confirmed'].includes(reservation.status);
+    reservation.payment.amountPaid = roundAmount(reservation.payment.amountPaid + claimed.amount);
+
+    // Paid after the reservation was released or cancelled, or through a second checkout
+    await this.refundPayment(
+      reservation,
+      claimed,
+      claimed.amount,
+      isActive ? 'Reservation already paid' : 'Reservation no longer active'
+    );
+    if (!isActive) {
+      reservation.payment.status = this.getRefundStatus(reservation.payment);
+    }
+    await reservation.save();
+
+    return claimed;
+  }
+
+  /**
+   * Refund what a cancelled reservation paid as the business cancellation policy
+   * says: in full, or the late refund percent for late client cancellations
+   */
+  async refundCancellation(reservation: IReservation) {
+    if (!reservation.payment || reservation.payment.amountPaid <= 0) {
+      return null;
+    }
+
+    let percent = 100;
+    if (reservation.isLateCancellation) {
+      const business: IBusiness | null = await Business.findById(reservation.business).select(
+        'cancellationPolicy'
+      );
+      percent = business?.cancellationPolicy?.lateRefundPercent ?? 0;
+    }
+
+    return this.refundReservation(reservation, percent, 'Reservation cancelled');
+  }
+
+  /**
+   * Cancel pending reservations still unpaid at their due time, freeing their slot
+   */
+  async releaseUnpaidReservations(): Promise<number> {
+    const unpaid: IReservation[] = await Reservation.find({
+      status: 'pending',
+      'payment.status': { $in: ['pending', 'failed'] },
+      'payment.dueAt': { $lte: new Date() },
+    });
+
+    let released = 0;
+    for (const { _id } of unpaid) {
+      try {
+        // Only while still unpaid, in case a payment arrived since the search
+        const reservation: IReservation | null = await Reservation.findOneAndUpdate(
+          { _id, status: 'pending', 'payment.status': { $in: ['pending', 'failed'] } },
+          {
+            $set: {
+              status: 'cancelled',
+              cancellationReason: 'Payment not received in time',
+              cancelledAt: new Date(),
+            },
+          },
+          { new: true }
+        );
+        if (!reservation) {
+          continue;
+        }
+        released++;
+
+        await Payment.updateMany(
+          { reservation: reservation._id, status: 'pending' },
+          { $set: { status: 'expired' } }
+        );
+        await waitlistService.offerFreedSlot(reservation);
+
+        const populated = await Reservation.findById(reservation._id)
+          .populate('user', 'name email')
+          .populate('business', 'name timezone')
+          .populate({
+            path: 'specialist',
+            select: 'timezone',
+            populate: { path: 'user', select: 'name' },
+          })
+          .populate('service', 'name');
+        if (populated) {
+          await notificationService.sendReservationCancelled(populated);
+        }
+      } catch (error) {
+        console.error(`Failed to release unpaid reservation ${_id}:`, error);
+        // Continue with other reservations even if one fails
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Refund a percent of what the reservation paid and has not been refunded yet
+   */
+  private async refundReservation(reservation: IReservation, percent: number, reason: string) {
+    if (!reservation.payment) {
+      return null;
+    }
+
+    const refundable = roundAmount(
+      reservation.payment.amountPaid - reservation.payment.amountRefunded
+    );
+    let remaining = roundAmount((refundable * percent) / 100);
+    if (remaining <= 0) {
+      return null;
+    }
+
+    const payments: IPayment[] = await Payment.find({
+      reservation: reservation._id,
+      status: 'succeeded',
+    }).sort({ paidAt: 1 });
+
+    for (const payment of payments) {
+      const amount = Math.min(remaining, roundAmount(payment.amount - payment.refundedAmount));
+      if (amount <= 0) {
+        continue;
+      }
+
+      await this.refundPayment(reservation, payment, amount, reason);
+      remaining = roundAmount(remaining - amount);
+      if (remaining <= 0) {
+        break;
+      }
+    }
+
+    reservation.payment.status = this.getRefundStatus(reservation.payment);
+    await reservation.save();
+
+    return reservation.payment;
+  }
+
+  /**
+   * Refund part of a payment through the provider and record it on the payment
+   * and the reservation. The reservation is saved by the caller
+   */
+  private async refundPayment(
+    reservation: IReservation,
+    payment: IPayment,
+    amount: number,
+    reason: string
+  ) {
+    const refund = await paymentGateway.refund(payment.providerPaymentId, amount);
+    payment.refunds.push({
+      amount,
+      providerRefundId: refund.providerRefundId,
+      reason,
+      createdAt: new Date(),
+    });
+    payment.refundedAmount = roundAmount(payment.refundedAmount + amount);
+    await payment.save();
+
+    if (reservation.payment) {
+      reservation.payment.amountRefunded = roundAmount(reservation.payment.amountRefunded + amount);
+    }
+  }
+
+  private getRefundStatus(payment: ReservationPayment): ReservationPayment['status'] {
+    return payment.amountRefunded >= payment.amountPaid ? 'refunded' : 'partially_refunded';
+  }
+}
+
+export const paymentService = new PaymentService();
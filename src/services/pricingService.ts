@@ -0,0 +1,263 @@
+import { Types } from 'mongoose';
+
+import { PricingRule, IPricingRule } from '../models/PricingRule.js';
+import { Business, IBusiness } from '../models/Business.js';
+import { Service, IService } from '../models/Service.js';
+import { IReservation } from '../models/Reservation.js';
+import { config } from '../config/index.js';
+import {
+  DEFAULT_TIMEZONE,
+  DayName,
+  getDayName,
+  timeToMinutes,
+  toDateKey,
+  toTimeKey,
+} from '../utils/timezone.js';
+
+export type PriceBreakdown = NonNullable<IReservation['price']>;
+
+export interface CreatePricingRuleData {
+  businessId: string;
+  name: string;
+  type: IPricingRule['type'];
+  percent?: number;
+  amount?: number;
+  services?: string[];
+  days?: DayName[];
+  startTime?: string;
+  endTime?: string;
+  validFrom?: string;
+  validTo?: string;
+}
+
+export type UpdatePricingRuleData = Partial<
+  Omit<CreatePricingRuleData, 'businessId'> & { isActive: boolean }
+>;
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Whether a rule applies to a reservation of the service starting at the given
+ * instant, read in the business timezone.
+ * Time windows ending before they start wrap past midnight (22:00 to 06:00).
+ */
+export const pricingRuleApplies = (
+  rule: IPricingRule,
+  serviceId: string,
+  startDate: Date,
+  timeZone: string
+): boolean => {
+  if (rule.services.length > 0 && !rule.services.some((id) => id.toString() === serviceId)) {
+    return false;
+  }
+
+  const dateKey = toDateKey(startDate, timeZone);
+  if ((rule.validFrom && dateKey < rule.validFrom) || (rule.validTo && dateKey > rule.validTo)) {
+    return false;
+  }
+
+  if (rule.days.length > 0 && !rule.days.includes(getDayName(dateKey))) {
+    return false;
+  }
+
+  const minutes = timeToMinutes(toTimeKey(startDate, timeZone));
+  const start = rule.startTime ? timeToMinutes(rule.startTime) : 0;
+  const end = rule.endTime ? timeToMinutes(rule.endTime) : 24 * 60;
+
+  return start <= end ? start <= minutes && minutes < end : minutes >= start || minutes < end;
+};
+
+export class PricingService {
+  async createRule(data: CreatePricingRuleData) {
+    const business = await Business.findById(data.businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    this.assertRule(data);
+    if (data.services?.length) {
+      await this.assertBusinessServices(data.businessId, data.services);
+    }
+
+    return PricingRule.create({
+      business: data.businessId,
+      name: data.name,
+      type: data.type,
+      percent: data.percent,
+      amount: data.amount,
+      services: data.services,
+      days: data.days,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      validFrom: data.validFrom,
+      validTo: data.validTo,
+    });
+  }
+
+  async getRules(businessId: string) {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+
+    return PricingRule.find({ business: businessId })
+      .populate('services', 'name price')
+      .sort({ type: 1, name: 1 });
+  }
+
+  async updateRule(ruleId: string, businessId: string, data: UpdatePricingRuleData) {
+    const rule = await this.findBusinessRule(ruleId, businessId);
+
+    // Setting one kind of amount replaces the other
+    const percent = data.amount !== undefined ? data.percent : (data.percent ?? rule.percent);
+    const amount = data.percent !== undefined ? data.amount : (data.amount ?? rule.amount);
+
+    this.assertRule({
+      percent,
+      amount,
+      startTime: data.startTime ?? rule.startTime,
+      endTime: data.endTime ?? rule.endTime,
+      validFrom: data.validFrom ?? rule.validFrom,
+      validTo: data.validTo ?? rule.validTo,
+    });
+    if (data.services?.length) {
+      await this.assertBusinessServices(businessId, data.services);
+    }
+
+    for (const [field, value] of Object.entries(data)) {
+      if (value !== undefined && field !== 'percent' && field !== 'amount') {
+        rule.set(field, value);
+      }
+    }
+    rule.percent = percent;
+    rule.amount = amount;
+    await rule.save();
+
+    return rule;
+  }
+
+  async deleteRule(ruleId: string, businessId: string) {
+    const rule = await this.findBusinessRule(ruleId, businessId);
+
+    // Reservations keep the adjustments in their price
+    await PricingRule.deleteOne({ _id: rule._id });
+
+    return { message: 'Pricing rule deleted successfully' };
+  }
+
+  /**
+   * Price of a service for a reservation starting at the given time, with the
+   * surcharges and discounts that apply and the tax of the service or business
+   */
+  async getServicePrice(businessId: string, serviceId: string, startDate: Date) {
+    if (!Types.ObjectId.isValid(serviceId)) {
+      throw new Error('Invalid service ID');
+    }
+
+    const service: IService | null = await Service.findById(serviceId);
+    if (!service || service.business.toString() !== businessId) {
+      throw new Error('Service not found');
+    }
+
+    return this.quote(service, startDate);
+  }
+
+  /**
+   * Price breakdown stored on new reservations. Percent rules apply to the
+   * service price, and discounts never take the price below zero
+   */
+  async quote(service: IService, startDate: Date): Promise<PriceBreakdown> {
+    const [business, rules]: [IBusiness | null, IPricingRule[]] = await Promise.all([
+      Business.findById(service.business).select('timezone pricing'),
+      PricingRule.find({ business: service.business, isActive: true }).sort({ createdAt: 1 }),
+    ]);
+    const timeZone = business?.timezone || DEFAULT_TIMEZONE;
+
+    const basePrice = roundAmount(service.price);
+    const adjustments = rules
+      .filter((rule) => pricingRuleApplies(rule, service._id.toString(), startDate, timeZone))
+      .map((rule) => ({
+        rule: rule._id as Types.ObjectId,
+        name: rule.name,
+        type: rule.type,
+        amount: roundAmount(rule.percent ? (basePrice * rule.percent) / 100 : (rule.amount ?? 0)),
+      }));
+
+    const price = Math.max(
+      adjustments.reduce(
+        (total, adjustment) =>
+          adjustment.type === 'surcharge' ? total + adjustment.amount : total - adjustment.amount,
+        basePrice
+      ),
+      0
+    );
+
+    const taxRate = service.taxRate ?? business?.pricing?.taxRate ?? config.pricing.taxRate;
+    const taxIncluded = service.taxIncluded ?? business?.pricing?.taxIncluded ?? false;
+    const subtotal = roundAmount(taxIncluded ? (price * 100) / (100 + taxRate) : price);
+    const total = roundAmount(taxIncluded ? price : subtotal + (subtotal * taxRate) / 100);
+
+    return {
+      basePrice,
+      adjustments,
+      subtotal,
+      taxRate,
+      taxIncluded,
+      tax: roundAmount(total - subtotal),
+      total,
+      currency: config.payment.currency,
+    };
+  }
+
+  private assertRule(
+    data: Pick<
+      CreatePricingRuleData,
+      'percent' | 'amount' | 'startTime' | 'endTime' | 'validFrom' | 'validTo'
+    >
+  ) {
+    if ((data.percent === undefined) === (data.amount === undefined)) {
+      throw new Error('Pricing rules need either a percent or an amount');
+    }
+
+    if (
+      data.startTime &&
+      data.endTime &&
+      timeToMinutes(data.startTime) === timeToMinutes(data.endTime)
+    ) {
+      throw new Error('Start time and end time must differ');
+    }
+
+    if (data.validFrom && data.validTo && data.validFrom > data.validTo) {
+      throw new Error('Valid from must not be after valid to');
+    }
+  }
+
+  private async assertBusinessServices(businessId: string, serviceIds: string[]) {
+    if (serviceIds.some((id) => !Types.ObjectId.isValid(id))) {
+      throw new Error('Invalid service ID');
+    }
+
+    const count = await Service.countDocuments({ _id: { $in: serviceIds }, business: businessId });
+    if (count !== new Set(serviceIds).size) {
+      throw new Error('Pricing rules can only apply to services of this business');
+    }
+  }
+
+  private async findBusinessRule(ruleId: string, businessId: string): Promise<IPricingRule> {
+    if (!Types.ObjectId.isValid(ruleId)) {
+      throw new Error('Invalid pricing rule ID');
+    }
+
+    const rule = await PricingRule.findById(ruleId);
+    if (!rule) {
+      throw new Error('Pricing rule not found');
+    }
+
+    if (rule.business.toString() !== businessId) {
+      throw new Error('Unauthorized to modify this pricing rule');
+    }
+
+    return rule;
+  }
+}
+
+export const pricingService = new PricingService();
@@ -2,6 +2,7 @@ import cron, { ScheduledTask } from 'node-cron';
 
 import { Reservation } from '../models/Reservation.js';
 import { notificationService } from './notificationService.js';
+import { DEFAULT_TIMEZONE, addZonedDays } from '../utils/timezone.js';
 
 export class ReminderService {
   private job: ScheduledTask | null = null;
@@ -37,32 +38,44 @@ export class ReminderService {
   }
 
   /**
-   * Finds and sends reminders for reservations happening in 24 hours
+   * Finds and sends reminders for reservations happening tomorrow at this time.
+   * "Tomorrow" is measured in the business (or specialist) timezone, so across a
+   * DST change the reminder goes out 23 or 25 real hours before the appointment.
    */
   async sendUpcomingReminders(): Promise<void> {
     try {
       const now = new Date();
-      const in24Hours = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      const in25Hours = new Date(now.getTime() + 25 * 60 * 60 * 1000);
+      const windowEnd = new Date(now.getTime() + 60 * 60 * 1000);
+      // Wide enough to cover a one hour DST shift on either side of 24-25 hours
+      const from = new Date(now.getTime() + 23 * 60 * 60 * 1000);
+      const to = new Date(now.getTime() + 26 * 60 * 60 * 1000);
 
-      // Find confirmed reservations happening between 24-25 hours from now
+      // Find confirmed reservations around 24 hours from now
       // that haven't received a reminder yet
-      const reservations = await Reservation.find({
+      const candidates = await Reservation.find({
         status: 'confirmed',
         startDate: {
-          $gte: in24Hours,
-          $lt: in25Hours,
+          $gte: from,
+          $lt: to,
         },
         reminderSent: { $ne: true },
       })
         .populate('user', 'name email phone')
-        .populate('business', 'name address')
+        .populate('business', 'name address timezone')
         .populate({
           path: 'specialist',
           populate: { path: 'user', select: 'name email' },
         })
         .populate('service', 'name duration price');
 
+      // Keep those whose start is one calendar day ahead of the next hour, in their zone
+      const reservations = candidates.filter((reservation) => {
+        const timeZone =
+          reservation.specialist?.timezone || reservation.business?.timezone || DEFAULT_TIMEZONE;
+        const reminderAt = addZonedDays(reservation.startDate, -1, timeZone);
+        return reminderAt >= now && reminderAt < windowEnd;
+      });
+
       console.log(`Found ${reservations.length} reservations needing reminders`);
 
       for (const reservation of reservations) {
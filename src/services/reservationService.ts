@@ -1,9 +1,22 @@
 import { Types } from 'mongoose';
 
-import { Reservation } from '../models/Reservation.js';
-import { Service } from '../models/Service.js';
+import { Reservation, IReservation } from '../models/Reservation.js';
+import { ReservationSeries } from '../models/ReservationSeries.js';
+import { Service, IService } from '../models/Service.js';
 import { Specialist } from '../models/Specialist.js';
+import { Business, IBusiness } from '../models/Business.js';
 import { notificationService } from './notificationService.js';
+import { availabilityService, BookingRules } from './availabilityService.js';
+import { bookingLockService } from './bookingLockService.js';
+import { config } from '../config/index.js';
+import { slotHoldService } from './slotHoldService.js';
+import { waitlistService } from './waitlistService.js';
+import { paymentService } from './paymentService.js';
+import { invoiceService } from './invoiceService.js';
+import { pricingService, PriceBreakdown } from './pricingService.js';
+import { addZonedDays, getZonedDayBounds, toDateKey } from '../utils/timezone.js';
+import { meetingService } from '../utils/meeting.js';
+import { SlotConflictError } from '../utils/errors.js';
 
 export interface CreateReservationData {
   userId: string;
@@ -12,14 +25,77 @@ export interface CreateReservationData {
   specialistId: string;
   startDate: Date;
   notes?: string;
+  // Defaults to remote for remote-only services and in person otherwise
+  attendanceMode?: IReservation['attendanceMode'];
+  // Hold taken during checkout; booking fails if it has expired
+  holdId?: string;
 }
 
+export type HoldSlotData = Pick<
+  CreateReservationData,
+  'userId' | 'businessId' | 'serviceId' | 'specialistId' | 'startDate'
+>;
+
+export interface CreateReservationSeriesData extends CreateReservationData {
+  frequency: 'weekly' | 'biweekly';
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+}
+
+// Whether a change to an occurrence also applies to the rest of its series
+export type SeriesScope = 'single' | 'following';
+
 export interface UpdateReservationData {
-  status?: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no-show';
+  status?: IReservation['status'];
   cancellationReason?: string;
   notes?: string;
+  scope?: SeriesScope;
+}
+
+export interface RescheduleReservationData {
+  startDate: Date;
+  reason?: string;
+  scope?: SeriesScope;
+}
+
+export type ReservationActor = 'client' | 'specialist' | 'owner' | 'admin';
+
+type ReservationStatus = IReservation['status'];
+
+interface StatusTransition {
+  roles: ReservationActor[];
+  // Whether the change is only allowed before the end or after the start of the reservation
+  timing?: 'before_end' | 'after_start';
 }
 
+const STAFF: ReservationActor[] = ['specialist', 'owner', 'admin'];
+
+// Allowed status changes; completed, cancelled and no-show are final
+const STATUS_TRANSITIONS: Record<
+  ReservationStatus,
+  Partial<Record<ReservationStatus, StatusTransition>>
+> = {
+  pending: {
+    confirmed: { roles: STAFF, timing: 'before_end' },
+    cancelled: { roles: ['client', ...STAFF], timing: 'before_end' },
+  },
+  confirmed: {
+    cancelled: { roles: ['client', ...STAFF], timing: 'before_end' },
+    completed: { roles: STAFF, timing: 'after_start' },
+    'no-show': { roles: STAFF, timing: 'after_start' },
+  },
+  completed: {},
+  cancelled: {},
+  'no-show': {},
+};
+
+const MAX_SERIES_OCCURRENCES = 52;
+
+const SERIES_STEP_DAYS: Record<CreateReservationSeriesData['frequency'], number> = {
+  weekly: 7,
+  biweekly: 14,
+};
+
 export interface ReservationFilterData {
   userId?: string;
   businessId?: string;
@@ -31,88 +107,348 @@ export interface ReservationFilterData {
 
 export class ReservationService {
   async createReservation(data: CreateReservationData) {
-    // Verify specialist exists and is active
-    const specialist = await Specialist.findById(data.specialistId);
-    if (!specialist || !specialist.isActive) {
-      throw new Error('Specialist not found or inactive');
-    }
+    const { reservation, service } = await this.bookReservation(data);
 
-    // Verify specialist belongs to the business
-    if (specialist.business.toString() !== data.businessId) {
-      throw new Error('Specialist does not belong to this business');
+    // Deposits and prepayments are paid through a checkout after booking
+    if (reservation.payment) {
+      try {
+        await paymentService.startCheckout(reservation, service.name);
+      } catch (error) {
+        console.error('Failed to start payment:', error);
+        await Reservation.deleteOne({ _id: reservation._id });
+        if (error instanceof Error && error.message.includes('Payments are unavailable')) {
+          throw error;
+        }
+        throw new Error('Payment could not be started, please try again');
+      }
     }
 
-    // Verify service exists and get duration
-    const service = await Service.findById(data.serviceId);
-    if (!service || !service.isActive) {
-      throw new Error('Service not found or inactive');
-    }
+    const populatedReservation = await Reservation.findById(reservation._id)
+      .populate('user', 'name email phone avatar')
+      .populate('business', 'name address phone email timezone')
+      .populate({
+        path: 'specialist',
+        select: 'specialty licenseNumber bio availability services timezone',
+        populate: [
+          { path: 'user', select: 'name email phone avatar' },
+          { path: 'services', select: 'name description duration price category' },
+        ],
+      })
+      .populate('service', 'name description duration price category');
 
-    // Verify service belongs to the business
-    if (service.business.toString() !== data.businessId) {
-      throw new Error('Service does not belong to this business');
+    // Send notification to specialist
+    if (populatedReservation) {
+      try {
+        await notificationService.sendReservationCreated(populatedReservation);
+      } catch (error) {
+        console.error('Failed to send notification:', error);
+        // Don't fail the reservation if notification fails
+      }
     }
 
-    // Verify specialist can provide this service
-    const specialistServices = specialist.services.map((s) => s.toString());
-    if (specialistServices.length > 0 && !specialistServices.includes(data.serviceId)) {
-      throw new Error('Specialist cannot provide this service');
-    }
+    return populatedReservation;
+  }
 
-    // Calculate end date based on service duration
-    const start = new Date(data.startDate);
-    const end = new Date(start.getTime() + service.duration * 60000);
+  /**
+   * Book every occurrence of a weekly or biweekly series. Occurrences that
+   * cannot be booked are reported as conflicts instead of failing the series
+   */
+  async createReservationSeries(data: CreateReservationSeriesData) {
+    if (!data.count && !data.until) {
+      throw new Error('Either count or until is required for a series');
+    }
 
-    // Check for conflicts
-    const conflictingReservation = await Reservation.findOne({
-      specialist: data.specialistId,
-      status: { $in: ['pending', 'confirmed'] },
-      $or: [
-        { startDate: { $lt: end, $gte: start } },
-        { endDate: { $gt: start, $lte: end } },
-        { startDate: { $lte: start }, endDate: { $gte: end } },
-      ],
-    });
+    // Every occurrence would need its own checkout
+    const service = await Service.findById(data.serviceId).select('prepayment');
+    if (service && service.prepayment !== 'none') {
+      throw new Error('Services paid at booking cannot be booked as a series');
+    }
 
-    if (conflictingReservation) {
-      throw new Error('Time slot is already booked');
+    const specialist = await Specialist.findById(data.specialistId);
+    const timeZone = await availabilityService.getSpecialistTimeZone(specialist);
+    const occurrences = this.getSeriesDates(data, timeZone);
+    if (occurrences.length < 2) {
+      throw new Error('A series needs at least 2 occurrences');
     }
 
-    const reservation = await Reservation.create({
+    const series = await ReservationSeries.create({
       user: data.userId,
       business: data.businessId,
       specialist: data.specialistId,
       service: data.serviceId,
-      startDate: start,
-      endDate: end,
+      frequency: data.frequency,
+      startDate: occurrences[0],
+      count: data.count,
+      until: data.until,
       notes: data.notes,
-      status: 'pending',
     });
 
-    const populatedReservation = await Reservation.findById(reservation._id)
+    const createdIds: Types.ObjectId[] = [];
+    const conflicts: { startDate: Date; reason: string }[] = [];
+
+    for (const [index, startDate] of occurrences.entries()) {
+      try {
+        const { reservation } = await this.bookReservation(
+          { ...data, startDate },
+          { series: series._id, seriesIndex: index }
+        );
+        createdIds.push(reservation._id);
+      } catch (error) {
+        // Only time-specific problems are reported per occurrence. Anything else
+        // fails the whole series, so nothing booked so far is kept
+        if (!(error instanceof SlotConflictError)) {
+          await Reservation.deleteMany({ _id: { $in: createdIds } });
+          await ReservationSeries.deleteOne({ _id: series._id });
+          throw error;
+        }
+        conflicts.push({ startDate, reason: error.message });
+      }
+    }
+
+    if (createdIds.length === 0) {
+      await ReservationSeries.deleteOne({ _id: series._id });
+      throw new Error('None of the occurrences in the series are available');
+    }
+
+    const reservations = await Reservation.find({ _id: { $in: createdIds } })
       .populate('user', 'name email phone avatar')
-      .populate('business', 'name address phone email')
+      .populate('business', 'name address phone email timezone')
       .populate({
         path: 'specialist',
-        select: 'specialty licenseNumber bio availability services',
+        select: 'specialty licenseNumber bio availability services timezone',
         populate: [
           { path: 'user', select: 'name email phone avatar' },
           { path: 'services', select: 'name description duration price category' },
         ],
       })
-      .populate('service', 'name description duration price category');
+      .populate('service', 'name description duration price category')
+      .sort({ startDate: 1 });
 
-    // Send notification to specialist
-    if (populatedReservation) {
-      try {
-        await notificationService.sendReservationCreated(populatedReservation);
-      } catch (error) {
-        console.error('Failed to send notification:', error);
-        // Don't fail the reservation if notification fails
+    // One email for the whole series
+    try {
+      await notificationService.sendReservationCreated(reservations[0]);
+    } catch (error) {
+      console.error('Failed to send notification:', error);
+    }
+
+    return { series, reservations, conflicts };
+  }
+
+  async getReservationSeries(seriesId: string, userId: string, userRole: string) {
+    if (!Types.ObjectId.isValid(seriesId)) {
+      throw new Error('Invalid series ID');
+    }
+
+    const series = await ReservationSeries.findById(seriesId);
+    if (!series) {
+      throw new Error('Reservation series not found');
+    }
+
+    const actors = await this.resolveActors(series, userId, userRole);
+    if (actors.length === 0) {
+      throw new Error('Unauthorized to view this reservation series');
+    }
+
+    const reservations = await Reservation.find({ series: series._id })
+      .populate('service', 'name description duration price category')
+      .sort({ startDate: 1 });
+
+    return { series, reservations };
+  }
+
+  /**
+   * Start dates of a series, keeping the local time of the first one across
+   * daylight saving changes
+   */
+  private getSeriesDates(data: CreateReservationSeriesData, timeZone: string) {
+    const first = new Date(data.startDate);
+    const dates: Date[] = [];
+
+    while (dates.length < MAX_SERIES_OCCURRENCES) {
+      if (data.count && dates.length >= data.count) {
+        break;
+      }
+
+      const date = addZonedDays(first, dates.length * SERIES_STEP_DAYS[data.frequency], timeZone);
+      if (data.until && toDateKey(date, timeZone) > data.until) {
+        break;
       }
+
+      dates.push(date);
     }
 
-    return populatedReservation;
+    return dates;
+  }
+
+  /**
+   * Validate and create a reservation without notifying anyone
+   */
+  private async bookReservation(
+    data: CreateReservationData,
+    occurrence?: { series: Types.ObjectId; seriesIndex: number }
+  ) {
+    const { rules, start, end, service } = await this.resolveBooking(data);
+    const attendanceMode = await this.resolveAttendanceMode(service, data);
+    const price = await pricingService.quote(service, start);
+
+    // Check for conflicts and create under the specialist and resource locks so
+    // concurrent bookings cannot both pass the check
+    return bookingLockService.withLocks([data.specialistId, ...rules.resourceIds], async () => {
+      if (
+        data.holdId &&
+        !(await slotHoldService.findActiveHold(data.holdId, data.userId, data.specialistId, start))
+      ) {
+        throw new Error('Hold has expired or does not match this booking');
+      }
+
+      // Keep the buffers around each appointment free
+      const conflictingReservation = await availabilityService.findConflictingReservation(
+        data.specialistId,
+        start,
+        end,
+        rules
+      );
+
+      if (conflictingReservation) {
+        throw new SlotConflictError('Time slot is already booked');
+      }
+
+      // Held slots can only be booked by the client holding them
+      const conflictingHold = await availabilityService.findConflictingHold(
+        data.specialistId,
+        start,
+        end,
+        rules,
+        data.userId
+      );
+
+      if (conflictingHold) {
+        throw new SlotConflictError('Time slot is temporarily held by another client');
+      }
+
+      const seatError = await this.checkSessionSeats(data.specialistId, start, rules, data.userId);
+      if (seatError) {
+        throw new SlotConflictError(seatError);
+      }
+
+      if (
+        await availabilityService.findConflictingResourceBooking(
+          data.specialistId,
+          start,
+          end,
+          rules,
+          [],
+          data.userId
+        )
+      ) {
+        throw new SlotConflictError('A required resource is already booked at this time');
+      }
+
+      // The meeting link is created before the reservation so it is stored with it
+      const reservationId = new Types.ObjectId();
+      const meeting =
+        attendanceMode === 'remote'
+          ? await meetingService.createLink({
+              reservationId: reservationId.toString(),
+              title: service.name,
+              startDate: start,
+              endDate: end,
+            })
+          : undefined;
+
+      const reservation = await Reservation.create({
+        _id: reservationId,
+        user: data.userId,
+        business: data.businessId,
+        specialist: data.specialistId,
+        service: data.serviceId,
+        startDate: start,
+        endDate: end,
+        bufferBefore: rules.bufferBefore,
+        bufferAfter: rules.bufferAfter,
+        resources: rules.resourceIds,
+        attendanceMode,
+        meeting,
+        price,
+        payment: paymentService.getBookingTerms(service, price),
+        notes: data.notes,
+        status: 'pending',
+        ...occurrence,
+      });
+
+      const hold = await slotHoldService.consumeHold(data.userId, data.specialistId, start, end);
+      if (hold?.waitlistEntry) {
+        await waitlistService.markBooked(hold.waitlistEntry, reservation._id);
+      }
+
+      return { reservation, service };
+    });
+  }
+
+  /**
+   * Keep a slot free for the client while they complete the booking
+   */
+  async holdSlot(data: HoldSlotData) {
+    const { rules, start, end } = await this.resolveBooking(data);
+
+    return bookingLockService.withLocks([data.specialistId, ...rules.resourceIds], async () => {
+      const conflictingReservation = await availabilityService.findConflictingReservation(
+        data.specialistId,
+        start,
+        end,
+        rules
+      );
+
+      if (conflictingReservation) {
+        throw new SlotConflictError('Time slot is already booked');
+      }
+
+      const conflictingHold = await availabilityService.findConflictingHold(
+        data.specialistId,
+        start,
+        end,
+        rules,
+        data.userId
+      );
+
+      if (conflictingHold) {
+        throw new SlotConflictError('Time slot is temporarily held by another client');
+      }
+
+      const seatError = await this.checkSessionSeats(data.specialistId, start, rules, data.userId);
+      if (seatError) {
+        throw new SlotConflictError(seatError);
+      }
+
+      if (
+        await availabilityService.findConflictingResourceBooking(
+          data.specialistId,
+          start,
+          end,
+          rules,
+          [],
+          data.userId
+        )
+      ) {
+        throw new SlotConflictError('A required resource is already booked at this time');
+      }
+
+      // A client checks out one slot per specialist at a time
+      await slotHoldService.releaseCheckoutHolds(data.userId, data.specialistId);
+
+      return slotHoldService.createHold({
+        userId: data.userId,
+        businessId: data.businessId,
+        specialistId: data.specialistId,
+        serviceId: data.serviceId,
+        startDate: start,
+        endDate: end,
+        bufferBefore: rules.bufferBefore,
+        bufferAfter: rules.bufferAfter,
+        resourceIds: rules.resourceIds,
+        expiresAt: new Date(Date.now() + config.booking.holdMinutes * 60000),
+      });
+    });
   }
 
   async getReservationById(reservationId: string) {
@@ -122,10 +458,10 @@ export class ReservationService {
 
     const reservation = await Reservation.findById(reservationId)
       .populate('user', 'name email phone avatar')
-      .populate('business', 'name address phone email')
+      .populate('business', 'name address phone email timezone')
       .populate({
         path: 'specialist',
-        select: 'specialty licenseNumber bio availability services',
+        select: 'specialty licenseNumber bio availability services timezone',
         populate: [
           { path: 'user', select: 'name email phone avatar' },
           { path: 'services', select: 'name description duration price category' },
@@ -178,10 +514,10 @@ export class ReservationService {
 
     const reservations = await Reservation.find(query)
       .populate('user', 'name email phone avatar')
-      .populate('business', 'name address phone email')
+      .populate('business', 'name address phone email timezone')
       .populate({
         path: 'specialist',
-        select: 'specialty licenseNumber bio availability services',
+        select: 'specialty licenseNumber bio availability services timezone',
         populate: [
           { path: 'user', select: 'name email phone avatar' },
           { path: 'services', select: 'name description duration price category' },
@@ -209,26 +545,26 @@ export class ReservationService {
       throw new Error('Reservation not found');
     }
 
-    // Check authorization
-    const reservationUserId = reservation.user?.toString() || reservation.get('user')?.toString();
-    const isOwner = reservationUserId === userId;
-    const isAdmin = userRole === 'admin';
+    const actors = await this.resolveActors(reservation, userId, userRole);
+    if (actors.length === 0) {
+      throw new Error('Unauthorized to modify this reservation');
+    }
 
-    if (!isOwner && !isAdmin) {
-      // Check if user is the specialist of this reservation
-      const reservationSpecialistId =
-        reservation.specialist?.toString() || reservation.get('specialist')?.toString();
-      const specialist = await Specialist.findOne({
-        _id: reservationSpecialistId,
-        user: userId,
-      });
+    if (data.status) {
+      this.assertStatusTransition(reservation, data.status, actors);
+    }
 
-      if (!specialist && userRole === 'client' && data.status !== 'cancelled') {
-        throw new Error('Clients can only cancel reservations');
-      }
+    if (data.scope === 'following' && data.status !== 'cancelled') {
+      throw new Error('Only cancellations can be applied to the following occurrences');
+    }
+    const following =
+      data.scope === 'following' ? await this.getFollowingOccurrences(reservation) : [];
 
-      if (!specialist && userRole === 'client') {
-        throw new Error('Unauthorized to modify this reservation');
+    if (data.status === 'cancelled') {
+      for (const target of [reservation, ...following]) {
+        target.isLateCancellation = await this.checkCancellationNotice(target, actors);
+        target.cancelledBy = new Types.ObjectId(userId);
+        target.cancelledAt = new Date();
       }
     }
 
@@ -242,12 +578,40 @@ export class ReservationService {
 
     await reservation.save();
 
+    // The rest of the series is cancelled along with this occurrence
+    for (const occurrence of following) {
+      occurrence.status = 'cancelled';
+      if (data.cancellationReason) occurrence.cancellationReason = data.cancellationReason;
+      await occurrence.save();
+    }
+
+    // Paid amounts are refunded and freed times go to clients on the waitlist
+    if (data.status === 'cancelled' && oldStatus !== 'cancelled') {
+      for (const cancelled of [reservation, ...following]) {
+        try {
+          await paymentService.refundCancellation(cancelled);
+        } catch (error) {
+          console.error('Failed to refund cancelled reservation:', error);
+        }
+        await waitlistService.offerFreedSlot(cancelled);
+      }
+    }
+
+    if (data.status === 'completed' && oldStatus !== 'completed') {
+      try {
+        await invoiceService.issueForReservation(reservation);
+      } catch (error) {
+        console.error('Failed to issue invoice:', error);
+        // Don't fail the update if the invoice cannot be issued
+      }
+    }
+
     const updatedReservation = await Reservation.findById(reservationId)
       .populate('user', 'name email phone avatar')
-      .populate('business', 'name address phone email')
+      .populate('business', 'name address phone email timezone')
       .populate({
         path: 'specialist',
-        select: 'specialty licenseNumber bio availability services',
+        select: 'specialty licenseNumber bio availability services timezone',
         populate: [
           { path: 'user', select: 'name email phone avatar' },
           { path: 'services', select: 'name description duration price category' },
@@ -272,6 +636,392 @@ export class ReservationService {
     return updatedReservation;
   }
 
+  async rescheduleReservation(
+    reservationId: string,
+    userId: string,
+    userRole: string,
+    data: RescheduleReservationData
+  ) {
+    if (!Types.ObjectId.isValid(reservationId)) {
+      throw new Error('Invalid reservation ID');
+    }
+
+    const reservation = await Reservation.findById(reservationId);
+    if (!reservation) {
+      throw new Error('Reservation not found');
+    }
+
+    const actors = await this.resolveActors(reservation, userId, userRole);
+    if (actors.length === 0) {
+      throw new Error('Unauthorized to modify this reservation');
+    }
+
+    if (!['pending', 'confirmed'].includes(reservation.status)) {
+      throw new Error('Only pending or confirmed reservations can be rescheduled');
+    }
+
+    // With the following scope every later occurrence moves by the same amount
+    const targets = [
+      reservation,
+      ...(data.scope === 'following' ? await this.getFollowingOccurrences(reservation) : []),
+    ];
+    const shift = new Date(data.startDate).getTime() - reservation.startDate.getTime();
+    const specialistId = reservation.specialist.toString();
+    const targetIds = targets.map((target) => target._id.toString());
+    const previousStartDate = reservation.startDate;
+
+    const failures: string[] = [];
+    const fail = (target: IReservation, message: string) => {
+      if (targets.length === 1) {
+        throw new Error(message);
+      }
+      failures.push(`${target.startDate.toISOString()} (${message})`);
+    };
+
+    const moves: {
+      target: IReservation;
+      rules: BookingRules;
+      start: Date;
+      end: Date;
+      price: PriceBreakdown;
+    }[] = [];
+    for (const target of targets) {
+      try {
+        const booking = await this.resolveBooking({
+          businessId: target.business.toString(),
+          specialistId,
+          serviceId: target.service.toString(),
+          startDate: new Date(target.startDate.getTime() + shift),
+        });
+
+        // The new time is quoted again; what was paid in advance was charged for
+        // the old price, so prepaid reservations cannot change it
+        const price = await pricingService.quote(booking.service, booking.start);
+        if (target.payment && target.price && target.price.total !== price.total) {
+          fail(target, 'Prepaid reservations cannot be moved to a time with a different price');
+          continue;
+        }
+        moves.push({ target, ...booking, price });
+      } catch (error) {
+        fail(target, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const lockKeys = [specialistId, ...moves.flatMap(({ rules }) => rules.resourceIds)];
+    await bookingLockService.withLocks(lockKeys, async () => {
+      for (const { target, rules, start, end } of moves) {
+        const conflictingReservation = await availabilityService.findConflictingReservation(
+          specialistId,
+          start,
+          end,
+          rules,
+          targetIds
+        );
+
+        if (conflictingReservation) {
+          fail(target, 'Time slot is already booked');
+        } else if (
+          await availabilityService.findConflictingHold(
+            specialistId,
+            start,
+            end,
+            rules,
+            target.user.toString()
+          )
+        ) {
+          fail(target, 'Time slot is temporarily held by another client');
+        } else {
+          const seatError = await this.checkSessionSeats(
+            specialistId,
+            start,
+            rules,
+            target.user.toString(),
+            targetIds
+          );
+          if (seatError) {
+            fail(target, seatError);
+          } else if (
+            await availabilityService.findConflictingResourceBooking(
+              specialistId,
+              start,
+              end,
+              rules,
+              targetIds,
+              target.user.toString()
+            )
+          ) {
+            fail(target, 'A required resource is already booked at this time');
+          }
+        }
+      }
+
+      if (failures.length > 0) {
+        throw new Error(`Some occurrences cannot be rescheduled: ${failures.join('; ')}`);
+      }
+
+      for (const { target, rules, start, end, price } of moves) {
+        target.rescheduleHistory.push({
+          startDate: target.startDate,
+          endDate: target.endDate,
+          rescheduledAt: new Date(),
+          rescheduledBy: new Types.ObjectId(userId),
+          reason: data.reason,
+        });
+        target.startDate = start;
+        target.endDate = end;
+        target.bufferBefore = rules.bufferBefore;
+        target.bufferAfter = rules.bufferAfter;
+        target.resources = rules.resourceIds.map((id) => new Types.ObjectId(id));
+        target.price = price;
+        target.reminderSent = false;
+
+        await target.save();
+      }
+    });
+
+    const updatedReservation = await Reservation.findById(reservationId)
+      .populate('user', 'name email phone avatar')
+      .populate('business', 'name address phone email timezone')
+      .populate({
+        path: 'specialist',
+        select: 'specialty licenseNumber bio availability services timezone',
+        populate: [
+          { path: 'user', select: 'name email phone avatar' },
+          { path: 'services', select: 'name description duration price category' },
+        ],
+      })
+      .populate('service', 'name description duration price category');
+
+    if (updatedReservation) {
+      try {
+        await notificationService.sendReservationRescheduled(updatedReservation, previousStartDate);
+      } catch (error) {
+        console.error('Failed to send notification:', error);
+        // Don't fail the reschedule if notification fails
+      }
+    }
+
+    return updatedReservation;
+  }
+
+  /**
+   * Validate a requested time with the rules shared by new and rescheduled
+   * reservations and resolve its end date and buffers
+   */
+  private async resolveBooking(
+    data: Pick<CreateReservationData, 'businessId' | 'specialistId' | 'serviceId' | 'startDate'>
+  ) {
+    // Verify specialist exists and is active
+    const specialist = await Specialist.findById(data.specialistId);
+    if (!specialist || !specialist.isActive) {
+      throw new Error('Specialist not found or inactive');
+    }
+
+    // Verify specialist belongs to the business
+    if (specialist.business.toString() !== data.businessId) {
+      throw new Error('Specialist does not belong to this business');
+    }
+
+    // Verify service exists and get duration
+    const service = await Service.findById(data.serviceId);
+    if (!service || !service.isActive) {
+      throw new Error('Service not found or inactive');
+    }
+
+    // Verify service belongs to the business
+    if (service.business.toString() !== data.businessId) {
+      throw new Error('Service does not belong to this business');
+    }
+
+    // Verify specialist can provide this service
+    const specialistServices = specialist.services.map((s) => s.toString());
+    if (specialistServices.length > 0 && !specialistServices.includes(data.serviceId)) {
+      throw new Error('Specialist cannot provide this service');
+    }
+
+    // Calculate end date based on service duration
+    const rules = await availabilityService.getBookingRules(service, data.businessId);
+    const start = new Date(data.startDate);
+    const end = new Date(start.getTime() + rules.duration * 60000);
+
+    // Respect time off, holidays and one-off hours
+    if (!(await availabilityService.isAllowedBySchedule(specialist, start, end))) {
+      throw new SlotConflictError('Specialist is not available at the requested time');
+    }
+
+    return { rules, start, end, service };
+  }
+
+  /**
+   * Attendance mode of a new reservation, checked against the service and business
+   */
+  private async resolveAttendanceMode(
+    service: IService,
+    data: Pick<CreateReservationData, 'businessId' | 'attendanceMode'>
+  ): Promise<IReservation['attendanceMode']> {
+    const mode =
+      data.attendanceMode || (service.attendanceMode === 'remote' ? 'remote' : 'in_person');
+
+    if (mode === 'remote' && service.attendanceMode === 'in_person') {
+      throw new Error('Service is not offered remotely');
+    }
+
+    if (mode === 'in_person' && service.attendanceMode === 'remote') {
+      throw new Error('Service is only offered remotely');
+    }
+
+    if (mode === 'remote') {
+      const business = await Business.findById(data.businessId).select('hasRemoteSessions');
+      if (!business?.hasRemoteSessions) {
+        throw new Error('Business does not offer remote sessions');
+      }
+    }
+
+    return mode;
+  }
+
+  /**
+   * Why a client cannot take a seat in a group session, or null when they can.
+   * Individual appointments have no seats to check.
+   */
+  private async checkSessionSeats(
+    specialistId: string,
+    start: Date,
+    rules: BookingRules,
+    userId: string,
+    excludeReservationIds: string[] = []
+  ): Promise<string | null> {
+    if (rules.capacity <= 1) {
+      return null;
+    }
+
+    const seats = await availabilityService.findSessionSeats(
+      specialistId,
+      start,
+      rules,
+      excludeReservationIds,
+      userId
+    );
+
+    if (seats.some((seat) => seat.user.toString() === userId)) {
+      return 'You already have a seat in this session';
+    }
+
+    if (seats.length >= rules.capacity) {
+      return 'Session is full';
+    }
+
+    return null;
+  }
+
+  /**
+   * Every way the user takes part in a reservation, empty when unrelated to it
+   */
+  private async resolveActors(
+    reservation: Pick<IReservation, 'user' | 'business' | 'specialist'>,
+    userId: string,
+    userRole: string
+  ): Promise<ReservationActor[]> {
+    const actors: ReservationActor[] = [];
+
+    if (userRole === 'admin') {
+      actors.push('admin');
+    }
+
+    if (reservation.user.toString() === userId) {
+      actors.push('client');
+    }
+
+    const specialist = await Specialist.findOne({ _id: reservation.specialist, user: userId });
+    if (specialist) {
+      actors.push('specialist');
+    }
+
+    // Owner rights need the owner role, as on the business routes
+    if (userRole === 'owner') {
+      const business = await Business.findOne({ _id: reservation.business, user: userId });
+      if (business) {
+        actors.push('owner');
+      }
+    }
+
+    return actors;
+  }
+
+  /**
+   * Later occurrences of the reservation's series that are still active
+   */
+  private async getFollowingOccurrences(reservation: IReservation): Promise<IReservation[]> {
+    if (!reservation.series) {
+      return [];
+    }
+
+    return Reservation.find({
+      series: reservation.series,
+      seriesIndex: { $gt: reservation.seriesIndex },
+      status: { $in: ['pending', 'confirmed'] },
+    }).sort({ seriesIndex: 1 });
+  }
+
+  private assertStatusTransition(
+    reservation: IReservation,
+    status: ReservationStatus,
+    actors: ReservationActor[]
+  ) {
+    if (reservation.status === status) {
+      throw new Error(`Reservation is already ${status}`);
+    }
+
+    const transition = STATUS_TRANSITIONS[reservation.status][status];
+    if (!transition) {
+      throw new Error(`Cannot change reservation status from ${reservation.status} to ${status}`);
+    }
+
+    if (!transition.roles.some((role) => actors.includes(role))) {
+      if (actors.includes('client') && status !== 'cancelled') {
+        throw new Error('Clients can only cancel reservations');
+      }
+      throw new Error(`Unauthorized to mark this reservation as ${status}`);
+    }
+
+    const now = new Date();
+    if (transition.timing === 'after_start' && now < reservation.startDate) {
+      throw new Error(`Reservation cannot be marked as ${status} before it starts`);
+    }
+    if (transition.timing === 'before_end' && now >= reservation.endDate) {
+      throw new Error(`Reservation cannot be marked as ${status} after it has ended`);
+    }
+  }
+
+  /**
+   * Apply the business cancellation policy to a client cancellation. Returns
+   * whether it is late; staff cancellations never are
+   */
+  private async checkCancellationNotice(reservation: IReservation, actors: ReservationActor[]) {
+    if (actors.some((actor) => STAFF.includes(actor))) {
+      return false;
+    }
+
+    const business: IBusiness | null = await Business.findById(reservation.business).select(
+      'cancellationPolicy'
+    );
+    const minNoticeHours = business?.cancellationPolicy?.minNoticeHours ?? 0;
+    if (!minNoticeHours) {
+      return false;
+    }
+
+    const noticeMs = reservation.startDate.getTime() - Date.now();
+    if (noticeMs >= minNoticeHours * 60 * 60 * 1000) {
+      return false;
+    }
+
+    if (business?.cancellationPolicy?.lateCancellation === 'block') {
+      throw new Error(`Cancellations require at least ${minNoticeHours} hours notice`);
+    }
+
+    return true;
+  }
+
   async checkAvailability(specialistId: string, serviceId: string, date: Date) {
     if (!Types.ObjectId.isValid(specialistId) || !Types.ObjectId.isValid(serviceId)) {
       throw new Error('Invalid specialist or service ID');
@@ -282,21 +1032,23 @@ export class ReservationService {
       throw new Error('Service not found');
     }
 
-    // Get reservations for the day
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    // Get reservations for the calendar day in the specialist's timezone
+    const specialist = await Specialist.findById(specialistId);
+    const timeZone = await availabilityService.getSpecialistTimeZone(specialist);
+    const { start: startOfDay, end: endOfDay } = getZonedDayBounds(
+      toDateKey(date, 'UTC'),
+      timeZone
+    );
 
     const bookedSlots = await Reservation.find({
       specialist: specialistId,
       status: { $in: ['pending', 'confirmed'] },
-      startDate: { $gte: startOfDay, $lte: endOfDay },
+      startDate: { $gte: startOfDay, $lt: endOfDay },
     }).select('startDate endDate');
 
     return {
       serviceDuration: service.duration,
+      timezone: timeZone,
       bookedSlots: bookedSlots.map((slot) => ({
         start: slot.startDate,
         end: slot.endDate,
@@ -336,10 +1088,10 @@ export class ReservationService {
 
     const reservations = await Reservation.find(query)
       .populate('user', 'name email phone avatar')
-      .populate('business', 'name address phone email')
+      .populate('business', 'name address phone email timezone')
       .populate({
         path: 'specialist',
-        select: 'specialty licenseNumber bio availability services',
+        select: 'specialty licenseNumber bio availability services timezone',
         populate: [
           { path: 'user', select: 'name email phone avatar' },
           { path: 'services', select: 'name description duration price category' },
@@ -0,0 +1,98 @@
+import { Types } from 'mongoose';
+
+import { Resource, IResource } from '../models/Resource.js';
+import { Business } from '../models/Business.js';
+import { Service } from '../models/Service.js';
+
+export interface CreateResourceData {
+  businessId: string;
+  name: string;
+  type: IResource['type'];
+  description?: string;
+}
+
+export type UpdateResourceData = Partial<
+  Pick<IResource, 'name' | 'type' | 'description' | 'isActive'>
+>;
+
+export class ResourceService {
+  async createResource(data: CreateResourceData) {
+    const business = await Business.findById(data.businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    return Resource.create({
+      business: data.businessId,
+      name: data.name,
+      type: data.type,
+      description: data.description,
+    });
+  }
+
+  async getResources(businessId: string) {
+    return Resource.find({ business: businessId }).sort({ type: 1, name: 1 });
+  }
+
+  async updateResource(resourceId: string, businessId: string, data: UpdateResourceData) {
+    const resource = await this.findBusinessResource(resourceId, businessId);
+
+    if (data.name !== undefined) resource.name = data.name;
+    if (data.type !== undefined) resource.type = data.type;
+    if (data.description !== undefined) resource.description = data.description;
+    if (data.isActive !== undefined) resource.isActive = data.isActive;
+    await resource.save();
+
+    return resource;
+  }
+
+  async deleteResource(resourceId: string, businessId: string) {
+    const resource = await this.findBusinessResource(resourceId, businessId);
+
+    // Services stop requiring it; existing reservations keep their reference
+    await Service.updateMany(
+      { business: businessId },
+      { $pull: { requiredResources: resource._id } }
+    );
+    await Resource.deleteOne({ _id: resource._id });
+
+    return { message: 'Resource deleted successfully' };
+  }
+
+  /**
+   * Verify that services only require active resources of their own business
+   */
+  async assertBusinessResources(businessId: string, resourceIds: string[]) {
+    if (resourceIds.some((id) => !Types.ObjectId.isValid(id))) {
+      throw new Error('Invalid resource ID');
+    }
+
+    const count = await Resource.countDocuments({
+      _id: { $in: resourceIds },
+      business: businessId,
+      isActive: true,
+    });
+    if (count !== new Set(resourceIds).size) {
+      throw new Error('Required resources must be active resources of this business');
+    }
+  }
+
+  private async findBusinessResource(resourceId: string, businessId: string): Promise<IResource> {
+    if (!Types.ObjectId.isValid(resourceId)) {
+      throw new Error('Invalid resource ID');
+    }
+
+    const resource = await Resource.findById(resourceId);
+    if (!resource) {
+      throw new Error('Resource not found');
+    }
+
+    if (resource.business.toString() !== businessId) {
+      throw new Error('Unauthorized to modify this resource');
+    }
+
+    return resource;
+  }
+}
+
+export const resourceService = new ResourceService();
@@ -0,0 +1,164 @@
+import { Types } from 'mongoose';
+
+import { ScheduleException, IScheduleException } from '../models/ScheduleException.js';
+import { Business } from '../models/Business.js';
+import { Specialist } from '../models/Specialist.js';
+
+export interface CreateScheduleExceptionData {
+  businessId: string;
+  specialistId?: string;
+  type: 'closed' | 'custom_hours';
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  recurringYearly?: boolean;
+  reason?: string;
+}
+
+export interface ScheduleExceptionFilterData {
+  specialistId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Whether an exception covers a calendar day (YYYY-MM-DD).
+ * Yearly exceptions compare month/day only and may wrap the new year (12-24 to 01-02).
+ */
+export const exceptionCoversDate = (exception: IScheduleException, dateKey: string): boolean => {
+  if (!exception.recurringYearly) {
+    return exception.startDate <= dateKey && dateKey <= exception.endDate;
+  }
+
+  const monthDay = dateKey.slice(5);
+  const start = exception.startDate.slice(5);
+  const end = exception.endDate.slice(5);
+
+  return start <= end ? start <= monthDay && monthDay <= end : monthDay >= start || monthDay <= end;
+};
+
+export class ScheduleExceptionService {
+  async createException(data: CreateScheduleExceptionData) {
+    const business = await Business.findById(data.businessId);
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    if (data.specialistId) {
+      const specialist = await Specialist.findById(data.specialistId);
+      if (!specialist) {
+        throw new Error('Specialist not found');
+      }
+
+      if (specialist.business.toString() !== data.businessId) {
+        throw new Error('Specialist does not belong to this business');
+      }
+    }
+
+    const exception = await ScheduleException.create({
+      business: data.businessId,
+      specialist: data.specialistId,
+      type: data.type,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      startTime: data.type === 'custom_hours' ? data.startTime : undefined,
+      endTime: data.type === 'custom_hours' ? data.endTime : undefined,
+      recurringYearly: data.recurringYearly,
+      reason: data.reason,
+    });
+
+    return exception;
+  }
+
+  async getExceptions(businessId: string, filter: ScheduleExceptionFilterData = {}) {
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+
+    const query: Record<string, unknown> = { business: businessId };
+
+    if (filter.specialistId) {
+      // A specialist is affected by their own exceptions and the business-wide ones
+      query.$or = [{ specialist: filter.specialistId }, { specialist: { $exists: false } }];
+    }
+
+    if (filter.from || filter.to) {
+      const range: Record<string, unknown> = {};
+      if (filter.from) range.endDate = { $gte: filter.from };
+      if (filter.to) range.startDate = { $lte: filter.to };
+      query.$and = [{ $or: [{ recurringYearly: true }, range] }];
+    }
+
+    const exceptions = await ScheduleException.find(query)
+      .populate({
+        path: 'specialist',
+        select: 'specialty user',
+        populate: { path: 'user', select: 'name' },
+      })
+      .sort({ startDate: 1 });
+
+    return exceptions;
+  }
+
+  /**
+   * Exceptions affecting a specialist on a calendar day, business-wide ones included
+   */
+  async getExceptionsForDay(
+    businessId: string,
+    specialistId: string,
+    dateKey: string
+  ): Promise<IScheduleException[]> {
+    const exceptions: IScheduleException[] = await ScheduleException.find({
+      business: businessId,
+      $and: [
+        { $or: [{ specialist: specialistId }, { specialist: { $exists: false } }] },
+        {
+          $or: [
+            { recurringYearly: true },
+            { startDate: { $lte: dateKey }, endDate: { $gte: dateKey } },
+          ],
+        },
+      ],
+    });
+
+    return exceptions.filter((exception) => exceptionCoversDate(exception, dateKey));
+  }
+
+  /**
+   * Exceptions of a business and all its specialists that may cover a day in a range
+   */
+  async getExceptionsForRange(
+    businessId: string,
+    fromDateKey: string,
+    toDateKey: string
+  ): Promise<IScheduleException[]> {
+    return ScheduleException.find({
+      business: businessId,
+      $or: [
+        { recurringYearly: true },
+        { startDate: { $lte: toDateKey }, endDate: { $gte: fromDateKey } },
+      ],
+    });
+  }
+
+  async deleteException(exceptionId: string, businessId: string) {
+    if (!Types.ObjectId.isValid(exceptionId)) {
+      throw new Error('Invalid schedule exception ID');
+    }
+
+    const exception = await ScheduleException.findById(exceptionId);
+    if (!exception) {
+      throw new Error('Schedule exception not found');
+    }
+
+    if (exception.business.toString() !== businessId) {
+      throw new Error('Unauthorized to delete this schedule exception');
+    }
+
+    await ScheduleException.deleteOne({ _id: exceptionId });
+    return { message: 'Schedule exception deleted successfully' };
+  }
+}
+
+export const scheduleExceptionService = new ScheduleExceptionService();
@@ -0,0 +1,116 @@
+import { Types } from 'mongoose';
+
+import { SlotHold, ISlotHold } from '../models/SlotHold.js';
+
+export interface CreateSlotHoldData {
+  userId: string;
+  businessId: string;
+  specialistId: string;
+  serviceId: string;
+  startDate: Date;
+  endDate: Date;
+  bufferBefore?: number;
+  bufferAfter?: number;
+  resourceIds?: string[];
+  expiresAt: Date;
+  waitlistEntryId?: string;
+}
+
+/**
+ * Short-lived holds that keep a slot free for one client until they book it
+ */
+export class SlotHoldService {
+  async createHold(data: CreateSlotHoldData): Promise<ISlotHold> {
+    return SlotHold.create({
+      user: data.userId,
+      business: data.businessId,
+      specialist: data.specialistId,
+      service: data.serviceId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      bufferBefore: data.bufferBefore ?? 0,
+      bufferAfter: data.bufferAfter ?? 0,
+      resources: data.resourceIds ?? [],
+      expiresAt: data.expiresAt,
+      waitlistEntry: data.waitlistEntryId,
+    });
+  }
+
+  /**
+   * Remove the user's active hold on a booked time, if any, and return it
+   */
+  async consumeHold(
+    userId: string,
+    specialistId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<ISlotHold | null> {
+    return SlotHold.findOneAndDelete({
+      user: userId,
+      specialist: specialistId,
+      expiresAt: { $gt: new Date() },
+      startDate: { $lt: endDate },
+      endDate: { $gt: startDate },
+    });
+  }
+
+  /**
+   * The user's active hold starting at the given time, if any
+   */
+  async findActiveHold(
+    holdId: string,
+    userId: string,
+    specialistId: string,
+    startDate: Date
+  ): Promise<ISlotHold | null> {
+    if (!Types.ObjectId.isValid(holdId)) {
+      return null;
+    }
+
+    return SlotHold.findOne({
+      _id: holdId,
+      user: userId,
+      specialist: specialistId,
+      startDate,
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  /**
+   * Release the user's checkout holds on a specialist; waitlist offers are kept
+   */
+  async releaseCheckoutHolds(userId: string, specialistId: string): Promise<void> {
+    await SlotHold.deleteMany({
+      user: userId,
+      specialist: specialistId,
+      waitlistEntry: { $exists: false },
+    });
+  }
+
+  async releaseUserHold(holdId: string, userId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(holdId)) {
+      throw new Error('Invalid hold ID');
+    }
+
+    const hold = await SlotHold.findById(holdId);
+    if (!hold || hold.expiresAt <= new Date()) {
+      throw new Error('Hold not found');
+    }
+
+    if (hold.user.toString() !== userId) {
+      throw new Error('Unauthorized to release this hold');
+    }
+
+    if (hold.waitlistEntry) {
+      throw new Error('Waitlist offers are declined by leaving the waitlist');
+    }
+
+    await hold.deleteOne();
+  }
+
+  async releaseHold(holdId: Types.ObjectId | string): Promise<void> {
+    await SlotHold.deleteOne({ _id: holdId });
+  }
+}
+
+export const slotHoldService = new SlotHoldService();
@@ -0,0 +1,145 @@
+import { Types } from 'mongoose';
+
+import { ClinicalRecord, IClinicalRecord } from '../models/ClinicalRecord.js';
+import { Business, IBusiness } from '../models/Business.js';
+import { Specialist } from '../models/Specialist.js';
+import {
+  VITAL_SIGN_METRICS,
+  VitalSignMetric,
+  calculateBmi,
+  flagVitalSign,
+  parseBloodPressure,
+  resolveVitalSignThresholds,
+} from '../utils/vitalSigns.js';
+
+export interface VitalSignFilterData {
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+export interface VitalSignPoint {
+  date: Date;
+  value: number;
+  clinicalRecord: Types.ObjectId;
+  flag?: 'low' | 'high'; // outside the thresholds
+}
+
+export interface VitalSignTrend {
+  count: number;
+  latest: number;
+  min: number;
+  max: number;
+  average: number;
+  change: number; // latest minus first value of the range
+  flagged: number;
+}
+
+const roundValue = (value: number) => Math.round(value * 100) / 100;
+
+const summarize = (points: VitalSignPoint[]): VitalSignTrend => {
+  const values = points.map((point) => point.value);
+  return {
+    count: values.length,
+    latest: values[values.length - 1],
+    min: Math.min(...values),
+    max: Math.max(...values),
+    average: roundValue(values.reduce((sum, value) => sum + value, 0) / values.length),
+    change: roundValue(values[values.length - 1] - values[0]),
+    flagged: points.filter((point) => point.flag).length,
+  };
+};
+
+export class VitalSignService {
+  /**
+   * Vital signs taken at the patient's visits to the business, one time series
+   * per metric in chronological order. Blood pressure is split into systolic and
+   * diastolic values, and BMI is calculated when only weight and height were taken
+   */
+  async getVitalSigns(
+    patientId: string,
+    businessId: string,
+    userId: string,
+    userRole: string,
+    filter: VitalSignFilterData = {}
+  ) {
+    if (!Types.ObjectId.isValid(patientId)) {
+      throw new Error('Invalid patient ID');
+    }
+    if (!Types.ObjectId.isValid(businessId)) {
+      throw new Error('Invalid business ID');
+    }
+
+    const business: IBusiness | null =
+      await Business.findById(businessId).select('vitalSignThresholds');
+    if (!business) {
+      throw new Error('Business not found');
+    }
+
+    // The patient, admins and the specialists of the business can view them
+    if (patientId !== userId && userRole !== 'admin') {
+      const specialist = await Specialist.exists({ user: userId, business: businessId });
+      if (!specialist) {
+        throw new Error('Unauthorized to view these vital signs');
+      }
+    }
+
+    const query: Record<string, unknown> = {
+      user: patientId,
+      business: businessId,
+      deletedAt: null,
+    };
+    if (filter.fromDate || filter.toDate) {
+      query.createdAt = {
+        ...(filter.fromDate && { $gte: filter.fromDate }),
+        ...(filter.toDate && { $lte: filter.toDate }),
+      };
+    }
+
+    const records: IClinicalRecord[] = await ClinicalRecord.find(query)
+      .select('weight height bmi bloodPressure heartRate temperature createdAt')
+      .sort({ createdAt: 1 });
+
+    const thresholds = resolveVitalSignThresholds(business.vitalSignThresholds);
+    const series = Object.fromEntries(
+      VITAL_SIGN_METRICS.map((metric) => [metric, [] as VitalSignPoint[]])
+    ) as Record<VitalSignMetric, VitalSignPoint[]>;
+
+    for (const record of records) {
+      const bloodPressure = parseBloodPressure(record.bloodPressure);
+      const values: Partial<Record<VitalSignMetric, number>> = {
+        weight: record.weight,
+        height: record.height,
+        bmi:
+          record.bmi ??
+          (record.weight && record.height ? calculateBmi(record.weight, record.height) : undefined),
+        systolic: bloodPressure?.systolic,
+        diastolic: bloodPressure?.diastolic,
+        heartRate: record.heartRate,
+        temperature: record.temperature,
+      };
+
+      for (const metric of VITAL_SIGN_METRICS) {
+        const value = values[metric];
+        if (typeof value !== 'number') continue;
+
+        series[metric].push({
+          date: record.createdAt,
+          value,
+          clinicalRecord: record._id as Types.ObjectId,
+          flag: flagVitalSign(value, thresholds[metric]),
+        });
+      }
+    }
+
+    const trends: Partial<Record<VitalSignMetric, VitalSignTrend>> = {};
+    for (const metric of VITAL_SIGN_METRICS) {
+      if (series[metric].length > 0) {
+        trends[metric] = summarize(series[metric]);
+      }
+    }
+
+    return { series, trends, thresholds };
+  }
+}
+
+export const vitalSignService = new VitalSignService();
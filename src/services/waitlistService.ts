@@ -0,0 +1,332 @@
+import cron, { ScheduledTask } from 'node-cron';
+import { Types } from 'mongoose';
+
+import { WaitlistEntry, IWaitlistEntry } from '../models/WaitlistEntry.js';
+import { Service } from '../models/Service.js';
+import { Specialist } from '../models/Specialist.js';
+import { IReservation } from '../models/Reservation.js';
+import { config } from '../config/index.js';
+import { availabilityService } from './availabilityService.js';
+import { slotHoldService } from './slotHoldService.js';
+import { bookingLockService } from './bookingLockService.js';
+import { notificationService } from './notificationService.js';
+import { toDateKey } from '../utils/timezone.js';
+
+export interface JoinWaitlistData {
+  userId: string;
+  businessId: string;
+  specialistId: string;
+  serviceId: string;
+  fromDate: string;
+  toDate: string;
+  notes?: string;
+}
+
+// Time freed by a cancellation or an unclaimed offer
+interface FreedSlot {
+  business: Types.ObjectId;
+  specialist: Types.ObjectId;
+  service: Types.ObjectId;
+  startDate: Date;
+  endDate: Date;
+}
+
+export class WaitlistService {
+  private job: ScheduledTask | null = null;
+
+  /**
+   * Starts the cron job passing unclaimed offers to the next client
+   * Runs every minute
+   */
+  start() {
+    if (this.job) {
+      console.log('Waitlist service is already running');
+      return;
+    }
+
+    this.job = cron.schedule('* * * * *', async () => {
+      await this.processExpiredOffers();
+    });
+
+    console.log('Waitlist service started - will run every minute');
+  }
+
+  /**
+   * Stops the waitlist cron job
+   */
+  stop() {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+      console.log('Waitlist service stopped');
+    }
+  }
+
+  async joinWaitlist(data: JoinWaitlistData) {
+    const specialist = await Specialist.findById(data.specialistId);
+    if (!specialist || !specialist.isActive) {
+      throw new Error('Specialist not found or inactive');
+    }
+
+    if (specialist.business.toString() !== data.businessId) {
+      throw new Error('Specialist does not belong to this business');
+    }
+
+    const service = await Service.findById(data.serviceId);
+    if (!service || !service.isActive) {
+      throw new Error('Service not found or inactive');
+    }
+
+    if (service.business.toString() !== data.businessId) {
+      throw new Error('Service does not belong to this business');
+    }
+
+    const specialistServices = specialist.services.map((s) => s.toString());
+    if (specialistServices.length > 0 && !specialistServices.includes(data.serviceId)) {
+      throw new Error('Specialist cannot provide this service');
+    }
+
+    const existing = await WaitlistEntry.findOne({
+      user: data.userId,
+      specialist: data.specialistId,
+      service: data.serviceId,
+      status: { $in: ['waiting', 'offered'] },
+    });
+    if (existing) {
+      throw new Error('You are already on the waitlist for this service');
+    }
+
+    return WaitlistEntry.create({
+      user: data.userId,
+      business: data.businessId,
+      specialist: data.specialistId,
+      service: data.serviceId,
+      fromDate: data.fromDate,
+      toDate: data.toDate,
+      notes: data.notes,
+    });
+  }
+
+  async getUserEntries(userId: string) {
+    return WaitlistEntry.find({ user: userId })
+      .populate('business', 'name address phone email timezone')
+      .populate({
+        path: 'specialist',
+        select: 'specialty user',
+        populate: { path: 'user', select: 'name email' },
+      })
+      .populate('service', 'name duration price')
+      .sort({ createdAt: -1 });
+  }
+
+  async leaveWaitlist(entryId: string, userId: string) {
+    if (!Types.ObjectId.isValid(entryId)) {
+      throw new Error('Invalid waitlist entry ID');
+    }
+
+    const entry = await WaitlistEntry.findById(entryId);
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+
+    if (entry.user.toString() !== userId) {
+      throw new Error('Unauthorized to modify this waitlist entry');
+    }
+
+    if (!['waiting', 'offered'].includes(entry.status)) {
+      throw new Error('Only waiting or offered entries can be cancelled');
+    }
+
+    const wasOffered = entry.status === 'offered';
+    entry.status = 'cancelled';
+    await entry.save();
+
+    // A declined offer goes straight to the next client
+    if (wasOffered) {
+      if (entry.hold) {
+        await slotHoldService.releaseHold(entry.hold);
+      }
+      await this.offerSlot(this.toFreedSlot(entry));
+    }
+
+    return entry;
+  }
+
+  /**
+   * Offer the time of a cancelled reservation to the first matching client
+   */
+  async offerFreedSlot(reservation: IReservation) {
+    try {
+      return await this.offerSlot(
+        {
+          business: reservation.business,
+          specialist: reservation.specialist,
+          service: reservation.service,
+          startDate: reservation.startDate,
+          endDate: reservation.endDate,
+        },
+        reservation.user
+      );
+    } catch (error) {
+      console.error('Failed to offer freed slot to the waitlist:', error);
+      // Don't fail the cancellation if the waitlist cannot be processed
+      return null;
+    }
+  }
+
+  /**
+   * Expire offers that were not claimed in time and pass their slot on
+   */
+  async processExpiredOffers(): Promise<number> {
+    const expiredEntries: IWaitlistEntry[] = await WaitlistEntry.find({
+      status: 'offered',
+      'offer.expiresAt': { $lte: new Date() },
+    });
+
+    for (const entry of expiredEntries) {
+      try {
+        entry.status = 'expired';
+        await entry.save();
+
+        if (entry.hold) {
+          await slotHoldService.releaseHold(entry.hold);
+        }
+        await this.offerSlot(this.toFreedSlot(entry));
+      } catch (error) {
+        console.error(`Failed to process expired waitlist offer ${entry._id}:`, error);
+        // Continue with other entries even if one fails
+      }
+    }
+
+    return expiredEntries.length;
+  }
+
+  async markBooked(entryId: Types.ObjectId | string, reservationId: Types.ObjectId | string) {
+    await WaitlistEntry.updateOne(
+      { _id: entryId, status: 'offered' },
+      { $set: { status: 'booked', reservation: reservationId } }
+    );
+  }
+
+  private toFreedSlot(entry: IWaitlistEntry): FreedSlot | null {
+    if (!entry.offer) {
+      return null;
+    }
+
+    return {
+      business: entry.business,
+      specialist: entry.specialist,
+      service: entry.service,
+      startDate: entry.offer.startDate,
+      endDate: entry.offer.endDate,
+    };
+  }
+
+  private async offerSlot(slot: FreedSlot | null, excludeUserId?: Types.ObjectId) {
+    if (!slot || slot.startDate <= new Date()) {
+      return null;
+    }
+
+    const specialist = await Specialist.findById(slot.specialist);
+    if (!specialist || !specialist.isActive) {
+      return null;
+    }
+
+    const timeZone = await availabilityService.getSpecialistTimeZone(specialist);
+    const dateKey = toDateKey(slot.startDate, timeZone);
+
+    const entry: IWaitlistEntry | null = await WaitlistEntry.findOne({
+      ...(excludeUserId && { user: { $ne: excludeUserId } }),
+      specialist: slot.specialist,
+      service: slot.service,
+      status: 'waiting',
+      fromDate: { $lte: dateKey },
+      toDate: { $gte: dateKey },
+    }).sort({ createdAt: 1 });
+    if (!entry) {
+      return null;
+    }
+
+    const service = await Service.findById(slot.service);
+    const rules = await availabilityService.getBookingRules(service, slot.business.toString());
+    const specialistId = slot.specialist.toString();
+    const expiresAt = new Date(Date.now() + config.booking.waitlistOfferMinutes * 60000);
+
+    // Check and hold under the booking locks so a direct booking cannot take the
+    // slot between both
+    const hold = await bookingLockService.withLocks(
+      [specialistId, ...rules.resourceIds],
+      async () => {
+        // The slot may have been taken since it was freed
+        const taken =
+          (await availabilityService.findConflictingReservation(
+            specialistId,
+            slot.startDate,
+            slot.endDate,
+            rules
+          )) ||
+          (await availabilityService.findConflictingHold(
+            specialistId,
+            slot.startDate,
+            slot.endDate,
+            rules
+          )) ||
+          (await availabilityService.findConflictingResourceBooking(
+            specialistId,
+            slot.startDate,
+            slot.endDate,
+            rules
+          )) ||
+          (rules.capacity > 1 &&
+            (await availabilityService.findSessionSeats(specialistId, slot.startDate, rules))
+              .length >= rules.capacity);
+        if (taken) {
+          return null;
+        }
+
+        return slotHoldService.createHold({
+          userId: entry.user.toString(),
+          businessId: slot.business.toString(),
+          specialistId,
+          serviceId: slot.service.toString(),
+          startDate: slot.startDate,
+          endDate: slot.endDate,
+          bufferBefore: rules.bufferBefore,
+          bufferAfter: rules.bufferAfter,
+          resourceIds: rules.resourceIds,
+          expiresAt,
+          waitlistEntryId: entry._id.toString(),
+        });
+      }
+    );
+    if (!hold) {
+      return null;
+    }
+
+    entry.status = 'offered';
+    entry.offer = { startDate: slot.startDate, endDate: slot.endDate, expiresAt };
+    entry.hold = hold._id;
+    await entry.save();
+
+    await this.sendOffer(entry);
+
+    return entry;
+  }
+
+  private async sendOffer(entry: IWaitlistEntry) {
+    try {
+      await entry.populate([
+        { path: 'user', select: 'name email' },
+        { path: 'business', select: 'name timezone' },
+        { path: 'specialist', select: 'timezone user', populate: { path: 'user', select: 'name' } },
+        { path: 'service', select: 'name' },
+      ]);
+
+      await notificationService.sendWaitlistOffer(entry);
+    } catch (error) {
+      console.error('Failed to send waitlist offer:', error);
+    }
+  }
+}
+
+export const waitlistService = new WaitlistService();
@@ -76,6 +76,11 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: '+1234567890',
             },
+            taxId: {
+              type: 'string',
+              description: 'Cédula or RUC printed on invoices',
+              example: '0912345678',
+            },
             avatar: {
               type: 'string',
               example: 'https://example.com/avatar.jpg',
@@ -132,6 +137,79 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'https://example.com/business.jpg',
             },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone used for availability, reminders and emails',
+              example: 'America/Guayaquil',
+            },
+            bookingSettings: {
+              type: 'object',
+              description: 'Buffers and slot interval overriding the values of every service',
+              properties: {
+                bufferBefore: { type: 'number', example: 0 },
+                bufferAfter: { type: 'number', example: 10 },
+                slotInterval: { type: 'number', example: 15 },
+              },
+            },
+            cancellationPolicy: {
+              type: 'object',
+              description:
+                'Minimum notice for client cancellations and what happens when it is not met',
+              properties: {
+                minNoticeHours: { type: 'number', example: 24 },
+                lateCancellation: { type: 'string', enum: ['block', 'flag'], example: 'flag' },
+                lateRefundPercent: {
+                  type: 'number',
+                  description:
+                    'Share of the amount paid refunded on late cancellations. Other cancellations are refunded in full',
+                  example: 50,
+                },
+              },
+            },
+            pricing: {
+              type: 'object',
+              description:
+                'Tax applied to the prices of every service, unless the service sets its own',
+              properties: {
+                taxRate: {
+                  type: 'number',
+                  description: 'Percent. Defaults to DEFAULT_TAX_RATE',
+                  example: 15,
+                },
+                taxIncluded: {
+                  type: 'boolean',
+                  description: 'Whether service prices already include the tax',
+                  example: false,
+                },
+              },
+            },
+            vitalSignThresholds: {
+              type: 'object',
+              description:
+                'Ranges outside which vital signs are flagged, per metric (weight, height, bmi, systolic, diastolic, heartRate, temperature). Unset bounds use adult reference ranges',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  min: { type: 'number' },
+                  max: { type: 'number' },
+                },
+              },
+              example: { systolic: { max: 130 }, heartRate: { min: 50, max: 100 } },
+            },
+            schedule: {
+              type: 'array',
+              description:
+                "Opening hours capping every specialist's working blocks. A day may have several entries",
+              items: {
+                type: 'object',
+                properties: {
+                  day: { type: 'string', example: 'monday' },
+                  openTime: { type: 'string', example: '08:00' },
+                  closeTime: { type: 'string', example: '20:00' },
+                  isOpen: { type: 'boolean', example: true },
+                },
+              },
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -160,10 +238,61 @@ const options: swaggerJsdoc.Options = {
               type: 'number',
               example: 60,
             },
+            bufferBefore: {
+              type: 'number',
+              description: 'Minutes kept free before each appointment',
+              example: 0,
+            },
+            bufferAfter: {
+              type: 'number',
+              description: 'Minutes kept free after each appointment',
+              example: 10,
+            },
+            slotInterval: {
+              type: 'number',
+              description: 'Minutes between offered start times. Defaults to the duration',
+              example: 15,
+            },
+            capacity: {
+              type: 'number',
+              description: 'Clients who can book the same session (group classes). Defaults to 1',
+              example: 1,
+            },
+            requiredResources: {
+              type: 'array',
+              description: 'Rooms or equipment that must be free for the appointment',
+              items: { type: 'string' },
+            },
+            attendanceMode: {
+              type: 'string',
+              enum: ['in_person', 'remote', 'hybrid'],
+              description: 'Hybrid services let the client choose when booking',
+              example: 'in_person',
+            },
             price: {
               type: 'number',
               example: 75.0,
             },
+            prepayment: {
+              type: 'string',
+              enum: ['none', 'deposit', 'full'],
+              description: 'Amount the client pays when booking',
+              example: 'deposit',
+            },
+            depositAmount: {
+              type: 'number',
+              description: 'Required for deposits, up to the price',
+              example: 20,
+            },
+            taxRate: {
+              type: 'number',
+              description: 'Tax percent overriding the business pricing',
+              example: 0,
+            },
+            taxIncluded: {
+              type: 'boolean',
+              description: 'Whether the price includes the tax, overriding the business pricing',
+            },
             description: {
               type: 'string',
               example: 'Relaxing full body massage',
@@ -232,8 +361,14 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'Specialist with 10+ years of experience',
             },
+            timezone: {
+              type: 'string',
+              description: 'IANA timezone overriding the business timezone',
+              example: 'America/Guayaquil',
+            },
             availability: {
               type: 'array',
+              description: 'Weekly working blocks. A day may have several blocks (split shifts)',
               items: {
                 type: 'object',
                 properties: {
@@ -264,6 +399,16 @@ const options: swaggerJsdoc.Options = {
                     type: 'boolean',
                     example: true,
                   },
+                  breaks: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        startTime: { type: 'string', example: '11:00' },
+                        endTime: { type: 'string', example: '11:15' },
+                      },
+                    },
+                  },
                 },
               },
             },
@@ -429,6 +574,50 @@ const options: swaggerJsdoc.Options = {
               format: 'date-time',
               example: '2024-12-25T10:00:00.000Z',
             },
+            resources: {
+              type: 'array',
+              description: 'Resources required by the service at booking time',
+              items: { type: 'string' },
+            },
+            attendanceMode: {
+              type: 'string',
+              enum: ['in_person', 'remote'],
+              example: 'in_person',
+            },
+            meeting: {
+              type: 'object',
+              description: 'Video meeting of remote reservations',
+              properties: {
+                url: { type: 'string', example: 'https://meet.jit.si/c3m-4f9a1c2b7e8d' },
+                provider: { type: 'string', example: 'jitsi' },
+                meetingId: { type: 'string' },
+              },
+            },
+            payment: {
+              type: 'object',
+              description: 'Deposit or prepayment required by the service',
+              properties: {
+                type: { type: 'string', enum: ['deposit', 'full'] },
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'paid', 'failed', 'refunded', 'partially_refunded'],
+                  example: 'pending',
+                },
+                amountDue: { type: 'number', example: 20 },
+                amountPaid: { type: 'number', example: 0 },
+                amountRefunded: { type: 'number', example: 0 },
+                currency: { type: 'string', example: 'USD' },
+                dueAt: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'The reservation is released when still unpaid at this time',
+                },
+                checkoutUrl: { type: 'string' },
+              },
+            },
+            price: {
+              $ref: '#/components/schemas/PriceBreakdown',
+            },
             status: {
               type: 'string',
               enum: ['pending', 'confirmed', 'cancelled', 'completed', 'no-show'],
@@ -443,6 +632,42 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               example: 'Schedule conflict',
             },
+            cancelledBy: {
+              type: 'string',
+              description: 'User who cancelled the reservation',
+            },
+            cancelledAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            isLateCancellation: {
+              type: 'boolean',
+              example: false,
+              description: 'Cancelled by the client inside the business notice window',
+            },
+            rescheduleHistory: {
+              type: 'array',
+              description: 'Previous times, oldest first',
+              items: {
+                type: 'object',
+                properties: {
+                  startDate: { type: 'string', format: 'date-time' },
+                  endDate: { type: 'string', format: 'date-time' },
+                  rescheduledAt: { type: 'string', format: 'date-time' },
+                  rescheduledBy: { type: 'string' },
+                  reason: { type: 'string' },
+                },
+              },
+            },
+            series: {
+              type: 'string',
+              description: 'Recurring series this reservation belongs to',
+            },
+            seriesIndex: {
+              type: 'number',
+              example: 0,
+              description: 'Position in the series, starting at 0',
+            },
             reminderSent: {
               type: 'boolean',
               example: false,
@@ -459,6 +684,221 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        PriceBreakdown: {
+          type: 'object',
+          description:
+            'Price of a reservation computed at booking time, kept when the service or pricing rules change',
+          properties: {
+            basePrice: {
+              type: 'number',
+              description: 'Service price',
+              example: 40,
+            },
+            adjustments: {
+              type: 'array',
+              description: 'Surcharges and discounts of the pricing rules that applied',
+              items: {
+                type: 'object',
+                properties: {
+                  rule: { type: 'string', description: 'Pricing rule ID' },
+                  name: { type: 'string', example: 'Weekend' },
+                  type: { type: 'string', enum: ['surcharge', 'discount'] },
+                  amount: { type: 'number', example: 10 },
+                },
+              },
+            },
+            subtotal: {
+              type: 'number',
+              description: 'Price after adjustments, before tax',
+              example: 50,
+            },
+            taxRate: {
+              type: 'number',
+              example: 15,
+            },
+            taxIncluded: {
+              type: 'boolean',
+              description: 'Whether the service price already included the tax',
+              example: false,
+            },
+            tax: {
+              type: 'number',
+              example: 7.5,
+            },
+            total: {
+              type: 'number',
+              example: 57.5,
+            },
+            currency: {
+              type: 'string',
+              example: 'USD',
+            },
+          },
+        },
+        PricingRule: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            business: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              example: 'Weekend',
+            },
+            type: {
+              type: 'string',
+              enum: ['surcharge', 'discount'],
+              description: 'Discounts are promotions',
+            },
+            percent: {
+              type: 'number',
+              description: 'Percent of the service price. Rules have a percent or an amount',
+              example: 20,
+            },
+            amount: {
+              type: 'number',
+              description: 'Fixed amount',
+              example: 10,
+            },
+            services: {
+              type: 'array',
+              description: 'Service IDs the rule applies to. Empty for every service',
+              items: {
+                type: 'string',
+              },
+            },
+            days: {
+              type: 'array',
+              description: 'Weekdays the rule applies to. Empty for every day',
+              items: {
+                type: 'string',
+                example: 'saturday',
+              },
+            },
+            startTime: {
+              type: 'string',
+              description: 'Reservations starting from this time (HH:MM)',
+              example: '18:00',
+            },
+            endTime: {
+              type: 'string',
+              description: 'Reservations starting before this time (HH:MM)',
+            },
+            validFrom: {
+              type: 'string',
+              description: 'First day the rule applies (YYYY-MM-DD)',
+              example: '2025-12-01',
+            },
+            validTo: {
+              type: 'string',
+              description: 'Last day the rule applies (YYYY-MM-DD, inclusive)',
+              example: '2025-12-31',
+            },
+            isActive: {
+              type: 'boolean',
+              example: true,
+            },
+          },
+        },
+        Invoice: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            business: {
+              type: 'string',
+            },
+            reservation: {
+              type: 'string',
+            },
+            user: {
+              type: 'string',
+              description: 'Client User ID',
+            },
+            type: {
+              type: 'string',
+              enum: ['invoice', 'receipt'],
+              description: 'Businesses with a RUC issue invoices, the rest receipts',
+            },
+            number: {
+              type: 'number',
+              example: 42,
+              description: 'Sequential number within the business',
+            },
+            code: {
+              type: 'string',
+              example: '001-001-000000042',
+            },
+            issuedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            seller: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                ruc: { type: 'string' },
+                address: { type: 'string' },
+                phone: { type: 'string' },
+                email: { type: 'string' },
+              },
+            },
+            customer: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                email: { type: 'string' },
+                phone: { type: 'string' },
+                taxId: { type: 'string', description: 'Cédula or RUC of the client' },
+              },
+            },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  description: { type: 'string', example: 'Consulta general' },
+                  quantity: { type: 'number', example: 1 },
+                  unitPrice: { type: 'number', example: 40 },
+                  subtotal: { type: 'number', example: 40 },
+                },
+              },
+            },
+            serviceDate: {
+              type: 'string',
+              format: 'date-time',
+            },
+            subtotal: {
+              type: 'number',
+              example: 40,
+            },
+            taxRate: {
+              type: 'number',
+              example: 15,
+            },
+            tax: {
+              type: 'number',
+              example: 6,
+            },
+            total: {
+              type: 'number',
+              example: 46,
+            },
+            currency: {
+              type: 'string',
+              example: 'USD',
+            },
+            amountPaid: {
+              type: 'number',
+              example: 10,
+              description: 'Paid online in advance, net of refunds',
+            },
+          },
+        },
         ClinicalRecord: {
           type: 'object',
           properties: {
@@ -508,6 +948,25 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               description: 'Specialist User ID',
             },
+            template: {
+              type: 'string',
+              description: 'Clinical record template ID',
+            },
+            templateVersion: {
+              type: 'integer',
+              description: 'Version of the template the answers are validated against',
+              example: 1,
+            },
+            answers: {
+              type: 'object',
+              description: 'Answers keyed by the template field keys',
+              example: { systolic: 120, rhythm: 'regular', symptoms: ['palpitations'] },
+            },
+            version: {
+              type: 'integer',
+              description: 'Increased by every edit',
+              example: 1,
+            },
             createdAt: {
               type: 'string',
               format: 'date-time',
@@ -518,6 +977,340 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        HealthProfileEntry: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              example: 'Penicillin',
+            },
+            startDate: {
+              type: 'string',
+              format: 'date-time',
+            },
+            endDate: {
+              type: 'string',
+              format: 'date-time',
+              description: 'Missing while the entry is current',
+            },
+            notes: {
+              type: 'string',
+            },
+            severity: {
+              type: 'string',
+              enum: ['mild', 'moderate', 'severe'],
+              description: 'Allergies only',
+            },
+            reaction: {
+              type: 'string',
+              description: 'Allergies only',
+            },
+            dosage: {
+              type: 'string',
+              description: 'Medications only',
+              example: '500 mg',
+            },
+            frequency: {
+              type: 'string',
+              description: 'Medications only',
+              example: 'Every 8 hours',
+            },
+            clinicalRecord: {
+              type: 'string',
+              description: 'Clinical record where it was last recorded',
+            },
+            recordedBy: {
+              type: 'string',
+              description: 'User ID',
+            },
+          },
+        },
+        HealthProfileUpdate: {
+          type: 'object',
+          properties: {
+            allergies: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            conditions: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            medications: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            disability: {
+              type: 'string',
+            },
+          },
+        },
+        HealthProfile: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            patient: {
+              type: 'string',
+              description: 'Patient User ID',
+            },
+            business: {
+              type: 'string',
+            },
+            allergies: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            conditions: {
+              type: 'array',
+              description: 'Chronic conditions',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            medications: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/HealthProfileEntry',
+              },
+            },
+            disability: {
+              type: 'string',
+            },
+            sharedWith: {
+              type: 'array',
+              description: 'Businesses the patient shared the profile with',
+              items: {
+                type: 'string',
+              },
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        VitalSignPoint: {
+          type: 'object',
+          properties: {
+            date: {
+              type: 'string',
+              format: 'date-time',
+            },
+            value: {
+              type: 'number',
+              example: 128,
+            },
+            clinicalRecord: {
+              type: 'string',
+            },
+            flag: {
+              type: 'string',
+              enum: ['low', 'high'],
+              description: 'Missing when the value is within the thresholds',
+            },
+          },
+        },
+        VitalSigns: {
+          type: 'object',
+          properties: {
+            series: {
+              type: 'object',
+              description:
+                'Points per metric (weight, height, bmi, systolic, diastolic, heartRate, temperature), oldest first',
+              additionalProperties: {
+                type: 'array',
+                items: {
+                  $ref: '#/components/schemas/VitalSignPoint',
+                },
+              },
+            },
+            trends: {
+              type: 'object',
+              description: 'Summary of each metric with values',
+              additionalProperties: {
+                type: 'object',
+                properties: {
+                  count: { type: 'integer' },
+                  latest: { type: 'number' },
+                  min: { type: 'number' },
+                  max: { type: 'number' },
+                  average: { type: 'number' },
+                  change: { type: 'number', description: 'Latest minus first value' },
+                  flagged: { type: 'integer' },
+                },
+              },
+            },
+            thresholds: {
+              type: 'object',
+              description: 'Ranges used to flag the values',
+            },
+          },
+        },
+        ClinicalRecordTemplateField: {
+          type: 'object',
+          required: ['key', 'label', 'type'],
+          properties: {
+            key: {
+              type: 'string',
+              description: 'Name of the answer, starting with a letter',
+              example: 'systolic',
+            },
+            label: {
+              type: 'string',
+              example: 'Systolic pressure',
+            },
+            type: {
+              type: 'string',
+              enum: ['text', 'textarea', 'number', 'boolean', 'date', 'select', 'multiselect'],
+            },
+            required: {
+              type: 'boolean',
+              default: false,
+            },
+            options: {
+              type: 'array',
+              description: 'Select and multiselect fields only',
+              items: {
+                type: 'string',
+              },
+            },
+            unit: {
+              type: 'string',
+              description: 'Number fields only',
+              example: 'mmHg',
+            },
+            min: {
+              type: 'number',
+              description: 'Number fields only',
+            },
+            max: {
+              type: 'number',
+              description: 'Number fields only',
+            },
+          },
+        },
+        ClinicalRecordTemplate: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            business: {
+              type: 'string',
+            },
+            name: {
+              type: 'string',
+              example: 'Cardiology follow-up',
+            },
+            description: {
+              type: 'string',
+            },
+            specialty: {
+              type: 'string',
+              description: 'Every specialty when empty',
+              example: 'Cardiology',
+            },
+            version: {
+              type: 'integer',
+              description: 'Increased when the fields change',
+              example: 1,
+            },
+            fields: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/ClinicalRecordTemplateField',
+              },
+            },
+            previousVersions: {
+              type: 'array',
+              description: 'Earlier fields, kept for the records created with them',
+              items: {
+                type: 'object',
+                properties: {
+                  version: {
+                    type: 'integer',
+                  },
+                  fields: {
+                    type: 'array',
+                    items: {
+                      $ref: '#/components/schemas/ClinicalRecordTemplateField',
+                    },
+                  },
+                  replacedAt: {
+                    type: 'string',
+                    format: 'date-time',
+                  },
+                },
+              },
+            },
+            isActive: {
+              type: 'boolean',
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
+        ClinicalRecordRevision: {
+          type: 'object',
+          properties: {
+            _id: {
+              type: 'string',
+            },
+            clinicalRecord: {
+              type: 'string',
+            },
+            version: {
+              type: 'integer',
+              description: 'Version of the record the edit produced',
+              example: 2,
+            },
+            author: {
+              type: 'string',
+              description: 'User ID',
+            },
+            changes: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    example: 'diagnosis',
+                  },
+                  from: {
+                    description: 'Value in the previous version',
+                  },
+                  to: {
+                    description: 'New value',
+                  },
+                },
+              },
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+            },
+          },
+        },
         Attachment: {
           type: 'object',
           properties: {
@@ -526,31 +1319,45 @@ const options: swaggerJsdoc.Options = {
             },
             ownerType: {
               type: 'string',
-              example: 'ClinicalRecord',
+              enum: ['business', 'clinical_record', 'reservation', 'user'],
+              example: 'clinical_record',
             },
             ownerId: {
               type: 'string',
               description: 'Reference to owner document',
             },
-            url: {
+            fileName: {
+              type: 'string',
+              example: 'lab_results.pdf',
+            },
+            fileUrl: {
               type: 'string',
               example: 'https://s3.amazonaws.com/bucket/file.pdf',
             },
-            type: {
+            fileType: {
               type: 'string',
-              enum: ['image', 'document', 'other'],
+              enum: ['image', 'document', 'video', 'other'],
               example: 'document',
             },
+            fileSize: {
+              type: 'number',
+              description: 'In bytes',
+              example: 1024000,
+            },
+            mimeType: {
+              type: 'string',
+              example: 'application/pdf',
+            },
+            uploadedBy: {
+              type: 'string',
+              description: 'User ID',
+            },
             metadata: {
               type: 'object',
               properties: {
-                filename: {
+                description: {
                   type: 'string',
-                  example: 'lab_results.pdf',
-                },
-                size: {
-                  type: 'number',
-                  example: 1024000,
+                  example: 'Blood test results',
                 },
               },
             },
@@ -579,15 +1386,57 @@ const options: swaggerJsdoc.Options = {
         name: 'Specialists',
         description: 'Specialist management endpoints',
       },
+      {
+        name: 'Schedule Exceptions',
+        description: 'Time off, holidays and one-off hours overriding weekly availability',
+      },
+      {
+        name: 'Analytics',
+        description: 'Owner dashboard figures over a date range',
+      },
+      {
+        name: 'Resources',
+        description: 'Rooms and equipment shared by specialists and required by services',
+      },
+      {
+        name: 'Pricing Rules',
+        description:
+          'Time-based surcharges and promotional discounts applied to service prices when booking',
+      },
+      {
+        name: 'Health Profiles',
+        description:
+          'Persistent allergies, chronic conditions and medications a business keeps for each patient, shared with other businesses on consent',
+      },
       {
         name: 'Reservations',
         description:
           'Appointment booking endpoints. Automatic email notifications are sent on create, confirm, and cancel. 24-hour reminders are sent by cron job.',
       },
+      {
+        name: 'Waitlist',
+        description:
+          'Waitlist per specialist and service. Freed slots are offered by email with a temporary hold, passing to the next client when unclaimed.',
+      },
+      {
+        name: 'Payments',
+        description:
+          'Deposits and prepayments taken at booking through the configured payment provider. Unpaid reservations are released after PAYMENT_TIMEOUT_MINUTES.',
+      },
+      {
+        name: 'Invoices',
+        description:
+          'Numbered invoices and receipts issued when a reservation is completed, downloadable as PDF',
+      },
       {
         name: 'Clinical Records',
         description: 'Medical records endpoints',
       },
+      {
+        name: 'Clinical Record Templates',
+        description:
+          'Structured forms per business or specialty whose answers clinical records store, validated against the template version they were created with',
+      },
       {
         name: 'Upload',
         description: 'File upload and management endpoints (supports local, S3, and Cloudinary)',
@@ -0,0 +1,11 @@
+/**
+ * A time slot cannot be booked: it is taken, held, full, outside the specialist
+ * schedule or locked by another booking. Series skip the occurrences failing
+ * with it and fail as a whole on any other error
+ */
+export class SlotConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SlotConflictError';
+  }
+}
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 
 import { config } from '../config/index.js';
 
@@ -17,6 +18,8 @@ export const generateRefreshToken = (payload: JwtPayload): string => {
   // @ts-expect-error - expiresIn accepts string like '7d'
   return jwt.sign(payload as object, config.jwt.refreshSecret, {
     expiresIn: config.jwt.refreshExpire,
+    // Unique id so two tokens issued in the same second never collide
+    jwtid: crypto.randomUUID(),
   });
 };
 
@@ -27,3 +30,11 @@ export const verifyAccessToken = (token: string): JwtPayload => {
 export const verifyRefreshToken = (token: string): JwtPayload => {
   return jwt.verify(token, config.jwt.refreshSecret) as JwtPayload;
 };
+
+export const getTokenExpiration = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  if (!decoded?.exp) {
+    throw new Error('Token has no expiration');
+  }
+  return new Date(decoded.exp * 1000);
+};
@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+
+import { config } from '../config/index.js';
+
+export interface MeetingDetails {
+  reservationId: string;
+  title: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface MeetingLink {
+  url: string;
+  provider: string;
+  meetingId?: string;
+}
+
+/**
+ * Creates the video meeting of a remote session. Implement it to integrate
+ * another video platform and register it with meetingService.setProvider
+ */
+export interface MeetingLinkProvider {
+  readonly name: string;
+  createLink(details: MeetingDetails): Promise<MeetingLink>;
+}
+
+/**
+ * Links to the frontend meeting page of each reservation. Always returns the
+ * same link for a reservation, which makes it the provider used in tests
+ */
+export class LocalMeetingProvider implements MeetingLinkProvider {
+  readonly name = 'local';
+
+  async createLink(details: MeetingDetails): Promise<MeetingLink> {
+    return {
+      url: `${config.app.frontendUrl}/meetings/${details.reservationId}`,
+      provider: this.name,
+      meetingId: details.reservationId,
+    };
+  }
+}
+
+/**
+ * Jitsi Meet rooms need no account: an unguessable room name is enough
+ */
+export class JitsiMeetingProvider implements MeetingLinkProvider {
+  readonly name = 'jitsi';
+
+  async createLink(): Promise<MeetingLink> {
+    const room = `c3m-${crypto.randomBytes(12).toString('hex')}`;
+
+    return {
+      url: `${config.meeting.jitsiBaseUrl.replace(/\/$/, '')}/${room}`,
+      provider: this.name,
+      meetingId: room,
+    };
+  }
+}
+
+/**
+ * Meeting link service using the provider configured in MEETING_PROVIDER
+ */
+class MeetingService {
+  private provider: MeetingLinkProvider;
+
+  constructor() {
+    switch (config.meeting.provider) {
+      case 'jitsi':
+        this.provider = new JitsiMeetingProvider();
+        break;
+      case 'local':
+      default:
+        this.provider = new LocalMeetingProvider();
+    }
+  }
+
+  setProvider(provider: MeetingLinkProvider) {
+    this.provider = provider;
+  }
+
+  async createLink(details: MeetingDetails): Promise<MeetingLink> {
+    return this.provider.createLink(details);
+  }
+}
+
+export const meetingService = new MeetingService();
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+
+import { config } from '../config/index.js';
+
+export interface CheckoutRequest {
+  paymentId: string; // our payment record, echoed back by the provider
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail?: string;
+}
+
+export interface Checkout {
+  providerPaymentId: string;
+  checkoutUrl: string;
+}
+
+export interface ProviderRefund {
+  providerRefundId: string;
+}
+
+export interface PaymentEvent {
+  type: 'payment.succeeded' | 'payment.failed';
+  providerPaymentId: string;
+  failureReason?: string;
+}
+
+/**
+ * Takes payments for reservations. Implement it to integrate a payment platform
+ * and register it with paymentGateway.setProvider
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<Checkout>;
+  refund(providerPaymentId: string, amount: number): Promise<ProviderRefund>;
+  // Verify a webhook call and read its event. Throws when it cannot be trusted
+  parseEvent(body: unknown, signature?: string): PaymentEvent;
+}
+
+/**
+ * Provider for development and tests. Checkouts never reach a real platform:
+ * their outcome is reported by calling the webhook with
+ * { "type": "payment.succeeded" | "payment.failed", "paymentId": "fake_pay_..." }
+ * signed with PAYMENT_WEBHOOK_SECRET
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    const providerPaymentId = `fake_pay_${crypto.randomBytes(12).toString('hex')}`;
+
+    return {
+      providerPaymentId,
+      checkoutUrl: `${config.app.frontendUrl}/payments/${request.paymentId}?ref=${providerPaymentId}`,
+    };
+  }
+
+  async refund(): Promise<ProviderRefund> {
+    return { providerRefundId: `fake_ref_${crypto.randomBytes(12).toString('hex')}` };
+  }
+
+  parseEvent(body: unknown, signature?: string): PaymentEvent {
+    // Without a secret nothing proves the call comes from the provider
+    if (!config.payment.webhookSecret) {
+      throw new Error('Invalid payment signature: no webhook secret is configured');
+    }
+
+    const expected = Buffer.from(this.sign(body));
+    const received = Buffer.from(signature ?? '');
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new Error('Invalid payment signature');
+    }
+
+    const event = body as { type?: string; paymentId?: string; reason?: string } | null;
+    if (
+      !event?.paymentId ||
+      (event.type !== 'payment.succeeded' && event.type !== 'payment.failed')
+    ) {
+      throw new Error('Invalid payment event');
+    }
+
+    return {
+      type: event.type,
+      providerPaymentId: event.paymentId,
+      failureReason: event.reason,
+    };
+  }
+
+  /**
+   * Signature expected in the x-payment-signature header
+   */
+  sign(body: unknown): string {
+    return crypto
+      .createHmac('sha256', config.payment.webhookSecret || '')
+      .update(JSON.stringify(body))
+      .digest('hex');
+  }
+}
+
+/**
+ * Production payments need a real provider and a webhook secret, otherwise anyone
+ * could report their own payments as paid. Only checked when a payment is taken,
+ * so businesses without prepayments run without a provider
+ */
+export const assertPaymentConfig = (
+  nodeEnv: string,
+  providerName: string,
+  webhookSecret?: string
+) => {
+  if (nodeEnv !== 'production') {
+    return;
+  }
+
+  if (providerName === 'fake') {
+    throw new Error('Payments are unavailable: PAYMENT_PROVIDER cannot be fake in production');
+  }
+  if (!webhookSecret) {
+    throw new Error('Payments are unavailable: PAYMENT_WEBHOOK_SECRET is required in production');
+  }
+};
+
+/**
+ * Payment gateway using the provider configured in PAYMENT_PROVIDER
+ */
+class PaymentGateway {
+  private provider: PaymentProvider;
+
+  constructor() {
+    switch (config.payment.provider) {
+      case 'fake':
+      default:
+        this.provider = new FakePaymentProvider();
+    }
+  }
+
+  get providerName() {
+    return this.provider.name;
+  }
+
+  setProvider(provider: PaymentProvider) {
+    this.provider = provider;
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<Checkout> {
+    this.assertAvailable();
+    return this.provider.createCheckout(request);
+  }
+
+  async refund(providerPaymentId: string, amount: number): Promise<ProviderRefund> {
+    return this.provider.refund(providerPaymentId, amount);
+  }
+
+  parseEvent(body: unknown, signature?: string): PaymentEvent {
+    this.assertAvailable();
+    return this.provider.parseEvent(body, signature);
+  }
+
+  private assertAvailable() {
+    assertPaymentConfig(config.server.nodeEnv, this.provider.name, config.payment.webhookSecret);
+  }
+}
+
+export const paymentGateway = new PaymentGateway();
@@ -0,0 +1,95 @@
+/**
+ * Minimal PDF writer for single-page text documents such as invoices. Uses the
+ * standard Helvetica fonts, so it needs no font files and supports Latin-1 text
+ */
+
+export interface PdfText {
+  text: string;
+  x: number; // points from the left edge
+  y: number; // points from the top edge
+  size?: number;
+  bold?: boolean;
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  lines?: PdfLine[];
+  title?: string;
+}
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+// Characters outside Latin-1 cannot be shown with the standard fonts
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+const buildContent = (page: PdfPage) => {
+  const commands: string[] = [];
+
+  if (page.lines?.length) {
+    commands.push('0.5 w');
+    for (const line of page.lines) {
+      commands.push(
+        `${formatNumber(line.x1)} ${formatNumber(PDF_PAGE_HEIGHT - line.y1)} m ` +
+          `${formatNumber(line.x2)} ${formatNumber(PDF_PAGE_HEIGHT - line.y2)} l S`
+      );
+    }
+  }
+
+  for (const item of page.texts) {
+    commands.push(
+      `BT /${item.bold ? 'F2' : 'F1'} ${item.size ?? 10} Tf ` +
+        `${formatNumber(item.x)} ${formatNumber(PDF_PAGE_HEIGHT - item.y)} Td ` +
+        `(${escapeText(item.text)}) Tj ET`
+    );
+  }
+
+  return commands.join('\n');
+};
+
+export const renderPdf = (page: PdfPage): Buffer => {
+  const content = buildContent(page);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    `<< /Title (${escapeText(page.title ?? '')}) /Producer (C3M Centralia) >>`,
+  ];
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(output, 'latin1'));
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    output += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  }
+  output +=
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
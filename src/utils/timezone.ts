@@ -0,0 +1,195 @@
+/**
+ * Timezone helpers built on Intl so wall-clock times (specialist availability,
+ * business hours) can be converted to absolute instants for any IANA zone,
+ * including DST transitions.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const DAY_NAMES = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type DayName = (typeof DAY_NAMES)[number];
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Check that a string is a timezone Intl understands (e.g. America/Guayaquil)
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock components of an instant as seen in the given zone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+/**
+ * Offset of the zone from UTC at the given instant, in minutes (e.g. -300 for UTC-5)
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60000);
+};
+
+/**
+ * Convert wall-clock components in a zone to the matching instant.
+ * Components overflow like Date.UTC (day 32 rolls into the next month).
+ * Times skipped by a DST jump resolve to the instant after the jump.
+ */
+export const fromZonedParts = (parts: ZonedParts, timeZone: string, milliseconds = 0): Date => {
+  const guess = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    milliseconds
+  );
+
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  let result = guess - firstOffset * 60000;
+
+  const secondOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    const adjusted = guess - secondOffset * 60000;
+    // In a DST gap neither offset maps back to the wall-clock time; keep the later instant
+    if (getTimeZoneOffset(new Date(adjusted), timeZone) === secondOffset) {
+      result = adjusted;
+    }
+  }
+
+  return new Date(result);
+};
+
+/**
+ * Calendar day (YYYY-MM-DD) of an instant in the given zone
+ */
+export const toDateKey = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Wall-clock time (HH:MM) of an instant in the given zone
+ */
+export const toTimeKey = (date: Date, timeZone: string): string => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Minutes since midnight of a wall-clock time (H:MM or HH:MM)
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+/**
+ * Instant at which a calendar day (YYYY-MM-DD) reaches a wall-clock time (HH:MM) in the zone
+ */
+export const zonedTimeToUtc = (dateKey: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return fromZonedParts({ year, month, day, hour, minute, second: 0 }, timeZone);
+};
+
+/**
+ * Add calendar days to a YYYY-MM-DD key
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Weekday name of a YYYY-MM-DD key
+ */
+export const getDayName = (dateKey: string): DayName => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+};
+
+/**
+ * Instants bounding a calendar day in the zone. `end` is exclusive and may be
+ * 23 or 25 hours after `start` on DST transition days.
+ */
+export const getZonedDayBounds = (dateKey: string, timeZone: string) => ({
+  start: zonedTimeToUtc(dateKey, '00:00', timeZone),
+  end: zonedTimeToUtc(addDaysToDateKey(dateKey, 1), '00:00', timeZone),
+});
+
+/**
+ * Move an instant by whole calendar days keeping its wall-clock time in the zone
+ */
+export const addZonedDays = (date: Date, days: number, timeZone: string): Date => {
+  const parts = getZonedParts(date, timeZone);
+  return fromZonedParts({ ...parts, day: parts.day + days }, timeZone, date.getUTCMilliseconds());
+};
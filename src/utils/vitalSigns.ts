@@ -0,0 +1,85 @@
+/**
+ * Vital sign helpers used to chart the measurements taken at each visit and
+ * flag the ones outside the expected range.
+ */
+
+export const VITAL_SIGN_METRICS = [
+  'weight',
+  'height',
+  'bmi',
+  'systolic',
+  'diastolic',
+  'heartRate',
+  'temperature',
+] as const;
+
+export type VitalSignMetric = (typeof VITAL_SIGN_METRICS)[number];
+
+export interface VitalSignRange {
+  min?: number;
+  max?: number;
+}
+
+export type VitalSignThresholds = Partial<Record<VitalSignMetric, VitalSignRange>>;
+
+// Adult reference ranges, overridden per business
+export const DEFAULT_VITAL_SIGN_THRESHOLDS: VitalSignThresholds = {
+  bmi: { min: 18.5, max: 30 },
+  systolic: { min: 90, max: 140 }, // mmHg
+  diastolic: { min: 60, max: 90 }, // mmHg
+  heartRate: { min: 60, max: 100 }, // bpm
+  temperature: { min: 35.5, max: 37.5 }, // °C
+};
+
+/**
+ * Splits a "120/80" reading into its systolic and diastolic values
+ */
+export const parseBloodPressure = (
+  value?: string | null
+): { systolic: number; diastolic: number } | null => {
+  const match = value?.trim().match(/^(\d{2,3})\/(\d{2,3})$/);
+  if (!match) {
+    return null;
+  }
+
+  return { systolic: Number(match[1]), diastolic: Number(match[2]) };
+};
+
+/**
+ * BMI from a weight in kg and a height in cm, rounded to two decimals
+ */
+export const calculateBmi = (weight: number, height: number): number => {
+  const meters = height / 100;
+  return Math.round((weight / (meters * meters)) * 100) / 100;
+};
+
+/**
+ * Whether a value is below or above its range. Missing bounds are not checked
+ */
+export const flagVitalSign = (
+  value: number,
+  range?: VitalSignRange
+): 'low' | 'high' | undefined => {
+  if (range?.min !== undefined && value < range.min) return 'low';
+  if (range?.max !== undefined && value > range.max) return 'high';
+  return undefined;
+};
+
+/**
+ * Default thresholds with the ones set by the business on top, metric by metric
+ */
+export const resolveVitalSignThresholds = (
+  overrides?: VitalSignThresholds
+): VitalSignThresholds => {
+  const thresholds: VitalSignThresholds = {};
+  for (const metric of VITAL_SIGN_METRICS) {
+    const range: VitalSignRange = { ...DEFAULT_VITAL_SIGN_THRESHOLDS[metric] };
+    const override = overrides?.[metric];
+    if (typeof override?.min === 'number') range.min = override.min;
+    if (typeof override?.max === 'number') range.max = override.max;
+    if (range.min !== undefined || range.max !== undefined) {
+      thresholds[metric] = range;
+    }
+  }
+  return thresholds;
+};
@@ -0,0 +1,208 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Reservation } from '../../../src/models/Reservation.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Analytics Integration Tests', () => {
+  let app: Express;
+  let business: any;
+  let specialist: any;
+  let consultation: any;
+  let checkup: any;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+
+  // Monday to Sunday
+  const week = { from: '2030-12-02', to: '2030-12-08' };
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const get = (path: string, query: Record<string, unknown> = {}, token = ownerToken) =>
+    request(app)
+      .get(`/api/businesses/${business._id}/analytics/${path}`)
+      .set('Authorization', `Bearer ${token}`)
+      .query(query);
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ token: otherOwnerToken } = await createUser('Other Owner', 'other@test.com', 'owner'));
+    const { user: client } = await createUser('Client', 'client@test.com', 'client');
+    const { user: specialistUser } = await createUser(
+      'Dr. Analytics',
+      'specialist@test.com',
+      'specialist'
+    );
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    // Mondays 09:00-17:00 with a lunch break: 420 available minutes a week
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      availability: [
+        {
+          day: 'monday',
+          startTime: '09:00',
+          endTime: '17:00',
+          isAvailable: true,
+          breaks: [{ startTime: '12:00', endTime: '13:00' }],
+        },
+      ],
+      isActive: true,
+    });
+    consultation = await Service.create({
+      business: business._id,
+      name: 'Consultation',
+      duration: 60,
+      price: 100,
+    });
+    checkup = await Service.create({
+      business: business._id,
+      name: 'Checkup',
+      duration: 60,
+      price: 50,
+    });
+
+    const reservation = (service: any, start: string, status: string) =>
+      Reservation.create({
+        user: client._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate: new Date(start),
+        endDate: new Date(new Date(start).getTime() + 60 * 60000),
+        status,
+      });
+
+    await reservation(consultation, '2030-12-02T10:00:00.000Z', 'completed');
+    await reservation(consultation, '2030-12-02T11:00:00.000Z', 'completed');
+    await reservation(checkup, '2030-12-03T10:00:00.000Z', 'no-show');
+    await reservation(consultation, '2030-12-03T14:00:00.000Z', 'cancelled');
+    await reservation(checkup, '2030-12-04T09:00:00.000Z', 'pending');
+    // Outside the range
+    await reservation(consultation, '2030-12-10T10:00:00.000Z', 'completed');
+  });
+
+  describe('GET /analytics/reservations', () => {
+    it('should count reservations by status per day', async () => {
+      const response = await get('reservations', week).expect(200);
+      const { data } = response.body;
+
+      expect(data.total).toBe(5);
+      expect(data.byStatus).toEqual({
+        pending: 1,
+        confirmed: 0,
+        cancelled: 1,
+        completed: 2,
+        'no-show': 1,
+      });
+      expect(data.periods).toHaveLength(7);
+      expect(data.periods[0].period).toBe('2030-12-02');
+      expect(data.periods[0].total).toBe(2);
+      expect(data.periods[6].total).toBe(0);
+    });
+
+    it('should group by month', async () => {
+      const response = await get('reservations', {
+        from: '2030-11-25',
+        to: week.to,
+        granularity: 'month',
+      }).expect(200);
+
+      const periods = response.body.data.periods;
+      expect(periods.map((period: { period: string }) => period.period)).toEqual([
+        '2030-11-01',
+        '2030-12-01',
+      ]);
+      expect(periods[1].total).toBe(5);
+    });
+  });
+
+  describe('GET /analytics/revenue', () => {
+    it('should add up the price of completed reservations', async () => {
+      const response = await get('revenue', { ...week, granularity: 'week' }).expect(200);
+
+      expect(response.body.data.revenue).toBe(200);
+      expect(response.body.data.completed).toBe(2);
+      expect(response.body.data.periods).toEqual([
+        { period: '2030-12-02', revenue: 200, completed: 2 },
+      ]);
+    });
+  });
+
+  describe('GET /analytics/no-shows', () => {
+    it('should compute the no-show rate per specialist', async () => {
+      const response = await get('no-shows', week).expect(200);
+      const [row] = response.body.data.specialists;
+
+      expect(row.specialist.name).toBe('Dr. Analytics');
+      expect(row.completed).toBe(2);
+      expect(row.noShows).toBe(1);
+      expect(row.noShowRate).toBe(0.3333);
+    });
+  });
+
+  describe('GET /analytics/utilization', () => {
+    it('should compare booked and available minutes', async () => {
+      const response = await get('utilization', { ...week, granularity: 'week' }).expect(200);
+      const [row] = response.body.data.specialists;
+
+      expect(row.availableMinutes).toBe(420);
+      expect(row.bookedMinutes).toBe(240);
+      expect(row.utilization).toBe(0.5714);
+      expect(response.body.data.utilization).toBe(0.5714);
+    });
+  });
+
+  describe('GET /analytics/top-services', () => {
+    it('should rank services by reservations', async () => {
+      const response = await get('top-services', week).expect(200);
+      const services = response.body.data.services;
+
+      expect(services).toHaveLength(2);
+      expect(services[0].service.name).toBe('Consultation');
+      expect(services[0].reservations).toBe(2);
+      expect(services[0].revenue).toBe(200);
+      expect(services[1].service.name).toBe('Checkup');
+      expect(services[1].completed).toBe(0);
+    });
+
+    it('should apply the limit', async () => {
+      const response = await get('top-services', { ...week, limit: 1 }).expect(200);
+      expect(response.body.data.services).toHaveLength(1);
+    });
+  });
+
+  describe('Access and validation', () => {
+    it("should not show another owner's figures", async () => {
+      await get('revenue', week, otherOwnerToken).expect(403);
+    });
+
+    it('should reject ranges longer than a year', async () => {
+      await get('reservations', { from: '2029-01-01', to: '2030-12-31' }).expect(400);
+    });
+
+    it('should reject an unknown granularity', async () => {
+      await get('reservations', { ...week, granularity: 'year' }).expect(400);
+    });
+  });
+});
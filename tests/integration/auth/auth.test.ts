@@ -193,6 +193,91 @@ describe('Auth Controller Tests', () => {
     });
   });
 
+  describe('POST /api/auth/refresh', () => {
+    let refreshToken: string;
+
+    beforeEach(async () => {
+      const response = await request(app).post('/api/auth/register').send({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+      });
+      refreshToken = response.body.data.refreshToken;
+    });
+
+    it('should issue a new token pair and rotate the refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.status).toBe('success');
+      expect(response.body.data).toHaveProperty('accessToken');
+      expect(response.body.data).toHaveProperty('refreshToken');
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should reject a refresh token that was already used', async () => {
+      await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(200);
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      expect(response.body.status).toBe('error');
+    });
+
+    it('should revoke the whole token family when an old token is reused', async () => {
+      const rotated = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      // Attacker replays the original token
+      await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+
+      // The legitimate, newer token is now revoked as well
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(401);
+    });
+
+    it('should fail with an invalid refresh token', async () => {
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: 'invalid-token' })
+        .expect(401);
+
+      expect(response.body.status).toBe('error');
+    });
+
+    it('should fail without a refresh token', async () => {
+      await request(app).post('/api/auth/refresh').send({}).expect(400);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      const registered = await request(app).post('/api/auth/register').send({
+        name: 'Test User',
+        email: 'test@example.com',
+        password: 'password123',
+      });
+      const { refreshToken } = registered.body.data;
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.status).toBe('success');
+
+      await request(app).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+    });
+  });
+
   describe('GET /api/auth/profile', () => {
     let accessToken: string;
 
@@ -7,6 +7,8 @@ import { Business } from '../../../src/models/Business.js';
 import { Specialist } from '../../../src/models/Specialist.js';
 import { Service } from '../../../src/models/Service.js';
 import { Reservation } from '../../../src/models/Reservation.js';
+import { SlotHold } from '../../../src/models/SlotHold.js';
+import { ScheduleException } from '../../../src/models/ScheduleException.js';
 
 describe('Availability API', () => {
   let businessOwnerId: string;
@@ -137,6 +139,55 @@ describe('Availability API', () => {
       expect(hasOccupiedSlot).toBe(false);
     });
 
+    it('should exclude slots held by other clients until the hold expires', async () => {
+      const date = '2025-11-24';
+      const hold = await SlotHold.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date('2025-11-24T10:00:00.000Z'),
+        endDate: new Date('2025-11-24T11:00:00.000Z'),
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+      });
+
+      const held = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date, serviceId });
+      expect(held.body.data.totalSlots).toBe(7);
+
+      hold.expiresAt = new Date(Date.now() - 1000);
+      await hold.save();
+
+      const expired = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date, serviceId });
+      expect(expired.body.data.totalSlots).toBe(8);
+    });
+
+    it('should show the remaining seats of group sessions', async () => {
+      await Service.findByIdAndUpdate(serviceId, { capacity: 3 });
+      await Reservation.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date('2025-11-24T10:00:00.000Z'),
+        endDate: new Date('2025-11-24T11:00:00.000Z'),
+        status: 'confirmed',
+      });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      const slots = response.body.data.availableSlots;
+      expect(response.body.data.totalSlots).toBe(8);
+      expect(slots[0].remainingSeats).toBe(3);
+      expect(slots[1].startTime).toBe('2025-11-24T10:00:00.000Z');
+      expect(slots[1].remainingSeats).toBe(2);
+    });
+
     it('should return empty array when specialist not available on requested day', async () => {
       // Tuesday - specialist only has monday availability
       const date = '2025-11-25';
@@ -273,4 +324,327 @@ describe('Availability API', () => {
       expect(response.body.data.totalSlots).toBe(8); // All slots available
     });
   });
+
+  describe('Business timezone', () => {
+    it('should generate slots in the business timezone', async () => {
+      await Business.findByIdAndUpdate(businessId, { timezone: 'America/Guayaquil' });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.totalSlots).toBe(8);
+
+      // 09:00 in Guayaquil (UTC-5) is 14:00 UTC
+      expect(response.body.data.availableSlots[0].startTime).toBe('2025-11-24T14:00:00.000Z');
+      expect(response.body.data.availableSlots[7].endTime).toBe('2025-11-24T22:00:00.000Z');
+    });
+
+    it('should prefer the specialist timezone over the business timezone', async () => {
+      await Business.findByIdAndUpdate(businessId, { timezone: 'America/Guayaquil' });
+      await Specialist.findByIdAndUpdate(specialistId, { timezone: 'Europe/Madrid' });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(response.status).toBe(200);
+      // 09:00 in Madrid (UTC+1 in November) is 08:00 UTC
+      expect(response.body.data.availableSlots[0].startTime).toBe('2025-11-24T08:00:00.000Z');
+    });
+
+    it('should exclude reservations using their real instant', async () => {
+      await Business.findByIdAndUpdate(businessId, { timezone: 'America/Guayaquil' });
+
+      // 10:00-11:00 in Guayaquil
+      await Reservation.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date('2025-11-24T15:00:00.000Z'),
+        endDate: new Date('2025-11-24T16:00:00.000Z'),
+        status: 'confirmed',
+      });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(response.body.data.totalSlots).toBe(7);
+      const startTimes = response.body.data.availableSlots.map(
+        (slot: { startTime: string }) => slot.startTime
+      );
+      expect(startTimes).not.toContain('2025-11-24T15:00:00.000Z');
+    });
+  });
+
+  describe('Working blocks and breaks', () => {
+    const getStartTimes = (response: {
+      body: { data: { availableSlots: { startTime: string }[] } };
+    }) => response.body.data.availableSlots.map((slot) => slot.startTime);
+
+    beforeEach(async () => {
+      // Split shift with a coffee break in the morning block
+      await Specialist.findByIdAndUpdate(specialistId, {
+        availability: [
+          {
+            day: 'monday',
+            startTime: '09:00',
+            endTime: '13:00',
+            isAvailable: true,
+            breaks: [{ startTime: '11:00', endTime: '11:30' }],
+          },
+          { day: 'monday', startTime: '15:00', endTime: '19:00', isAvailable: true },
+        ],
+      });
+    });
+
+    it('should only generate slots inside each block and outside breaks', async () => {
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(response.status).toBe(200);
+      expect(getStartTimes(response)).toEqual([
+        '2025-11-24T09:00:00.000Z',
+        '2025-11-24T10:00:00.000Z',
+        '2025-11-24T11:30:00.000Z',
+        '2025-11-24T15:00:00.000Z',
+        '2025-11-24T16:00:00.000Z',
+        '2025-11-24T17:00:00.000Z',
+        '2025-11-24T18:00:00.000Z',
+      ]);
+    });
+
+    it('should cap blocks with the business opening hours', async () => {
+      await Business.findByIdAndUpdate(businessId, {
+        schedule: [{ day: 'monday', openTime: '10:00', closeTime: '18:00', isOpen: true }],
+      });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(getStartTimes(response)).toEqual([
+        '2025-11-24T10:00:00.000Z',
+        '2025-11-24T11:30:00.000Z',
+        '2025-11-24T15:00:00.000Z',
+        '2025-11-24T16:00:00.000Z',
+        '2025-11-24T17:00:00.000Z',
+      ]);
+    });
+
+    it('should return no slots when the business is closed that day', async () => {
+      await Business.findByIdAndUpdate(businessId, {
+        schedule: [{ day: 'tuesday', openTime: '08:00', closeTime: '20:00', isOpen: true }],
+      });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      expect(response.body.data.totalSlots).toBe(0);
+    });
+  });
+
+  describe('Buffers and slot interval', () => {
+    it('should step slots by the service slot interval', async () => {
+      await Service.findByIdAndUpdate(serviceId, { duration: 45, slotInterval: 15 });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      // 09:00, 09:15, ... 16:15 (last one ending at 17:00)
+      expect(response.body.data.totalSlots).toBe(30);
+      expect(response.body.data.availableSlots[1].startTime).toBe('2025-11-24T09:15:00.000Z');
+    });
+
+    it('should keep buffers free around existing reservations', async () => {
+      await Service.findByIdAndUpdate(serviceId, { bufferAfter: 15 });
+
+      await Reservation.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date('2025-11-24T12:00:00.000Z'),
+        endDate: new Date('2025-11-24T13:00:00.000Z'),
+        bufferAfter: 15,
+        status: 'confirmed',
+      });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      // 11:00 would need cleanup until 12:15 and 13:00 starts inside the 12:00 cleanup
+      const hours = response.body.data.availableSlots.map((slot: { startTime: string }) =>
+        new Date(slot.startTime).getUTCHours()
+      );
+      expect(hours).toEqual([9, 10, 14, 15, 16]);
+    });
+
+    it('should let business booking settings override the service', async () => {
+      await Service.findByIdAndUpdate(serviceId, { slotInterval: 60 });
+      await Business.findByIdAndUpdate(businessId, { bookingSettings: { slotInterval: 30 } });
+
+      const response = await request(app)
+        .get(`/api/specialists/${specialistId}/available-slots`)
+        .query({ date: '2025-11-24', serviceId });
+
+      // 09:00, 09:30, ... 16:00
+      expect(response.body.data.totalSlots).toBe(15);
+    });
+  });
+
+  describe('GET /api/businesses/:businessId/services/:serviceId/available-slots', () => {
+    // Monday and Tuesday in the future, business timezone is UTC
+    const monday = '2030-12-23';
+    const tuesday = '2030-12-24';
+    let tuesdaySpecialistId: string;
+
+    const search = (query: Record<string, unknown>) =>
+      request(app)
+        .get(`/api/businesses/${businessId}/services/${serviceId}/available-slots`)
+        .query(query);
+
+    beforeEach(async () => {
+      const otherUser = await User.create({
+        name: 'Tuesday Specialist',
+        email: 'tuesday-availability@test.com',
+        password: 'Password123!',
+        role: 'specialist',
+      });
+
+      // Works tuesday 09:00-12:00 and provides every service
+      const tuesdaySpecialist = await Specialist.create({
+        user: otherUser._id,
+        business: businessId,
+        specialty: 'Physiotherapy',
+        availability: [{ day: 'tuesday', startTime: '09:00', endTime: '12:00', isAvailable: true }],
+        isActive: true,
+      });
+      tuesdaySpecialistId = tuesdaySpecialist._id.toString();
+
+      // Works monday but does not provide the service
+      const otherService = await Service.create({
+        business: businessId,
+        name: 'Other',
+        duration: 30,
+        price: 50,
+        isActive: true,
+      });
+      await Specialist.create({
+        user: otherUser._id,
+        business: businessId,
+        specialty: 'Other',
+        availability: [{ day: 'monday', startTime: '09:00', endTime: '17:00', isAvailable: true }],
+        services: [otherService._id],
+        isActive: true,
+      });
+    });
+
+    it('should return slots of every specialist sorted by start time', async () => {
+      await Reservation.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date(`${monday}T09:00:00.000Z`),
+        endDate: new Date(`${monday}T10:00:00.000Z`),
+        status: 'confirmed',
+      });
+      await SlotHold.create({
+        user: clientId,
+        business: businessId,
+        specialist: specialistId,
+        service: serviceId,
+        startDate: new Date(`${monday}T10:00:00.000Z`),
+        endDate: new Date(`${monday}T11:00:00.000Z`),
+        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+      });
+
+      const response = await search({ from: monday, to: tuesday });
+
+      expect(response.status).toBe(200);
+      const { slots, total } = response.body.data;
+      expect(total).toBe(9); // 6 on monday, 3 on tuesday
+      expect(slots[0].startTime).toBe(`${monday}T11:00:00.000Z`);
+      expect(slots[0].specialist._id).toBe(specialistId);
+      expect(slots[0].specialist.specialty).toBe('General Practitioner');
+      expect(slots[6].startTime).toBe(`${tuesday}T09:00:00.000Z`);
+      expect(slots[6].specialist._id).toBe(tuesdaySpecialistId);
+      expect(slots[6].specialist.name).toBe('Tuesday Specialist');
+    });
+
+    it('should filter by time of day', async () => {
+      const response = await search({
+        from: monday,
+        to: tuesday,
+        timeFrom: '14:00',
+        timeTo: '16:00',
+      });
+
+      const starts = response.body.data.slots.map((slot: { startTime: string }) => slot.startTime);
+      expect(starts).toEqual([`${monday}T14:00:00.000Z`, `${monday}T15:00:00.000Z`]);
+    });
+
+    it('should filter by specialist', async () => {
+      const response = await search({
+        from: monday,
+        to: tuesday,
+        specialistId: tuesdaySpecialistId,
+      });
+
+      expect(response.body.data.total).toBe(3);
+    });
+
+    it('should skip days closed by schedule exceptions', async () => {
+      await ScheduleException.create({
+        business: businessId,
+        specialist: specialistId,
+        type: 'closed',
+        startDate: monday,
+        endDate: monday,
+      });
+
+      const response = await search({ from: monday, to: tuesday });
+
+      expect(response.body.data.total).toBe(3);
+    });
+
+    it('should limit the slots returned', async () => {
+      const response = await search({ from: monday, to: tuesday, limit: 2 });
+
+      expect(response.body.data.total).toBe(11);
+      expect(response.body.data.slots).toHaveLength(2);
+    });
+
+    it('should search 14 days by default', async () => {
+      const response = await search({ from: monday });
+
+      expect(response.body.data.toDate).toBe('2031-01-05');
+      // Two mondays and two tuesdays
+      expect(response.body.data.total).toBe(22);
+    });
+
+    it('should reject ranges longer than 31 days', async () => {
+      const response = await search({ from: monday, to: '2031-02-01' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a service of another business', async () => {
+      const response = await request(app)
+        .get(
+          `/api/businesses/${new mongoose.Types.ObjectId()}/services/${serviceId}/available-slots`
+        )
+        .query({ from: monday });
+
+      expect(response.status).toBe(404);
+    });
+  });
 });
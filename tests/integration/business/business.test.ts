@@ -4,6 +4,7 @@ import express, { Express } from 'express';
 import { Business } from '../../../src/models/Business.js';
 import { Service } from '../../../src/models/Service.js';
 import { Specialist } from '../../../src/models/Specialist.js';
+import { Reservation } from '../../../src/models/Reservation.js';
 import { User } from '../../../src/models/User.js';
 import businessRoutes from '../../../src/routes/businessRoutes.js';
 import { errorHandler } from '../../../src/middleware/errorHandler.js';
@@ -327,6 +328,27 @@ describe('Business Controller Tests', () => {
       expect(response.body.data.business.name).toBe(updateData.name);
     });
 
+    it('should update the cancellation policy', async () => {
+      const response = await request(app)
+        .put(`/api/businesses/${ownedBusiness._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ cancellationPolicy: { minNoticeHours: 24, lateCancellation: 'block' } })
+        .expect(200);
+
+      expect(response.body.data.business.cancellationPolicy).toEqual({
+        minNoticeHours: 24,
+        lateCancellation: 'block',
+      });
+    });
+
+    it('should reject an invalid cancellation policy', async () => {
+      await request(app)
+        .put(`/api/businesses/${ownedBusiness._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ cancellationPolicy: { minNoticeHours: -1, lateCancellation: 'charge' } })
+        .expect(400);
+    });
+
     it('should fail to update business without authentication', async () => {
       const updateData = {
         name: 'Updated Name',
@@ -829,4 +851,105 @@ describe('Business Controller Tests', () => {
       expect(response.body.message).toContain('permission');
     });
   });
+
+  describe('GET /api/businesses/:id/client-attendance', () => {
+    let ownedBusiness: any;
+
+    beforeEach(async () => {
+      ownedBusiness = await Business.create({
+        name: 'Attendance Clinic',
+        user: ownerUser._id,
+      });
+
+      const service = await Service.create({
+        business: ownedBusiness._id,
+        name: 'Consultation',
+        duration: 60,
+        price: 50,
+      });
+
+      const specialist = await Specialist.create({
+        user: adminUser._id,
+        business: ownedBusiness._id,
+        specialty: 'General',
+      });
+
+      const otherClient = await User.create({
+        name: 'Reliable Client',
+        email: 'reliable@example.com',
+        password: await hashPassword('password123'),
+        role: 'client',
+      });
+
+      const book = (user: any, day: number, fields: Record<string, unknown>) =>
+        Reservation.create({
+          user: user._id,
+          business: ownedBusiness._id,
+          specialist: specialist._id,
+          service: service._id,
+          startDate: new Date(Date.UTC(2030, 0, day, 10)),
+          endDate: new Date(Date.UTC(2030, 0, day, 11)),
+          ...fields,
+        });
+
+      await book(regularUser, 1, { status: 'no-show' });
+      await book(regularUser, 2, { status: 'no-show' });
+      await book(regularUser, 3, { status: 'cancelled', isLateCancellation: true });
+      await book(regularUser, 4, { status: 'completed' });
+      await book(otherClient, 5, { status: 'cancelled' });
+      await book(otherClient, 6, { status: 'completed' });
+    });
+
+    it('should list clients with late cancellations and no-shows', async () => {
+      const response = await request(app)
+        .get(`/api/businesses/${ownedBusiness._id}/client-attendance`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(response.body.results).toBe(1);
+      const [client] = response.body.data.clients;
+      expect(client.user.email).toBe(regularUser.email);
+      expect(client.user.password).toBeUndefined();
+      expect(client.totalReservations).toBe(4);
+      expect(client.noShows).toBe(2);
+      expect(client.lateCancellations).toBe(1);
+      expect(client.totalIncidents).toBe(3);
+    });
+
+    it('should filter by minimum number of incidents', async () => {
+      const response = await request(app)
+        .get(`/api/businesses/${ownedBusiness._id}/client-attendance`)
+        .query({ minIncidents: 4 })
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(response.body.data.clients).toHaveLength(0);
+    });
+
+    it('should not allow owners of other businesses', async () => {
+      const otherOwner = await User.create({
+        name: 'Other Owner',
+        email: 'other-owner@example.com',
+        password: await hashPassword('password123'),
+        role: 'owner',
+      });
+      const otherOwnerToken = generateAccessToken({
+        userId: otherOwner._id,
+        email: otherOwner.email,
+        role: otherOwner.role,
+      });
+
+      await request(app)
+        .get(`/api/businesses/${ownedBusiness._id}/client-attendance`)
+        .set('Authorization', `Bearer ${otherOwnerToken}`)
+        .expect(403);
+    });
+
+    it('should not allow clients', async () => {
+      await request(app)
+        .get(`/api/businesses/${ownedBusiness._id}/client-attendance`)
+        .set('Authorization', `Bearer ${regularToken}`)
+        .expect(403);
+    });
+  });
 });
@@ -1,5 +1,7 @@
 import request from 'supertest';
 import { Express } from 'express';
+import path from 'path';
+import fs from 'fs';
 
 import { User } from '../../../src/models/User.js';
 import { Business } from '../../../src/models/Business.js';
@@ -7,6 +9,8 @@ import { Specialist } from '../../../src/models/Specialist.js';
 import { ClinicalRecord } from '../../../src/models/ClinicalRecord.js';
 import { Reservation } from '../../../src/models/Reservation.js';
 import { Service } from '../../../src/models/Service.js';
+import { Attachment } from '../../../src/models/Attachment.js';
+import { ClinicalRecordRevision } from '../../../src/models/ClinicalRecordRevision.js';
 import { generateAccessToken } from '../../../src/utils/jwt.js';
 import { hashPassword } from '../../../src/utils/password.js';
 import { createTestApp } from '../../setup.js';
@@ -195,6 +199,35 @@ describe('ClinicalRecord Integration Tests', () => {
         .expect(409);
     });
 
+    it('should create a new record for a reservation whose record was deleted', async () => {
+      await ClinicalRecord.createIndexes();
+      await ClinicalRecord.create({
+        user: patientUser._id,
+        specialist: specialist._id,
+        business: business._id,
+        reservation: reservation._id,
+        diagnosis: 'Wrong patient',
+        treatment: 'Treatment',
+        deletedAt: new Date(),
+        deletionReason: 'Created for the wrong patient',
+      });
+
+      const response = await request(app)
+        .post('/api/clinical-records')
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({
+          user: patientUser._id.toString(),
+          business: business._id.toString(),
+          reservation: reservation._id.toString(),
+          diagnosis: 'Hypertension',
+          treatment: 'Medication prescribed',
+        })
+        .expect(201);
+
+      expect(response.body.data.clinicalRecord.diagnosis).toBe('Hypertension');
+      expect(await ClinicalRecord.countDocuments({ reservation: reservation._id })).toBe(2);
+    });
+
     it('should fail when reservation does not belong to patient', async () => {
       const otherUser = await User.create({
         name: 'Other User',
@@ -245,4 +278,220 @@ describe('ClinicalRecord Integration Tests', () => {
         .expect(404);
     });
   });
+
+  describe('Clinical Record History', () => {
+    let record: any;
+
+    beforeEach(async () => {
+      record = await ClinicalRecord.create({
+        user: patientUser._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Flu',
+        treatment: 'Rest',
+      });
+    });
+
+    const editRecord = (diagnosis: string) =>
+      request(app)
+        .put(`/api/clinical-records/${record._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({
+          user: patientUser._id.toString(),
+          business: business._id.toString(),
+          diagnosis,
+          treatment: 'Rest',
+        });
+
+    it('should keep a revision for every edit', async () => {
+      await editRecord('Common cold').expect(200);
+      await editRecord('Allergy').expect(200);
+
+      const response = await request(app)
+        .get(`/api/clinical-records/${record._id}/revisions`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+
+      expect(response.body.results).toBe(2);
+      expect(response.body.data.revisions[0]).toMatchObject({
+        version: 3,
+        author: { name: 'Specialist User' },
+        changes: [{ field: 'diagnosis', from: 'Common cold', to: 'Allergy' }],
+      });
+    });
+
+    it('should return the record as of a past version', async () => {
+      await editRecord('Common cold').expect(200);
+
+      const response = await request(app)
+        .get(`/api/clinical-records/${record._id}/revisions/1`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+
+      expect(response.body.data.clinicalRecord).toMatchObject({ diagnosis: 'Flu', version: 1 });
+
+      await request(app)
+        .get(`/api/clinical-records/${record._id}/revisions/3`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(404);
+    });
+
+    it('should require a reason to delete a record', async () => {
+      await request(app)
+        .delete(`/api/clinical-records/${record._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({})
+        .expect(400);
+    });
+
+    it('should soft delete records', async () => {
+      await editRecord('Common cold').expect(200);
+
+      await request(app)
+        .delete(`/api/clinical-records/${record._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({ reason: 'Created for the wrong patient' })
+        .expect(200);
+
+      await request(app)
+        .get(`/api/clinical-records/${record._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(404);
+
+      const stored = await ClinicalRecord.findById(record._id);
+      expect(stored!.deletionReason).toBe('Created for the wrong patient');
+      expect(await ClinicalRecordRevision.countDocuments({ clinicalRecord: record._id })).toBe(1);
+    });
+  });
+
+  describe('Clinical Record Attachments', () => {
+    let record: any;
+    let patientToken: string;
+    const testFile = Buffer.from('%PDF-1.4 test results');
+
+    const uploadAttachment = (token = specialistToken) =>
+      request(app)
+        .post(`/api/clinical-records/${record._id}/attachments`)
+        .set('Authorization', `Bearer ${token}`)
+        .field('description', 'Blood test results')
+        .attach('file', testFile, { filename: 'results.pdf', contentType: 'application/pdf' });
+
+    const storedPath = (fileUrl: string) => path.join(process.cwd(), fileUrl.replace(/^\//, ''));
+
+    beforeEach(async () => {
+      record = await ClinicalRecord.create({
+        user: patientUser._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Test',
+        treatment: 'Test',
+      });
+
+      patientToken = generateAccessToken({
+        userId: patientUser._id,
+        email: patientUser.email,
+        role: patientUser.role,
+      });
+    });
+
+    afterAll(() => {
+      const uploadsDir = path.join(process.cwd(), 'uploads', 'clinical-records');
+      if (fs.existsSync(uploadsDir)) {
+        fs.rmSync(uploadsDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should upload a file and link it to the record', async () => {
+      const response = await uploadAttachment().expect(201);
+
+      const { attachment } = response.body.data;
+      expect(attachment).toMatchObject({
+        ownerType: 'clinical_record',
+        ownerId: record._id.toString(),
+        fileName: 'results.pdf',
+        fileType: 'document',
+        fileSize: testFile.length,
+        mimeType: 'application/pdf',
+        metadata: { description: 'Blood test results' },
+      });
+      expect(fs.existsSync(storedPath(attachment.fileUrl))).toBe(true);
+
+      const updated = await ClinicalRecord.findById(record._id);
+      expect(updated!.attachments.map(String)).toEqual([attachment._id]);
+    });
+
+    it('should require a file', async () => {
+      await request(app)
+        .post(`/api/clinical-records/${record._id}/attachments`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(400);
+    });
+
+    it('should not let other specialists upload files', async () => {
+      const otherUser = await User.create({
+        name: 'Other Specialist',
+        email: 'other-specialist@test.com',
+        password: await hashPassword('password123'),
+        role: 'specialist',
+      });
+      await Specialist.create({
+        user: otherUser._id,
+        business: business._id,
+        specialty: 'General',
+      });
+      const otherToken = generateAccessToken({
+        userId: otherUser._id,
+        email: otherUser.email,
+        role: otherUser.role,
+      });
+
+      await uploadAttachment(otherToken).expect(403);
+      expect(await Attachment.countDocuments()).toBe(0);
+    });
+
+    it('should list the attachments to the patient', async () => {
+      await uploadAttachment().expect(201);
+
+      const response = await request(app)
+        .get(`/api/clinical-records/${record._id}/attachments`)
+        .set('Authorization', `Bearer ${patientToken}`)
+        .expect(200);
+
+      expect(response.body.results).toBe(1);
+      expect(response.body.data.attachments[0].fileName).toBe('results.pdf');
+    });
+
+    it('should delete the attachment and its stored file', async () => {
+      const upload = await uploadAttachment().expect(201);
+      const { attachment } = upload.body.data;
+
+      await request(app)
+        .delete(`/api/clinical-records/${record._id}/attachments/${attachment._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+
+      expect(await Attachment.countDocuments()).toBe(0);
+      expect(fs.existsSync(storedPath(attachment.fileUrl))).toBe(false);
+      const updated = await ClinicalRecord.findById(record._id);
+      expect(updated!.attachments).toHaveLength(0);
+    });
+
+    it('should not delete attachments through another record', async () => {
+      const upload = await uploadAttachment().expect(201);
+      const otherRecord = await ClinicalRecord.create({
+        user: patientUser._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Other',
+        treatment: 'Other',
+      });
+
+      await request(app)
+        .delete(
+          `/api/clinical-records/${otherRecord._id}/attachments/${upload.body.data.attachment._id}`
+        )
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(404);
+    });
+  });
 });
@@ -0,0 +1,276 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { ClinicalRecord } from '../../../src/models/ClinicalRecord.js';
+import { ClinicalRecordTemplate } from '../../../src/models/ClinicalRecordTemplate.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Clinical Record Template Integration Tests', () => {
+  let app: Express;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+  let specialistToken: string;
+  let patient: any;
+  let business: any;
+
+  const fields = [
+    {
+      key: 'systolic',
+      label: 'Systolic pressure',
+      type: 'number',
+      required: true,
+      unit: 'mmHg',
+      min: 50,
+      max: 250,
+    },
+    { key: 'rhythm', label: 'Rhythm', type: 'select', options: ['regular', 'irregular'] },
+  ];
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const templatesUrl = () => `/api/businesses/${business._id}/clinical-record-templates`;
+
+  const createTemplate = (body: Record<string, unknown>, token = ownerToken) =>
+    request(app).post(templatesUrl()).set('Authorization', `Bearer ${token}`).send(body);
+
+  const createRecord = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/clinical-records')
+      .set('Authorization', `Bearer ${specialistToken}`)
+      .send({
+        user: patient._id.toString(),
+        business: business._id.toString(),
+        diagnosis: 'Checkup',
+        treatment: 'None',
+        ...body,
+      });
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ token: otherOwnerToken } = await createUser('Other Owner', 'other@test.com', 'owner'));
+    ({ user: patient } = await createUser('Patient', 'patient@test.com', 'client'));
+    const { user: specialistUser, token: specialistUserToken } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    );
+    specialistToken = specialistUserToken;
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'Cardiology',
+    });
+  });
+
+  describe('Templates', () => {
+    it('should create and list templates', async () => {
+      const response = await createTemplate({
+        name: 'Cardiology follow-up',
+        specialty: 'Cardiology',
+        fields,
+      }).expect(201);
+      expect(response.body.data.template).toMatchObject({ version: 1, isActive: true });
+      expect(response.body.data.template.fields[0]).toMatchObject({
+        key: 'systolic',
+        unit: 'mmHg',
+      });
+
+      const list = await request(app)
+        .get(templatesUrl())
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+      expect(list.body.results).toBe(1);
+    });
+
+    it('should only list the templates of the specialty and the general ones', async () => {
+      await ClinicalRecordTemplate.create({ business: business._id, name: 'General', fields });
+      await ClinicalRecordTemplate.create({
+        business: business._id,
+        name: 'Heart',
+        specialty: 'Cardiology',
+        fields,
+      });
+      await ClinicalRecordTemplate.create({
+        business: business._id,
+        name: 'Skin',
+        specialty: 'Dermatology',
+        fields,
+      });
+
+      const response = await request(app)
+        .get(templatesUrl())
+        .query({ specialty: 'cardiology' })
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+
+      expect(response.body.data.templates.map((template: any) => template.name)).toEqual([
+        'General',
+        'Heart',
+      ]);
+    });
+
+    it('should reject invalid fields', async () => {
+      await createTemplate({ name: 'Empty', fields: [] }).expect(400);
+      await createTemplate({ name: 'Duplicate', fields: [fields[0], fields[0]] }).expect(400);
+      await createTemplate({
+        name: 'No options',
+        fields: [{ key: 'rhythm', label: 'Rhythm', type: 'select' }],
+      }).expect(400);
+      await createTemplate({
+        name: 'Unit on text',
+        fields: [{ key: 'notes', label: 'Notes', type: 'text', unit: 'mm' }],
+      }).expect(400);
+      await createTemplate({
+        name: 'Bad type',
+        fields: [{ key: 'notes', label: 'Notes', type: 'rich' }],
+      }).expect(400);
+    });
+
+    it('should not let other owners manage the templates', async () => {
+      await createTemplate({ name: 'Cardiology', fields }, otherOwnerToken).expect(403);
+      await createTemplate({ name: 'Cardiology', fields }, specialistToken).expect(403);
+    });
+
+    it('should start a new version when the fields change', async () => {
+      const template = await ClinicalRecordTemplate.create({
+        business: business._id,
+        name: 'Cardiology',
+        fields,
+      });
+
+      await request(app)
+        .put(`${templatesUrl()}/${template._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Cardiology follow-up', fields })
+        .expect(200);
+      expect((await ClinicalRecordTemplate.findById(template._id))!.version).toBe(1);
+
+      const response = await request(app)
+        .put(`${templatesUrl()}/${template._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ fields: [fields[0]] })
+        .expect(200);
+
+      expect(response.body.data.template).toMatchObject({
+        name: 'Cardiology follow-up',
+        version: 2,
+      });
+      expect(response.body.data.template.fields).toHaveLength(1);
+      expect(response.body.data.template.previousVersions).toEqual([
+        expect.objectContaining({ version: 1, fields: [expect.any(Object), expect.any(Object)] }),
+      ]);
+    });
+  });
+
+  describe('Clinical records', () => {
+    let template: any;
+
+    beforeEach(async () => {
+      template = await ClinicalRecordTemplate.create({
+        business: business._id,
+        name: 'Cardiology',
+        specialty: 'Cardiology',
+        fields,
+      });
+    });
+
+    it('should store the answers with the template version', async () => {
+      const response = await createRecord({
+        template: template._id.toString(),
+        answers: { rhythm: 'regular', systolic: 120 },
+      }).expect(201);
+
+      expect(response.body.data.clinicalRecord).toMatchObject({
+        template: template._id.toString(),
+        templateVersion: 1,
+        answers: { systolic: 120, rhythm: 'regular' },
+      });
+    });
+
+    it('should reject answers that do not match the template', async () => {
+      await createRecord({ template: template._id.toString(), answers: {} }).expect(400);
+      await createRecord({
+        template: template._id.toString(),
+        answers: { systolic: 120, rhythm: 'fast' },
+      }).expect(400);
+      await createRecord({ answers: { systolic: 120 } }).expect(400);
+
+      expect(await ClinicalRecord.countDocuments()).toBe(0);
+    });
+
+    it('should not use templates of other specialties or inactive ones', async () => {
+      const dermatology = await ClinicalRecordTemplate.create({
+        business: business._id,
+        name: 'Skin',
+        specialty: 'Dermatology',
+        fields,
+      });
+      await createRecord({
+        template: dermatology._id.toString(),
+        answers: { systolic: 120 },
+      }).expect(400);
+
+      template.isActive = false;
+      await template.save();
+      await createRecord({
+        template: template._id.toString(),
+        answers: { systolic: 120 },
+      }).expect(400);
+    });
+
+    it('should validate edits against the version the record was created with', async () => {
+      const created = await createRecord({
+        template: template._id.toString(),
+        answers: { systolic: 120 },
+      }).expect(201);
+      const recordId = created.body.data.clinicalRecord._id;
+
+      // Version 2 drops the rhythm field
+      await request(app)
+        .put(`${templatesUrl()}/${template._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ fields: [fields[0]] })
+        .expect(200);
+
+      const update = (answers: Record<string, unknown>) =>
+        request(app)
+          .put(`/api/clinical-records/${recordId}`)
+          .set('Authorization', `Bearer ${specialistToken}`)
+          .send({
+            user: patient._id.toString(),
+            business: business._id.toString(),
+            diagnosis: 'Checkup',
+            treatment: 'None',
+            answers,
+          });
+
+      const response = await update({ systolic: 130, rhythm: 'irregular' }).expect(200);
+      expect(response.body.data.clinicalRecord).toMatchObject({
+        templateVersion: 1,
+        version: 2,
+        answers: { systolic: 130, rhythm: 'irregular' },
+      });
+
+      await update({ systolic: 400 }).expect(400);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Reservation } from '../../../src/models/Reservation.js';
+import { ClinicalRecord } from '../../../src/models/ClinicalRecord.js';
+import { HealthProfile } from '../../../src/models/HealthProfile.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Health Profile Integration Tests', () => {
+  let app: Express;
+  let patient: any;
+  let patientToken: string;
+  let specialistUser: any;
+  let specialistToken: string;
+  let otherSpecialistToken: string;
+  let business: any;
+  let otherBusiness: any;
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const profileUrl = (businessId = business._id) =>
+    `/api/businesses/${businessId}/patients/${patient._id}/health-profile`;
+
+  const updateProfile = (body: Record<string, unknown>, token = specialistToken) =>
+    request(app).put(profileUrl()).set('Authorization', `Bearer ${token}`).send(body);
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    ({ user: patient, token: patientToken } = await createUser(
+      'Patient',
+      'patient@test.com',
+      'client'
+    ));
+    ({ user: specialistUser, token: specialistToken } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    ));
+    const { user: otherSpecialistUser, token } = await createUser(
+      'Other Specialist',
+      'other@test.com',
+      'specialist'
+    );
+    otherSpecialistToken = token;
+    const { user: owner } = await createUser('Owner', 'owner@test.com', 'owner');
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    otherBusiness = await Business.create({ name: 'Other Clinic', user: owner._id });
+    const specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+    });
+    await Specialist.create({
+      user: otherSpecialistUser._id,
+      business: otherBusiness._id,
+      specialty: 'Cardiology',
+    });
+
+    // The patient has been seen at the business, but not at the other one
+    const service = await Service.create({
+      business: business._id,
+      name: 'Consultation',
+      duration: 60,
+      price: 40,
+    });
+    await Reservation.create({
+      user: patient._id,
+      business: business._id,
+      specialist: specialist._id,
+      service: service._id,
+      startDate: new Date('2030-12-02T10:00:00.000Z'),
+      endDate: new Date('2030-12-02T11:00:00.000Z'),
+      status: 'confirmed',
+    });
+  });
+
+  describe('PUT /health-profile', () => {
+    it('should create the profile on the first update', async () => {
+      const response = await updateProfile({
+        allergies: [{ name: 'Penicillin', severity: 'severe' }],
+        conditions: [{ name: 'Hypertension', startDate: '2020-01-01' }],
+        medications: [{ name: 'Losartan', dosage: '50 mg' }],
+      }).expect(200);
+
+      const { healthProfile } = response.body.data;
+      expect(healthProfile.allergies).toEqual([
+        expect.objectContaining({ name: 'Penicillin', severity: 'severe' }),
+      ]);
+      expect(healthProfile.conditions[0].startDate).toBe('2020-01-01T00:00:00.000Z');
+      expect(healthProfile.medications[0]).toMatchObject({ name: 'Losartan', dosage: '50 mg' });
+    });
+
+    it('should update current entries with the same name instead of duplicating them', async () => {
+      await updateProfile({ allergies: [{ name: 'Penicillin', severity: 'mild' }] }).expect(200);
+
+      const response = await updateProfile({
+        allergies: [{ name: 'penicillin', reaction: 'Rash' }],
+      }).expect(200);
+
+      expect(response.body.data.healthProfile.allergies).toEqual([
+        expect.objectContaining({ severity: 'mild', reaction: 'Rash' }),
+      ]);
+    });
+
+    it('should keep ended entries in the history', async () => {
+      await updateProfile({ medications: [{ name: 'Ibuprofen' }] }).expect(200);
+      await updateProfile({
+        medications: [{ name: 'Ibuprofen', endDate: '2030-12-10' }],
+      }).expect(200);
+
+      const response = await updateProfile({ medications: [{ name: 'Ibuprofen' }] }).expect(200);
+
+      const { medications } = response.body.data.healthProfile;
+      expect(medications).toHaveLength(2);
+      expect(medications[0].endDate).toBe('2030-12-10T00:00:00.000Z');
+      expect(medications[1].endDate).toBeUndefined();
+    });
+
+    it('should reject entries ending before they start', async () => {
+      await updateProfile({
+        conditions: [{ name: 'Asthma', startDate: '2030-12-10', endDate: '2030-12-01' }],
+      }).expect(400);
+    });
+
+    it('should only let specialists of the business update it', async () => {
+      await updateProfile({ allergies: [{ name: 'Latex' }] }, otherSpecialistToken).expect(403);
+      await updateProfile({ allergies: [{ name: 'Latex' }] }, patientToken).expect(403);
+    });
+
+    it('should not write profiles of users who are not patients of the business', async () => {
+      const { user: stranger } = await createUser('Stranger', 'stranger@test.com', 'client');
+
+      await request(app)
+        .put(`/api/businesses/${business._id}/patients/${stranger._id}/health-profile`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({ allergies: [{ name: 'Latex' }] })
+        .expect(403);
+
+      expect(await HealthProfile.countDocuments({ patient: stranger._id })).toBe(0);
+    });
+  });
+
+  describe('GET /health-profile', () => {
+    beforeEach(async () => {
+      await updateProfile({ allergies: [{ name: 'Penicillin' }] }).expect(200);
+    });
+
+    it('should let the patient view their profile', async () => {
+      const response = await request(app)
+        .get(profileUrl())
+        .set('Authorization', `Bearer ${patientToken}`)
+        .expect(200);
+
+      expect(response.body.data.healthProfile.allergies[0].name).toBe('Penicillin');
+    });
+
+    it('should return 404 when the business has no profile', async () => {
+      await request(app)
+        .get(profileUrl(otherBusiness._id))
+        .set('Authorization', `Bearer ${patientToken}`)
+        .expect(404);
+    });
+
+    it('should only show the profile to other businesses with consent', async () => {
+      await request(app)
+        .get(profileUrl())
+        .set('Authorization', `Bearer ${otherSpecialistToken}`)
+        .expect(403);
+
+      await request(app)
+        .put(`${profileUrl()}/sharing`)
+        .set('Authorization', `Bearer ${patientToken}`)
+        .send({ businesses: [otherBusiness._id.toString()] })
+        .expect(200);
+
+      await request(app)
+        .get(profileUrl())
+        .set('Authorization', `Bearer ${otherSpecialistToken}`)
+        .expect(200);
+
+      const shared = await request(app)
+        .get(`${profileUrl(otherBusiness._id)}/shared`)
+        .set('Authorization', `Bearer ${otherSpecialistToken}`)
+        .expect(200);
+      expect(shared.body.results).toBe(1);
+      expect(shared.body.data.healthProfiles[0].business.name).toBe('Test Clinic');
+    });
+
+    it('should only let the patient share the profile', async () => {
+      await request(app)
+        .put(`${profileUrl()}/sharing`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({ businesses: [otherBusiness._id.toString()] })
+        .expect(403);
+    });
+  });
+
+  describe('Clinical records', () => {
+    it('should update the profile when creating a record', async () => {
+      const response = await request(app)
+        .post('/api/clinical-records')
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({
+          user: patient._id.toString(),
+          business: business._id.toString(),
+          diagnosis: 'Allergic reaction',
+          treatment: 'Antihistamines',
+          healthProfile: { allergies: [{ name: 'Penicillin', severity: 'severe' }] },
+        })
+        .expect(201);
+
+      const { clinicalRecord, healthProfile } = response.body.data;
+      expect(healthProfile.allergies[0]).toMatchObject({
+        name: 'Penicillin',
+        clinicalRecord: clinicalRecord._id,
+      });
+    });
+
+    it('should return the current profile with the record', async () => {
+      await updateProfile({ conditions: [{ name: 'Diabetes' }] }).expect(200);
+      const specialist = await Specialist.findOne({ user: specialistUser._id });
+      const record = await ClinicalRecord.create({
+        user: patient._id,
+        specialist: specialist!._id,
+        business: business._id,
+        diagnosis: 'Checkup',
+        treatment: 'None',
+      });
+
+      const response = await request(app)
+        .get(`/api/clinical-records/${record._id}`)
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .expect(200);
+
+      expect(response.body.data.healthProfile.conditions[0].name).toBe('Diabetes');
+    });
+
+    it('should not create the record when the profile update fails', async () => {
+      await request(app)
+        .post('/api/clinical-records')
+        .set('Authorization', `Bearer ${specialistToken}`)
+        .send({
+          user: patient._id.toString(),
+          business: business._id.toString(),
+          diagnosis: 'Checkup',
+          treatment: 'None',
+          healthProfile: {
+            conditions: [{ name: 'Asthma', startDate: '2030-12-10', endDate: '2030-12-01' }],
+          },
+        })
+        .expect(400);
+
+      expect(await ClinicalRecord.countDocuments()).toBe(0);
+      expect(await HealthProfile.countDocuments()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Reservation } from '../../../src/models/Reservation.js';
+import { Invoice } from '../../../src/models/Invoice.js';
+import { invoiceService } from '../../../src/services/invoiceService.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { config } from '../../../src/config/index.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Invoice Integration Tests', () => {
+  let app: Express;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+  let clientToken: string;
+  let otherClientToken: string;
+  let client: any;
+  let otherOwner: any;
+  let business: any;
+  let specialist: any;
+  let service: any;
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  // Reservations already started, so staff can complete them
+  const createReservation = (start: string, forBusiness = business, forSpecialist = specialist) =>
+    Reservation.create({
+      user: client._id,
+      business: forBusiness._id,
+      specialist: forSpecialist._id,
+      service: service._id,
+      startDate: new Date(start),
+      endDate: new Date(new Date(start).getTime() + 60 * 60000),
+      status: 'confirmed',
+    });
+
+  const complete = (reservationId: string, token = ownerToken) =>
+    request(app)
+      .put(`/api/reservations/${reservationId}/status`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ status: 'completed' });
+
+  const completeNew = async (start = '2024-12-02T10:00:00.000Z') => {
+    const reservation = await createReservation(start);
+    await complete(reservation._id.toString()).expect(200);
+    return (await Invoice.findOne({ reservation: reservation._id }))!;
+  };
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ user: otherOwner, token: otherOwnerToken } = await createUser(
+      'Other Owner',
+      'other@test.com',
+      'owner'
+    ));
+    ({ user: client, token: clientToken } = await createUser(
+      'Client',
+      'client@test.com',
+      'client'
+    ));
+    ({ token: otherClientToken } = await createUser(
+      'Other Client',
+      'other-client@test.com',
+      'client'
+    ));
+    const { user: specialistUser } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    );
+
+    business = await Business.create({
+      name: 'Clínica Quito',
+      user: owner._id,
+      ruc: '17900000001',
+      address: 'Av. Amazonas 123',
+    });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      isActive: true,
+    });
+    service = await Service.create({
+      business: business._id,
+      name: 'Consulta general',
+      duration: 60,
+      price: 40,
+    });
+  });
+
+  describe('Issuing', () => {
+    it('should issue an invoice when a reservation is completed', async () => {
+      client.taxId = '1712345678';
+      await client.save();
+
+      const invoice = await completeNew();
+      const tax = Math.round(40 * config.pricing.taxRate) / 100;
+
+      expect(invoice.type).toBe('invoice');
+      expect(invoice.number).toBe(1);
+      expect(invoice.code).toBe('001-001-000000001');
+      expect(invoice.seller).toMatchObject({ name: 'Clínica Quito', ruc: '17900000001' });
+      expect(invoice.customer).toMatchObject({
+        name: 'Client',
+        email: 'client@test.com',
+        taxId: '1712345678',
+      });
+      expect(invoice.items).toHaveLength(1);
+      expect(invoice.items[0]).toMatchObject({ description: 'Consulta general', unitPrice: 40 });
+      expect(invoice.subtotal).toBe(40);
+      expect(invoice.taxRate).toBe(config.pricing.taxRate);
+      expect(invoice.tax).toBe(tax);
+      expect(invoice.total).toBe(40 + tax);
+      expect(invoice.amountPaid).toBe(0);
+    });
+
+    it('should issue receipts for businesses without a RUC', async () => {
+      business.ruc = undefined;
+      await business.save();
+
+      const invoice = await completeNew();
+
+      expect(invoice.type).toBe('receipt');
+      expect(invoice.seller.ruc).toBeUndefined();
+    });
+
+    it('should number invoices sequentially for each business', async () => {
+      const first = await completeNew('2024-12-02T10:00:00.000Z');
+      const second = await completeNew('2024-12-02T11:00:00.000Z');
+
+      const otherBusiness = await Business.create({ name: 'Other Clinic', user: otherOwner._id });
+      const otherSpecialist = await Specialist.create({
+        user: otherOwner._id,
+        business: otherBusiness._id,
+        specialty: 'General',
+        isActive: true,
+      });
+      const reservation = await createReservation(
+        '2024-12-02T10:00:00.000Z',
+        otherBusiness,
+        otherSpecialist
+      );
+      await complete(reservation._id.toString(), otherOwnerToken).expect(200);
+      const other = await Invoice.findOne({ reservation: reservation._id });
+
+      expect(first.number).toBe(1);
+      expect(second.number).toBe(2);
+      expect(second.code).toBe('001-001-000000002');
+      expect(other!.number).toBe(1);
+    });
+
+    it('should issue a single invoice per reservation', async () => {
+      const invoice = await completeNew();
+      const reservation = await Reservation.findById(invoice.reservation);
+      const again = await invoiceService.issueForReservation(reservation!);
+
+      expect(again._id.toString()).toBe(invoice._id.toString());
+      expect(await Invoice.countDocuments()).toBe(1);
+    });
+
+    it('should number invoices issued at the same time without gaps', async () => {
+      await Invoice.createIndexes();
+      const reservations = await Promise.all(
+        [2, 3, 4].map((day) => createReservation(`2024-12-0${day}T10:00:00.000Z`))
+      );
+
+      // Each reservation issued twice at once, as by concurrent status updates
+      await Promise.all(
+        reservations.flatMap((reservation) => [
+          invoiceService.issueForReservation(reservation),
+          invoiceService.issueForReservation(reservation),
+        ])
+      );
+
+      const invoices = await Invoice.find({ business: business._id }).sort({ number: 1 });
+      expect(invoices).toHaveLength(3);
+      expect(invoices.map((invoice) => invoice.number)).toEqual([1, 2, 3]);
+      expect(new Set(invoices.map((invoice) => invoice.reservation.toString())).size).toBe(3);
+    });
+
+    it('should not issue invoices for other status changes', async () => {
+      const reservation = await createReservation('2024-12-02T10:00:00.000Z');
+      await request(app)
+        .put(`/api/reservations/${reservation._id}/status`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ status: 'no-show' })
+        .expect(200);
+
+      expect(await Invoice.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('GET /api/businesses/:id/invoices', () => {
+    it('should list the invoices of the business, newest first', async () => {
+      await completeNew('2024-12-02T10:00:00.000Z');
+      await completeNew('2024-12-02T11:00:00.000Z');
+
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/invoices`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(response.body.results).toBe(2);
+      expect(response.body.data.invoices.map((invoice: any) => invoice.number)).toEqual([2, 1]);
+      expect(response.body.data.pagination).toEqual({ page: 1, limit: 20, total: 2, pages: 1 });
+    });
+
+    it('should paginate', async () => {
+      await completeNew('2024-12-02T10:00:00.000Z');
+      await completeNew('2024-12-02T11:00:00.000Z');
+
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/invoices`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .query({ page: 2, limit: 1 })
+        .expect(200);
+
+      expect(response.body.data.invoices[0].number).toBe(1);
+      expect(response.body.data.pagination.pages).toBe(2);
+    });
+
+    it('should not list invoices of another business', async () => {
+      await request(app)
+        .get(`/api/businesses/${business._id}/invoices`)
+        .set('Authorization', `Bearer ${otherOwnerToken}`)
+        .expect(403);
+    });
+
+    it('should reject invalid dates', async () => {
+      await request(app)
+        .get(`/api/businesses/${business._id}/invoices`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .query({ from: 'yesterday' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/invoices', () => {
+    it('should list the invoices of the client', async () => {
+      await completeNew();
+
+      const response = await request(app)
+        .get('/api/invoices')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .expect(200);
+      expect(response.body.results).toBe(1);
+
+      const other = await request(app)
+        .get('/api/invoices')
+        .set('Authorization', `Bearer ${otherClientToken}`)
+        .expect(200);
+      expect(other.body.results).toBe(0);
+    });
+  });
+
+  describe('GET /api/invoices/:id', () => {
+    it('should return the invoice to its client and the owner', async () => {
+      const invoice = await completeNew();
+
+      for (const token of [clientToken, ownerToken]) {
+        const response = await request(app)
+          .get(`/api/invoices/${invoice._id}`)
+          .set('Authorization', `Bearer ${token}`)
+          .expect(200);
+        expect(response.body.data.invoice.code).toBe(invoice.code);
+      }
+    });
+
+    it('should not return the invoice to other users', async () => {
+      const invoice = await completeNew();
+
+      await request(app)
+        .get(`/api/invoices/${invoice._id}`)
+        .set('Authorization', `Bearer ${otherClientToken}`)
+        .expect(403);
+    });
+
+    it('should return 404 for unknown invoices', async () => {
+      await request(app)
+        .get('/api/invoices/507f1f77bcf86cd799439011')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/invoices/:id/pdf', () => {
+    it('should download the invoice as PDF', async () => {
+      const invoice = await completeNew();
+
+      const response = await request(app)
+        .get(`/api/invoices/${invoice._id}/pdf`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('application/pdf');
+      expect(response.headers['content-disposition']).toBe(
+        'attachment; filename="invoice-001-001-000000001.pdf"'
+      );
+      const pdf = (response.body as Buffer).toString('latin1');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('FACTURA');
+      expect(pdf).toContain('RUC: 17900000001');
+      expect(pdf).toContain('Consumidor final');
+    });
+
+    it('should not download invoices of other clients', async () => {
+      const invoice = await completeNew();
+
+      await request(app)
+        .get(`/api/invoices/${invoice._id}/pdf`)
+        .set('Authorization', `Bearer ${otherClientToken}`)
+        .expect(403);
+    });
+  });
+});
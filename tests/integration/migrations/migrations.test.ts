@@ -0,0 +1,73 @@
+import { Types } from 'mongoose';
+
+import { Reservation } from '../../../src/models/Reservation.js';
+import { ClinicalRecord } from '../../../src/models/ClinicalRecord.js';
+import { runMigrations } from '../../../src/migrations/index.js';
+
+describe('Database migrations', () => {
+  const findSlotIndexes = async () =>
+    (await Reservation.collection.indexes()).filter(
+      (index) => JSON.stringify(index.key) === JSON.stringify({ specialist: 1, startDate: 1 })
+    );
+
+  // Start every test from a database without these collections and their indexes
+  afterEach(async () => {
+    for (const model of [Reservation, ClinicalRecord]) {
+      await model.collection.drop().catch(() => undefined);
+    }
+  });
+
+  it('should replace the unique reservation slot index with a plain one', async () => {
+    await Reservation.collection.createIndex(
+      { specialist: 1, startDate: 1 },
+      { unique: true, partialFilterExpression: { status: { $in: ['pending', 'confirmed'] } } }
+    );
+
+    await runMigrations();
+
+    const slotIndexes = await findSlotIndexes();
+    expect(slotIndexes).toHaveLength(1);
+    expect(slotIndexes[0].unique).toBeFalsy();
+  });
+
+  it('should do nothing on an up to date database', async () => {
+    await Reservation.createIndexes();
+
+    await runMigrations();
+    await runMigrations();
+
+    const slotIndexes = await findSlotIndexes();
+    expect(slotIndexes).toHaveLength(1);
+    expect(slotIndexes[0].unique).toBeFalsy();
+  });
+
+  it('should let deleted clinical records be replaced on an existing database', async () => {
+    const reservation = new Types.ObjectId();
+    const record = {
+      user: new Types.ObjectId(),
+      specialist: new Types.ObjectId(),
+      business: new Types.ObjectId(),
+      reservation,
+      diagnosis: 'Diagnosis',
+      treatment: 'Treatment',
+      version: 1,
+    };
+    // As stored before records had the isDeleted flag
+    await ClinicalRecord.collection.createIndex({ reservation: 1 }, { unique: true, sparse: true });
+    await ClinicalRecord.collection.insertMany([
+      { ...record, deletedAt: new Date() },
+      { ...record, reservation: new Types.ObjectId() },
+    ]);
+
+    await runMigrations();
+
+    const indexes = await ClinicalRecord.collection.indexes();
+    expect(indexes.map((index) => index.name)).not.toContain('reservation_1');
+    expect(indexes.map((index) => index.name)).toContain('reservation_1_not_deleted');
+    expect(await ClinicalRecord.countDocuments({ isDeleted: true })).toBe(1);
+    expect(await ClinicalRecord.countDocuments({ isDeleted: false })).toBe(1);
+
+    await ClinicalRecord.create(record);
+    await expect(ClinicalRecord.create(record)).rejects.toThrow('E11000');
+  });
+});
@@ -4,6 +4,7 @@ import { Business } from '../../../src/models/Business.js';
 import { Specialist } from '../../../src/models/Specialist.js';
 import { Service } from '../../../src/models/Service.js';
 import { Reservation } from '../../../src/models/Reservation.js';
+import { WaitlistEntry } from '../../../src/models/WaitlistEntry.js';
 import { hashPassword } from '../../../src/utils/password.js';
 
 describe('Notification Service Tests', () => {
@@ -140,6 +141,43 @@ describe('Notification Service Tests', () => {
     });
   });
 
+  describe('sendReservationRescheduled', () => {
+    it('should not throw error when sending rescheduled notification', async () => {
+      const previousStartDate = new Date(testReservation.startDate);
+
+      await expect(
+        notificationService.sendReservationRescheduled(testReservation, previousStartDate)
+      ).resolves.not.toThrow();
+    });
+  });
+
+  describe('sendWaitlistOffer', () => {
+    it('should not throw error when sending a waitlist offer', async () => {
+      const entry = await WaitlistEntry.create({
+        user: testUser._id,
+        business: testBusiness._id,
+        specialist: testSpecialist._id,
+        service: testService._id,
+        fromDate: '2024-12-30',
+        toDate: '2024-12-31',
+        status: 'offered',
+        offer: {
+          startDate: testReservation.startDate,
+          endDate: testReservation.endDate,
+          expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+        },
+      });
+      await entry.populate([
+        { path: 'user', select: '-password' },
+        { path: 'business' },
+        { path: 'specialist', populate: { path: 'user', select: '-password' } },
+        { path: 'service' },
+      ]);
+
+      await expect(notificationService.sendWaitlistOffer(entry)).resolves.not.toThrow();
+    });
+  });
+
   describe('sendReservationReminder', () => {
     beforeEach(async () => {
       testReservation.status = 'confirmed';
@@ -0,0 +1,465 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Reservation } from '../../../src/models/Reservation.js';
+import { Payment } from '../../../src/models/Payment.js';
+import { paymentService } from '../../../src/services/paymentService.js';
+import { FakePaymentProvider } from '../../../src/utils/payment.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { config } from '../../../src/config/index.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Payment Integration Tests', () => {
+  let app: Express;
+  let clientToken: string;
+  let ownerToken: string;
+  let business: any;
+  let specialist: any;
+  let service: any;
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const book = (startDate = '2030-12-23T10:00:00.000Z') =>
+    request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+      business: business._id.toString(),
+      specialist: specialist._id.toString(),
+      service: service._id.toString(),
+      startDate,
+    });
+
+  const notify = (body: Record<string, unknown>) =>
+    request(app)
+      .post('/api/payments/webhook')
+      .set('x-payment-signature', new FakePaymentProvider().sign(body))
+      .send(body);
+
+  const bookAndPay = async (startDate?: string) => {
+    const response = await book(startDate).expect(201);
+    const reservationId = response.body.data.reservation._id;
+    const payment = await Payment.findOne({ reservation: reservationId });
+    await notify({ type: 'payment.succeeded', paymentId: payment!.providerPaymentId }).expect(200);
+    return reservationId;
+  };
+
+  const cancel = (reservationId: string) =>
+    request(app)
+      .put(`/api/reservations/${reservationId}/status`)
+      .set('Authorization', `Bearer ${clientToken}`)
+      .send({ status: 'cancelled' });
+
+  beforeEach(async () => {
+    app = createTestApp();
+    config.payment.webhookSecret = 'test_webhook_secret';
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ token: clientToken } = await createUser('Client', 'client@test.com', 'client'));
+    const { user: specialistUser } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    );
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      isActive: true,
+    });
+    service = await Service.create({
+      business: business._id,
+      name: 'Consultation',
+      duration: 60,
+      price: 100,
+      prepayment: 'deposit',
+      depositAmount: 30,
+    });
+  });
+
+  afterEach(() => {
+    config.payment.webhookSecret = undefined;
+  });
+
+  describe('Booking', () => {
+    it('should start a checkout for the deposit', async () => {
+      const response = await book().expect(201);
+      const reservation = response.body.data.reservation;
+
+      expect(reservation.status).toBe('pending');
+      expect(reservation.payment).toMatchObject({
+        type: 'deposit',
+        status: 'pending',
+        amountDue: 30,
+        amountPaid: 0,
+        currency: config.payment.currency,
+      });
+      expect(new Date(reservation.payment.dueAt).getTime()).toBeGreaterThan(Date.now());
+
+      const payment = await Payment.findOne({ reservation: reservation._id });
+      expect(payment!.amount).toBe(30);
+      expect(payment!.provider).toBe('fake');
+      expect(reservation.payment.checkoutUrl).toBe(payment!.checkoutUrl);
+    });
+
+    it('should charge the full price with tax for prepaid services', async () => {
+      service.prepayment = 'full';
+      await service.save();
+
+      const response = await book().expect(201);
+      const { payment, price } = response.body.data.reservation;
+      expect(price.total).toBe(100 + config.pricing.taxRate);
+      expect(payment.amountDue).toBe(price.total);
+    });
+
+    it('should not ask for payment when the service is paid on site', async () => {
+      service.prepayment = 'none';
+      await service.save();
+
+      const response = await book().expect(201);
+      expect(response.body.data.reservation.payment).toBeUndefined();
+      expect(await Payment.countDocuments()).toBe(0);
+    });
+
+    it('should not book prepaid services as a series', async () => {
+      const response = await request(app)
+        .post('/api/reservations/series')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({
+          business: business._id.toString(),
+          specialist: specialist._id.toString(),
+          service: service._id.toString(),
+          startDate: '2030-12-02T10:00:00.000Z',
+          frequency: 'weekly',
+          count: 3,
+        })
+        .expect(400);
+
+      expect(response.body.message).toBe('Services paid at booking cannot be booked as a series');
+    });
+  });
+
+  describe('POST /api/payments/webhook', () => {
+    it('should mark the reservation as paid', async () => {
+      const reservationId = await bookAndPay();
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('paid');
+      expect(reservation!.payment!.amountPaid).toBe(30);
+      expect(reservation!.payment!.dueAt).toBeUndefined();
+    });
+
+    it('should ignore repeated calls', async () => {
+      const reservationId = await bookAndPay();
+      const payment = await Payment.findOne({ reservation: reservationId });
+
+      await notify({ type: 'payment.succeeded', paymentId: payment!.providerPaymentId }).expect(
+        200
+      );
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.amountPaid).toBe(30);
+    });
+
+    it('should apply an event delivered twice at the same time only once', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      const payment = await Payment.findOne({ reservation: reservationId });
+      const body = { type: 'payment.succeeded', paymentId: payment!.providerPaymentId };
+
+      const results = await Promise.all([notify(body), notify(body)]);
+      expect(results.map((result) => result.status)).toEqual([200, 200]);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('paid');
+      expect(reservation!.payment!.amountPaid).toBe(30);
+      expect(reservation!.payment!.amountRefunded).toBe(0);
+      expect((await Payment.findById(payment!._id))!.refunds).toHaveLength(0);
+    });
+
+    it('should let the client retry a failed payment', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      const failed = await Payment.findOne({ reservation: reservationId });
+
+      await notify({
+        type: 'payment.failed',
+        paymentId: failed!.providerPaymentId,
+        reason: 'Card declined',
+      }).expect(200);
+
+      let reservation = await Reservation.findById(reservationId);
+      expect(reservation!.status).toBe('pending');
+      expect(reservation!.payment!.status).toBe('failed');
+
+      const retry = await request(app)
+        .post(`/api/reservations/${reservationId}/payments`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .expect(201);
+
+      expect(retry.body.data.payment.providerPaymentId).not.toBe(failed!.providerPaymentId);
+      await notify({
+        type: 'payment.succeeded',
+        paymentId: retry.body.data.payment.providerPaymentId,
+      }).expect(200);
+
+      reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('paid');
+
+      const payments = await request(app)
+        .get(`/api/reservations/${reservationId}/payments`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+      expect(payments.body.data.payments.map((payment: any) => payment.status)).toEqual([
+        'failed',
+        'succeeded',
+      ]);
+    });
+
+    it('should reject unknown payments and events', async () => {
+      await notify({ type: 'payment.succeeded', paymentId: 'fake_pay_unknown' }).expect(404);
+      await notify({ type: 'payment.refunded', paymentId: 'fake_pay_unknown' }).expect(400);
+    });
+
+    it('should check the signature', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      const payment = await Payment.findOne({ reservation: reservationId });
+      const body = { type: 'payment.succeeded', paymentId: payment!.providerPaymentId };
+
+      await request(app).post('/api/payments/webhook').send(body).expect(401);
+      await notify(body).set('x-payment-signature', 'forged').expect(401);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('pending');
+    });
+
+    it('should reject every call when no webhook secret is set', async () => {
+      const response = await book().expect(201);
+      const payment = await Payment.findOne({ reservation: response.body.data.reservation._id });
+      const body = { type: 'payment.succeeded', paymentId: payment!.providerPaymentId };
+      const signature = new FakePaymentProvider().sign(body);
+
+      config.payment.webhookSecret = undefined;
+      await request(app)
+        .post('/api/payments/webhook')
+        .set('x-payment-signature', signature)
+        .send(body)
+        .expect(401);
+    });
+  });
+
+  describe('Unpaid reservations', () => {
+    it('should be released once the payment is due', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      await Reservation.updateOne(
+        { _id: reservationId },
+        { 'payment.dueAt': new Date(Date.now() - 1000) }
+      );
+
+      expect(await paymentService.releaseUnpaidReservations()).toBe(1);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.status).toBe('cancelled');
+      expect(reservation!.cancellationReason).toBe('Payment not received in time');
+      const payment = await Payment.findOne({ reservation: reservationId });
+      expect(payment!.status).toBe('expired');
+
+      // The slot can be booked again
+      await book().expect(201);
+    });
+
+    it('should refund payments received after the release', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      await Reservation.updateOne(
+        { _id: reservationId },
+        { 'payment.dueAt': new Date(Date.now() - 1000) }
+      );
+      await paymentService.releaseUnpaidReservations();
+
+      const payment = await Payment.findOne({ reservation: reservationId });
+      await notify({ type: 'payment.succeeded', paymentId: payment!.providerPaymentId }).expect(
+        200
+      );
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('refunded');
+      expect(reservation!.payment!.amountRefunded).toBe(30);
+    });
+
+    it('should refund a late payment once when it is delivered twice at the same time', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      await Reservation.updateOne(
+        { _id: reservationId },
+        { 'payment.dueAt': new Date(Date.now() - 1000) }
+      );
+      await paymentService.releaseUnpaidReservations();
+
+      const payment = await Payment.findOne({ reservation: reservationId });
+      const body = { type: 'payment.succeeded', paymentId: payment!.providerPaymentId };
+      await Promise.all([notify(body).expect(200), notify(body).expect(200)]);
+
+      const refunded = await Payment.findById(payment!._id);
+      expect(refunded!.status).toBe('succeeded');
+      expect(refunded!.refunds).toHaveLength(1);
+      expect(refunded!.refundedAmount).toBe(30);
+    });
+
+    it('should not release a reservation paid after the release job found it', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      await Reservation.updateOne(
+        { _id: reservationId },
+        { 'payment.dueAt': new Date(Date.now() - 1000) }
+      );
+      const payment = await Payment.findOne({ reservation: reservationId });
+
+      // The payment arrives between the search and the release
+      const find = Reservation.find.bind(Reservation);
+      const spy = jest.spyOn(Reservation, 'find').mockImplementationOnce(((filter: any) => {
+        const found = find(filter);
+        return found.then(async (reservations: any) => {
+          await notify({ type: 'payment.succeeded', paymentId: payment!.providerPaymentId }).expect(
+            200
+          );
+          return reservations;
+        });
+      }) as any);
+
+      try {
+        expect(await paymentService.releaseUnpaidReservations()).toBe(0);
+      } finally {
+        spy.mockRestore();
+      }
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.status).toBe('pending');
+      expect(reservation!.payment).toMatchObject({ status: 'paid', amountPaid: 30 });
+      const paid = await Payment.findById(payment!._id);
+      expect(paid!.status).toBe('succeeded');
+      expect(paid!.refunds).toHaveLength(0);
+    });
+
+    it('should refund a payment whose reservation is released while it is applied', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      await Reservation.updateOne(
+        { _id: reservationId },
+        { 'payment.dueAt': new Date(Date.now() - 1000) }
+      );
+      const payment = await Payment.findOne({ reservation: reservationId });
+
+      // The release runs after the webhook has read the reservation
+      const findById = Reservation.findById.bind(Reservation);
+      const spy = jest.spyOn(Reservation, 'findById').mockImplementationOnce(((id: any) => {
+        const found = findById(id);
+        return found.then(async (reservation: any) => {
+          await paymentService.releaseUnpaidReservations();
+          return reservation;
+        });
+      }) as any);
+
+      try {
+        await notify({ type: 'payment.succeeded', paymentId: payment!.providerPaymentId }).expect(
+          200
+        );
+      } finally {
+        spy.mockRestore();
+      }
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.status).toBe('cancelled');
+      expect(reservation!.payment).toMatchObject({
+        status: 'refunded',
+        amountPaid: 30,
+        amountRefunded: 30,
+      });
+      const refunded = await Payment.findById(payment!._id);
+      expect(refunded!.refunds).toHaveLength(1);
+    });
+  });
+
+  describe('Refunds on cancellation', () => {
+    it('should refund in full when cancelled with enough notice', async () => {
+      business.cancellationPolicy = { minNoticeHours: 24, lateCancellation: 'flag' };
+      await business.save();
+
+      const reservationId = await bookAndPay();
+      await cancel(reservationId).expect(200);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('refunded');
+      expect(reservation!.payment!.amountRefunded).toBe(30);
+
+      const payment = await Payment.findOne({ reservation: reservationId });
+      expect(payment!.refunds).toHaveLength(1);
+      expect(payment!.refundedAmount).toBe(30);
+    });
+
+    it('should refund the late refund percent on late cancellations', async () => {
+      business.cancellationPolicy = {
+        minNoticeHours: 24,
+        lateCancellation: 'flag',
+        lateRefundPercent: 50,
+      };
+      await business.save();
+
+      const reservationId = await bookAndPay(new Date(Date.now() + 60 * 60000).toISOString());
+      await cancel(reservationId).expect(200);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.isLateCancellation).toBe(true);
+      expect(reservation!.payment!.status).toBe('partially_refunded');
+      expect(reservation!.payment!.amountRefunded).toBe(15);
+    });
+
+    it('should keep the payment on late cancellations without refund', async () => {
+      business.cancellationPolicy = { minNoticeHours: 24, lateCancellation: 'flag' };
+      await business.save();
+
+      const reservationId = await bookAndPay(new Date(Date.now() + 60 * 60000).toISOString());
+      await cancel(reservationId).expect(200);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.payment!.status).toBe('paid');
+      expect(reservation!.payment!.amountRefunded).toBe(0);
+    });
+  });
+
+  describe('Service settings', () => {
+    it('should require a deposit amount no higher than the price', async () => {
+      const create = (data: Record<string, unknown>) =>
+        request(app)
+          .post(`/api/businesses/${business._id}/services`)
+          .set('Authorization', `Bearer ${ownerToken}`)
+          .send({ name: 'Therapy', duration: 60, price: 50, prepayment: 'deposit', ...data });
+
+      let response = await create({}).expect(400);
+      expect(response.body.message).toBe(
+        'Deposit amount is required for services taking a deposit'
+      );
+
+      response = await create({ depositAmount: 60 }).expect(400);
+      expect(response.body.message).toBe('Deposit amount cannot exceed the service price');
+
+      await create({ depositAmount: 20 }).expect(201);
+    });
+  });
+});
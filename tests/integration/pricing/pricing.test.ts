@@ -0,0 +1,400 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Reservation } from '../../../src/models/Reservation.js';
+import { PricingRule } from '../../../src/models/PricingRule.js';
+import { invoiceService } from '../../../src/services/invoiceService.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Pricing Integration Tests', () => {
+  let app: Express;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+  let clientToken: string;
+  let business: any;
+  let specialist: any;
+  let service: any;
+
+  // Monday 10:00, Saturday 10:00 and Monday 19:00 UTC
+  const weekday = '2030-12-02T10:00:00.000Z';
+  const saturday = '2030-12-07T10:00:00.000Z';
+  const evening = '2030-12-02T19:00:00.000Z';
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const createRule = (body: Record<string, unknown>, token = ownerToken) =>
+    request(app)
+      .post(`/api/businesses/${business._id}/pricing-rules`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+
+  const getPrice = async (startDate: string, serviceId = service._id) => {
+    const response = await request(app)
+      .get(`/api/businesses/${business._id}/services/${serviceId}/price`)
+      .query({ startDate })
+      .expect(200);
+    return response.body.data.price;
+  };
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ token: otherOwnerToken } = await createUser('Other Owner', 'other@test.com', 'owner'));
+    ({ token: clientToken } = await createUser('Client', 'client@test.com', 'client'));
+    const { user: specialistUser } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    );
+
+    business = await Business.create({
+      name: 'Test Clinic',
+      user: owner._id,
+      pricing: { taxRate: 15 },
+    });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      isActive: true,
+    });
+    service = await Service.create({
+      business: business._id,
+      name: 'Consultation',
+      duration: 60,
+      price: 40,
+    });
+  });
+
+  describe('Pricing rules', () => {
+    it('should create and list rules', async () => {
+      const response = await createRule({
+        name: 'Weekend',
+        type: 'surcharge',
+        percent: 25,
+        days: ['saturday', 'sunday'],
+      }).expect(201);
+      expect(response.body.data.rule).toMatchObject({ name: 'Weekend', percent: 25 });
+
+      const list = await request(app)
+        .get(`/api/businesses/${business._id}/pricing-rules`)
+        .expect(200);
+      expect(list.body.results).toBe(1);
+    });
+
+    it('should require either a percent or an amount', async () => {
+      await createRule({ name: 'Nothing', type: 'discount' }).expect(400);
+      await createRule({ name: 'Both', type: 'discount', percent: 10, amount: 5 }).expect(400);
+    });
+
+    it('should reject empty time windows', async () => {
+      await createRule({
+        name: 'Evening',
+        type: 'surcharge',
+        amount: 5,
+        startTime: '18:00',
+        endTime: '18:00',
+      }).expect(400);
+    });
+
+    it('should only apply to services of the business', async () => {
+      const { user: otherOwner } = await createUser('Third', 'third@test.com', 'owner');
+      const otherBusiness = await Business.create({ name: 'Other Clinic', user: otherOwner._id });
+      const otherService = await Service.create({
+        business: otherBusiness._id,
+        name: 'Other',
+        duration: 30,
+        price: 10,
+      });
+
+      await createRule({
+        name: 'Promo',
+        type: 'discount',
+        percent: 10,
+        services: [otherService._id.toString()],
+      }).expect(400);
+    });
+
+    it('should not let other owners manage the rules', async () => {
+      await createRule({ name: 'Promo', type: 'discount', percent: 10 }, otherOwnerToken).expect(
+        403
+      );
+    });
+
+    it('should replace the percent when updating the amount', async () => {
+      const rule = await PricingRule.create({
+        business: business._id,
+        name: 'Promo',
+        type: 'discount',
+        percent: 10,
+      });
+
+      const response = await request(app)
+        .put(`/api/businesses/${business._id}/pricing-rules/${rule._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ amount: 5 })
+        .expect(200);
+
+      expect(response.body.data.rule.amount).toBe(5);
+      expect(response.body.data.rule.percent).toBeUndefined();
+      expect(response.body.data.rule.name).toBe('Promo');
+    });
+
+    it('should delete rules', async () => {
+      const rule = await PricingRule.create({
+        business: business._id,
+        name: 'Promo',
+        type: 'discount',
+        percent: 10,
+      });
+
+      await request(app)
+        .delete(`/api/businesses/${business._id}/pricing-rules/${rule._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(await PricingRule.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('GET /services/:serviceId/price', () => {
+    it('should add the business tax to the service price', async () => {
+      const price = await getPrice(weekday);
+
+      expect(price).toMatchObject({
+        basePrice: 40,
+        adjustments: [],
+        subtotal: 40,
+        taxRate: 15,
+        taxIncluded: false,
+        tax: 6,
+        total: 46,
+      });
+    });
+
+    it('should take the tax out of prices that include it', async () => {
+      business.pricing = { taxRate: 15, taxIncluded: true };
+      await business.save();
+      service.price = 46;
+      await service.save();
+
+      const price = await getPrice(weekday);
+
+      expect(price).toMatchObject({ subtotal: 40, tax: 6, total: 46, taxIncluded: true });
+    });
+
+    it('should use the tax of the service over the business one', async () => {
+      service.taxRate = 0;
+      await service.save();
+
+      const price = await getPrice(weekday);
+
+      expect(price).toMatchObject({ taxRate: 0, tax: 0, total: 40 });
+    });
+
+    it('should apply surcharges on the days and times they cover', async () => {
+      await PricingRule.create({
+        business: business._id,
+        name: 'Weekend',
+        type: 'surcharge',
+        percent: 25,
+        days: ['saturday', 'sunday'],
+      });
+      await PricingRule.create({
+        business: business._id,
+        name: 'Evening',
+        type: 'surcharge',
+        amount: 5,
+        startTime: '18:00',
+      });
+
+      expect((await getPrice(weekday)).subtotal).toBe(40);
+
+      const weekend = await getPrice(saturday);
+      expect(weekend.adjustments).toEqual([
+        expect.objectContaining({ name: 'Weekend', type: 'surcharge', amount: 10 }),
+      ]);
+      expect(weekend).toMatchObject({ subtotal: 50, tax: 7.5, total: 57.5 });
+
+      expect((await getPrice(evening)).subtotal).toBe(45);
+    });
+
+    it('should apply time windows that wrap past midnight', async () => {
+      await createRule({
+        name: 'Night',
+        type: 'surcharge',
+        amount: 10,
+        startTime: '22:00',
+        endTime: '06:00',
+      }).expect(201);
+
+      expect((await getPrice('2030-12-02T23:00:00.000Z')).subtotal).toBe(50);
+      expect((await getPrice('2030-12-03T03:00:00.000Z')).subtotal).toBe(50);
+      expect((await getPrice('2030-12-03T06:00:00.000Z')).subtotal).toBe(40);
+      expect((await getPrice(evening)).subtotal).toBe(40);
+    });
+
+    it('should apply promotions within their validity window only', async () => {
+      await PricingRule.create({
+        business: business._id,
+        name: 'December',
+        type: 'discount',
+        percent: 10,
+        validFrom: '2030-12-01',
+        validTo: '2030-12-05',
+      });
+
+      expect((await getPrice(weekday)).subtotal).toBe(36);
+      expect((await getPrice(saturday)).subtotal).toBe(40);
+    });
+
+    it('should ignore inactive rules and rules for other services', async () => {
+      const other = await Service.create({
+        business: business._id,
+        name: 'Checkup',
+        duration: 30,
+        price: 20,
+      });
+      await PricingRule.create({
+        business: business._id,
+        name: 'Checkup promo',
+        type: 'discount',
+        amount: 5,
+        services: [other._id],
+      });
+      await PricingRule.create({
+        business: business._id,
+        name: 'Old promo',
+        type: 'discount',
+        amount: 5,
+        isActive: false,
+      });
+
+      expect((await getPrice(weekday)).subtotal).toBe(40);
+      expect((await getPrice(weekday, other._id)).subtotal).toBe(15);
+    });
+
+    it('should not discount below zero', async () => {
+      await PricingRule.create({
+        business: business._id,
+        name: 'Free',
+        type: 'discount',
+        amount: 100,
+      });
+
+      expect(await getPrice(weekday)).toMatchObject({ subtotal: 0, tax: 0, total: 0 });
+    });
+  });
+
+  describe('Booking', () => {
+    const book = () =>
+      request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+        business: business._id.toString(),
+        specialist: specialist._id.toString(),
+        service: service._id.toString(),
+        startDate: saturday,
+      });
+
+    beforeEach(async () => {
+      await PricingRule.create({
+        business: business._id,
+        name: 'Weekend',
+        type: 'surcharge',
+        percent: 25,
+        days: ['saturday'],
+      });
+    });
+
+    it('should keep the price computed at booking time', async () => {
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+      expect(response.body.data.reservation.price).toMatchObject({
+        basePrice: 40,
+        subtotal: 50,
+        total: 57.5,
+      });
+
+      await request(app)
+        .put(`/api/businesses/${business._id}/services/${service._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ price: 80 })
+        .expect(200);
+      await PricingRule.deleteMany({});
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.price).toMatchObject({ basePrice: 40, subtotal: 50, total: 57.5 });
+    });
+
+    it('should invoice the price the reservation was booked at', async () => {
+      const response = await book().expect(201);
+      service.price = 80;
+      await service.save();
+
+      const reservation = await Reservation.findById(response.body.data.reservation._id);
+      const invoice = await invoiceService.issueForReservation(reservation!);
+
+      expect(invoice.items[0].description).toBe('Consultation (Weekend)');
+      expect(invoice).toMatchObject({ subtotal: 50, taxRate: 15, tax: 7.5, total: 57.5 });
+    });
+
+    it('should charge prepayments at the price with tax', async () => {
+      service.prepayment = 'full';
+      await service.save();
+
+      const response = await book().expect(201);
+
+      expect(response.body.data.reservation.payment.amountDue).toBe(57.5);
+    });
+
+    it('should quote the price again when rescheduled', async () => {
+      const response = await book().expect(201);
+
+      const rescheduled = await request(app)
+        .put(`/api/reservations/${response.body.data.reservation._id}/reschedule`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ startDate: weekday })
+        .expect(200);
+
+      expect(rescheduled.body.data.reservation.price).toMatchObject({
+        adjustments: [],
+        subtotal: 40,
+        total: 46,
+      });
+    });
+
+    it('should not move prepaid reservations to a time with a different price', async () => {
+      service.prepayment = 'full';
+      await service.save();
+      const response = await book().expect(201);
+      const reservationId = response.body.data.reservation._id;
+
+      await request(app)
+        .put(`/api/reservations/${reservationId}/reschedule`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ startDate: weekday })
+        .expect(409);
+
+      const reservation = await Reservation.findById(reservationId);
+      expect(reservation!.startDate.toISOString()).toBe(saturday);
+      expect(reservation!.price!.total).toBe(57.5);
+      expect(reservation!.payment!.amountDue).toBe(57.5);
+    });
+  });
+});
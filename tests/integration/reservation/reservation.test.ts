@@ -7,8 +7,13 @@ import { Business } from '../../../src/models/Business.js';
 import { Specialist } from '../../../src/models/Specialist.js';
 import { Service } from '../../../src/models/Service.js';
 import { Reservation } from '../../../src/models/Reservation.js';
+import { ReservationSeries } from '../../../src/models/ReservationSeries.js';
+import { SlotHold } from '../../../src/models/SlotHold.js';
+import { BookingLock } from '../../../src/models/BookingLock.js';
+import { pricingService } from '../../../src/services/pricingService.js';
 import { generateAccessToken } from '../../../src/utils/jwt.js';
 import { hashPassword } from '../../../src/utils/password.js';
+import { config } from '../../../src/config/index.js';
 import { createTestApp } from '../../setup.js';
 
 describe('Reservation Integration Tests', () => {
@@ -216,6 +221,345 @@ describe('Reservation Integration Tests', () => {
       specialist.services = [];
       await specialist.save();
     });
+
+    it('should reject bookings inside the buffer of another reservation', async () => {
+      service.bufferAfter = 15;
+      await service.save();
+
+      const book = (startDate: string) =>
+        request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+          business: business._id.toString(),
+          specialist: specialist._id.toString(),
+          service: service._id.toString(),
+          startDate,
+        });
+
+      const first = await book('2030-12-23T10:00:00.000Z').expect(201);
+      expect(first.body.data.reservation.bufferAfter).toBe(15);
+
+      // Starts during the cleanup of the first appointment
+      await book('2030-12-23T11:00:00.000Z').expect(409);
+      await book('2030-12-23T11:15:00.000Z').expect(201);
+    });
+
+    it('should fail outside the business opening hours', async () => {
+      business.schedule = [{ day: 'monday', openTime: '09:00', closeTime: '18:00', isOpen: true }];
+      await business.save();
+
+      const reservationData = {
+        business: business._id.toString(),
+        specialist: specialist._id.toString(),
+        service: service._id.toString(),
+        startDate: '2030-12-23T17:30:00.000Z', // Monday, ends after closing
+      };
+
+      const response = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send(reservationData)
+        .expect(400);
+
+      expect(response.body.message).toContain('not available');
+    });
+  });
+
+  describe('Concurrent bookings', () => {
+    const book = (startDate: string) =>
+      request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+        business: business._id.toString(),
+        specialist: specialist._id.toString(),
+        service: service._id.toString(),
+        startDate,
+      });
+
+    it('should accept only one of several parallel bookings for the same slot', async () => {
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, () => book('2030-12-23T10:00:00.000Z'))
+      );
+
+      const statuses = responses.map((response) => response.status).sort();
+      expect(statuses).toEqual([201, 409, 409, 409, 409]);
+
+      const reservations = await Reservation.find({ specialist: specialist._id });
+      expect(reservations).toHaveLength(1);
+    });
+
+    it('should accept only one of parallel bookings with overlapping times', async () => {
+      const responses = await Promise.all([
+        book('2030-12-23T10:00:00.000Z'),
+        book('2030-12-23T10:30:00.000Z'),
+        book('2030-12-23T10:45:00.000Z'),
+      ]);
+
+      const created = responses.filter((response) => response.status === 201);
+      expect(created).toHaveLength(1);
+
+      const reservations = await Reservation.find({ specialist: specialist._id });
+      expect(reservations).toHaveLength(1);
+    });
+  });
+
+  describe('Group sessions', () => {
+    const session = '2030-12-23T10:00:00.000Z';
+    let groupService: any;
+
+    const createClientToken = async (email: string) => {
+      const user = await User.create({
+        name: 'Group Client',
+        email,
+        password: await hashPassword('password123'),
+        role: 'client',
+      });
+      return generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    };
+
+    const book = (token: string, data: Record<string, unknown> = {}) =>
+      request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          business: business._id.toString(),
+          specialist: specialist._id.toString(),
+          service: groupService._id.toString(),
+          startDate: session,
+          ...data,
+        });
+
+    beforeEach(async () => {
+      groupService = await Service.create({
+        business: business._id,
+        name: 'Yoga Class',
+        duration: 60,
+        price: 20,
+        capacity: 2,
+        isActive: true,
+      });
+    });
+
+    it('should share a session until it is full', async () => {
+      await book(clientToken).expect(201);
+      await book(await createClientToken('second@test.com')).expect(201);
+
+      const response = await book(await createClientToken('third@test.com')).expect(409);
+      expect(response.body.message).toBe('Session is full');
+    });
+
+    it('should share a session with the database indexes built', async () => {
+      await Reservation.createIndexes();
+
+      await book(clientToken).expect(201);
+      await book(await createClientToken('second@test.com')).expect(201);
+
+      expect(await Reservation.countDocuments({ service: groupService._id })).toBe(2);
+    });
+
+    it('should not give a client two seats in the same session', async () => {
+      await book(clientToken).expect(201);
+
+      const response = await book(clientToken).expect(409);
+      expect(response.body.message).toContain('already have a seat');
+    });
+
+    it('should free a seat when a reservation is cancelled', async () => {
+      const booked = await book(clientToken).expect(201);
+      await book(await createClientToken('second@test.com')).expect(201);
+
+      await request(app)
+        .put(`/api/reservations/${booked.body.data.reservation._id}/status`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ status: 'cancelled' })
+        .expect(200);
+
+      await book(await createClientToken('third@test.com')).expect(201);
+    });
+
+    it('should still reject overlapping appointments of other services', async () => {
+      await book(clientToken).expect(201);
+      const otherToken = await createClientToken('second@test.com');
+
+      await book(otherToken, { service: service._id.toString() }).expect(409);
+      await book(otherToken, { startDate: '2030-12-23T10:30:00.000Z' }).expect(409);
+    });
+  });
+
+  describe('Remote sessions', () => {
+    const book = (data: Record<string, unknown> = {}) =>
+      request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({
+          business: business._id.toString(),
+          specialist: specialist._id.toString(),
+          service: service._id.toString(),
+          startDate: '2030-12-23T10:00:00.000Z',
+          ...data,
+        });
+
+    beforeEach(async () => {
+      business.hasRemoteSessions = true;
+      await business.save();
+      service.attendanceMode = 'hybrid';
+      await service.save();
+    });
+
+    it('should give remote reservations a meeting link', async () => {
+      const response = await book({ attendanceMode: 'remote' }).expect(201);
+      const reservation = response.body.data.reservation;
+
+      expect(reservation.attendanceMode).toBe('remote');
+      expect(reservation.meeting.provider).toBe('local');
+      expect(reservation.meeting.url).toBe(`${config.app.frontendUrl}/meetings/${reservation._id}`);
+    });
+
+    it('should book in person by default', async () => {
+      const response = await book().expect(201);
+
+      expect(response.body.data.reservation.attendanceMode).toBe('in_person');
+      expect(response.body.data.reservation.meeting).toBeUndefined();
+    });
+
+    it('should book remote-only services remotely by default', async () => {
+      service.attendanceMode = 'remote';
+      await service.save();
+
+      const response = await book().expect(201);
+      expect(response.body.data.reservation.attendanceMode).toBe('remote');
+
+      await book({ attendanceMode: 'in_person', startDate: '2030-12-23T12:00:00.000Z' }).expect(
+        400
+      );
+    });
+
+    it('should reject remote bookings of in-person services', async () => {
+      service.attendanceMode = 'in_person';
+      await service.save();
+
+      const response = await book({ attendanceMode: 'remote' }).expect(400);
+      expect(response.body.message).toBe('Service is not offered remotely');
+    });
+
+    it('should reject remote bookings when the business has no remote sessions', async () => {
+      business.hasRemoteSessions = false;
+      await business.save();
+
+      const response = await book({ attendanceMode: 'remote' }).expect(400);
+      expect(response.body.message).toBe('Business does not offer remote sessions');
+    });
+  });
+
+  describe('Slot holds', () => {
+    const slot = '2030-12-23T10:00:00.000Z';
+    let otherToken: string;
+
+    const slotData = (data: Record<string, unknown> = {}) => ({
+      business: business._id.toString(),
+      specialist: specialist._id.toString(),
+      service: service._id.toString(),
+      startDate: slot,
+      ...data,
+    });
+
+    const hold = (token: string, data: Record<string, unknown> = {}) =>
+      request(app)
+        .post('/api/reservations/holds')
+        .set('Authorization', `Bearer ${token}`)
+        .send(slotData(data));
+
+    beforeEach(async () => {
+      const otherUser = await User.create({
+        name: 'Other Client',
+        email: 'other-client@test.com',
+        password: await hashPassword('password123'),
+        role: 'client',
+      });
+      otherToken = generateAccessToken({
+        userId: otherUser._id,
+        email: otherUser.email,
+        role: otherUser.role,
+      });
+    });
+
+    it('should hold a slot for a few minutes', async () => {
+      const response = await hold(clientToken).expect(201);
+
+      const { hold: created } = response.body.data;
+      expect(created.startDate).toBe(slot);
+      expect(created.endDate).toBe('2030-12-23T11:00:00.000Z');
+      expect(new Date(created.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should keep the held slot from other clients', async () => {
+      await hold(clientToken).expect(201);
+
+      await hold(otherToken).expect(409);
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${otherToken}`)
+        .send(slotData())
+        .expect(409);
+    });
+
+    it('should turn the hold into the reservation', async () => {
+      const held = await hold(clientToken).expect(201);
+
+      await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send(slotData({ hold: held.body.data.hold._id }))
+        .expect(201);
+
+      expect(await SlotHold.countDocuments()).toBe(0);
+    });
+
+    it('should fail to book with an expired hold', async () => {
+      const held = await hold(clientToken).expect(201);
+      await SlotHold.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      const response = await request(app)
+        .post('/api/reservations')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send(slotData({ hold: held.body.data.hold._id }))
+        .expect(409);
+
+      expect(response.body.message).toContain('Hold has expired');
+    });
+
+    it('should ignore expired holds of other clients', async () => {
+      await hold(clientToken).expect(201);
+      await SlotHold.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      await hold(otherToken).expect(201);
+    });
+
+    it('should answer 409 while another booking keeps the specialist busy', async () => {
+      await BookingLock.create({
+        _id: specialist._id.toString(),
+        token: 'other-booking',
+        expiresAt: new Date(Date.now() + 60000),
+      });
+
+      const response = await hold(clientToken).expect(409);
+      expect(response.body.message).toContain('busy');
+    });
+
+    it('should replace the previous hold on the same specialist', async () => {
+      await hold(clientToken).expect(201);
+      await hold(clientToken, { startDate: '2030-12-23T12:00:00.000Z' }).expect(201);
+
+      const holds = await SlotHold.find();
+      expect(holds).toHaveLength(1);
+      expect(holds[0].startDate.toISOString()).toBe('2030-12-23T12:00:00.000Z');
+    });
+
+    it('should release a hold', async () => {
+      const held = await hold(clientToken).expect(201);
+      const url = `/api/reservations/holds/${held.body.data.hold._id}`;
+
+      await request(app).delete(url).set('Authorization', `Bearer ${otherToken}`).expect(403);
+      await request(app).delete(url).set('Authorization', `Bearer ${clientToken}`).expect(200);
+
+      await hold(otherToken).expect(201);
+    });
   });
 
   describe('GET /api/reservations', () => {
@@ -401,6 +745,453 @@ describe('Reservation Integration Tests', () => {
         .send({ status: 'cancelled' })
         .expect(403);
     });
+
+    describe('Status transitions', () => {
+      let specialistToken: string;
+
+      const createWithStatus = (status: string, startDate: Date) =>
+        Reservation.create({
+          user: clientUser._id,
+          business: business._id,
+          specialist: specialist._id,
+          service: service._id,
+          startDate,
+          endDate: new Date(startDate.getTime() + 60 * 60000),
+          status,
+        });
+
+      const updateStatus = (id: string, status: string, token: string) =>
+        request(app)
+          .put(`/api/reservations/${id}/status`)
+          .set('Authorization', `Bearer ${token}`)
+          .send({ status });
+
+      const past = () => new Date(Date.now() - 30 * 60000);
+      const future = () => new Date(Date.now() + 24 * 60 * 60000);
+
+      beforeEach(() => {
+        specialistToken = generateAccessToken({
+          userId: specialistUser._id,
+          email: specialistUser.email,
+          role: specialistUser.role,
+        });
+      });
+
+      it('should let the specialist confirm and then complete a reservation', async () => {
+        const reservation = await createWithStatus('pending', past());
+
+        await updateStatus(reservation._id.toString(), 'confirmed', specialistToken).expect(200);
+        const response = await updateStatus(
+          reservation._id.toString(),
+          'completed',
+          specialistToken
+        ).expect(200);
+
+        expect(response.body.data.reservation.status).toBe('completed');
+      });
+
+      it('should not reopen a completed reservation', async () => {
+        const reservation = await createWithStatus('completed', past());
+
+        const response = await updateStatus(
+          reservation._id.toString(),
+          'pending',
+          specialistToken
+        ).expect(409);
+
+        expect(response.body.message).toContain('Cannot change reservation status');
+      });
+
+      it('should not confirm a cancelled reservation', async () => {
+        const reservation = await createWithStatus('cancelled', future());
+
+        await updateStatus(reservation._id.toString(), 'confirmed', specialistToken).expect(409);
+      });
+
+      it('should not mark a no-show before the reservation starts', async () => {
+        const reservation = await createWithStatus('confirmed', future());
+
+        const response = await updateStatus(
+          reservation._id.toString(),
+          'no-show',
+          specialistToken
+        ).expect(409);
+
+        expect(response.body.message).toContain('before it starts');
+      });
+
+      it('should only let staff mark a reservation as completed', async () => {
+        const reservation = await createWithStatus('confirmed', past());
+
+        await updateStatus(reservation._id.toString(), 'completed', clientToken).expect(403);
+      });
+
+      it('should reject setting the current status again', async () => {
+        const reservation = await createWithStatus('confirmed', future());
+
+        await updateStatus(reservation._id.toString(), 'confirmed', specialistToken).expect(409);
+      });
+    });
+  });
+
+  describe('Cancellation policy', () => {
+    const createInHours = (hours: number) => {
+      const startDate = new Date(Date.now() + hours * 60 * 60000);
+      return Reservation.create({
+        user: clientUser._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate,
+        endDate: new Date(startDate.getTime() + 60 * 60000),
+      });
+    };
+
+    const cancel = (id: string, token = clientToken) =>
+      request(app)
+        .put(`/api/reservations/${id}/status`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ status: 'cancelled' });
+
+    it('should record who cancelled and when', async () => {
+      const reservation = await createInHours(48);
+
+      await cancel(reservation._id.toString()).expect(200);
+
+      const cancelled = await Reservation.findById(reservation._id);
+      expect(cancelled?.cancelledBy?.toString()).toBe(clientUser._id.toString());
+      expect(cancelled?.cancelledAt).toBeInstanceOf(Date);
+      expect(cancelled?.isLateCancellation).toBe(false);
+    });
+
+    it('should flag client cancellations inside the notice window', async () => {
+      business.cancellationPolicy = { minNoticeHours: 24, lateCancellation: 'flag' };
+      await business.save();
+
+      const reservation = await createInHours(2);
+
+      await cancel(reservation._id.toString()).expect(200);
+
+      const cancelled = await Reservation.findById(reservation._id);
+      expect(cancelled?.isLateCancellation).toBe(true);
+    });
+
+    it('should block client cancellations inside the notice window', async () => {
+      business.cancellationPolicy = { minNoticeHours: 24, lateCancellation: 'block' };
+      await business.save();
+
+      const reservation = await createInHours(2);
+
+      const response = await cancel(reservation._id.toString()).expect(409);
+      expect(response.body.message).toContain('24 hours notice');
+
+      // Enough notice is still fine
+      const later = await createInHours(30);
+      await cancel(later._id.toString()).expect(200);
+    });
+
+    it('should not apply the policy to the specialist', async () => {
+      business.cancellationPolicy = { minNoticeHours: 24, lateCancellation: 'block' };
+      await business.save();
+
+      const specialistToken = generateAccessToken({
+        userId: specialistUser._id,
+        email: specialistUser.email,
+        role: specialistUser.role,
+      });
+      const reservation = await createInHours(2);
+
+      await cancel(reservation._id.toString(), specialistToken).expect(200);
+
+      const cancelled = await Reservation.findById(reservation._id);
+      expect(cancelled?.isLateCancellation).toBe(false);
+      expect(cancelled?.cancelledBy?.toString()).toBe(specialistUser._id.toString());
+    });
+  });
+
+  describe('PUT /api/reservations/:id/reschedule', () => {
+    let reservation: any;
+
+    const reschedule = (id: string, data: Record<string, unknown>, token = clientToken) =>
+      request(app)
+        .put(`/api/reservations/${id}/reschedule`)
+        .set('Authorization', `Bearer ${token}`)
+        .send(data);
+
+    beforeEach(async () => {
+      reservation = await Reservation.create({
+        user: clientUser._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate: new Date('2030-12-23T10:00:00.000Z'),
+        endDate: new Date('2030-12-23T11:00:00.000Z'),
+        notes: 'First visit',
+      });
+    });
+
+    it('should move the reservation and keep the previous times', async () => {
+      const response = await reschedule(reservation._id.toString(), {
+        startDate: '2030-12-23T14:00:00.000Z',
+        reason: 'Running late',
+      }).expect(200);
+
+      const updated = response.body.data.reservation;
+      expect(updated.startDate).toBe('2030-12-23T14:00:00.000Z');
+      expect(updated.endDate).toBe('2030-12-23T15:00:00.000Z');
+      expect(updated.notes).toBe('First visit');
+      expect(updated.rescheduleHistory).toHaveLength(1);
+      expect(updated.rescheduleHistory[0].startDate).toBe('2030-12-23T10:00:00.000Z');
+      expect(updated.rescheduleHistory[0].rescheduledBy).toBe(clientUser._id.toString());
+      expect(updated.rescheduleHistory[0].reason).toBe('Running late');
+    });
+
+    it('should allow moving within its own current time', async () => {
+      await reschedule(reservation._id.toString(), {
+        startDate: '2030-12-23T10:30:00.000Z',
+      }).expect(200);
+    });
+
+    it('should fail when the new time is already booked', async () => {
+      await Reservation.create({
+        user: clientUser._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate: new Date('2030-12-23T14:00:00.000Z'),
+        endDate: new Date('2030-12-23T15:00:00.000Z'),
+      });
+
+      await reschedule(reservation._id.toString(), {
+        startDate: '2030-12-23T14:30:00.000Z',
+      }).expect(409);
+
+      const unchanged = await Reservation.findById(reservation._id);
+      expect(unchanged?.startDate.toISOString()).toBe('2030-12-23T10:00:00.000Z');
+      expect(unchanged?.rescheduleHistory).toHaveLength(0);
+    });
+
+    it('should fail outside the business opening hours', async () => {
+      business.schedule = [{ day: 'monday', openTime: '09:00', closeTime: '18:00', isOpen: true }];
+      await business.save();
+
+      const response = await reschedule(reservation._id.toString(), {
+        startDate: '2030-12-23T17:30:00.000Z',
+      }).expect(400);
+
+      expect(response.body.message).toContain('not available');
+    });
+
+    it('should not reschedule a cancelled reservation', async () => {
+      reservation.status = 'cancelled';
+      await reservation.save();
+
+      await reschedule(reservation._id.toString(), {
+        startDate: '2030-12-23T14:00:00.000Z',
+      }).expect(409);
+    });
+
+    it('should fail for another client', async () => {
+      const otherUser = await User.create({
+        name: 'Other User',
+        email: 'other-reschedule@test.com',
+        password: await hashPassword('password123'),
+        role: 'client',
+      });
+      const otherToken = generateAccessToken({
+        userId: otherUser._id,
+        email: otherUser.email,
+        role: otherUser.role,
+      });
+
+      await reschedule(
+        reservation._id.toString(),
+        { startDate: '2030-12-23T14:00:00.000Z' },
+        otherToken
+      ).expect(403);
+    });
+
+    it('should require a valid start date', async () => {
+      await reschedule(reservation._id.toString(), { startDate: 'tomorrow' }).expect(400);
+    });
+  });
+
+  describe('Recurring series', () => {
+    const createSeries = (data: Record<string, unknown>) =>
+      request(app)
+        .post('/api/reservations/series')
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({
+          business: business._id.toString(),
+          specialist: specialist._id.toString(),
+          service: service._id.toString(),
+          startDate: '2030-12-02T10:00:00.000Z',
+          frequency: 'weekly',
+          ...data,
+        });
+
+    it('should book every occurrence and report conflicts', async () => {
+      await Reservation.create({
+        user: clientUser._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate: new Date('2030-12-16T10:30:00.000Z'),
+        endDate: new Date('2030-12-16T11:30:00.000Z'),
+      });
+
+      const response = await createSeries({ count: 4, notes: 'Knee therapy' }).expect(201);
+
+      const { series, reservations, conflicts } = response.body.data;
+      expect(series.frequency).toBe('weekly');
+      expect(reservations.map((r: any) => r.startDate)).toEqual([
+        '2030-12-02T10:00:00.000Z',
+        '2030-12-09T10:00:00.000Z',
+        '2030-12-23T10:00:00.000Z',
+      ]);
+      expect(reservations.map((r: any) => r.seriesIndex)).toEqual([0, 1, 3]);
+      expect(reservations[0].series).toBe(series._id);
+      expect(reservations[0].notes).toBe('Knee therapy');
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].startDate).toBe('2030-12-16T10:00:00.000Z');
+      expect(conflicts[0].reason).toContain('already booked');
+    });
+
+    it('should stop at the until date', async () => {
+      const response = await createSeries({ frequency: 'biweekly', until: '2030-12-23' }).expect(
+        201
+      );
+
+      expect(response.body.data.reservations).toHaveLength(2);
+      expect(response.body.data.reservations[1].startDate).toBe('2030-12-16T10:00:00.000Z');
+    });
+
+    it('should require a count or an until date', async () => {
+      await createSeries({}).expect(400);
+    });
+
+    it('should fail when no occurrence is available', async () => {
+      business.schedule = [{ day: 'monday', openTime: '12:00', closeTime: '18:00', isOpen: true }];
+      await business.save();
+
+      await createSeries({ count: 3 }).expect(409);
+      expect(await ReservationSeries.countDocuments()).toBe(0);
+    });
+
+    it('should not keep any occurrence when one fails for another reason', async () => {
+      const quote = pricingService.quote.bind(pricingService);
+      let calls = 0;
+      const spy = jest.spyOn(pricingService, 'quote').mockImplementation(async (...args) => {
+        calls += 1;
+        if (calls === 3) {
+          throw new Error('Pricing unavailable');
+        }
+        return quote(...args);
+      });
+
+      try {
+        await createSeries({ count: 4 }).expect(500);
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(await Reservation.countDocuments()).toBe(0);
+      expect(await ReservationSeries.countDocuments()).toBe(0);
+    });
+
+    it('should get the series with its occurrences', async () => {
+      const created = await createSeries({ count: 3 }).expect(201);
+
+      const response = await request(app)
+        .get(`/api/reservations/series/${created.body.data.series._id}`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .expect(200);
+
+      expect(response.body.data.reservations).toHaveLength(3);
+    });
+
+    it('should cancel one occurrence or the rest of the series', async () => {
+      const created = await createSeries({ count: 4 }).expect(201);
+      const [first, second] = created.body.data.reservations;
+
+      await request(app)
+        .put(`/api/reservations/${first._id}/status`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ status: 'cancelled' })
+        .expect(200);
+
+      await request(app)
+        .put(`/api/reservations/${second._id}/status`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ status: 'cancelled', scope: 'following', cancellationReason: 'Treatment ended' })
+        .expect(200);
+
+      const occurrences = await Reservation.find({ series: created.body.data.series._id }).sort({
+        seriesIndex: 1,
+      });
+      expect(occurrences.map((r: any) => r.status)).toEqual([
+        'cancelled',
+        'cancelled',
+        'cancelled',
+        'cancelled',
+      ]);
+      expect(occurrences[3].cancellationReason).toBe('Treatment ended');
+    });
+
+    it('should only apply cancellations to the following occurrences', async () => {
+      const created = await createSeries({ count: 2 }).expect(201);
+
+      await request(app)
+        .put(`/api/reservations/${created.body.data.reservations[0]._id}/status`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ status: 'confirmed', scope: 'following' })
+        .expect(400);
+    });
+
+    it('should reschedule the rest of the series by the same amount', async () => {
+      const created = await createSeries({ count: 3 }).expect(201);
+      const [first, second] = created.body.data.reservations;
+
+      await request(app)
+        .put(`/api/reservations/${second._id}/reschedule`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ startDate: '2030-12-09T14:00:00.000Z', scope: 'following' })
+        .expect(200);
+
+      const occurrences = await Reservation.find({ series: created.body.data.series._id }).sort({
+        seriesIndex: 1,
+      });
+      expect(occurrences.map((r: any) => r.startDate.toISOString())).toEqual([
+        first.startDate,
+        '2030-12-09T14:00:00.000Z',
+        '2030-12-16T14:00:00.000Z',
+      ]);
+      expect(occurrences[2].rescheduleHistory).toHaveLength(1);
+    });
+
+    it('should not move any occurrence when one of them conflicts', async () => {
+      const created = await createSeries({ count: 3 }).expect(201);
+
+      await Reservation.create({
+        user: clientUser._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate: new Date('2030-12-16T14:00:00.000Z'),
+        endDate: new Date('2030-12-16T15:00:00.000Z'),
+      });
+
+      const response = await request(app)
+        .put(`/api/reservations/${created.body.data.reservations[0]._id}/reschedule`)
+        .set('Authorization', `Bearer ${clientToken}`)
+        .send({ startDate: '2030-12-02T14:00:00.000Z', scope: 'following' })
+        .expect(409);
+
+      expect(response.body.message).toContain('2030-12-16T10:00:00.000Z');
+
+      const occurrences = await Reservation.find({ series: created.body.data.series._id });
+      expect(occurrences.every((r: any) => r.rescheduleHistory.length === 0)).toBe(true);
+    });
   });
 
   describe('GET /api/reservations/availability', () => {
@@ -0,0 +1,249 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { Resource } from '../../../src/models/Resource.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Resource Integration Tests', () => {
+  let app: Express;
+  let business: any;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+  let clientToken: string;
+  let firstSpecialist: any;
+  let secondSpecialist: any;
+
+  // Monday
+  const date = '2030-12-02';
+  const slotStart = '2030-12-02T10:00:00.000Z';
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const createSpecialist = async (email: string) => {
+    const { user } = await createUser('Specialist', email, 'specialist');
+    return Specialist.create({
+      user: user._id,
+      business: business._id,
+      specialty: 'Physiotherapy',
+      availability: [{ day: 'monday', startTime: '09:00', endTime: '17:00', isAvailable: true }],
+      isActive: true,
+    });
+  };
+
+  const createResource = (data: Record<string, unknown> = {}) =>
+    request(app)
+      .post(`/api/businesses/${business._id}/resources`)
+      .set('Authorization', `Bearer ${ownerToken}`)
+      .send({ name: 'Room 1', type: 'room', ...data });
+
+  const book = (specialist: any, service: any) =>
+    request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+      business: business._id.toString(),
+      specialist: specialist._id.toString(),
+      service: service._id.toString(),
+      startDate: slotStart,
+    });
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const { user: owner, token } = await createUser('Owner', 'owner@test.com', 'owner');
+    ownerToken = token;
+    ({ token: otherOwnerToken } = await createUser('Other Owner', 'other@test.com', 'owner'));
+    ({ token: clientToken } = await createUser('Client', 'client@test.com', 'client'));
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    firstSpecialist = await createSpecialist('first@test.com');
+    secondSpecialist = await createSpecialist('second@test.com');
+  });
+
+  describe('POST /api/businesses/:businessId/resources', () => {
+    it('should create a resource', async () => {
+      const response = await createResource({ description: 'Treatment room' }).expect(201);
+
+      expect(response.body.data.resource.name).toBe('Room 1');
+      expect(response.body.data.resource.type).toBe('room');
+      expect(response.body.data.resource.isActive).toBe(true);
+    });
+
+    it('should reject an unknown type', async () => {
+      await createResource({ type: 'vehicle' }).expect(400);
+    });
+
+    it('should not create resources for another business', async () => {
+      await request(app)
+        .post(`/api/businesses/${business._id}/resources`)
+        .set('Authorization', `Bearer ${otherOwnerToken}`)
+        .send({ name: 'Room 1', type: 'room' })
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/businesses/:businessId/resources', () => {
+    it('should list the resources of the business', async () => {
+      await createResource({ name: 'Ultrasound', type: 'equipment' }).expect(201);
+      await createResource().expect(201);
+
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/resources`)
+        .expect(200);
+
+      expect(response.body.results).toBe(2);
+      expect(response.body.data.resources[0].name).toBe('Ultrasound');
+    });
+  });
+
+  describe('PUT and DELETE /api/businesses/:businessId/resources/:resourceId', () => {
+    it('should update a resource', async () => {
+      const created = await createResource().expect(201);
+
+      const response = await request(app)
+        .put(`/api/businesses/${business._id}/resources/${created.body.data.resource._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Room A', isActive: false })
+        .expect(200);
+
+      expect(response.body.data.resource.name).toBe('Room A');
+      expect(response.body.data.resource.type).toBe('room');
+      expect(response.body.data.resource.isActive).toBe(false);
+    });
+
+    it('should stop services requiring a deleted resource', async () => {
+      const created = await createResource().expect(201);
+      const resourceId = created.body.data.resource._id;
+      const service = await Service.create({
+        business: business._id,
+        name: 'Therapy',
+        duration: 60,
+        price: 50,
+        requiredResources: [resourceId],
+      });
+
+      await request(app)
+        .delete(`/api/businesses/${business._id}/resources/${resourceId}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      expect(await Resource.countDocuments()).toBe(0);
+      const updated = await Service.findById(service._id);
+      expect(updated?.requiredResources).toHaveLength(0);
+    });
+
+    it('should return 404 for a missing resource', async () => {
+      await request(app)
+        .delete(`/api/businesses/${business._id}/resources/507f1f77bcf86cd799439011`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Services requiring resources', () => {
+    it('should create a service requiring a resource', async () => {
+      const created = await createResource().expect(201);
+
+      const response = await request(app)
+        .post(`/api/businesses/${business._id}/services`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({
+          name: 'Therapy',
+          duration: 60,
+          price: 50,
+          requiredResources: [created.body.data.resource._id],
+        })
+        .expect(201);
+
+      expect(response.body.data.service.requiredResources).toEqual([
+        created.body.data.resource._id,
+      ]);
+    });
+
+    it('should reject a resource of another business', async () => {
+      const otherBusiness = await Business.create({ name: 'Other', user: business.user });
+      const foreign = await Resource.create({
+        business: otherBusiness._id,
+        name: 'Room 9',
+        type: 'room',
+      });
+
+      const response = await request(app)
+        .post(`/api/businesses/${business._id}/services`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .send({ name: 'Therapy', duration: 60, price: 50, requiredResources: [foreign._id] })
+        .expect(400);
+
+      expect(response.body.message).toContain('active resources of this business');
+    });
+  });
+
+  describe('Booking shared resources', () => {
+    let service: any;
+
+    beforeEach(async () => {
+      const room = await Resource.create({ business: business._id, name: 'Room 1', type: 'room' });
+      service = await Service.create({
+        business: business._id,
+        name: 'Therapy',
+        duration: 60,
+        price: 50,
+        requiredResources: [room._id],
+      });
+    });
+
+    it('should store the resources on the reservation', async () => {
+      const response = await book(firstSpecialist, service).expect(201);
+
+      expect(response.body.data.reservation.resources).toEqual(
+        service.requiredResources.map((id: any) => id.toString())
+      );
+    });
+
+    it('should not book a room already used by another specialist', async () => {
+      await book(firstSpecialist, service).expect(201);
+
+      const response = await book(secondSpecialist, service).expect(409);
+      expect(response.body.message).toBe('A required resource is already booked at this time');
+    });
+
+    it('should not offer slots while the room is in use', async () => {
+      await book(firstSpecialist, service).expect(201);
+
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/specialists/${secondSpecialist._id}/available-slots`)
+        .query({ date, serviceId: service._id.toString() })
+        .expect(200);
+
+      const starts = response.body.data.availableSlots.map(
+        (slot: { startTime: string }) => slot.startTime
+      );
+      expect(response.body.data.totalSlots).toBe(7);
+      expect(starts).not.toContain(slotStart);
+    });
+
+    it('should book services without resources in parallel', async () => {
+      const consultation = await Service.create({
+        business: business._id,
+        name: 'Consultation',
+        duration: 60,
+        price: 40,
+      });
+
+      await book(firstSpecialist, service).expect(201);
+      await book(secondSpecialist, consultation).expect(201);
+    });
+  });
+});
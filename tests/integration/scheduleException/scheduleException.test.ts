@@ -0,0 +1,365 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { ScheduleException } from '../../../src/models/ScheduleException.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Schedule Exception Integration Tests', () => {
+  let app: Express;
+  let ownerToken: string;
+  let otherOwnerToken: string;
+  let clientToken: string;
+  let business: any;
+  let specialist: any;
+  let otherSpecialist: any;
+  let service: any;
+
+  // Monday, both specialists work 09:00-17:00 UTC
+  const monday = '2030-12-23';
+
+  const getSlots = (specialistId: string, date = monday) =>
+    request(app)
+      .get(`/api/businesses/${business._id}/specialists/${specialistId}/available-slots`)
+      .query({ date, serviceId: service._id.toString() });
+
+  const createException = (data: Record<string, unknown>, token = ownerToken) =>
+    request(app)
+      .post(`/api/businesses/${business._id}/schedule-exceptions`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(data);
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const owner = await User.create({
+      name: 'Owner',
+      email: 'owner-exceptions@test.com',
+      password: await hashPassword('password123'),
+      role: 'owner',
+    });
+    ownerToken = generateAccessToken({
+      userId: owner._id,
+      email: owner.email,
+      role: owner.role,
+    });
+
+    const otherOwner = await User.create({
+      name: 'Other Owner',
+      email: 'other-owner-exceptions@test.com',
+      password: await hashPassword('password123'),
+      role: 'owner',
+    });
+    otherOwnerToken = generateAccessToken({
+      userId: otherOwner._id,
+      email: otherOwner.email,
+      role: otherOwner.role,
+    });
+
+    const client = await User.create({
+      name: 'Client',
+      email: 'client-exceptions@test.com',
+      password: await hashPassword('password123'),
+      role: 'client',
+    });
+    clientToken = generateAccessToken({
+      userId: client._id,
+      email: client.email,
+      role: client.role,
+    });
+
+    business = await Business.create({
+      name: 'Exceptions Clinic',
+      user: owner._id,
+    });
+
+    service = await Service.create({
+      business: business._id,
+      name: 'Consultation',
+      duration: 60,
+      price: 50,
+      isActive: true,
+    });
+
+    const availability = [
+      { day: 'monday', startTime: '09:00', endTime: '17:00', isAvailable: true },
+    ];
+
+    const specialistUser = await User.create({
+      name: 'Specialist',
+      email: 'specialist-exceptions@test.com',
+      password: await hashPassword('password123'),
+      role: 'specialist',
+    });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      availability,
+      isActive: true,
+    });
+
+    const otherSpecialistUser = await User.create({
+      name: 'Other Specialist',
+      email: 'other-specialist-exceptions@test.com',
+      password: await hashPassword('password123'),
+      role: 'specialist',
+    });
+    otherSpecialist = await Specialist.create({
+      user: otherSpecialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      availability,
+      isActive: true,
+    });
+  });
+
+  describe('POST /api/businesses/:businessId/schedule-exceptions', () => {
+    it('should create a specialist time-off exception', async () => {
+      const response = await createException({
+        type: 'closed',
+        specialist: specialist._id.toString(),
+        startDate: '2030-12-23',
+        endDate: '2030-12-27',
+        reason: 'Vacation',
+      }).expect(201);
+
+      expect(response.body.status).toBe('success');
+      expect(response.body.data.exception.type).toBe('closed');
+      expect(response.body.data.exception.endDate).toBe('2030-12-27');
+    });
+
+    it('should default the end date to the start date', async () => {
+      const response = await createException({ type: 'closed', startDate: monday }).expect(201);
+
+      expect(response.body.data.exception.endDate).toBe(monday);
+      expect(response.body.data.exception.specialist).toBeUndefined();
+    });
+
+    it('should require times for custom hours', async () => {
+      await createException({ type: 'custom_hours', startDate: monday }).expect(400);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      await createException({
+        type: 'closed',
+        startDate: '2030-12-23',
+        endDate: '2030-12-20',
+      }).expect(400);
+    });
+
+    it('should reject a specialist from another business', async () => {
+      const foreignBusiness = await Business.create({
+        name: 'Foreign Clinic',
+        user: specialist.user,
+      });
+      const foreignSpecialist = await Specialist.create({
+        user: specialist.user,
+        business: foreignBusiness._id,
+        specialty: 'General',
+      });
+
+      const response = await createException({
+        type: 'closed',
+        specialist: foreignSpecialist._id.toString(),
+        startDate: monday,
+      }).expect(400);
+
+      expect(response.body.message).toContain('does not belong');
+    });
+
+    it('should only allow the business owner', async () => {
+      await createException({ type: 'closed', startDate: monday }, otherOwnerToken).expect(403);
+      await createException({ type: 'closed', startDate: monday }, clientToken).expect(403);
+    });
+  });
+
+  describe('GET /api/businesses/:businessId/schedule-exceptions', () => {
+    beforeEach(async () => {
+      await ScheduleException.create([
+        { business: business._id, type: 'closed', startDate: '2030-01-01', recurringYearly: true },
+        {
+          business: business._id,
+          specialist: specialist._id,
+          type: 'closed',
+          startDate: '2030-12-23',
+        },
+        {
+          business: business._id,
+          specialist: otherSpecialist._id,
+          type: 'closed',
+          startDate: '2030-12-23',
+        },
+        {
+          business: business._id,
+          specialist: specialist._id,
+          type: 'closed',
+          startDate: '2030-06-10',
+        },
+      ]);
+    });
+
+    it('should include business-wide exceptions when filtering by specialist', async () => {
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/schedule-exceptions`)
+        .query({ specialist: specialist._id.toString() })
+        .expect(200);
+
+      expect(response.body.data.exceptions).toHaveLength(3);
+    });
+
+    it('should filter by date range and keep yearly exceptions', async () => {
+      const response = await request(app)
+        .get(`/api/businesses/${business._id}/schedule-exceptions`)
+        .query({ specialist: specialist._id.toString(), from: '2030-12-01', to: '2030-12-31' })
+        .expect(200);
+
+      const dates = response.body.data.exceptions.map((e: any) => e.startDate);
+      expect(dates).toEqual(['2030-01-01', '2030-12-23']);
+    });
+  });
+
+  describe('DELETE /api/businesses/:businessId/schedule-exceptions/:exceptionId', () => {
+    it('should delete an exception and restore availability', async () => {
+      const exception = await ScheduleException.create({
+        business: business._id,
+        type: 'closed',
+        startDate: monday,
+      });
+
+      await request(app)
+        .delete(`/api/businesses/${business._id}/schedule-exceptions/${exception._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(200);
+
+      const response = await getSlots(specialist._id.toString()).expect(200);
+      expect(response.body.data.totalSlots).toBe(8);
+    });
+
+    it('should return 404 for an unknown exception', async () => {
+      await request(app)
+        .delete(`/api/businesses/${business._id}/schedule-exceptions/${specialist._id}`)
+        .set('Authorization', `Bearer ${ownerToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Effect on availability', () => {
+    it('should remove every slot on a specialist day off', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        specialist: specialist._id,
+        type: 'closed',
+        startDate: '2030-12-20',
+        endDate: '2030-12-27',
+      });
+
+      const response = await getSlots(specialist._id.toString()).expect(200);
+      expect(response.body.data.totalSlots).toBe(0);
+
+      // Other specialists keep their hours
+      const other = await getSlots(otherSpecialist._id.toString()).expect(200);
+      expect(other.body.data.totalSlots).toBe(8);
+    });
+
+    it('should close every specialist on a yearly business holiday', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        type: 'closed',
+        startDate: '2020-12-23',
+        recurringYearly: true,
+        reason: 'Holiday',
+      });
+
+      const response = await getSlots(otherSpecialist._id.toString()).expect(200);
+      expect(response.body.data.totalSlots).toBe(0);
+
+      // The following Monday is unaffected
+      const nextWeek = await getSlots(otherSpecialist._id.toString(), '2030-12-30').expect(200);
+      expect(nextWeek.body.data.totalSlots).toBe(8);
+    });
+
+    it('should replace specialist hours with custom hours', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        specialist: specialist._id,
+        type: 'custom_hours',
+        startDate: monday,
+        startTime: '13:00',
+        endTime: '19:00',
+      });
+
+      const response = await getSlots(specialist._id.toString()).expect(200);
+      expect(response.body.data.totalSlots).toBe(6);
+      expect(response.body.data.availableSlots[0].startTime).toBe('2030-12-23T13:00:00.000Z');
+    });
+
+    it('should cap specialist hours with business custom hours', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        type: 'custom_hours',
+        startDate: monday,
+        startTime: '08:00',
+        endTime: '12:00',
+      });
+
+      const response = await getSlots(specialist._id.toString()).expect(200);
+      expect(response.body.data.totalSlots).toBe(3);
+      expect(response.body.data.availableSlots[2].endTime).toBe('2030-12-23T12:00:00.000Z');
+    });
+
+    it('should open a day outside the weekly template with custom hours', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        specialist: specialist._id,
+        type: 'custom_hours',
+        startDate: '2030-12-28', // Saturday
+        startTime: '10:00',
+        endTime: '12:00',
+      });
+
+      const response = await getSlots(specialist._id.toString(), '2030-12-28').expect(200);
+      expect(response.body.data.totalSlots).toBe(2);
+    });
+  });
+
+  describe('Effect on reservations', () => {
+    const book = (startDate: string) =>
+      request(app).post('/api/reservations').set('Authorization', `Bearer ${clientToken}`).send({
+        business: business._id.toString(),
+        specialist: specialist._id.toString(),
+        service: service._id.toString(),
+        startDate,
+      });
+
+    it('should reject bookings on a closed day', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        specialist: specialist._id,
+        type: 'closed',
+        startDate: monday,
+      });
+
+      const response = await book('2030-12-23T10:00:00.000Z').expect(400);
+      expect(response.body.message).toContain('not available');
+    });
+
+    it('should only accept bookings inside custom hours', async () => {
+      await ScheduleException.create({
+        business: business._id,
+        type: 'custom_hours',
+        startDate: monday,
+        startTime: '09:00',
+        endTime: '12:00',
+      });
+
+      await book('2030-12-23T11:30:00.000Z').expect(400);
+      await book('2030-12-23T11:00:00.000Z').expect(201);
+    });
+  });
+});
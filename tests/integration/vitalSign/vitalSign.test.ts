@@ -0,0 +1,154 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { ClinicalRecord } from '../../../src/models/ClinicalRecord.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Vital Signs Integration Tests', () => {
+  let app: Express;
+  let patient: any;
+  let patientToken: string;
+  let specialistToken: string;
+  let otherClientToken: string;
+  let business: any;
+  let specialist: any;
+
+  const createUser = async (name: string, email: string, role: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role,
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const createRecord = (createdAt: string, vitalSigns: Record<string, unknown>) =>
+    ClinicalRecord.create({
+      user: patient._id,
+      specialist: specialist._id,
+      business: business._id,
+      diagnosis: 'Checkup',
+      treatment: 'None',
+      createdAt: new Date(createdAt),
+      ...vitalSigns,
+    });
+
+  const getVitalSigns = (token = specialistToken, query: Record<string, string> = {}) =>
+    request(app)
+      .get(`/api/businesses/${business._id}/patients/${patient._id}/vital-signs`)
+      .query(query)
+      .set('Authorization', `Bearer ${token}`);
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    ({ user: patient, token: patientToken } = await createUser(
+      'Patient',
+      'patient@test.com',
+      'client'
+    ));
+    ({ token: otherClientToken } = await createUser('Other', 'other@test.com', 'client'));
+    const { user: specialistUser, token } = await createUser(
+      'Specialist',
+      'specialist@test.com',
+      'specialist'
+    );
+    specialistToken = token;
+    const { user: owner } = await createUser('Owner', 'owner@test.com', 'owner');
+
+    business = await Business.create({ name: 'Test Clinic', user: owner._id });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+    });
+
+    await createRecord('2030-11-04T10:00:00.000Z', {
+      weight: 80,
+      height: 170,
+      bloodPressure: '150/95',
+      heartRate: 72,
+    });
+    await createRecord('2030-12-02T10:00:00.000Z', {
+      weight: 78,
+      bmi: 27,
+      bloodPressure: '128/82',
+      temperature: 38.2,
+    });
+  });
+
+  it('should return each vital sign as a time series', async () => {
+    const response = await getVitalSigns().expect(200);
+
+    const { series, trends } = response.body.data;
+    expect(series.weight.map((point: any) => point.value)).toEqual([80, 78]);
+    expect(series.height).toHaveLength(1);
+    expect(series.bmi.map((point: any) => point.value)).toEqual([27.68, 27]);
+    expect(series.systolic.map((point: any) => point.value)).toEqual([150, 128]);
+    expect(series.diastolic.map((point: any) => point.value)).toEqual([95, 82]);
+    expect(trends.weight).toMatchObject({ count: 2, latest: 78, change: -2, average: 79 });
+    expect(trends.heartRate.count).toBe(1);
+  });
+
+  it('should flag values outside the default thresholds', async () => {
+    const response = await getVitalSigns().expect(200);
+
+    const { series, trends } = response.body.data;
+    expect(series.systolic[0].flag).toBe('high');
+    expect(series.systolic[1].flag).toBeUndefined();
+    expect(series.temperature[0].flag).toBe('high');
+    expect(trends.diastolic.flagged).toBe(1);
+  });
+
+  it('should use the thresholds of the business', async () => {
+    business.vitalSignThresholds = { systolic: { max: 125 }, heartRate: { min: 75 } };
+    await business.save();
+
+    const response = await getVitalSigns().expect(200);
+
+    const { series, thresholds } = response.body.data;
+    expect(thresholds.systolic).toEqual({ min: 90, max: 125 });
+    expect(series.systolic[1].flag).toBe('high');
+    expect(series.heartRate[0].flag).toBe('low');
+  });
+
+  it('should filter by date range', async () => {
+    const response = await getVitalSigns(specialistToken, {
+      from: '2030-12-01',
+      to: '2030-12-31',
+    }).expect(200);
+
+    expect(response.body.data.series.weight).toHaveLength(1);
+    expect(response.body.data.series.weight[0].value).toBe(78);
+  });
+
+  it('should leave out deleted records', async () => {
+    await ClinicalRecord.updateMany(
+      { weight: 80 },
+      { deletedAt: new Date(), deletionReason: 'Wrong patient' }
+    );
+
+    const response = await getVitalSigns().expect(200);
+
+    expect(response.body.data.series.weight).toHaveLength(1);
+  });
+
+  it('should let the patient view their vital signs', async () => {
+    await getVitalSigns(patientToken).expect(200);
+  });
+
+  it('should not show the vital signs to other clients', async () => {
+    await getVitalSigns(otherClientToken).expect(403);
+  });
+
+  it('should reject invalid dates', async () => {
+    await getVitalSigns(specialistToken, { from: 'yesterday' }).expect(400);
+  });
+});
@@ -0,0 +1,272 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+import { User } from '../../../src/models/User.js';
+import { Business } from '../../../src/models/Business.js';
+import { Specialist } from '../../../src/models/Specialist.js';
+import { Service } from '../../../src/models/Service.js';
+import { SlotHold } from '../../../src/models/SlotHold.js';
+import { WaitlistEntry } from '../../../src/models/WaitlistEntry.js';
+import { waitlistService } from '../../../src/services/waitlistService.js';
+import { generateAccessToken } from '../../../src/utils/jwt.js';
+import { hashPassword } from '../../../src/utils/password.js';
+import { createTestApp } from '../../setup.js';
+
+describe('Waitlist Integration Tests', () => {
+  let app: Express;
+  let business: any;
+  let specialist: any;
+  let service: any;
+  let bookerToken: string;
+  let firstWaiter: any;
+  let firstWaiterToken: string;
+  let secondWaiter: any;
+  let secondWaiterToken: string;
+
+  const slotStart = '2030-12-02T10:00:00.000Z';
+
+  const createClient = async (name: string, email: string) => {
+    const user = await User.create({
+      name,
+      email,
+      password: await hashPassword('password123'),
+      role: 'client',
+    });
+    const token = generateAccessToken({ userId: user._id, email: user.email, role: user.role });
+    return { user, token };
+  };
+
+  const joinWaitlist = (token: string, data: Record<string, unknown> = {}) =>
+    request(app)
+      .post('/api/waitlist')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        business: business._id.toString(),
+        specialist: specialist._id.toString(),
+        service: service._id.toString(),
+        fromDate: '2030-12-01',
+        toDate: '2030-12-03',
+        ...data,
+      });
+
+  const book = (token: string) =>
+    request(app).post('/api/reservations').set('Authorization', `Bearer ${token}`).send({
+      business: business._id.toString(),
+      specialist: specialist._id.toString(),
+      service: service._id.toString(),
+      startDate: slotStart,
+    });
+
+  // Books the slot and cancels it, freeing it for the waitlist
+  const freeSlot = async () => {
+    const booked = await book(bookerToken).expect(201);
+    await request(app)
+      .put(`/api/reservations/${booked.body.data.reservation._id}/status`)
+      .set('Authorization', `Bearer ${bookerToken}`)
+      .send({ status: 'cancelled' })
+      .expect(200);
+  };
+
+  beforeEach(async () => {
+    app = createTestApp();
+
+    const owner = await User.create({
+      name: 'Owner User',
+      email: 'owner@test.com',
+      password: await hashPassword('password123'),
+      role: 'owner',
+    });
+    const specialistUser = await User.create({
+      name: 'Specialist User',
+      email: 'specialist@test.com',
+      password: await hashPassword('password123'),
+      role: 'specialist',
+    });
+
+    business = await Business.create({ name: 'Test Business', user: owner._id });
+    specialist = await Specialist.create({
+      user: specialistUser._id,
+      business: business._id,
+      specialty: 'General',
+      isActive: true,
+    });
+    service = await Service.create({
+      business: business._id,
+      name: 'Test Service',
+      duration: 60,
+      price: 100,
+      isActive: true,
+    });
+
+    ({ token: bookerToken } = await createClient('Booker', 'booker@test.com'));
+    ({ user: firstWaiter, token: firstWaiterToken } = await createClient(
+      'First Waiter',
+      'first@test.com'
+    ));
+    ({ user: secondWaiter, token: secondWaiterToken } = await createClient(
+      'Second Waiter',
+      'second@test.com'
+    ));
+  });
+
+  describe('POST /api/waitlist', () => {
+    it('should join the waitlist', async () => {
+      const response = await joinWaitlist(firstWaiterToken, { notes: 'Mornings' }).expect(201);
+
+      expect(response.body.data.entry.status).toBe('waiting');
+      expect(response.body.data.entry.notes).toBe('Mornings');
+    });
+
+    it('should reject a duplicate entry', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await joinWaitlist(firstWaiterToken).expect(409);
+    });
+
+    it('should reject a date range ending before it starts', async () => {
+      await joinWaitlist(firstWaiterToken, { fromDate: '2030-12-05', toDate: '2030-12-01' }).expect(
+        400
+      );
+    });
+
+    it('should fail without authentication', async () => {
+      await request(app).post('/api/waitlist').send({}).expect(401);
+    });
+  });
+
+  describe('Offers for cancelled reservations', () => {
+    it('should hold the freed slot for the first matching client', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await joinWaitlist(secondWaiterToken).expect(201);
+      await joinWaitlist(bookerToken, { fromDate: '2030-12-05', toDate: '2030-12-06' }).expect(201);
+
+      await freeSlot();
+
+      const offered = await WaitlistEntry.find({ status: 'offered' });
+      expect(offered).toHaveLength(1);
+      expect(offered[0].user.toString()).toBe(firstWaiter._id.toString());
+      expect(offered[0].offer.startDate.toISOString()).toBe(slotStart);
+      expect(offered[0].offer.expiresAt.getTime()).toBeGreaterThan(Date.now());
+
+      const hold = await SlotHold.findById(offered[0].hold);
+      expect(hold?.user.toString()).toBe(firstWaiter._id.toString());
+    });
+
+    it('should keep the held slot from other clients', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await freeSlot();
+
+      const response = await book(secondWaiterToken).expect(409);
+      expect(response.body.message).toContain('held');
+    });
+
+    it('should let the offered client claim the slot', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await freeSlot();
+
+      const response = await book(firstWaiterToken).expect(201);
+
+      const entry = await WaitlistEntry.findOne({ user: firstWaiter._id });
+      expect(entry.status).toBe('booked');
+      expect(entry.reservation.toString()).toBe(response.body.data.reservation._id);
+      expect(await SlotHold.countDocuments()).toBe(0);
+    });
+
+    it('should pass an unclaimed offer to the next client', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await joinWaitlist(secondWaiterToken).expect(201);
+      await freeSlot();
+
+      const expired = new Date(Date.now() - 1000);
+      await WaitlistEntry.updateMany({ status: 'offered' }, { 'offer.expiresAt': expired });
+      await SlotHold.updateMany({}, { expiresAt: expired });
+
+      expect(await waitlistService.processExpiredOffers()).toBe(1);
+
+      const first = await WaitlistEntry.findOne({ user: firstWaiter._id });
+      const second = await WaitlistEntry.findOne({ user: secondWaiter._id });
+      expect(first.status).toBe('expired');
+      expect(second.status).toBe('offered');
+
+      await book(secondWaiterToken).expect(201);
+    });
+
+    it('should not offer a slot that was taken in the meantime', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await book(secondWaiterToken).expect(201);
+
+      const [entry] = await WaitlistEntry.find();
+      entry.status = 'offered';
+      entry.offer = {
+        startDate: new Date(slotStart),
+        endDate: new Date('2030-12-02T11:00:00.000Z'),
+        expiresAt: new Date(Date.now() - 1000),
+      };
+      await entry.save();
+      await joinWaitlist(bookerToken).expect(201);
+
+      await waitlistService.processExpiredOffers();
+
+      expect(await WaitlistEntry.countDocuments({ status: 'offered' })).toBe(0);
+    });
+  });
+
+  describe('GET /api/waitlist', () => {
+    it('should list my entries', async () => {
+      await joinWaitlist(firstWaiterToken).expect(201);
+      await joinWaitlist(secondWaiterToken).expect(201);
+
+      const response = await request(app)
+        .get('/api/waitlist')
+        .set('Authorization', `Bearer ${firstWaiterToken}`)
+        .expect(200);
+
+      expect(response.body.results).toBe(1);
+      expect(response.body.data.entries[0].service.name).toBe('Test Service');
+    });
+  });
+
+  describe('DELETE /api/waitlist/:id', () => {
+    it('should leave the waitlist', async () => {
+      const joined = await joinWaitlist(firstWaiterToken).expect(201);
+
+      const response = await request(app)
+        .delete(`/api/waitlist/${joined.body.data.entry._id}`)
+        .set('Authorization', `Bearer ${firstWaiterToken}`)
+        .expect(200);
+
+      expect(response.body.data.entry.status).toBe('cancelled');
+    });
+
+    it('should pass a declined offer to the next client', async () => {
+      const joined = await joinWaitlist(firstWaiterToken).expect(201);
+      await joinWaitlist(secondWaiterToken).expect(201);
+      await freeSlot();
+
+      await request(app)
+        .delete(`/api/waitlist/${joined.body.data.entry._id}`)
+        .set('Authorization', `Bearer ${firstWaiterToken}`)
+        .expect(200);
+
+      const second = await WaitlistEntry.findOne({ user: secondWaiter._id });
+      expect(second.status).toBe('offered');
+      expect(await SlotHold.countDocuments()).toBe(1);
+    });
+
+    it("should not leave another client's entry", async () => {
+      const joined = await joinWaitlist(firstWaiterToken).expect(201);
+
+      await request(app)
+        .delete(`/api/waitlist/${joined.body.data.entry._id}`)
+        .set('Authorization', `Bearer ${secondWaiterToken}`)
+        .expect(403);
+    });
+
+    it('should not leave an entry twice', async () => {
+      const joined = await joinWaitlist(firstWaiterToken).expect(201);
+      const url = `/api/waitlist/${joined.body.data.entry._id}`;
+
+      await request(app).delete(url).set('Authorization', `Bearer ${firstWaiterToken}`).expect(200);
+      await request(app).delete(url).set('Authorization', `Bearer ${firstWaiterToken}`).expect(409);
+    });
+  });
+});
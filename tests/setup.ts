@@ -10,6 +10,16 @@ import {
   uploadRoutes,
   serviceRoutes,
   specialistRoutes,
+  scheduleExceptionRoutes,
+  waitlistRoutes,
+  resourceRoutes,
+  analyticsRoutes,
+  paymentRoutes,
+  invoiceRoutes,
+  pricingRuleRoutes,
+  healthProfileRoutes,
+  vitalSignRoutes,
+  clinicalRecordTemplateRoutes,
 } from '../src/routes/index.js';
 import { errorHandler } from '../src/middleware/errorHandler.js';
 
@@ -22,10 +32,20 @@ export const createTestApp = (): Express => {
   app.use('/api/auth', authRoutes);
   app.use('/api/businesses', businessRoutes);
   app.use('/api/reservations', reservationRoutes);
+  app.use('/api/waitlist', waitlistRoutes);
+  app.use('/api/payments', paymentRoutes);
+  app.use('/api/invoices', invoiceRoutes);
   app.use('/api/clinical-records', clinicalRecordRoutes);
   app.use('/api/upload', uploadRoutes);
   app.use('/api/businesses/:businessId/services', serviceRoutes);
   app.use('/api/businesses/:businessId/specialists', specialistRoutes);
+  app.use('/api/businesses/:businessId/schedule-exceptions', scheduleExceptionRoutes);
+  app.use('/api/businesses/:businessId/resources', resourceRoutes);
+  app.use('/api/businesses/:businessId/analytics', analyticsRoutes);
+  app.use('/api/businesses/:businessId/pricing-rules', pricingRuleRoutes);
+  app.use('/api/businesses/:businessId/patients/:patientId/health-profile', healthProfileRoutes);
+  app.use('/api/businesses/:businessId/patients/:patientId/vital-signs', vitalSignRoutes);
+  app.use('/api/businesses/:businessId/clinical-record-templates', clinicalRecordTemplateRoutes);
   app.use(errorHandler);
   return app;
 };
@@ -1,5 +1,6 @@
 import { ClinicalRecordService } from '../../../src/services/clinicalRecordService';
 import { ClinicalRecord } from '../../../src/models/ClinicalRecord';
+import { ClinicalRecordRevision } from '../../../src/models/ClinicalRecordRevision';
 import { User } from '../../../src/models/User';
 import { Business } from '../../../src/models/Business';
 import { Specialist } from '../../../src/models/Specialist';
@@ -146,5 +147,175 @@ describe('ClinicalRecordService Tests', () => {
         )
       ).rejects.toThrow('Unauthorized');
     });
+
+    it('should store a revision with the changed fields', async () => {
+      const record = await ClinicalRecord.create({
+        user: user._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Initial',
+        treatment: 'Rest',
+        weight: 70,
+      });
+
+      const updated = await clinicalRecordService.updateClinicalRecord(
+        record._id.toString(),
+        specialistUser._id.toString(),
+        'specialist',
+        { diagnosis: 'Updated', treatment: 'Rest', weight: 72, diseases: ['Asthma'] }
+      );
+
+      expect(updated.version).toBe(2);
+      const revisions = await ClinicalRecordRevision.find({ clinicalRecord: record._id });
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0].version).toBe(2);
+      expect(revisions[0].author.toString()).toBe(specialistUser._id.toString());
+      expect(revisions[0].toObject().changes).toEqual([
+        { field: 'diagnosis', from: 'Initial', to: 'Updated' },
+        { field: 'weight', from: 70, to: 72 },
+        { field: 'diseases', from: [], to: ['Asthma'] },
+      ]);
+    });
+
+    it('should not store a revision when nothing changes', async () => {
+      const record = await ClinicalRecord.create({
+        user: user._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Initial',
+        treatment: 'Rest',
+      });
+
+      const updated = await clinicalRecordService.updateClinicalRecord(
+        record._id.toString(),
+        specialistUser._id.toString(),
+        'specialist',
+        { diagnosis: 'Initial' }
+      );
+
+      expect(updated.version).toBe(1);
+      expect(await ClinicalRecordRevision.countDocuments()).toBe(0);
+    });
+
+    it('should not keep the revision of an edit that could not be saved', async () => {
+      const record = await ClinicalRecord.create({
+        user: user._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Initial',
+        treatment: 'Rest',
+      });
+
+      const spy = jest
+        .spyOn(ClinicalRecord.prototype, 'save')
+        .mockRejectedValueOnce(new Error('Write failed'));
+      try {
+        await expect(
+          clinicalRecordService.updateClinicalRecord(
+            record._id.toString(),
+            specialistUser._id.toString(),
+            'specialist',
+            { diagnosis: 'Lost' }
+          )
+        ).rejects.toThrow('Write failed');
+      } finally {
+        spy.mockRestore();
+      }
+      expect(await ClinicalRecordRevision.countDocuments()).toBe(0);
+
+      // The next edit takes the version the failed one could not
+      const updated = await clinicalRecordService.updateClinicalRecord(
+        record._id.toString(),
+        specialistUser._id.toString(),
+        'specialist',
+        { diagnosis: 'Updated' }
+      );
+      expect(updated.version).toBe(2);
+      expect(await ClinicalRecordRevision.countDocuments({ version: 2 })).toBe(1);
+    });
+  });
+
+  describe('getClinicalRecordVersion', () => {
+    it('should rebuild the record as of a past version', async () => {
+      const record = await ClinicalRecord.create({
+        user: user._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'First',
+        treatment: 'Rest',
+      });
+      const specialistId = specialistUser._id.toString();
+
+      await clinicalRecordService.updateClinicalRecord(
+        record._id.toString(),
+        specialistId,
+        'specialist',
+        { diagnosis: 'Second', notes: 'Follow-up' }
+      );
+      await clinicalRecordService.updateClinicalRecord(
+        record._id.toString(),
+        specialistId,
+        'specialist',
+        { diagnosis: 'Third' }
+      );
+
+      const first = await clinicalRecordService.getClinicalRecordVersion(
+        record._id.toString(),
+        1,
+        specialistId,
+        'specialist'
+      );
+      expect(first).toMatchObject({ diagnosis: 'First', treatment: 'Rest', version: 1 });
+      expect(first).not.toMatchObject({ notes: 'Follow-up' });
+
+      const second = await clinicalRecordService.getClinicalRecordVersion(
+        record._id.toString(),
+        2,
+        user._id.toString(),
+        'client'
+      );
+      expect(second).toMatchObject({ diagnosis: 'Second', notes: 'Follow-up', version: 2 });
+
+      await expect(
+        clinicalRecordService.getClinicalRecordVersion(
+          record._id.toString(),
+          4,
+          specialistId,
+          'specialist'
+        )
+      ).rejects.toThrow('version not found');
+    });
+  });
+
+  describe('deleteClinicalRecord', () => {
+    it('should keep the record with the deletion reason', async () => {
+      const record = await ClinicalRecord.create({
+        user: user._id,
+        specialist: specialist._id,
+        business: business._id,
+        diagnosis: 'Test',
+        treatment: 'Test',
+      });
+
+      await clinicalRecordService.deleteClinicalRecord(
+        record._id.toString(),
+        specialistUser._id.toString(),
+        'specialist',
+        'Wrong patient'
+      );
+
+      const stored = await ClinicalRecord.findById(record._id);
+      expect(stored!.deletionReason).toBe('Wrong patient');
+      expect(stored!.deletedBy.toString()).toBe(specialistUser._id.toString());
+      expect(stored!.deletedAt).toBeInstanceOf(Date);
+
+      await expect(
+        clinicalRecordService.getClinicalRecordById(
+          record._id.toString(),
+          specialistUser._id.toString(),
+          'specialist'
+        )
+      ).rejects.toThrow('not found');
+    });
   });
 });
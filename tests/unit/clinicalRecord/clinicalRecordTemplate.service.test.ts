@@ -0,0 +1,84 @@
+import { validateTemplateAnswers } from '../../../src/services/clinicalRecordTemplateService';
+import type { IClinicalRecordTemplateField } from '../../../src/models/ClinicalRecordTemplate';
+
+const field = (
+  data: Pick<IClinicalRecordTemplateField, 'key' | 'type'> & Partial<IClinicalRecordTemplateField>
+): IClinicalRecordTemplateField => ({ label: data.key, required: false, options: [], ...data });
+
+describe('Clinical Record Template Service Tests', () => {
+  describe('validateTemplateAnswers', () => {
+    const fields = [
+      field({ key: 'summary', type: 'text', required: true }),
+      field({ key: 'systolic', type: 'number', unit: 'mmHg', min: 50, max: 250 }),
+      field({ key: 'smoker', type: 'boolean' }),
+      field({ key: 'onset', type: 'date' }),
+      field({ key: 'rhythm', type: 'select', options: ['regular', 'irregular'] }),
+      field({ key: 'symptoms', type: 'multiselect', options: ['palpitations', 'chest pain'] }),
+    ];
+
+    it('should return the answers in field order without the empty ones', () => {
+      const answers = validateTemplateAnswers(fields, {
+        symptoms: ['palpitations', 'palpitations'],
+        summary: ' Stable ',
+        smoker: false,
+        rhythm: 'regular',
+        onset: '',
+      });
+
+      expect(answers).toEqual({
+        summary: 'Stable',
+        smoker: false,
+        rhythm: 'regular',
+        symptoms: ['palpitations'],
+      });
+      expect(Object.keys(answers)).toEqual(['summary', 'smoker', 'rhythm', 'symptoms']);
+    });
+
+    it('should require the required fields', () => {
+      expect(() => validateTemplateAnswers(fields, { systolic: 120 })).toThrow(
+        'summary is required'
+      );
+      expect(() => validateTemplateAnswers(fields, { summary: '  ' })).toThrow(
+        'summary is required'
+      );
+    });
+
+    it('should reject keys that are not in the template', () => {
+      expect(() => validateTemplateAnswers(fields, { summary: 'Stable', weight: 70 })).toThrow(
+        'the template has no field weight'
+      );
+    });
+
+    it('should check the type of each answer', () => {
+      const check = (answers: Record<string, unknown>) => () =>
+        validateTemplateAnswers(fields, { summary: 'Stable', ...answers });
+
+      expect(check({ systolic: '120' })).toThrow('systolic must be a number');
+      expect(check({ smoker: 'no' })).toThrow('smoker must be true or false');
+      expect(check({ onset: 'yesterday' })).toThrow('onset must be a date');
+      expect(check({ rhythm: 'fast' })).toThrow('rhythm must be one of regular, irregular');
+      expect(check({ symptoms: 'palpitations' })).toThrow('symptoms must be a list of');
+      expect(check({ symptoms: ['fever'] })).toThrow('symptoms must be a list of');
+      expect(check({ summary: 42 })).toThrow('summary must be text');
+    });
+
+    it('should check the bounds of number answers', () => {
+      expect(() => validateTemplateAnswers(fields, { summary: 'Stable', systolic: 40 })).toThrow(
+        'systolic must be at least 50'
+      );
+      expect(() => validateTemplateAnswers(fields, { summary: 'Stable', systolic: 300 })).toThrow(
+        'systolic must be at most 250'
+      );
+      expect(validateTemplateAnswers(fields, { summary: 'Stable', systolic: 250 })).toEqual({
+        summary: 'Stable',
+        systolic: 250,
+      });
+    });
+
+    it('should only take an object of answers', () => {
+      expect(() => validateTemplateAnswers(fields, ['Stable'])).toThrow(
+        'Invalid answers: they must be an object'
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { Types } from 'mongoose';
+
+import { BookingLock } from '../../../src/models/BookingLock';
+import { bookingLockService } from '../../../src/services/bookingLockService';
+
+describe('BookingLockService', () => {
+  const specialistId = new Types.ObjectId().toString();
+
+  it('should run callers for the same specialist one at a time', async () => {
+    const events: string[] = [];
+    const task = (name: string) =>
+      bookingLockService.withSpecialistLock(specialistId, async () => {
+        events.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        events.push(`${name}:end`);
+      });
+
+    await Promise.all([task('a'), task('b')]);
+
+    expect(events[1]).toBe(`${events[0].split(':')[0]}:end`);
+    expect(events[3]).toBe(`${events[2].split(':')[0]}:end`);
+  });
+
+  it('should not block callers for different specialists', async () => {
+    const otherId = new Types.ObjectId().toString();
+
+    await bookingLockService.withSpecialistLock(specialistId, async () => {
+      const result = await bookingLockService.withSpecialistLock(otherId, async () => 'done');
+      expect(result).toBe('done');
+    });
+  });
+
+  it('should release the lock when the callback throws', async () => {
+    await expect(
+      bookingLockService.withSpecialistLock(specialistId, async () => {
+        throw new Error('Time slot is already booked');
+      })
+    ).rejects.toThrow('Time slot is already booked');
+
+    expect(await BookingLock.findById(specialistId)).toBeNull();
+  });
+
+  it('should take over an expired lock', async () => {
+    await BookingLock.create({
+      _id: specialistId,
+      token: 'crashed-request',
+      expiresAt: new Date(Date.now() - 1000),
+    });
+
+    const result = await bookingLockService.withSpecialistLock(specialistId, async () => 'ok');
+    expect(result).toBe('ok');
+  });
+});
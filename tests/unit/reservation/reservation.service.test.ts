@@ -271,6 +271,109 @@ describe('ReservationService Tests', () => {
     });
   });
 
+  describe('status transitions', () => {
+    const createReservation = (status: string, startDate: Date) =>
+      Reservation.create({
+        user: user._id,
+        business: business._id,
+        specialist: specialist._id,
+        service: service._id,
+        startDate,
+        endDate: new Date(startDate.getTime() + 60 * 60000),
+        status,
+      });
+
+    it('should let an admin mark a started reservation as no-show', async () => {
+      const created = await createReservation('confirmed', new Date(Date.now() - 10 * 60000));
+
+      const updated = await reservationService.updateReservationStatus(
+        created._id.toString(),
+        new mongoose.Types.ObjectId().toString(),
+        'admin',
+        { status: 'no-show' }
+      );
+
+      expect(updated?.status).toBe('no-show');
+    });
+
+    it('should not let a client confirm their own reservation', async () => {
+      const created = await createReservation('pending', new Date(Date.now() + 60 * 60000));
+
+      await expect(
+        reservationService.updateReservationStatus(
+          created._id.toString(),
+          user._id.toString(),
+          'client',
+          {
+            status: 'confirmed',
+          }
+        )
+      ).rejects.toThrow('Clients can only cancel reservations');
+    });
+
+    it('should not cancel a reservation that has already ended', async () => {
+      const created = await createReservation('confirmed', new Date(Date.now() - 3 * 60 * 60000));
+
+      await expect(
+        reservationService.updateReservationStatus(
+          created._id.toString(),
+          user._id.toString(),
+          'client',
+          {
+            status: 'cancelled',
+          }
+        )
+      ).rejects.toThrow('after it has ended');
+    });
+
+    it('should treat final statuses as final', async () => {
+      const created = await createReservation('no-show', new Date(Date.now() - 10 * 60000));
+
+      await expect(
+        reservationService.updateReservationStatus(
+          created._id.toString(),
+          new mongoose.Types.ObjectId().toString(),
+          'admin',
+          { status: 'completed' }
+        )
+      ).rejects.toThrow('Cannot change reservation status from no-show to completed');
+    });
+  });
+
+  describe('createReservationSeries', () => {
+    it('should keep the local time across daylight saving changes', async () => {
+      business.timezone = 'America/New_York';
+      await business.save();
+
+      const { reservations } = await reservationService.createReservationSeries({
+        userId: user._id.toString(),
+        businessId: business._id.toString(),
+        specialistId: specialist._id.toString(),
+        serviceId: service._id.toString(),
+        startDate: new Date('2030-10-28T14:00:00.000Z'), // 10:00 EDT
+        frequency: 'weekly',
+        count: 2,
+      });
+
+      // 10:00 EST after clocks go back on November 3
+      expect(reservations[1].startDate.toISOString()).toBe('2030-11-04T15:00:00.000Z');
+    });
+
+    it('should cap a series at 52 occurrences', async () => {
+      const { reservations } = await reservationService.createReservationSeries({
+        userId: user._id.toString(),
+        businessId: business._id.toString(),
+        specialistId: specialist._id.toString(),
+        serviceId: service._id.toString(),
+        startDate: new Date('2030-01-07T10:00:00.000Z'),
+        frequency: 'weekly',
+        until: '2035-01-01',
+      });
+
+      expect(reservations).toHaveLength(52);
+    });
+  });
+
   describe('checkAvailability', () => {
     it('should return service duration and booked slots', async () => {
       const startDate = new Date();
@@ -197,6 +197,69 @@ describe('Service Model Tests', () => {
 
       await expect(Service.create(serviceData)).rejects.toThrow();
     });
+
+    it('should default buffers to zero and leave slot interval unset', async () => {
+      const service = await Service.create({
+        business: testBusiness._id,
+        name: 'Service',
+        duration: 45,
+        price: 50,
+      });
+
+      expect(service.bufferBefore).toBe(0);
+      expect(service.bufferAfter).toBe(0);
+      expect(service.slotInterval).toBeUndefined();
+      expect(service.capacity).toBe(1);
+      expect(service.attendanceMode).toBe('in_person');
+    });
+
+    it('should fail with an unknown attendance mode', async () => {
+      const serviceData = {
+        business: testBusiness._id,
+        name: 'Consultation',
+        duration: 30,
+        price: 50,
+        attendanceMode: 'phone',
+      };
+
+      await expect(Service.create(serviceData)).rejects.toThrow();
+    });
+
+    it('should fail with capacity below one', async () => {
+      const serviceData = {
+        business: testBusiness._id,
+        name: 'Yoga Class',
+        duration: 60,
+        price: 20,
+        capacity: 0,
+      };
+
+      await expect(Service.create(serviceData)).rejects.toThrow();
+    });
+
+    it('should fail with buffer too long', async () => {
+      const serviceData = {
+        business: testBusiness._id,
+        name: 'Service',
+        duration: 30,
+        price: 50,
+        bufferAfter: 121, // Too long
+      };
+
+      await expect(Service.create(serviceData)).rejects.toThrow();
+    });
+
+    it('should fail with slot interval too short', async () => {
+      const serviceData = {
+        business: testBusiness._id,
+        name: 'Service',
+        duration: 30,
+        price: 50,
+        slotInterval: 1, // Too short
+      };
+
+      await expect(Service.create(serviceData)).rejects.toThrow();
+    });
   });
 
   describe('Service Updates', () => {
@@ -235,6 +235,73 @@ describe('Specialist Model Tests', () => {
       expect(specialist.availability[0].isAvailable).toBe(true);
     });
 
+    it('should allow several blocks on the same day with breaks', async () => {
+      const specialist = await Specialist.create({
+        user: specialistUser._id,
+        business: testBusiness._id,
+        specialty: 'Therapy',
+        availability: [
+          {
+            day: 'monday',
+            startTime: '09:00',
+            endTime: '13:00',
+            breaks: [{ startTime: '11:00', endTime: '11:15' }],
+          },
+          { day: 'monday', startTime: '15:00', endTime: '19:00' },
+        ],
+      });
+
+      expect(specialist.availability).toHaveLength(2);
+      expect(specialist.availability[0].breaks?.[0].startTime).toBe('11:00');
+    });
+
+    it('should fail with overlapping blocks on the same day', async () => {
+      const specialistData = {
+        user: specialistUser._id,
+        business: testBusiness._id,
+        specialty: 'Therapy',
+        availability: [
+          { day: 'monday', startTime: '09:00', endTime: '13:00' },
+          { day: 'monday', startTime: '12:00', endTime: '16:00' },
+        ],
+      };
+
+      await expect(Specialist.create(specialistData)).rejects.toThrow(
+        'Working blocks on the same day cannot overlap'
+      );
+    });
+
+    it('should fail when a block ends before it starts', async () => {
+      const specialistData = {
+        user: specialistUser._id,
+        business: testBusiness._id,
+        specialty: 'Therapy',
+        availability: [{ day: 'monday', startTime: '17:00', endTime: '09:00' }],
+      };
+
+      await expect(Specialist.create(specialistData)).rejects.toThrow();
+    });
+
+    it('should fail with a break outside its block', async () => {
+      const specialistData = {
+        user: specialistUser._id,
+        business: testBusiness._id,
+        specialty: 'Therapy',
+        availability: [
+          {
+            day: 'monday',
+            startTime: '09:00',
+            endTime: '13:00',
+            breaks: [{ startTime: '13:30', endTime: '14:00' }],
+          },
+        ],
+      };
+
+      await expect(Specialist.create(specialistData)).rejects.toThrow(
+        'Breaks must fall inside the working block'
+      );
+    });
+
     it('should allow setting isAvailable to false', async () => {
       const specialistData = {
         user: specialistUser._id,
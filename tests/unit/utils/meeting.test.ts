@@ -0,0 +1,67 @@
+import { config } from '../../../src/config';
+import {
+  meetingService,
+  LocalMeetingProvider,
+  JitsiMeetingProvider,
+  MeetingLinkProvider,
+} from '../../../src/utils/meeting';
+
+describe('Meeting links', () => {
+  const details = {
+    reservationId: '507f1f77bcf86cd799439011',
+    title: 'Online Consultation',
+    startDate: new Date('2030-12-02T10:00:00.000Z'),
+    endDate: new Date('2030-12-02T11:00:00.000Z'),
+  };
+
+  afterEach(() => {
+    meetingService.setProvider(new LocalMeetingProvider());
+  });
+
+  describe('LocalMeetingProvider', () => {
+    it('should always return the same link for a reservation', async () => {
+      const provider = new LocalMeetingProvider();
+
+      const first = await provider.createLink(details);
+      const second = await provider.createLink(details);
+
+      expect(first).toEqual(second);
+      expect(first.url).toBe(`${config.app.frontendUrl}/meetings/${details.reservationId}`);
+      expect(first.provider).toBe('local');
+    });
+  });
+
+  describe('JitsiMeetingProvider', () => {
+    it('should create a different room for each meeting', async () => {
+      const provider = new JitsiMeetingProvider();
+
+      const first = await provider.createLink();
+      const second = await provider.createLink();
+
+      expect(first.url).toMatch(/\/c3m-[0-9a-f]{24}$/);
+      expect(first.url.startsWith(config.meeting.jitsiBaseUrl)).toBe(true);
+      expect(first.url).not.toBe(second.url);
+    });
+  });
+
+  describe('meetingService', () => {
+    it('should use the local provider by default', async () => {
+      const link = await meetingService.createLink(details);
+      expect(link.provider).toBe('local');
+    });
+
+    it('should use a registered provider', async () => {
+      const custom: MeetingLinkProvider = {
+        name: 'custom',
+        createLink: async ({ reservationId }) => ({
+          url: `https://video.example.com/${reservationId}`,
+          provider: 'custom',
+        }),
+      };
+      meetingService.setProvider(custom);
+
+      const link = await meetingService.createLink(details);
+      expect(link.url).toBe(`https://video.example.com/${details.reservationId}`);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { config } from '../../../src/config';
+import { FakePaymentProvider, assertPaymentConfig } from '../../../src/utils/payment';
+
+describe('FakePaymentProvider', () => {
+  const provider = new FakePaymentProvider();
+
+  beforeEach(() => {
+    config.payment.webhookSecret = 'secret';
+  });
+
+  afterEach(() => {
+    config.payment.webhookSecret = undefined;
+  });
+
+  it('should create a checkout for each payment', async () => {
+    const request = {
+      paymentId: '507f1f77bcf86cd799439011',
+      amount: 30,
+      currency: 'USD',
+      description: 'Consultation',
+    };
+
+    const first = await provider.createCheckout(request);
+    const second = await provider.createCheckout(request);
+
+    expect(first.providerPaymentId).toMatch(/^fake_pay_[0-9a-f]{24}$/);
+    expect(first.providerPaymentId).not.toBe(second.providerPaymentId);
+    expect(first.checkoutUrl).toContain(`/payments/${request.paymentId}`);
+  });
+
+  it('should read webhook events', () => {
+    const failed = { type: 'payment.failed', paymentId: 'fake_pay_1', reason: 'Declined' };
+    expect(provider.parseEvent(failed, provider.sign(failed))).toEqual({
+      type: 'payment.failed',
+      providerPaymentId: 'fake_pay_1',
+      failureReason: 'Declined',
+    });
+
+    const unknown = { type: 'charge.created', paymentId: 'fake_pay_1' };
+    expect(() => provider.parseEvent(unknown, provider.sign(unknown))).toThrow(
+      'Invalid payment event'
+    );
+  });
+
+  it('should require a valid signature', () => {
+    const body = { type: 'payment.succeeded', paymentId: 'fake_pay_1' };
+
+    expect(() => provider.parseEvent(body)).toThrow('Invalid payment signature');
+    expect(() => provider.parseEvent(body, 'forged')).toThrow('Invalid payment signature');
+    expect(provider.parseEvent(body, provider.sign(body)).type).toBe('payment.succeeded');
+  });
+
+  it('should reject every event when no webhook secret is set', () => {
+    const body = { type: 'payment.succeeded', paymentId: 'fake_pay_1' };
+    const signature = provider.sign(body);
+    config.payment.webhookSecret = undefined;
+
+    expect(() => provider.parseEvent(body, signature)).toThrow('no webhook secret is configured');
+  });
+});
+
+describe('assertPaymentConfig', () => {
+  it('should reject production payments with the fake provider or without a webhook secret', () => {
+    expect(() => assertPaymentConfig('production', 'fake', 'secret')).toThrow(
+      'PAYMENT_PROVIDER cannot be fake in production'
+    );
+    expect(() => assertPaymentConfig('production', 'stripe', undefined)).toThrow(
+      'PAYMENT_WEBHOOK_SECRET is required in production'
+    );
+    expect(() => assertPaymentConfig('production', 'stripe', 'secret')).not.toThrow();
+  });
+
+  it('should allow the fake provider outside production', () => {
+    expect(() => assertPaymentConfig('development', 'fake', undefined)).not.toThrow();
+  });
+});
+
+describe('Production with the default payment provider', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  afterEach(() => {
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  it('should load the API and only reject payments', async () => {
+    process.env.NODE_ENV = 'production';
+
+    let gateway: typeof import('../../../src/utils/payment').paymentGateway | undefined;
+    jest.isolateModules(() => {
+      require('../../../src/routes/index');
+      gateway = require('../../../src/utils/payment').paymentGateway;
+    });
+
+    await expect(
+      gateway!.createCheckout({
+        paymentId: '507f1f77bcf86cd799439011',
+        amount: 30,
+        currency: 'USD',
+        description: 'Consultation',
+      })
+    ).rejects.toThrow('Payments are unavailable');
+    expect(() => gateway!.parseEvent({})).toThrow('Payments are unavailable');
+  });
+});
@@ -0,0 +1,44 @@
+import { renderPdf, PDF_PAGE_HEIGHT } from '../../../src/utils/pdf';
+
+describe('PDF Utils', () => {
+  describe('renderPdf', () => {
+    it('should write a single-page PDF document', () => {
+      const pdf = renderPdf({ texts: [{ text: 'Hello', x: 50, y: 60 }], title: 'Test' }).toString(
+        'latin1'
+      );
+
+      expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+      expect(pdf.endsWith('%%EOF\n')).toBe(true);
+      expect(pdf).toContain('/Count 1');
+      expect(pdf).toContain(`BT /F1 10 Tf 50 ${PDF_PAGE_HEIGHT - 60} Td (Hello) Tj ET`);
+      expect(pdf).toContain('/Title (Test)');
+    });
+
+    it('should point the cross-reference table at each object', () => {
+      const pdf = renderPdf({
+        texts: [{ text: 'Total', x: 400, y: 100, bold: true, size: 12 }],
+        lines: [{ x1: 50, y1: 80, x2: 545, y2: 80 }],
+      }).toString('latin1');
+
+      const xrefOffset = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+      expect(pdf.slice(xrefOffset).startsWith('xref')).toBe(true);
+
+      const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) =>
+        parseInt(match[1], 10)
+      );
+      offsets.forEach((offset, index) => {
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+    });
+
+    it('should escape special characters and keep accents', () => {
+      const pdf = renderPdf({
+        texts: [{ text: 'Consulta (1) \\ Cédula €', x: 50, y: 60 }],
+      });
+
+      const content = pdf.toString('latin1');
+      expect(content).toContain('(Consulta \\(1\\) \\\\ Cédula ?) Tj');
+      expect(pdf.includes(Buffer.from('é', 'latin1'))).toBe(true);
+    });
+  });
+});
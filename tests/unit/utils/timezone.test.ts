@@ -0,0 +1,80 @@
+import {
+  addZonedDays,
+  getDayName,
+  getZonedDayBounds,
+  isValidTimeZone,
+  toDateKey,
+  zonedTimeToUtc,
+} from '../../../src/utils/timezone';
+
+describe('Timezone Utils Tests', () => {
+  describe('isValidTimeZone', () => {
+    it('should accept IANA timezones', () => {
+      expect(isValidTimeZone('America/Guayaquil')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+    });
+
+    it('should reject unknown timezones', () => {
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert a wall-clock time to UTC', () => {
+      const result = zonedTimeToUtc('2025-11-24', '09:00', 'America/Guayaquil');
+
+      expect(result.toISOString()).toBe('2025-11-24T14:00:00.000Z');
+    });
+
+    it('should use the daylight saving offset after the spring transition', () => {
+      const before = zonedTimeToUtc('2025-03-08', '09:00', 'America/New_York');
+      const after = zonedTimeToUtc('2025-03-09', '09:00', 'America/New_York');
+
+      expect(before.toISOString()).toBe('2025-03-08T14:00:00.000Z');
+      expect(after.toISOString()).toBe('2025-03-09T13:00:00.000Z');
+    });
+
+    it('should resolve times skipped by DST to the instant after the jump', () => {
+      const result = zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York');
+
+      expect(result.toISOString()).toBe('2025-03-09T07:30:00.000Z');
+    });
+  });
+
+  describe('getZonedDayBounds', () => {
+    it('should return a 23 hour day on the spring transition', () => {
+      const { start, end } = getZonedDayBounds('2025-03-09', 'America/New_York');
+
+      expect((end.getTime() - start.getTime()) / 3600000).toBe(23);
+    });
+
+    it('should return a 25 hour day on the fall transition', () => {
+      const { start, end } = getZonedDayBounds('2025-11-02', 'America/New_York');
+
+      expect((end.getTime() - start.getTime()) / 3600000).toBe(25);
+    });
+  });
+
+  describe('toDateKey and getDayName', () => {
+    it('should return the calendar day in the given zone', () => {
+      const date = new Date('2025-11-25T03:00:00.000Z');
+
+      expect(toDateKey(date, 'UTC')).toBe('2025-11-25');
+      expect(toDateKey(date, 'America/Guayaquil')).toBe('2025-11-24');
+    });
+
+    it('should return the weekday of a date key', () => {
+      expect(getDayName('2025-11-24')).toBe('monday');
+    });
+  });
+
+  describe('addZonedDays', () => {
+    it('should keep the wall-clock time across a DST change', () => {
+      const appointment = new Date('2025-03-10T13:00:00.000Z'); // 09:00 EDT
+
+      const dayBefore = addZonedDays(appointment, -1, 'America/New_York');
+
+      expect(dayBefore.toISOString()).toBe('2025-03-09T13:00:00.000Z'); // 09:00 EDT
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  calculateBmi,
+  flagVitalSign,
+  parseBloodPressure,
+  resolveVitalSignThresholds,
+} from '../../../src/utils/vitalSigns';
+
+describe('Vital Signs Utils Tests', () => {
+  describe('parseBloodPressure', () => {
+    it('should split systolic and diastolic values', () => {
+      expect(parseBloodPressure('120/80')).toEqual({ systolic: 120, diastolic: 80 });
+      expect(parseBloodPressure(' 145/95 ')).toEqual({ systolic: 145, diastolic: 95 });
+    });
+
+    it('should ignore missing or malformed readings', () => {
+      expect(parseBloodPressure(undefined)).toBeNull();
+      expect(parseBloodPressure('120-80')).toBeNull();
+      expect(parseBloodPressure('1200/80')).toBeNull();
+    });
+  });
+
+  describe('calculateBmi', () => {
+    it('should calculate the BMI from kg and cm', () => {
+      expect(calculateBmi(70, 175)).toBe(22.86);
+    });
+  });
+
+  describe('flagVitalSign', () => {
+    it('should flag values outside the range', () => {
+      expect(flagVitalSign(50, { min: 60, max: 100 })).toBe('low');
+      expect(flagVitalSign(110, { min: 60, max: 100 })).toBe('high');
+      expect(flagVitalSign(80, { min: 60, max: 100 })).toBeUndefined();
+    });
+
+    it('should only check the bounds that are set', () => {
+      expect(flagVitalSign(200, { min: 60 })).toBeUndefined();
+      expect(flagVitalSign(200)).toBeUndefined();
+    });
+  });
+
+  describe('resolveVitalSignThresholds', () => {
+    it('should use the reference ranges by default', () => {
+      const thresholds = resolveVitalSignThresholds();
+
+      expect(thresholds.systolic).toEqual({ min: 90, max: 140 });
+      expect(thresholds.weight).toBeUndefined();
+    });
+
+    it('should override each bound separately', () => {
+      const thresholds = resolveVitalSignThresholds({
+        systolic: { max: 130 },
+        weight: { max: 120 },
+      });
+
+      expect(thresholds.systolic).toEqual({ min: 90, max: 130 });
+      expect(thresholds.weight).toEqual({ max: 120 });
+      expect(thresholds.heartRate).toEqual({ min: 60, max: 100 });
+    });
+  });
+});